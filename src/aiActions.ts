@@ -0,0 +1,171 @@
+import { AIProfile, ForwardHistory, Route, RouteAIActions, RouteSource } from './db';
+import { askModelJson } from './llm';
+import { aiProfiles, recordAIUsage, DEFAULT_AI_MODEL } from './aiProfiles';
+import { DetectedLanguage, detectLanguage, isTargetLanguage } from './languageDetection';
+
+/**
+ * Structured answer to the actions prompt; fields are only present for the actions a route enables
+ */
+export interface AIVerdict {
+    skip?: boolean;
+    reason?: string;
+    summary?: string[];
+    topics?: string[];
+    headline?: string;
+}
+
+/**
+ * Text a route forwards after AI processing, or why it forwards nothing
+ */
+export interface RouteAIResult {
+    text: string;
+    skipReason?: string;
+}
+
+export function hasAIActions(actions?: RouteAIActions): boolean {
+    return !!actions && !!(actions.summarize || actions.classify?.topics.length || actions.headline || actions.skip);
+}
+
+/**
+ * Prompt asking for a JSON object with one field per enabled action
+ */
+export function buildActionsPrompt(actions: RouteAIActions, text: string, targetLanguage?: string): string {
+    const fields: string[] = [];
+    if (actions.skip) {
+        const criteria = actions.skip.criteria ? `, or ${actions.skip.criteria}` : '';
+        fields.push(`"skip": true if the message is spam or an advertisement${criteria}; otherwise false`);
+        fields.push('"reason": a few words on why, when skip is true');
+    }
+    if (actions.summarize) {
+        fields.push(`"summary": an array of at most ${actions.summarize.bullets} short bullet points summarizing the message, without bullet characters`);
+    }
+    if (actions.classify) {
+        fields.push(`"topics": an array with the topics from this list that apply (possibly empty): ${JSON.stringify(actions.classify.topics)}`);
+    }
+    if (actions.headline) {
+        fields.push('"headline": one short headline for the message');
+    }
+
+    const language = targetLanguage || 'the language of the message';
+    return [
+        'You review messages forwarded between chat channels. Reply with a single JSON object and nothing else, with these fields:',
+        ...fields.map(field => `- ${field}`),
+        ...(actions.summarize || actions.headline ? [`Write the summary and headline in ${language}.`] : []),
+        '',
+        'Message:',
+        text
+    ].join('\n');
+}
+
+/**
+ * Keep only well-typed answers to the actions a route enables; topics must come from the route's list
+ */
+export function parseVerdict(raw: any, actions: RouteAIActions): AIVerdict {
+    const verdict: AIVerdict = {};
+    if (actions.skip && typeof raw.skip === 'boolean') {
+        verdict.skip = raw.skip;
+        if (typeof raw.reason === 'string' && raw.reason.trim()) verdict.reason = raw.reason.trim();
+    }
+    if (actions.summarize && Array.isArray(raw.summary)) {
+        verdict.summary = raw.summary
+            .filter((point: unknown) => typeof point === 'string' && point.trim())
+            .map((point: string) => point.trim().replace(/^[-•*]\s*/, ''))
+            .slice(0, actions.summarize.bullets);
+    }
+    if (actions.classify && Array.isArray(raw.topics)) {
+        const allowed = new Map(actions.classify.topics.map(topic => [topic.toLowerCase(), topic]));
+        verdict.topics = Array.from(new Set(raw.topics
+            .filter((topic: unknown) => typeof topic === 'string')
+            .map((topic: string) => allowed.get(topic.trim().toLowerCase()))
+            .filter((topic: string | undefined): topic is string => !!topic)));
+    }
+    if (actions.headline && typeof raw.headline === 'string' && raw.headline.trim()) {
+        verdict.headline = raw.headline.trim();
+    }
+    return verdict;
+}
+
+/**
+ * Topic tags, headline and body, one per line; empty parts are left out
+ */
+export function composeText(body: string, verdict: AIVerdict): string {
+    const tags = (verdict.topics || []).map(topic => `#${topic.replace(/\s+/g, '_')}`).join(' ');
+    const headline = verdict.headline ? `*${verdict.headline}*` : '';
+    return [tags, headline, body].filter(part => part).join('\n');
+}
+
+async function translate(
+    text: string,
+    profile: AIProfile | null,
+    detected: DetectedLanguage | null,
+    routeId?: string,
+    history?: ForwardHistory
+): Promise<string> {
+    if (!profile) return text;
+    if (detected && profile.targetLanguage && isTargetLanguage(detected, profile.targetLanguage)) {
+        console.log(`[AI] Message is already in ${detected.name}; skipping translation with profile ${profile.name}`);
+        return text;
+    }
+    console.log(`[AI] Processing message with profile ${profile.name}...`);
+    const startedAt = Date.now();
+    const processed = await aiProfiles.process(text, profile, routeId);
+    if (history) recordAIUsage(history, profile.model, profile.id, processed !== text, Date.now() - startedAt);
+    return processed;
+}
+
+async function askVerdict(text: string, actions: RouteAIActions, profile: AIProfile | null, routeId?: string, history?: ForwardHistory): Promise<AIVerdict | null> {
+    const model = profile?.model || DEFAULT_AI_MODEL;
+    const startedAt = Date.now();
+    // Verdicts should be repeatable, so they don't use the profile's temperature
+    const raw = await askModelJson(buildActionsPrompt(actions, text, profile?.targetLanguage), model, 0.0, { providerId: profile?.providerId, routeId });
+    if (history) recordAIUsage(history, model, profile?.id, false, Date.now() - startedAt);
+    if (!raw) {
+        console.warn('[AI] No usable JSON verdict; forwarding without AI actions');
+        return null;
+    }
+    return parseVerdict(raw, actions);
+}
+
+/**
+ * Process a message text for one route: its AI actions in one JSON call, then translation with its AI profile
+ * unless the text is already in the profile's target language.
+ * A summary replaces the translated body, since it is already written in the profile's target language.
+ * Results are kept in `results` so routes with the same profile and actions share the model calls.
+ */
+export async function processRouteText(
+    text: string,
+    source: Pick<RouteSource, 'platform' | 'id'>,
+    route: Route | undefined,
+    results: Map<string, RouteAIResult>,
+    history?: ForwardHistory
+): Promise<RouteAIResult> {
+    const detected = detectLanguage(text);
+    if (history && detected) history.language = detected.code;
+
+    const profile = aiProfiles.resolve(source, route);
+    const actions = hasAIActions(route?.aiActions) ? route?.aiActions : undefined;
+    const key = `${profile?.id || ''}|${JSON.stringify(actions || {})}`;
+    const cached = results.get(key);
+    if (cached) return cached;
+
+    let result: RouteAIResult;
+    if (!text) {
+        result = { text };
+    } else if (!actions) {
+        result = { text: await translate(text, profile, detected, route?.id, history) };
+    } else {
+        const verdict = await askVerdict(text, actions, profile, route?.id, history) || {};
+        if (verdict.skip) {
+            result = { text, skipReason: verdict.reason || 'AI skip verdict' };
+        } else {
+            const summarize = actions.summarize && text.length >= actions.summarize.minLength && verdict.summary?.length;
+            const body = summarize
+                ? (verdict.summary as string[]).map(point => `• ${point}`).join('\n')
+                : await translate(text, profile, detected, route?.id, history);
+            result = { text: composeText(body, verdict) };
+        }
+    }
+
+    results.set(key, result);
+    return result;
+}
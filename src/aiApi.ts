@@ -1,205 +1,486 @@
 import express from 'express';
-import { database } from './db';
-import { askModel } from './openRouter';
+import {
+    AIProfile,
+    saveAIProfile,
+    updateAIProfile,
+    setDefaultAIProfile,
+    getAIProfile,
+    getAllAIProfiles,
+    deleteAIProfile,
+    getAIUsage
+} from './db';
+import { askModel, isProviderSuspended } from './llm';
+import { llmProviders, validateLLMProviderId } from './llmProviders';
+import { configManager } from './configManager';
+import { aiProfiles, buildAIPrompt, DEFAULT_AI_MODEL, NO_AI_PROFILE } from './aiProfiles';
+import { routeEngine, normalizeTelegramId } from './routeEngine';
+import { aiUsage, groupUsage, sumUsage, usageDay } from './aiUsage';
 
 const router = express.Router();
 
-export interface SystemPrompt {
-    id: string;
-    prompt: string;
-    model?: string;
-    temperature?: number;
+const SOURCE_PLATFORMS = ['telegram', 'whatsapp', 'twitter'];
+
+// What GET /system-prompt returned before any prompt was saved
+const LEGACY_DEFAULT_PROMPT = 'You are a helpful assistant that translates and processes messages. Translate the following message while maintaining its original meaning and tone:';
+
+type ProfileFields = Partial<Omit<AIProfile, 'id' | 'createdAt' | 'lastModified'>>;
+
+/**
+ * Check the fields of a new or updated profile
+ * @param isNew New profiles need a name and a prompt
+ * @returns The fields to store, or an error message
+ */
+function validateProfile(body: any, isNew: boolean): ProfileFields | string {
+    const fields: ProfileFields = {};
+
+    if (body.name !== undefined || isNew) {
+        if (typeof body.name !== 'string' || !body.name.trim()) {
+            return 'name is required';
+        }
+        fields.name = body.name.trim();
+    }
+    if (body.prompt !== undefined || isNew) {
+        if (typeof body.prompt !== 'string' || !body.prompt.trim()) {
+            return 'prompt is required';
+        }
+        fields.prompt = body.prompt;
+    }
+    if (body.providerId !== undefined) {
+        if (body.providerId !== null && (typeof body.providerId !== 'string' || !llmProviders.has(body.providerId))) {
+            return `unknown LLM provider: ${body.providerId}`;
+        }
+        fields.providerId = body.providerId || undefined;
+    }
+    if (body.model !== undefined) {
+        if (typeof body.model !== 'string' || !body.model.trim()) {
+            return 'model must be a non-empty string';
+        }
+        fields.model = body.model.trim();
+    }
+    if (body.temperature !== undefined) {
+        if (typeof body.temperature !== 'number' || body.temperature < 0 || body.temperature > 2) {
+            return 'Temperature must be between 0 and 2';
+        }
+        fields.temperature = body.temperature;
+    }
+    if (body.targetLanguage !== undefined) {
+        if (body.targetLanguage !== null && typeof body.targetLanguage !== 'string') {
+            return 'targetLanguage must be a string or null';
+        }
+        fields.targetLanguage = body.targetLanguage ? body.targetLanguage.trim() : undefined;
+    }
+    if (body.sources !== undefined) {
+        if (!Array.isArray(body.sources)) {
+            return 'sources must be an array';
+        }
+        for (const source of body.sources) {
+            if (!source || !SOURCE_PLATFORMS.includes(source.platform) || typeof source.id !== 'string' || !source.id.trim()) {
+                return `each source needs a platform (${SOURCE_PLATFORMS.join(', ')}) and an id`;
+            }
+        }
+        fields.sources = body.sources.map((source: any) => ({
+            platform: source.platform,
+            id: source.platform === 'telegram' ? normalizeTelegramId(source.id.trim()) : source.id.trim()
+        }));
+    }
+    if (body.isDefault !== undefined) {
+        if (typeof body.isDefault !== 'boolean') {
+            return 'isDefault must be a boolean';
+        }
+        fields.isDefault = body.isDefault;
+    }
+
+    return fields;
 }
 
 /**
- * Get the current system prompt and settings
+ * Another profile that already uses one of the sources, as an error message
  */
-router.get('/system-prompt', async (req, res) => {
-    try {
-        const dbResult = await database('system_prompts');
-        if (!dbResult) {
-            return res.status(500).json({
-                success: false,
-                message: 'Database connection failed'
-            });
+function findSourceConflict(sources: AIProfile['sources'], profileId?: string): string | null {
+    for (const source of sources || []) {
+        const owner = aiProfiles.getProfiles().find(profile =>
+            profile.id !== profileId &&
+            (profile.sources || []).some(s => s.platform === source.platform && s.id === source.id)
+        );
+        if (owner) {
+            return `${source.platform} source ${source.id} already uses AI profile ${owner.name}`;
         }
+    }
+    return null;
+}
 
-        const { conn, coll } = dbResult;
-        
-        try {
-            const prompt = await coll.findOne({});
-            
-            if (!prompt) {
-                // Return default prompt if none exists
-                const defaultPrompt = {
-                    id: 'main',
-                    prompt: 'You are a helpful assistant that translates and processes messages. Translate the following message while maintaining its original meaning and tone:',
-                    model: 'anthropic/claude-3.5-sonnet',
-                    temperature: 0.0
-                };
-                
-                return res.json({
-                    success: true,
-                    message: 'System prompt retrieved successfully',
-                    prompt: defaultPrompt
-                });
-            }
-            
-            res.json({
-                success: true,
-                message: 'System prompt retrieved successfully',
-                prompt: prompt
-            });
-        } finally {
-            await conn.close();
+/**
+ * Get all AI profiles
+ */
+router.get('/profiles', async (req, res) => {
+    try {
+        const profiles = await getAllAIProfiles();
+        res.json({ success: true, profiles });
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: 'Error retrieving AI profiles', error: error.message });
+    }
+});
+
+/**
+ * Get a specific AI profile by ID
+ */
+router.get('/profiles/:id', async (req, res) => {
+    try {
+        const profile = await getAIProfile(req.params.id);
+        if (!profile) {
+            return res.status(404).json({ success: false, message: 'AI profile not found' });
         }
+        res.json({ success: true, profile });
     } catch (error: any) {
-        res.status(500).json({
-            success: false,
-            message: 'Error retrieving system prompt',
-            error: error.message
-        });
+        res.status(500).json({ success: false, message: 'Error retrieving AI profile', error: error.message });
     }
 });
 
 /**
- * Update the system prompt
+ * Create an AI profile
  */
-router.put('/system-prompt', async (req, res) => {
+router.post('/profiles', async (req, res) => {
     try {
-        const { prompt } = req.body;
+        const fields = validateProfile(req.body, true);
+        if (typeof fields === 'string') {
+            return res.status(400).json({ success: false, message: fields });
+        }
+        const conflict = findSourceConflict(fields.sources);
+        if (conflict) {
+            return res.status(400).json({ success: false, message: conflict });
+        }
 
-        const dbResult = await database('system_prompts');
-        if (!dbResult) {
-            return res.status(500).json({
-                success: false,
-                message: 'Database connection failed'
-            });
+        const profile = await saveAIProfile({
+            name: fields.name as string,
+            prompt: fields.prompt as string,
+            providerId: fields.providerId,
+            model: fields.model || DEFAULT_AI_MODEL,
+            temperature: fields.temperature ?? 0.0,
+            targetLanguage: fields.targetLanguage,
+            sources: fields.sources || [],
+            isDefault: false
+        });
+        if (!profile) {
+            return res.status(500).json({ success: false, message: 'Failed to save AI profile' });
+        }
+        if (fields.isDefault && !(await setDefaultAIProfile(profile.id))) {
+            return res.status(500).json({ success: false, message: 'Failed to make the AI profile the default' });
         }
 
-        const { conn, coll } = dbResult;
-        
-        try {
-            // Check if a prompt already exists
-            const existingPrompt = await coll.findOne({});
-            
-            const promptData: SystemPrompt = {
-                id: 'main',
-                prompt: prompt,
-                model: 'anthropic/claude-3.5-sonnet',
-                temperature: 0.0
-            };
-
-            if (existingPrompt) {
-                // Update existing prompt, preserve model and temperature
-                await coll.updateOne(
-                    {},
-                    { $set: { ...promptData, model: existingPrompt.model || 'anthropic/claude-3.5-sonnet', temperature: existingPrompt.temperature || 0.0 } }
-                );
-            } else {
-                // Create new prompt with defaults
-                promptData.model = 'anthropic/claude-3.5-sonnet';
-                promptData.temperature = 0.0;
-                await coll.insertOne(promptData);
-            }
+        await aiProfiles.reload();
+        res.json({ success: true, message: 'AI profile created successfully', profile: aiProfiles.get(profile.id) || profile });
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: 'Error creating AI profile', error: error.message });
+    }
+});
 
-            const updatedPrompt = await coll.findOne({});
-            
-            res.json({
-                success: true,
-                message: 'System prompt updated successfully',
-                prompt: updatedPrompt
-            });
-        } finally {
-            await conn.close();
+/**
+ * Update an AI profile. Setting isDefault clears it on the previous default profile.
+ */
+router.put('/profiles/:id', async (req, res) => {
+    try {
+        const profile = await getAIProfile(req.params.id);
+        if (!profile) {
+            return res.status(404).json({ success: false, message: 'AI profile not found' });
         }
+
+        const fields = validateProfile(req.body, false);
+        if (typeof fields === 'string') {
+            return res.status(400).json({ success: false, message: fields });
+        }
+        const conflict = findSourceConflict(fields.sources, profile.id);
+        if (conflict) {
+            return res.status(400).json({ success: false, message: conflict });
+        }
+
+        const { isDefault, ...updates } = fields;
+        const success = await updateAIProfile(profile.id, isDefault === false ? { ...updates, isDefault: false } : updates);
+        if (!success || (isDefault && !(await setDefaultAIProfile(profile.id)))) {
+            return res.status(500).json({ success: false, message: 'Failed to update AI profile' });
+        }
+
+        await aiProfiles.reload();
+        res.json({ success: true, message: 'AI profile updated successfully', profile: aiProfiles.get(profile.id) });
     } catch (error: any) {
-        res.status(500).json({
-            success: false,
-            message: 'Error updating system prompt',
-            error: error.message
-        });
+        res.status(500).json({ success: false, message: 'Error updating AI profile', error: error.message });
     }
 });
 
 /**
- * Update AI model and temperature settings
+ * Delete an AI profile that no route uses
  */
-router.put('/ai-settings', async (req, res) => {
+router.delete('/profiles/:id', async (req, res) => {
     try {
-        const { model, temperature } = req.body;
-        
-        if (!model) {
-            return res.status(400).json({
-                success: false,
-                message: 'Model is required'
-            });
+        const profile = await getAIProfile(req.params.id);
+        if (!profile) {
+            return res.status(404).json({ success: false, message: 'AI profile not found' });
         }
 
-        if (temperature === undefined || temperature < 0 || temperature > 2) {
+        const routes = routeEngine.getRoutes().filter(route => route.aiProfileId === profile.id);
+        if (routes.length > 0) {
             return res.status(400).json({
                 success: false,
-                message: 'Temperature must be between 0 and 2'
+                message: `AI profile is used by route(s): ${routes.map(route => route.name).join(', ')}`
             });
         }
 
-        const dbResult = await database('system_prompts');
-        if (!dbResult) {
-            return res.status(500).json({
+        const success = await deleteAIProfile(profile.id);
+        if (!success) {
+            return res.status(500).json({ success: false, message: 'Failed to delete AI profile' });
+        }
+
+        await aiProfiles.reload();
+        res.json({ success: true, message: 'AI profile deleted' });
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: 'Error deleting AI profile', error: error.message });
+    }
+});
+
+/**
+ * Get the LLM providers AI profiles can use (API keys are not returned)
+ */
+router.get('/providers', (req, res) => {
+    res.json({
+        success: true,
+        providers: llmProviders.list().map(provider => ({ ...provider, suspended: isProviderSuspended(provider.id) }))
+    });
+});
+
+/**
+ * Add an OpenAI-compatible provider, e.g. a local llama.cpp (http://localhost:8080/v1) or Ollama (http://localhost:11434/v1) server
+ */
+router.post('/providers', async (req, res) => {
+    try {
+        const { id, name, baseUrl, apiKey, timeoutMs } = req.body || {};
+        const invalid = validateLLMProviderId(id);
+        if (invalid) {
+            return res.status(400).json({ success: false, message: invalid });
+        }
+        if (llmProviders.has(id)) {
+            return res.status(400).json({ success: false, message: `LLM provider already exists: ${id}` });
+        }
+        if (typeof baseUrl !== 'string' || !/^https?:\/\//.test(baseUrl.trim())) {
+            return res.status(400).json({ success: false, message: 'baseUrl must be an http(s) URL' });
+        }
+        if (apiKey !== undefined && apiKey !== null && typeof apiKey !== 'string') {
+            return res.status(400).json({ success: false, message: 'apiKey must be a string' });
+        }
+        if (timeoutMs !== undefined && (!Number.isInteger(timeoutMs) || timeoutMs < 1000)) {
+            return res.status(400).json({ success: false, message: 'timeoutMs must be an integer of at least 1000' });
+        }
+
+        await configManager.setLLMProviders([...configManager.getLLMProviders(), {
+            id,
+            name: typeof name === 'string' && name.trim() ? name.trim() : id,
+            baseUrl: baseUrl.trim(),
+            apiKey: apiKey ? apiKey.trim() : undefined,
+            timeoutMs,
+            createdAt: new Date()
+        }]);
+        res.json({ success: true, message: `LLM provider ${id} added` });
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: 'Error adding LLM provider', error: error.message });
+    }
+});
+
+/**
+ * Remove an OpenAI-compatible provider that no AI profile uses
+ */
+router.delete('/providers/:id', async (req, res) => {
+    try {
+        const id = req.params.id as string;
+        if (!configManager.getLLMProviders().some(provider => provider.id === id)) {
+            return res.status(404).json({ success: false, message: 'LLM provider not found' });
+        }
+        const profiles = aiProfiles.getProfiles().filter(profile => profile.providerId === id);
+        if (profiles.length > 0) {
+            return res.status(400).json({
                 success: false,
-                message: 'Database connection failed'
+                message: `LLM provider is used by AI profile(s): ${profiles.map(profile => profile.name).join(', ')}`
             });
         }
 
-        const { conn, coll } = dbResult;
-        
-        try {
-            // Check if a prompt already exists
-            const existingPrompt = await coll.findOne({});
-            
-            if (existingPrompt) {
-                // Update existing settings
-                await coll.updateOne(
-                    {},
-                    { $set: { model: model, temperature: temperature } }
-                );
-            } else {
-                // Create new document with defaults
-                const defaultPrompt = {
-                    id: 'main',
-                    prompt: 'You are a helpful assistant that translates and processes messages. Translate the following message while maintaining its original meaning and tone:',
-                    model: model,
-                    temperature: temperature
-                };
-                await coll.insertOne(defaultPrompt);
-            }
+        await configManager.setLLMProviders(configManager.getLLMProviders().filter(provider => provider.id !== id));
+        res.json({ success: true, message: `LLM provider ${id} removed` });
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: 'Error removing LLM provider', error: error.message });
+    }
+});
 
-            const updatedPrompt = await coll.findOne({});
-            
-            res.json({
-                success: true,
-                message: 'AI settings updated successfully',
-                prompt: updatedPrompt
-            });
-        } finally {
-            await conn.close();
+/**
+ * Token and cost report: totals per day, model, provider and route, and the month's spend against the budget.
+ * from and to are YYYY-MM-DD days (UTC); the default is the current month.
+ */
+router.get('/usage', async (req, res) => {
+    try {
+        const today = usageDay();
+        const from = typeof req.query.from === 'string' && req.query.from ? req.query.from : `${today.slice(0, 7)}-01`;
+        const to = typeof req.query.to === 'string' && req.query.to ? req.query.to : today;
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(from) || !/^\d{4}-\d{2}-\d{2}$/.test(to)) {
+            return res.status(400).json({ success: false, message: 'from and to must be YYYY-MM-DD days' });
+        }
+
+        const entries = await getAIUsage(from, to);
+        if (!entries) {
+            return res.status(500).json({ success: false, message: 'Error loading AI usage' });
         }
+
+        const routeNames = new Map(routeEngine.getRoutes().map(route => [route.id, route.name]));
+        const byRoute = groupUsage(entries, 'routeId');
+        res.json({
+            success: true,
+            from,
+            to,
+            budget: await aiUsage.getBudgetStatus(),
+            totals: sumUsage(entries),
+            byDay: groupUsage(entries, 'day'),
+            byModel: groupUsage(entries, 'model'),
+            byProvider: groupUsage(entries, 'providerId'),
+            byRoute: Object.entries(byRoute).map(([routeId, totals]) => ({
+                routeId: routeId || null,
+                routeName: routeId ? routeNames.get(routeId) || routeId : 'Outside routes',
+                ...totals
+            }))
+        });
     } catch (error: any) {
-        res.status(500).json({
-            success: false,
-            message: 'Error updating AI settings',
-            error: error.message
+        res.status(500).json({ success: false, message: 'Error getting AI usage', error: error.message });
+    }
+});
+
+/**
+ * Get the monthly budget and translation cache settings
+ */
+router.get('/usage/settings', async (req, res) => {
+    res.json({ success: true, settings: configManager.getAIUsageSettings() });
+});
+
+/**
+ * Update the monthly budget (USD, 0 for no cap) and how long translations are cached (hours, 0 to disable).
+ * Once the budget is reached, messages are forwarded untranslated until the next month.
+ */
+router.put('/usage/settings', async (req, res) => {
+    try {
+        const { monthlyBudgetUsd, translationCacheHours } = req.body || {};
+        if (monthlyBudgetUsd !== undefined && (typeof monthlyBudgetUsd !== 'number' || !(monthlyBudgetUsd >= 0))) {
+            return res.status(400).json({ success: false, message: 'monthlyBudgetUsd must be a number of at least 0' });
+        }
+        if (translationCacheHours !== undefined && (typeof translationCacheHours !== 'number' || !(translationCacheHours >= 0))) {
+            return res.status(400).json({ success: false, message: 'translationCacheHours must be a number of at least 0' });
+        }
+
+        await configManager.setAIUsageSettings({
+            ...(monthlyBudgetUsd !== undefined ? { monthlyBudgetUsd } : {}),
+            ...(translationCacheHours !== undefined ? { translationCacheHours } : {})
         });
+        res.json({ success: true, settings: configManager.getAIUsageSettings(), budget: await aiUsage.getBudgetStatus() });
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: 'Error updating AI usage settings', error: error.message });
     }
 });
 
 /**
- * Test translation with the current system prompt
+ * The default profile in the shape of the old single system prompt, for /system-prompt and /ai-settings
+ */
+function legacySystemPrompt(profile: AIProfile | undefined) {
+    return {
+        id: profile?.id || 'main',
+        prompt: profile?.prompt || LEGACY_DEFAULT_PROMPT,
+        model: profile?.model || DEFAULT_AI_MODEL,
+        temperature: profile?.temperature ?? 0.0
+    };
+}
+
+/**
+ * Update the default profile, creating it when there is none yet
+ * @returns The updated default profile, or undefined when it could not be saved
+ */
+async function updateDefaultProfile(updates: Pick<AIProfile, 'prompt'> | Pick<AIProfile, 'model' | 'temperature'>): Promise<AIProfile | undefined> {
+    const current = aiProfiles.getProfiles().find(profile => profile.isDefault);
+    if (current) {
+        if (!(await updateAIProfile(current.id, updates))) return undefined;
+        await aiProfiles.reload();
+        return aiProfiles.get(current.id);
+    }
+
+    const created = await saveAIProfile({
+        name: 'Default',
+        prompt: LEGACY_DEFAULT_PROMPT,
+        model: DEFAULT_AI_MODEL,
+        temperature: 0.0,
+        ...updates,
+        sources: [],
+        isDefault: true
+    });
+    if (!created || !(await setDefaultAIProfile(created.id))) return undefined;
+    await aiProfiles.reload();
+    return aiProfiles.get(created.id);
+}
+
+/**
+ * Get the default profile's prompt and settings
+ * @deprecated Use GET /profiles; kept for clients of the single system prompt
+ */
+router.get('/system-prompt', (req, res) => {
+    res.json({
+        success: true,
+        message: 'System prompt retrieved successfully',
+        prompt: legacySystemPrompt(aiProfiles.getProfiles().find(profile => profile.isDefault))
+    });
+});
+
+/**
+ * Update the default profile's prompt
+ * @deprecated Use PUT /profiles/:id; kept for clients of the single system prompt
+ */
+router.put('/system-prompt', async (req, res) => {
+    try {
+        const { prompt } = req.body || {};
+        if (typeof prompt !== 'string' || !prompt.trim()) {
+            return res.status(400).json({ success: false, message: 'prompt is required' });
+        }
+
+        const profile = await updateDefaultProfile({ prompt });
+        if (!profile) {
+            return res.status(500).json({ success: false, message: 'Failed to update the default AI profile' });
+        }
+        res.json({ success: true, message: 'System prompt updated successfully', prompt: legacySystemPrompt(profile) });
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: 'Error updating system prompt', error: error.message });
+    }
+});
+
+/**
+ * Update the default profile's model and temperature
+ * @deprecated Use PUT /profiles/:id; kept for clients of the single system prompt
+ */
+router.put('/ai-settings', async (req, res) => {
+    try {
+        const { model, temperature } = req.body || {};
+        if (typeof model !== 'string' || !model.trim()) {
+            return res.status(400).json({ success: false, message: 'Model is required' });
+        }
+        if (typeof temperature !== 'number' || temperature < 0 || temperature > 2) {
+            return res.status(400).json({ success: false, message: 'Temperature must be between 0 and 2' });
+        }
+
+        const profile = await updateDefaultProfile({ model: model.trim(), temperature });
+        if (!profile) {
+            return res.status(500).json({ success: false, message: 'Failed to update the default AI profile' });
+        }
+        res.json({ success: true, message: 'AI settings updated successfully', prompt: legacySystemPrompt(profile) });
+    } catch (error: any) {
+        res.status(500).json({ success: false, message: 'Error updating AI settings', error: error.message });
+    }
+});
+
+/**
+ * Test translation with an AI profile (the default profile when no profileId is given).
+ * providerId, model and temperature override the profile's for this test only.
  */
 router.post('/test-translation', async (req, res) => {
     try {
-        const { message, model, temperature } = req.body;
-        
+        const { message, profileId, providerId, model, temperature } = req.body;
+
         if (!message) {
             return res.status(400).json({
                 success: false,
@@ -207,67 +488,48 @@ router.post('/test-translation', async (req, res) => {
             });
         }
 
-        // Get the current system prompt
-        const dbResult = await database('system_prompts');
-        if (!dbResult) {
-            return res.status(500).json({
+        const profile = profileId && profileId !== NO_AI_PROFILE
+            ? aiProfiles.get(profileId)
+            : aiProfiles.getProfiles().find(p => p.isDefault);
+        if (!profile) {
+            return res.status(404).json({
                 success: false,
-                message: 'Database connection failed'
+                message: profileId ? 'AI profile not found' : 'No default AI profile'
             });
         }
 
-        const { conn, coll } = dbResult;
-        
-        try {
-            const promptDoc = await coll.findOne({});
-            
-            if (!promptDoc) {
-                return res.status(500).json({
-                    success: false,
-                    message: 'System prompt not found'
-                });
-            }
+        const useProvider = providerId || profile.providerId;
+        if (useProvider && !llmProviders.has(useProvider)) {
+            return res.status(400).json({ success: false, message: `unknown LLM provider: ${useProvider}` });
+        }
+        const useModel = model || profile.model;
+        const useTemperature = temperature !== undefined ? temperature : profile.temperature;
 
-            if (!promptDoc.prompt) {
-                return res.status(500).json({
-                    success: false,
-                    message: 'System prompt is empty'
-                });
-            }
-            
-            let systemPrompt = promptDoc.prompt;
-            
-            // Use provided model and temperature, or fall back to database values
-            const useModel = model || promptDoc.model || 'anthropic/claude-3.5-sonnet';
-            const useTemperature = temperature !== undefined ? temperature : (promptDoc.temperature || 0.0);
-
-            // Combine system prompt with the message
-            const fullPrompt = `${systemPrompt}\n\nMessage to translate: ${message}`;
-
-            // Call OpenRouter API
-            const translation = await askModel(fullPrompt, useModel, useTemperature);
-            
-            if (!translation) {
-                return res.status(500).json({
-                    success: false,
-                    message: 'Translation failed - no response from AI model'
-                });
-            }
+        const translation = await askModel(buildAIPrompt(profile, message), useModel, useTemperature, { providerId: useProvider });
 
-            res.json({
-                success: true,
-                message: 'Translation completed successfully',
-                data: {
-                    originalMessage: message,
-                    systemPrompt: systemPrompt,
-                    translation: translation,
-                    model: useModel,
-                    temperature: useTemperature
-                }
+        if (!translation) {
+            return res.status(500).json({
+                success: false,
+                message: await aiUsage.isOverBudget()
+                    ? 'Translation failed - monthly AI budget exceeded'
+                    : 'Translation failed - no response from AI model'
             });
-        } finally {
-            await conn.close();
         }
+
+        res.json({
+            success: true,
+            message: 'Translation completed successfully',
+            data: {
+                originalMessage: message,
+                profileId: profile.id,
+                systemPrompt: profile.prompt,
+                targetLanguage: profile.targetLanguage,
+                translation: translation,
+                providerId: useProvider || llmProviders.get()?.id,
+                model: useModel,
+                temperature: useTemperature
+            }
+        });
     } catch (error: any) {
         res.status(500).json({
             success: false,
@@ -0,0 +1,151 @@
+import crypto from 'crypto';
+import { AIProfile, ForwardHistory, Route, RouteSource, getAllAIProfiles, getLegacySystemPrompt, saveAIProfile, getCachedTranslation, saveCachedTranslation } from './db';
+import { askModel } from './llm';
+import { normalizeTelegramId } from './routeEngine';
+import { configManager } from './configManager';
+import { metrics } from './metrics';
+
+// Route.aiProfileId value that turns AI processing off for the route
+export const NO_AI_PROFILE = 'none';
+export const DEFAULT_AI_MODEL = 'anthropic/claude-3.5-sonnet';
+
+const TRANSLATION_CACHE_METRIC = 'ai_translation_cache_total';
+metrics.describe(TRANSLATION_CACHE_METRIC, 'AI translation cache lookups by result (hit, miss)');
+
+type ProfileSource = Pick<RouteSource, 'platform' | 'id'>;
+
+function sourceKey(source: ProfileSource): string {
+    return `${source.platform}:${source.platform === 'telegram' ? normalizeTelegramId(source.id) : source.id}`;
+}
+
+/**
+ * Add one model call to a forward history entry
+ * @param changed Whether the call changed the forwarded text
+ */
+export function recordAIUsage(history: ForwardHistory, model: string, profileId: string | undefined, changed: boolean, durationMs: number): void {
+    const profileIds = profileId ? [profileId] : [];
+    history.ai = history.ai
+        ? {
+            model: Array.from(new Set([...history.ai.model.split(', '), model])).join(', '),
+            profileIds: Array.from(new Set([...(history.ai.profileIds || []), ...profileIds])),
+            translated: history.ai.translated || changed,
+            durationMs: history.ai.durationMs + durationMs
+        }
+        : { model, profileIds, translated: changed, durationMs };
+}
+
+/**
+ * Full prompt sent to the model for one message
+ */
+export function buildAIPrompt(profile: Pick<AIProfile, 'prompt' | 'targetLanguage'>, text: string): string {
+    const language = profile.targetLanguage ? `\n\nTarget language: ${profile.targetLanguage}` : '';
+    return `${profile.prompt}${language}\n\nMessage to translate: ${text}`;
+}
+
+/**
+ * Cache key for a model call: anything that changes the prompt, model or provider gives a new key
+ */
+export function translationCacheKey(prompt: string, model: string, temperature: number, providerId?: string): string {
+    return crypto.createHash('sha256').update(JSON.stringify([providerId || '', model, temperature, prompt])).digest('hex');
+}
+
+/**
+ * In-memory view of the AI profiles. The profile for a message is, in order: the one set on its route
+ * (or none when the route sets 'none'), the one its source channel is assigned to, then the default profile.
+ */
+class AIProfileRegistry {
+    private profiles: AIProfile[] = [];
+
+    /**
+     * Reload profiles from the database. The first load turns the old single system prompt into the default profile.
+     */
+    public async reload(): Promise<void> {
+        let profiles = await getAllAIProfiles();
+        if (profiles.length === 0) {
+            const legacy = await getLegacySystemPrompt();
+            if (legacy && legacy.prompt && legacy.prompt.trim()) {
+                const migrated = await saveAIProfile({
+                    name: 'Default',
+                    prompt: legacy.prompt,
+                    model: legacy.model || DEFAULT_AI_MODEL,
+                    temperature: legacy.temperature || 0.0,
+                    isDefault: true
+                });
+                if (migrated) {
+                    console.log('[AI] Migrated the system prompt into the default AI profile');
+                    profiles = [migrated];
+                }
+            }
+        }
+        this.profiles = profiles;
+        console.log(`[AI] Loaded ${this.profiles.length} AI profile(s)`);
+    }
+
+    public getProfiles(): AIProfile[] {
+        return [...this.profiles];
+    }
+
+    public get(id: string): AIProfile | undefined {
+        return this.profiles.find(profile => profile.id === id);
+    }
+
+    /**
+     * Get the profile that processes messages from a source through a route, or null for no AI
+     */
+    public resolve(source: ProfileSource, route?: Route): AIProfile | null {
+        if (route?.aiProfileId === NO_AI_PROFILE) {
+            return null;
+        }
+        if (route?.aiProfileId) {
+            const profile = this.get(route.aiProfileId);
+            if (profile) return profile;
+            console.warn(`[AI] Route ${route.name} uses unknown AI profile ${route.aiProfileId}; falling back to the source's profile`);
+        }
+
+        const key = sourceKey(source);
+        const assigned = this.profiles.find(profile => (profile.sources || []).some(s => sourceKey(s) === key));
+        if (assigned) return assigned;
+        return this.profiles.find(profile => profile.isDefault) || null;
+    }
+
+    /**
+     * Process a message text with a profile; the original text is kept when the model fails.
+     * Results are cached, so identical reposts and the same post forwarded by several routes are only sent once.
+     * @param routeId Route the text is processed for, for usage accounting
+     */
+    public async process(text: string, profile: AIProfile, routeId?: string): Promise<string> {
+        try {
+            const prompt = buildAIPrompt(profile, text);
+            const { translationCacheHours } = configManager.getAIUsageSettings();
+            const key = translationCacheKey(prompt, profile.model, profile.temperature, profile.providerId);
+            if (translationCacheHours > 0) {
+                const cached = await getCachedTranslation(key);
+                metrics.increment(TRANSLATION_CACHE_METRIC, { result: cached !== null ? 'hit' : 'miss' });
+                if (cached !== null) return cached;
+            }
+
+            const result = await askModel(prompt, profile.model, profile.temperature, { providerId: profile.providerId, routeId });
+            if (!result) return text;
+
+            if (translationCacheHours > 0) {
+                const now = new Date();
+                await saveCachedTranslation({
+                    key,
+                    text: result,
+                    model: profile.model,
+                    createdAt: now,
+                    expiresAt: new Date(now.getTime() + translationCacheHours * 60 * 60 * 1000)
+                });
+            }
+            return result;
+        } catch (error) {
+            console.error(`[AI] Error processing message with profile ${profile.name}:`, error);
+            return text;
+        }
+    }
+}
+
+const aiProfiles = new AIProfileRegistry();
+
+export { aiProfiles };
+export default AIProfileRegistry;
@@ -0,0 +1,124 @@
+import { AIUsageEntry, addAIUsage, getAIUsage } from './db';
+import { configManager } from './configManager';
+import { metrics } from './metrics';
+import { LLMUsage } from './llmProviders';
+
+const AI_TOKENS_METRIC = 'ai_tokens_total';
+const AI_COST_METRIC = 'ai_cost_usd_total';
+metrics.describe(AI_TOKENS_METRIC, 'LLM tokens used by model and kind (prompt, completion)');
+metrics.describe(AI_COST_METRIC, 'LLM cost in USD by model, as reported by the providers');
+
+export interface AIUsageTotals {
+    requests: number;
+    promptTokens: number;
+    completionTokens: number;
+    cost: number;
+}
+
+export interface AIBudgetStatus {
+    month: string; // YYYY-MM, UTC
+    spentUsd: number;
+    monthlyBudgetUsd: number; // 0 for no cap
+    exceeded: boolean;
+}
+
+export function usageDay(date: Date = new Date()): string {
+    return date.toISOString().slice(0, 10);
+}
+
+function emptyTotals(): AIUsageTotals {
+    return { requests: 0, promptTokens: 0, completionTokens: 0, cost: 0 };
+}
+
+function addTotals(totals: AIUsageTotals, entry: AIUsageEntry): AIUsageTotals {
+    totals.requests += entry.requests;
+    totals.promptTokens += entry.promptTokens;
+    totals.completionTokens += entry.completionTokens;
+    totals.cost += entry.cost;
+    return totals;
+}
+
+export function sumUsage(entries: AIUsageEntry[]): AIUsageTotals {
+    return entries.reduce(addTotals, emptyTotals());
+}
+
+/**
+ * Sum usage entries per value of one field (day, model, providerId or routeId)
+ */
+export function groupUsage(entries: AIUsageEntry[], field: 'day' | 'model' | 'providerId' | 'routeId'): Record<string, AIUsageTotals> {
+    const groups: Record<string, AIUsageTotals> = {};
+    for (const entry of entries) {
+        groups[entry[field]] = addTotals(groups[entry[field]] || emptyTotals(), entry);
+    }
+    return groups;
+}
+
+/**
+ * Persists token and cost totals per day, model and route, and keeps the month's spend in memory
+ * so the budget can be checked before every model call
+ */
+class AIUsageTracker {
+    private month: string | null = null;
+    private spentUsd: number = 0;
+    private loading: Promise<void> | null = null;
+
+    /**
+     * Record one successful model call
+     * @param routeId Route the call was made for; empty outside routes
+     */
+    public async record(model: string, providerId: string, routeId: string | undefined, usage: LLMUsage): Promise<void> {
+        const cost = usage.cost || 0;
+        metrics.increment(AI_TOKENS_METRIC, { model, kind: 'prompt' }, usage.promptTokens);
+        metrics.increment(AI_TOKENS_METRIC, { model, kind: 'completion' }, usage.completionTokens);
+        if (cost) metrics.increment(AI_COST_METRIC, { model }, cost);
+
+        await this.ensureMonth();
+        this.spentUsd += cost;
+        await addAIUsage(
+            { day: usageDay(), model, providerId, routeId: routeId || '' },
+            { promptTokens: usage.promptTokens, completionTokens: usage.completionTokens, cost }
+        );
+    }
+
+    public async getBudgetStatus(): Promise<AIBudgetStatus> {
+        await this.ensureMonth();
+        const { monthlyBudgetUsd } = configManager.getAIUsageSettings();
+        return {
+            month: this.month as string,
+            spentUsd: this.spentUsd,
+            monthlyBudgetUsd,
+            exceeded: monthlyBudgetUsd > 0 && this.spentUsd >= monthlyBudgetUsd
+        };
+    }
+
+    /**
+     * Whether the monthly budget is used up; model calls are skipped until the next month or a higher cap
+     */
+    public async isOverBudget(): Promise<boolean> {
+        if (!configManager.getAIUsageSettings().monthlyBudgetUsd) return false;
+        return (await this.getBudgetStatus()).exceeded;
+    }
+
+    /**
+     * Load the month's spend from the database when the month changes (or on first use)
+     */
+    private async ensureMonth(): Promise<void> {
+        const month = usageDay().slice(0, 7);
+        if (this.month === month) return;
+        if (!this.loading) {
+            this.loading = (async () => {
+                const entries = await getAIUsage(`${month}-01`, `${month}-31`);
+                this.spentUsd = entries ? sumUsage(entries).cost : 0;
+                this.month = month;
+            })().finally(() => {
+                this.loading = null;
+            });
+        }
+        await this.loading;
+    }
+}
+
+const aiUsage = new AIUsageTracker();
+
+export { aiUsage };
+export default AIUsageTracker;
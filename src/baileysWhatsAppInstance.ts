@@ -11,31 +11,23 @@ import { Boom } from '@hapi/boom';
 import pino from 'pino';
 import path from 'path';
 import fs from 'fs';
-import { WhatsAppMessage } from './whatsappInstance';
-
-interface BaileysGroupInfo {
-    id: { _serialized: string };
-    name: string;
-    participants: unknown[];
-    description: string | null;
-}
-
-interface QueueItem {
-    id: string;
-    groupId: string;
-    mediaPath: string;
-    content: string;
-    options?: {
-        type?: 'text' | 'media';
-        caption?: string;
-        mediaType?: 'image' | 'video' | 'audio' | 'document';
-    };
-    timestamp: number;
-    resolve: (value: void | PromiseLike<void>) => void;
-    reject: (reason?: any) => void;
-}
-
-export class BaileysWhatsAppInstance {
+import {
+    DEFAULT_WHATSAPP_SESSION_ID,
+    WhatsAppClientInfo,
+    WhatsAppEngine,
+    WhatsAppGroup,
+    WhatsAppMediaType,
+    WhatsAppMessage,
+    WhatsAppMessageFilter,
+    WhatsAppMessageHandler,
+    WhatsAppPairingInfo,
+    WhatsAppQueueStatus,
+    WhatsAppSessionOptions,
+    WhatsAppUnavailableError
+} from './whatsappEngine';
+import { OutboundQueue, OutboundSendOptions } from './outboundQueue';
+
+export class BaileysWhatsAppInstance implements WhatsAppEngine {
     private sock: WASocket | null = null;
     private phoneNumber: string;
     private isInitialized: boolean = false;
@@ -45,32 +37,41 @@ export class BaileysWhatsAppInstance {
     private shouldAttemptReconnect: boolean = true;
     private hasEverConnected: boolean = false;
     private authPath: string;
+    private readonly sessionId: string;
     private keepAliveInterval: ReturnType<typeof setInterval> | null = null;
     private pairingCodeTimer: ReturnType<typeof setTimeout> | null = null;
     private currentPairingCode: string = '';
     private consecutiveReconnectFailures: number = 0;
     private readonly MAX_BACKOFF_MS = 5 * 60 * 1000;
-    private cachedGroups: BaileysGroupInfo[] = [];
+    private cachedGroups: WhatsAppGroup[] = [];
     private groupsReady: boolean = false;
 
-    private messageQueue: QueueItem[] = [];
-    private isProcessingQueue: boolean = false;
-    private queueProcessingDelay: number = 1000;
-    private maxQueueSize: number = 100;
+    private outboundQueue: OutboundQueue;
 
     private listeningGroups: Set<string> = new Set();
-    private messageHandlers: ((message: WhatsAppMessage) => void)[] = [];
-
-    constructor() {
-        this.phoneNumber = (process.env.BAILEYS_PHONE_NUMBER || '').replace(/[^0-9]/g, '');
-        this.authPath = process.env.BAILEYS_AUTH_PATH || path.join(process.cwd(), 'baileys_auth');
-        this.startQueueProcessor();
+    private messageHandlers: WhatsAppMessageHandler[] = [];
+    private messageFilter: WhatsAppMessageFilter | null = null;
+
+    constructor(options: WhatsAppSessionOptions = { sessionId: DEFAULT_WHATSAPP_SESSION_ID }) {
+        this.sessionId = options.sessionId;
+        this.phoneNumber = (options.phoneNumber ?? process.env.BAILEYS_PHONE_NUMBER ?? '').replace(/[^0-9]/g, '');
+        this.authPath = options.authPath || process.env.BAILEYS_AUTH_PATH || path.join(process.cwd(), 'baileys_auth');
+        this.outboundQueue = new OutboundQueue(
+            this.sessionId === DEFAULT_WHATSAPP_SESSION_ID ? 'Baileys' : `Baileys:${this.sessionId}`,
+            this.sessionId,
+            (item) => this.sendQueuedMessage(item.groupId, item.mediaPath, item.content, item.options),
+            () => this.isInitialized && !this.isRestarting_
+        );
     }
 
-    public getEngineType(): 'wwebjs' | 'baileys' {
+    public getEngineType(): 'baileys' {
         return 'baileys';
     }
 
+    public getSessionId(): string {
+        return this.sessionId;
+    }
+
     public getPhoneNumber(): string {
         return this.phoneNumber;
     }
@@ -79,7 +80,7 @@ export class BaileysWhatsAppInstance {
         return '';
     }
 
-    public getPairingInfo(): { type: 'qr'; data: string } | { type: 'code'; data: string } | null {
+    public getPairingInfo(): WhatsAppPairingInfo {
         if (this.currentPairingCode) {
             return { type: 'code', data: this.currentPairingCode };
         }
@@ -331,20 +332,20 @@ export class BaileysWhatsAppInstance {
         this.cachedGroups = [];
     }
 
-    public async getGroups(): Promise<BaileysGroupInfo[] | string> {
+    public async getGroups(): Promise<WhatsAppGroup[]> {
         if (!this.isInitialized) {
-            return 'Baileys client is not initialized';
-        }
-        if (!this.groupsReady) {
-            return 'Groups are not ready yet, try again in a few seconds';
+            throw new WhatsAppUnavailableError('Baileys client is not initialized');
         }
         if (this.isRestarting_) {
-            return 'WhatsApp client is restarting';
+            throw new WhatsAppUnavailableError('WhatsApp client is restarting');
+        }
+        if (!this.groupsReady) {
+            throw new WhatsAppUnavailableError('Groups are not ready yet, try again in a few seconds');
         }
         return this.cachedGroups;
     }
 
-    public async sendTextToGroup(groupId: string, message: string): Promise<void> {
+    public async sendTextToGroup(groupId: string, message: string): Promise<string | undefined> {
         return this.addToQueue(groupId, '', message, { type: 'text' });
     }
 
@@ -352,12 +353,14 @@ export class BaileysWhatsAppInstance {
         groupId: string,
         mediaPath: string,
         caption?: string,
-        mediaType: 'image' | 'video' | 'audio' | 'document' = 'image'
-    ): Promise<void> {
+        mediaType: WhatsAppMediaType = 'image',
+        quotedMessageId?: string
+    ): Promise<string | undefined> {
         return this.addToQueue(groupId, mediaPath, caption || '', {
             type: 'media',
             caption,
-            mediaType
+            mediaType,
+            quotedMessageId
         });
     }
 
@@ -365,22 +368,44 @@ export class BaileysWhatsAppInstance {
         groupId: string,
         mediaPath: string,
         content: string,
-        options?: {
-            type?: 'text' | 'media';
-            caption?: string;
-            mediaType?: 'image' | 'video' | 'audio' | 'document';
-        }
-    ): Promise<void> {
+        options?: OutboundSendOptions
+    ): Promise<string | undefined> {
         return this.addToQueue(groupId, mediaPath, content, options);
     }
 
-    public async getClientInfo(): Promise<any> {
+    /**
+     * Edit the text (or caption) of a message this client sent
+     */
+    public async editMessage(groupId: string, messageId: string, text: string): Promise<void> {
+        if (!this.sock || !this.isInitialized) {
+            throw new Error('Baileys client is not initialized');
+        }
+        const jid = this.resolveJid(groupId);
+        await this.sock.sendMessage(jid, { text, edit: { remoteJid: jid, id: messageId, fromMe: true } });
+        console.log(`[Baileys] Message ${messageId} edited in: ${jid}`);
+    }
+
+    /**
+     * Delete a message this client sent, for everyone
+     */
+    public async deleteMessage(groupId: string, messageId: string): Promise<void> {
+        if (!this.sock || !this.isInitialized) {
+            throw new Error('Baileys client is not initialized');
+        }
+        const jid = this.resolveJid(groupId);
+        await this.sock.sendMessage(jid, { delete: { remoteJid: jid, id: messageId, fromMe: true } });
+        console.log(`[Baileys] Message ${messageId} deleted for everyone in: ${jid}`);
+    }
+
+    public async getClientInfo(): Promise<WhatsAppClientInfo | null> {
         if (!this.isInitialized || !this.sock) {
             throw new Error('Baileys client is not initialized');
         }
         return {
             engine: 'baileys',
-            user: this.sock.user || null,
+            state: 'CONNECTED',
+            userId: this.sock.user?.id || null,
+            name: this.sock.user?.name || null,
             phoneNumber: this.phoneNumber || this.sock.user?.id?.split(':')[0] || null
         };
     }
@@ -418,11 +443,26 @@ export class BaileysWhatsAppInstance {
         this.isDestroying = false;
     }
 
-    public onMessage(handler: (message: WhatsAppMessage) => void): void {
+    /**
+     * Stop for good (e.g. when switching engines): pending sends stay persisted for the next engine
+     */
+    public async shutdown(): Promise<void> {
+        await this.outboundQueue.stop();
+        await this.destroy();
+    }
+
+    /**
+     * Gate incoming messages before their media is downloaded (e.g. route content filters)
+     */
+    public setMessageFilter(filter: WhatsAppMessageFilter | null): void {
+        this.messageFilter = filter;
+    }
+
+    public onMessage(handler: WhatsAppMessageHandler): void {
         this.messageHandlers.push(handler);
     }
 
-    public removeMessageHandler(handler: (message: WhatsAppMessage) => void): void {
+    public removeMessageHandler(handler: WhatsAppMessageHandler): void {
         const index = this.messageHandlers.indexOf(handler);
         if (index > -1) {
             this.messageHandlers.splice(index, 1);
@@ -443,20 +483,12 @@ export class BaileysWhatsAppInstance {
         return Array.from(this.listeningGroups);
     }
 
-    public getQueueStatus(): {
-        queueSize: number;
-        isProcessing: boolean;
-        processingDelay: number;
-    } {
-        return {
-            queueSize: this.messageQueue.length,
-            isProcessing: this.isProcessingQueue,
-            processingDelay: this.queueProcessingDelay
-        };
+    public getQueueStatus(): WhatsAppQueueStatus {
+        return this.outboundQueue.getStatus();
     }
 
     public setQueueDelay(delayMs: number): void {
-        this.queueProcessingDelay = Math.max(100, delayMs);
+        this.outboundQueue.setDelay(delayMs);
     }
 
     public startKeepAlive(): void {
@@ -495,9 +527,9 @@ export class BaileysWhatsAppInstance {
         try {
             const groupsMetadata = await this.sock.groupFetchAllParticipating();
             this.cachedGroups = Object.values(groupsMetadata).map(group => ({
-                id: { _serialized: group.id },
+                id: group.id,
                 name: group.subject || 'unknown',
-                participants: group.participants || [],
+                participantsCount: group.participants?.length || 0,
                 description: group.desc || null
             }));
             this.groupsReady = true;
@@ -540,13 +572,23 @@ export class BaileysWhatsAppInstance {
                     senderId: msg.key.participant || jid,
                     senderName: msg.pushName || undefined,
                     groupId: jid,
-                    groupName: this.cachedGroups.find(g => g.id._serialized === jid)?.name || jid,
+                    groupName: this.cachedGroups.find(g => g.id === jid)?.name || jid,
                     isForwarded: !!(message?.imageMessage?.contextInfo?.isForwarded ||
                         message?.extendedTextMessage?.contextInfo?.isForwarded ||
                         message?.videoMessage?.contextInfo?.isForwarded),
                     hasMedia,
+                    mediaType: message?.imageMessage ? 'image'
+                        : message?.videoMessage ? 'video'
+                        : message?.audioMessage ? 'audio'
+                        : message?.stickerMessage ? 'sticker'
+                        : message?.documentMessage ? 'document'
+                        : undefined,
+                    quotedMessageId: this.getQuotedMessageId(message),
                 };
 
+                // Drop messages no route wants before downloading anything
+                if (this.messageFilter && !this.messageFilter(waMessage)) return;
+
                 if (hasMedia) {
                     try {
                         const buffer = await downloadMediaMessage(
@@ -619,35 +661,61 @@ export class BaileysWhatsAppInstance {
         return '';
     }
 
+    private getQuotedMessageId(message: WAMessage['message']): string | undefined {
+        const contextInfo =
+            message?.extendedTextMessage?.contextInfo ||
+            message?.imageMessage?.contextInfo ||
+            message?.videoMessage?.contextInfo ||
+            message?.audioMessage?.contextInfo ||
+            message?.documentMessage?.contextInfo ||
+            message?.stickerMessage?.contextInfo;
+        return contextInfo?.stanzaId || undefined;
+    }
+
     private resolveJid(identifier: string): string {
         if (identifier.includes('@')) return identifier;
 
         const group = this.cachedGroups.find(
             g =>
-                g.id._serialized === identifier ||
+                g.id === identifier ||
                 g.name === identifier ||
                 g.name?.toLowerCase().includes(identifier.toLowerCase())
         );
-        if (group) return group.id._serialized;
+        if (group) return group.id;
 
         return `${identifier}@s.whatsapp.net`;
     }
 
-    private async sendTextToGroupDirectly(groupId: string, message: string): Promise<void> {
+    /**
+     * Minimal stand-in for one of our own sent messages, enough for Baileys to quote it
+     */
+    private buildQuoted(jid: string, messageId?: string): { quoted: WAMessage } | undefined {
+        if (!messageId) return undefined;
+        return {
+            quoted: {
+                key: { remoteJid: jid, id: messageId, fromMe: true },
+                message: { conversation: '' }
+            } as WAMessage
+        };
+    }
+
+    private async sendTextToGroupDirectly(groupId: string, message: string, quotedMessageId?: string): Promise<string | undefined> {
         if (!this.sock || !this.isInitialized) {
             throw new Error('Baileys client is not initialized');
         }
         const jid = this.resolveJid(groupId);
-        await this.sock.sendMessage(jid, { text: message });
+        const sent = await this.sock.sendMessage(jid, { text: message }, this.buildQuoted(jid, quotedMessageId));
         console.log(`[Baileys] Text message sent to: ${jid}`);
+        return sent?.key.id || undefined;
     }
 
     private async sendMediaToGroupDirectly(
         groupId: string,
         mediaPath: string,
         caption?: string,
-        mediaType: 'image' | 'video' | 'audio' | 'document' = 'image'
-    ): Promise<void> {
+        mediaType: WhatsAppMediaType = 'image',
+        quotedMessageId?: string
+    ): Promise<string | undefined> {
         if (!this.sock || !this.isInitialized) {
             throw new Error('Baileys client is not initialized');
         }
@@ -667,105 +735,69 @@ export class BaileysWhatsAppInstance {
             fileName = path.basename(mediaPath);
         }
 
+        const quoted = this.buildQuoted(jid, quotedMessageId);
+        let sent: WAMessage | undefined;
         switch (mediaType) {
             case 'image':
-                await this.sock.sendMessage(jid, {
+                sent = await this.sock.sendMessage(jid, {
                     image: buffer,
                     caption: caption || undefined,
                     mimetype: mimetype as any
-                });
+                }, quoted);
                 break;
             case 'video':
-                await this.sock.sendMessage(jid, {
+                sent = await this.sock.sendMessage(jid, {
                     video: buffer,
                     caption: caption || undefined,
                     mimetype: mimetype as any
-                });
+                }, quoted);
                 break;
             case 'audio':
-                await this.sock.sendMessage(jid, {
+                sent = await this.sock.sendMessage(jid, {
                     audio: buffer,
                     mimetype: mimetype as any
-                });
+                }, quoted);
+                // WhatsApp shows no caption on audio, so it follows as a reply (e.g. a voice note transcript)
+                if (caption && sent) {
+                    await this.sock.sendMessage(jid, { text: caption }, { quoted: sent });
+                }
                 break;
             case 'document':
-                await this.sock.sendMessage(jid, {
+                sent = await this.sock.sendMessage(jid, {
                     document: buffer,
                     mimetype: (mimetype as any) || 'application/octet-stream',
                     fileName,
                     caption: caption || undefined
-                });
+                }, quoted);
                 break;
         }
         console.log(`[Baileys] Media (${mediaType}) sent to: ${jid}`);
+        return sent?.key.id || undefined;
     }
 
-    private startQueueProcessor(): void {
-        setInterval(() => {
-            void this.processQueue();
-        }, 100);
-    }
-
-    private async processQueue(): Promise<void> {
-        if (this.isProcessingQueue || this.messageQueue.length === 0) return;
-        if (!this.isInitialized || this.isRestarting_) return;
-
-        this.isProcessingQueue = true;
-        try {
-            const queueItem = this.messageQueue.shift();
-            if (!queueItem) return;
-
-            try {
-                const { type = 'text', caption, mediaType = 'image' } = queueItem.options || {};
-                if (type === 'media') {
-                    await this.sendMediaToGroupDirectly(queueItem.groupId, queueItem.mediaPath, caption, mediaType);
-                } else {
-                    await this.sendTextToGroupDirectly(queueItem.groupId, queueItem.content);
-                }
-                queueItem.resolve();
-            } catch (error) {
-                queueItem.reject(error);
-            } finally {
-                if (queueItem.mediaPath && !queueItem.mediaPath.startsWith('data:') && fs.existsSync(queueItem.mediaPath)) {
-                    try { fs.unlinkSync(queueItem.mediaPath); } catch (_) {}
-                }
-            }
-
-            await new Promise(resolve => setTimeout(resolve, this.queueProcessingDelay));
-        } finally {
-            this.isProcessingQueue = false;
+    private async sendQueuedMessage(
+        groupId: string,
+        mediaPath: string,
+        content: string,
+        options?: OutboundSendOptions
+    ): Promise<string | undefined> {
+        const { type = 'text', caption, mediaType = 'image', quotedMessageId } = options || {};
+        if (type === 'media') {
+            return this.sendMediaToGroupDirectly(groupId, mediaPath, caption, mediaType, quotedMessageId);
         }
+        return this.sendTextToGroupDirectly(groupId, content, quotedMessageId);
     }
 
     private addToQueue(
         groupId: string,
         mediaPath: string,
         content: string,
-        options?: {
-            type?: 'text' | 'media';
-            caption?: string;
-            mediaType?: 'image' | 'video' | 'audio' | 'document';
-        }
-    ): Promise<void> {
+        options?: OutboundSendOptions
+    ): Promise<string | undefined> {
         if (!this.isInitialized) {
             throw new Error('Baileys client is not initialized');
         }
-        if (this.messageQueue.length >= this.maxQueueSize) {
-            console.error(`Queue size limit (${this.maxQueueSize}) reached. Exiting process.`);
-            process.exit(-1);
-        }
-        return new Promise((resolve, reject) => {
-            this.messageQueue.push({
-                id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-                groupId,
-                mediaPath,
-                content,
-                options,
-                timestamp: Date.now(),
-                resolve,
-                reject
-            });
-        });
+        return this.outboundQueue.enqueue(groupId, mediaPath, content, options);
     }
 
     private clearSocketEventListeners(sock: WASocket | null): void {
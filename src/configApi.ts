@@ -1,5 +1,6 @@
 import express from 'express';
-import { configManager } from './configManager';
+import { configManager, DedupSettings, TelegramCatchUpSettings, TranscriptionSettings } from './configManager';
+import { RetryPolicy } from './retryPolicy';
 
 const router = express.Router();
 
@@ -8,7 +9,7 @@ const router = express.Router();
  */
 router.get('/', async (req, res) => {
     try {
-        const config = await configManager.getConfig();
+        const config = await configManager.getPublicConfig();
         
         res.json({
             success: true,
@@ -43,7 +44,7 @@ router.post('/updateWaGroup', async (req, res) => {
         res.json({
             success: true,
             message: 'WhatsApp group updated successfully',
-            config: await configManager.getConfig()
+            config: await configManager.getPublicConfig()
         });
     } catch (error: any) {
         res.status(500).json({
@@ -73,7 +74,7 @@ router.post('/updateTelegramChannels', async (req, res) => {
         res.json({
             success: true,
             message: 'Telegram channels updated successfully',
-            config: await configManager.getConfig()
+            config: await configManager.getPublicConfig()
         });
     } catch (error: any) {
         res.status(500).json({
@@ -103,7 +104,7 @@ router.post('/setActive', async (req, res) => {
         res.json({
             success: true,
             message: `Configuration ${active ? 'activated' : 'deactivated'} successfully`,
-            config: await configManager.getConfig()
+            config: await configManager.getPublicConfig()
         });
     } catch (error: any) {
         res.status(500).json({
@@ -114,4 +115,361 @@ router.post('/setActive', async (req, res) => {
     }
 });
 
+/**
+ * Validate retry policy fields from a request body
+ */
+function parseRetryPolicy(body: any): RetryPolicy | string {
+    const { maxAttempts, baseDelayMs, maxDelayMs } = body;
+
+    if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+        return 'maxAttempts must be a positive integer';
+    }
+    if (typeof baseDelayMs !== 'number' || baseDelayMs < 0) {
+        return 'baseDelayMs must be a non-negative number';
+    }
+    if (typeof maxDelayMs !== 'number' || maxDelayMs < baseDelayMs) {
+        return 'maxDelayMs must be a number not lower than baseDelayMs';
+    }
+
+    return { maxAttempts, baseDelayMs, maxDelayMs };
+}
+
+/**
+ * Get the default retry policy and per-destination overrides
+ */
+router.get('/retryPolicies', async (req, res) => {
+    try {
+        const config = await configManager.getConfig();
+
+        res.json({
+            success: true,
+            defaultRetryPolicy: config.defaultRetryPolicy,
+            retryPolicies: config.retryPolicies
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: 'Error retrieving retry policies',
+            error: error.message
+        });
+    }
+});
+
+/**
+ * Update the default retry policy
+ */
+router.post('/retryPolicies/default', async (req, res) => {
+    try {
+        const policy = parseRetryPolicy(req.body);
+        if (typeof policy === 'string') {
+            return res.status(400).json({
+                success: false,
+                message: policy
+            });
+        }
+
+        await configManager.setDefaultRetryPolicy(policy);
+
+        res.json({
+            success: true,
+            message: 'Default retry policy updated successfully',
+            defaultRetryPolicy: policy
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: 'Error updating default retry policy',
+            error: error.message
+        });
+    }
+});
+
+/**
+ * Set the retry policy for a WhatsApp group or Telegram chat
+ */
+router.post('/retryPolicies', async (req, res) => {
+    try {
+        const { platform, destinationId } = req.body;
+
+        if (platform !== 'whatsapp' && platform !== 'telegram') {
+            return res.status(400).json({
+                success: false,
+                message: "platform must be 'whatsapp' or 'telegram'"
+            });
+        }
+        if (!destinationId || typeof destinationId !== 'string') {
+            return res.status(400).json({
+                success: false,
+                message: 'destinationId is required'
+            });
+        }
+
+        const policy = parseRetryPolicy(req.body);
+        if (typeof policy === 'string') {
+            return res.status(400).json({
+                success: false,
+                message: policy
+            });
+        }
+
+        await configManager.setRetryPolicy({ platform, destinationId, ...policy });
+
+        res.json({
+            success: true,
+            message: `Retry policy for ${platform} destination ${destinationId} updated successfully`,
+            retryPolicies: configManager.getRetryPolicies()
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: 'Error updating retry policy',
+            error: error.message
+        });
+    }
+});
+
+/**
+ * Remove the retry policy override for a destination (falls back to the default)
+ */
+router.delete('/retryPolicies/:platform/:destinationId', async (req, res) => {
+    try {
+        const { platform, destinationId } = req.params;
+
+        if (platform !== 'whatsapp' && platform !== 'telegram') {
+            return res.status(400).json({
+                success: false,
+                message: "platform must be 'whatsapp' or 'telegram'"
+            });
+        }
+
+        await configManager.removeRetryPolicy(platform, destinationId);
+
+        res.json({
+            success: true,
+            message: `Retry policy for ${platform} destination ${destinationId} removed successfully`,
+            retryPolicies: configManager.getRetryPolicies()
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: 'Error removing retry policy',
+            error: error.message
+        });
+    }
+});
+
+/**
+ * Get the deduplication settings
+ */
+router.get('/dedup', async (req, res) => {
+    try {
+        await configManager.getConfig();
+
+        res.json({
+            success: true,
+            dedup: configManager.getDedupSettings()
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: 'Error retrieving dedup settings',
+            error: error.message
+        });
+    }
+});
+
+/**
+ * Update the deduplication settings (only the given fields change)
+ */
+router.post('/dedup', async (req, res) => {
+    try {
+        const { ttlHours, contentHashEnabled, contentWindowMinutes, contentMinLength } = req.body;
+        const settings: Partial<DedupSettings> = {};
+
+        if (ttlHours !== undefined) {
+            if (typeof ttlHours !== 'number' || ttlHours <= 0) {
+                return res.status(400).json({ success: false, message: 'ttlHours must be a positive number' });
+            }
+            settings.ttlHours = ttlHours;
+        }
+        if (contentHashEnabled !== undefined) {
+            if (typeof contentHashEnabled !== 'boolean') {
+                return res.status(400).json({ success: false, message: 'contentHashEnabled must be a boolean' });
+            }
+            settings.contentHashEnabled = contentHashEnabled;
+        }
+        if (contentWindowMinutes !== undefined) {
+            if (typeof contentWindowMinutes !== 'number' || contentWindowMinutes <= 0) {
+                return res.status(400).json({ success: false, message: 'contentWindowMinutes must be a positive number' });
+            }
+            settings.contentWindowMinutes = contentWindowMinutes;
+        }
+        if (contentMinLength !== undefined) {
+            if (!Number.isInteger(contentMinLength) || contentMinLength < 0) {
+                return res.status(400).json({ success: false, message: 'contentMinLength must be a non-negative integer' });
+            }
+            settings.contentMinLength = contentMinLength;
+        }
+
+        await configManager.setDedupSettings(settings);
+
+        res.json({
+            success: true,
+            message: 'Dedup settings updated successfully',
+            dedup: configManager.getDedupSettings()
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: 'Error updating dedup settings',
+            error: error.message
+        });
+    }
+});
+
+/**
+ * Get the Telegram catch-up settings
+ */
+router.get('/telegramCatchUp', async (req, res) => {
+    try {
+        await configManager.getConfig();
+
+        res.json({
+            success: true,
+            telegramCatchUp: configManager.getTelegramCatchUpSettings()
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: 'Error retrieving Telegram catch-up settings',
+            error: error.message
+        });
+    }
+});
+
+/**
+ * Update the Telegram catch-up settings (only the given fields change)
+ */
+router.post('/telegramCatchUp', async (req, res) => {
+    try {
+        const { enabled, maxAgeMinutes, maxMessages } = req.body;
+        const settings: Partial<TelegramCatchUpSettings> = {};
+
+        if (enabled !== undefined) {
+            if (typeof enabled !== 'boolean') {
+                return res.status(400).json({ success: false, message: 'enabled must be a boolean' });
+            }
+            settings.enabled = enabled;
+        }
+        if (maxAgeMinutes !== undefined) {
+            if (typeof maxAgeMinutes !== 'number' || maxAgeMinutes <= 0) {
+                return res.status(400).json({ success: false, message: 'maxAgeMinutes must be a positive number' });
+            }
+            settings.maxAgeMinutes = maxAgeMinutes;
+        }
+        if (maxMessages !== undefined) {
+            if (!Number.isInteger(maxMessages) || maxMessages < 1) {
+                return res.status(400).json({ success: false, message: 'maxMessages must be a positive integer' });
+            }
+            settings.maxMessages = maxMessages;
+        }
+
+        await configManager.setTelegramCatchUpSettings(settings);
+
+        res.json({
+            success: true,
+            message: 'Telegram catch-up settings updated successfully',
+            telegramCatchUp: configManager.getTelegramCatchUpSettings()
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: 'Error updating Telegram catch-up settings',
+            error: error.message
+        });
+    }
+});
+
+/**
+ * Get the audio transcription settings
+ */
+router.get('/transcription', async (req, res) => {
+    try {
+        await configManager.getConfig();
+
+        res.json({
+            success: true,
+            transcription: configManager.getTranscriptionSettings()
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: 'Error retrieving transcription settings',
+            error: error.message
+        });
+    }
+});
+
+/**
+ * Update the audio transcription settings (only the given fields change)
+ */
+router.post('/transcription', async (req, res) => {
+    try {
+        const { enabled, url, model, language, timeoutMs, maxBytes } = req.body;
+        const settings: Partial<TranscriptionSettings> = {};
+
+        if (enabled !== undefined) {
+            if (typeof enabled !== 'boolean') {
+                return res.status(400).json({ success: false, message: 'enabled must be a boolean' });
+            }
+            settings.enabled = enabled;
+        }
+        if (url !== undefined) {
+            if (typeof url !== 'string' || !/^https?:\/\//.test(url.trim())) {
+                return res.status(400).json({ success: false, message: 'url must be an http(s) URL' });
+            }
+            settings.url = url.trim();
+        }
+        if (model !== undefined) {
+            if (typeof model !== 'string' || !model.trim()) {
+                return res.status(400).json({ success: false, message: 'model must be a non-empty string' });
+            }
+            settings.model = model.trim();
+        }
+        if (language !== undefined) {
+            if (language !== null && (typeof language !== 'string' || !/^[a-z]{2}$/.test(language.trim()))) {
+                return res.status(400).json({ success: false, message: 'language must be an ISO 639-1 code (e.g. "en") or null' });
+            }
+            // Null lets the server detect the language
+            settings.language = language ? language.trim() : undefined;
+        }
+        if (timeoutMs !== undefined) {
+            if (!Number.isInteger(timeoutMs) || timeoutMs < 1000) {
+                return res.status(400).json({ success: false, message: 'timeoutMs must be an integer of at least 1000' });
+            }
+            settings.timeoutMs = timeoutMs;
+        }
+        if (maxBytes !== undefined) {
+            if (!Number.isInteger(maxBytes) || maxBytes < 1) {
+                return res.status(400).json({ success: false, message: 'maxBytes must be a positive integer' });
+            }
+            settings.maxBytes = maxBytes;
+        }
+
+        await configManager.setTranscriptionSettings(settings);
+
+        res.json({
+            success: true,
+            message: 'Transcription settings updated successfully',
+            transcription: configManager.getTranscriptionSettings()
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: 'Error updating transcription settings',
+            error: error.message
+        });
+    }
+});
+
 export default router;
@@ -1,10 +1,12 @@
-import { database } from './db';
+import { database, RoutePlatform } from './db';
+import { RetryPolicy, DEFAULT_RETRY_POLICY } from './retryPolicy';
 
 export interface TwitterAccount {
     id: string;
     username: string;
     name?: string;
     whatsappGroupIds?: string[]; // Add WhatsApp group IDs for this account
+    telegramChatIds?: string[]; // Telegram chats this account is forwarded to
 }
 
 export interface TelegramChannel {
@@ -13,17 +15,95 @@ export interface TelegramChannel {
     whatsappGroupIds?: string[]; // Add WhatsApp group IDs for this channel
 }
 
+export interface DestinationRetryPolicy extends RetryPolicy {
+    platform: 'whatsapp' | 'telegram';
+    destinationId: string; // WhatsApp group ID or Telegram chat ID
+}
+
+export interface DedupSettings {
+    ttlHours: number; // How long forwarded message IDs are remembered
+    contentHashEnabled: boolean; // Also skip the same text sent to a destination from several sources
+    contentWindowMinutes: number;
+    contentMinLength: number; // Shorter texts are never treated as duplicates by content
+}
+
+export interface TelegramCatchUpSettings {
+    enabled: boolean; // Fetch channel posts missed while disconnected
+    maxAgeMinutes: number; // Older missed posts are dropped
+    maxMessages: number; // Per channel, the most recent ones are kept
+}
+
+export interface AIUsageSettings {
+    monthlyBudgetUsd: number; // AI calls stop for the rest of the month once reached (0 for no cap)
+    translationCacheHours: number; // How long translations are reused for identical texts (0 disables the cache)
+}
+
+export interface TranscriptionSettings {
+    enabled: boolean; // Transcribe forwarded audio and voice notes
+    url: string; // Whisper-compatible server (OpenAI audio API), e.g. http://localhost:8000/v1
+    model: string;
+    language?: string; // ISO 639-1 hint; the server detects the language when unset
+    timeoutMs: number;
+    maxBytes: number; // Larger audio is forwarded without a transcript
+}
+
+export interface WhatsAppSessionConfig {
+    id: string;
+    name: string;
+    engine: 'wwebjs' | 'baileys';
+    phoneNumber?: string; // For pairing by code
+    createdAt: Date;
+}
+
+export interface TelegramSessionConfig {
+    id: string;
+    name: string;
+    type: 'user' | 'bot';
+    botToken?: string; // Bot sessions only
+    createdAt: Date;
+}
+
+export type PublicTelegramSessionConfig = Omit<TelegramSessionConfig, 'botToken'> & { hasBotToken: boolean };
+
+export interface LLMProviderConfig {
+    id: string;
+    name: string;
+    baseUrl: string; // OpenAI-compatible API root, e.g. http://localhost:11434/v1 for Ollama
+    apiKey?: string;
+    timeoutMs?: number;
+    createdAt: Date;
+}
+
+export type PublicLLMProviderConfig = Omit<LLMProviderConfig, 'apiKey'> & { hasApiKey: boolean };
+
 export interface AppConfig {
     whatsappGroupId: string;
     telegramChannelIds: string[]; // Keep for backward compatibility
     telegramChannels: TelegramChannel[]; // New structured format
     twitterAccounts: TwitterAccount[];
     lastSinceId?: string; // Add this field for Twitter's last checked tweet ID
+    whatsappEngine?: 'wwebjs' | 'baileys'; // Chosen at runtime; WHATSAPP_ENGINE env is the default
+    whatsappSessions: WhatsAppSessionConfig[]; // Extra WhatsApp accounts besides the default session
+    telegramSessions: TelegramSessionConfig[]; // Extra Telegram users and bots besides the default session
+    llmProviders: LLMProviderConfig[]; // OpenAI-compatible endpoints besides the built-in OpenRouter and mock providers
+    defaultRetryPolicy: RetryPolicy;
+    retryPolicies: DestinationRetryPolicy[]; // Per-destination overrides
+    messageTemplates: Partial<Record<RoutePlatform, string>>; // Global default template per source platform
+    dedup: DedupSettings;
+    telegramCatchUp: TelegramCatchUpSettings;
+    aiUsage: AIUsageSettings;
+    transcription: TranscriptionSettings;
     isActive: boolean;
     createdAt: Date;
     lastModified: Date;
 }
 
+// AppConfig as returned by the API (see getPublicConfig)
+export type PublicAppConfig = Omit<AppConfig, 'telegramSessions' | 'llmProviders'> & {
+    telegramSessions: PublicTelegramSessionConfig[];
+    llmProviders: PublicLLMProviderConfig[];
+};
+
 class ConfigManager {
     private config: AppConfig;
     private readonly CONFIG_ID = 'main_config';
@@ -33,11 +113,41 @@ class ConfigManager {
         telegramChannels: [],
         twitterAccounts: [],
         lastSinceId: undefined,
+        whatsappSessions: [],
+        telegramSessions: [],
+        llmProviders: [],
+        defaultRetryPolicy: { ...DEFAULT_RETRY_POLICY },
+        retryPolicies: [],
+        messageTemplates: {},
+        dedup: {
+            ttlHours: 72,
+            contentHashEnabled: false,
+            contentWindowMinutes: 60,
+            contentMinLength: 30
+        },
+        telegramCatchUp: {
+            enabled: true,
+            maxAgeMinutes: 360,
+            maxMessages: 100
+        },
+        aiUsage: {
+            monthlyBudgetUsd: 0,
+            translationCacheHours: 168
+        },
+        transcription: {
+            enabled: false,
+            url: process.env.WHISPER_URL || 'http://localhost:8000/v1',
+            model: 'whisper-1',
+            timeoutMs: 120 * 1000,
+            maxBytes: 25 * 1024 * 1024
+        },
         isActive: true,
         createdAt: new Date(),
         lastModified: new Date()
     };
     private initialized = false;
+    private loadedFromDatabase: boolean = false; // False while the defaults stand in for the stored config
+    private changeListeners: ((changedKeys: (keyof AppConfig)[]) => void)[] = [];
 
     constructor() {
         this.config = { ...this.defaultConfig };
@@ -99,9 +209,11 @@ class ConfigManager {
                     
                     console.log('Configuration loaded from database');
                     this.config = config;
+                    this.loadedFromDatabase = true;
                 } else {
                     console.log('Config document not found in database, creating with default configuration');
                     await this.saveConfig();
+                    this.loadedFromDatabase = true;
                 }
             } finally {
                 await conn.close();
@@ -148,6 +260,13 @@ class ConfigManager {
         }
     }
 
+    /**
+     * Whether the config was read from the database (rather than defaulted because the database was down)
+     */
+    public isLoadedFromDatabase(): boolean {
+        return this.loadedFromDatabase;
+    }
+
     /**
      * Get the entire configuration object
      */
@@ -156,6 +275,18 @@ class ConfigManager {
         return { ...this.config };
     }
 
+    /**
+     * Get the configuration for API responses, without secrets (bot tokens and LLM API keys)
+     */
+    public async getPublicConfig(): Promise<PublicAppConfig> {
+        const config = await this.getConfig();
+        return {
+            ...config,
+            telegramSessions: config.telegramSessions.map(({ botToken, ...session }) => ({ ...session, hasBotToken: !!botToken })),
+            llmProviders: config.llmProviders.map(({ apiKey, ...provider }) => ({ ...provider, hasApiKey: !!apiKey }))
+        };
+    }
+
     /**
      * Get the entire configuration object (synchronous)
      */
@@ -174,6 +305,22 @@ class ConfigManager {
             lastModified: new Date()
         };
         await this.saveConfig();
+
+        const changedKeys = Object.keys(updates) as (keyof AppConfig)[];
+        for (const listener of this.changeListeners) {
+            try {
+                listener(changedKeys);
+            } catch (error) {
+                console.error('Error in config change listener:', error);
+            }
+        }
+    }
+
+    /**
+     * Register a listener called with the changed keys after every config update
+     */
+    public onChange(listener: (changedKeys: (keyof AppConfig)[]) => void): void {
+        this.changeListeners.push(listener);
     }
 
     /**
@@ -289,6 +436,29 @@ class ConfigManager {
         return account?.whatsappGroupIds || [];
     }
 
+    /**
+     * Update Telegram chats for a specific Twitter account
+     */
+    public async setTwitterAccountTelegramChats(accountId: string, chatIds: string[]): Promise<void> {
+        const currentAccounts = this.getTwitterAccounts();
+        const accountIndex = currentAccounts.findIndex(acc => acc.id === accountId);
+
+        if (accountIndex >= 0) {
+            currentAccounts[accountIndex].telegramChatIds = chatIds;
+            await this.setTwitterAccounts(currentAccounts);
+        } else {
+            throw new Error(`Twitter account with ID ${accountId} not found`);
+        }
+    }
+
+    /**
+     * Get Telegram chats for a specific Twitter account
+     */
+    public getTwitterAccountTelegramChats(accountId: string): string[] {
+        const account = this.config.twitterAccounts.find(acc => acc.id === accountId);
+        return account?.telegramChatIds || [];
+    }
+
     /**
      * Add WhatsApp group to a specific Twitter account
      */
@@ -370,6 +540,62 @@ class ConfigManager {
         await this.updateConfig({ lastSinceId: sinceId });
     }
 
+    /**
+     * Get the WhatsApp engine chosen through the API, if any
+     */
+    public getWhatsAppEngine(): 'wwebjs' | 'baileys' | null {
+        return this.config.whatsappEngine || null;
+    }
+
+    /**
+     * Remember the WhatsApp engine to start with
+     */
+    public async setWhatsAppEngine(engine: 'wwebjs' | 'baileys'): Promise<void> {
+        await this.updateConfig({ whatsappEngine: engine });
+    }
+
+    /**
+     * Get the extra WhatsApp sessions (the default session is not listed)
+     */
+    public getWhatsAppSessions(): WhatsAppSessionConfig[] {
+        return [...(this.config.whatsappSessions || [])];
+    }
+
+    /**
+     * Set the extra WhatsApp sessions
+     */
+    public async setWhatsAppSessions(sessions: WhatsAppSessionConfig[]): Promise<void> {
+        await this.updateConfig({ whatsappSessions: sessions });
+    }
+
+    /**
+     * Get the extra Telegram sessions (the default session is not listed)
+     */
+    public getTelegramSessions(): TelegramSessionConfig[] {
+        return [...(this.config.telegramSessions || [])];
+    }
+
+    /**
+     * Set the extra Telegram sessions
+     */
+    public async setTelegramSessions(sessions: TelegramSessionConfig[]): Promise<void> {
+        await this.updateConfig({ telegramSessions: sessions });
+    }
+
+    /**
+     * Get the configured LLM providers (the built-in ones are not listed)
+     */
+    public getLLMProviders(): LLMProviderConfig[] {
+        return [...(this.config.llmProviders || [])];
+    }
+
+    /**
+     * Set the configured LLM providers
+     */
+    public async setLLMProviders(providers: LLMProviderConfig[]): Promise<void> {
+        await this.updateConfig({ llmProviders: providers });
+    }
+
     /**
      * Get Telegram channels (structured)
      */
@@ -467,6 +693,140 @@ class ConfigManager {
         });
         await this.setTelegramChannels(newChannels);
     }
+
+    /**
+     * Get the retry policy for a destination (override or default)
+     */
+    public getRetryPolicy(platform: DestinationRetryPolicy['platform'], destinationId: string): RetryPolicy {
+        const override = this.config.retryPolicies.find(p => p.platform === platform && p.destinationId === destinationId);
+        const base = this.config.defaultRetryPolicy;
+        if (!override) {
+            return { ...base };
+        }
+        return {
+            maxAttempts: override.maxAttempts ?? base.maxAttempts,
+            baseDelayMs: override.baseDelayMs ?? base.baseDelayMs,
+            maxDelayMs: override.maxDelayMs ?? base.maxDelayMs
+        };
+    }
+
+    /**
+     * Get all per-destination retry policies
+     */
+    public getRetryPolicies(): DestinationRetryPolicy[] {
+        return [...this.config.retryPolicies];
+    }
+
+    /**
+     * Set the default retry policy
+     */
+    public async setDefaultRetryPolicy(policy: RetryPolicy): Promise<void> {
+        await this.updateConfig({ defaultRetryPolicy: policy });
+    }
+
+    /**
+     * Add or replace the retry policy for a destination
+     */
+    public async setRetryPolicy(policy: DestinationRetryPolicy): Promise<void> {
+        const policies = this.getRetryPolicies().filter(
+            p => !(p.platform === policy.platform && p.destinationId === policy.destinationId)
+        );
+        policies.push(policy);
+        await this.updateConfig({ retryPolicies: policies });
+    }
+
+    /**
+     * Remove the retry policy override for a destination
+     */
+    public async removeRetryPolicy(platform: DestinationRetryPolicy['platform'], destinationId: string): Promise<void> {
+        const policies = this.getRetryPolicies().filter(
+            p => !(p.platform === platform && p.destinationId === destinationId)
+        );
+        await this.updateConfig({ retryPolicies: policies });
+    }
+
+    /**
+     * Get the global default template for a source platform (undefined means the built-in format)
+     */
+    public getMessageTemplate(platform: RoutePlatform): string | undefined {
+        return this.config.messageTemplates?.[platform];
+    }
+
+    /**
+     * Get all global default templates
+     */
+    public getMessageTemplates(): Partial<Record<RoutePlatform, string>> {
+        return { ...this.config.messageTemplates };
+    }
+
+    /**
+     * Set the global default template for a source platform, or null to restore the built-in format
+     */
+    public async setMessageTemplate(platform: RoutePlatform, template: string | null): Promise<void> {
+        const templates = this.getMessageTemplates();
+        if (template) {
+            templates[platform] = template;
+        } else {
+            delete templates[platform];
+        }
+        await this.updateConfig({ messageTemplates: templates });
+    }
+
+    /**
+     * Get the deduplication settings
+     */
+    public getDedupSettings(): DedupSettings {
+        return { ...this.defaultConfig.dedup, ...this.config.dedup };
+    }
+
+    /**
+     * Update the deduplication settings
+     */
+    public async setDedupSettings(settings: Partial<DedupSettings>): Promise<void> {
+        await this.updateConfig({ dedup: { ...this.getDedupSettings(), ...settings } });
+    }
+
+    /**
+     * Get the Telegram catch-up settings
+     */
+    public getTelegramCatchUpSettings(): TelegramCatchUpSettings {
+        return { ...this.defaultConfig.telegramCatchUp, ...this.config.telegramCatchUp };
+    }
+
+    /**
+     * Update the Telegram catch-up settings
+     */
+    public async setTelegramCatchUpSettings(settings: Partial<TelegramCatchUpSettings>): Promise<void> {
+        await this.updateConfig({ telegramCatchUp: { ...this.getTelegramCatchUpSettings(), ...settings } });
+    }
+
+    /**
+     * Get the AI budget and translation cache settings
+     */
+    public getAIUsageSettings(): AIUsageSettings {
+        return { ...this.defaultConfig.aiUsage, ...this.config.aiUsage };
+    }
+
+    /**
+     * Update the AI budget and translation cache settings
+     */
+    public async setAIUsageSettings(settings: Partial<AIUsageSettings>): Promise<void> {
+        await this.updateConfig({ aiUsage: { ...this.getAIUsageSettings(), ...settings } });
+    }
+
+    /**
+     * Get the audio transcription settings
+     */
+    public getTranscriptionSettings(): TranscriptionSettings {
+        return { ...this.defaultConfig.transcription, ...this.config.transcription };
+    }
+
+    /**
+     * Update the audio transcription settings
+     */
+    public async setTranscriptionSettings(settings: Partial<TranscriptionSettings>): Promise<void> {
+        await this.updateConfig({ transcription: { ...this.getTranscriptionSettings(), ...settings } });
+    }
 }
 
 // Create and export singleton instance
@@ -0,0 +1,91 @@
+import { RouteFilters } from './db';
+import { RoutableMessage } from './routeEngine';
+
+export interface FilterDecision {
+    passed: boolean;
+    reason: string;
+}
+
+function pass(): FilterDecision {
+    return { passed: true, reason: 'passed' };
+}
+
+function reject(reason: string): FilterDecision {
+    return { passed: false, reason };
+}
+
+function normalizeSender(value: string): string {
+    return value.trim().replace(/^@/, '').toLowerCase();
+}
+
+function senderMatches(list: string[], message: RoutableMessage): boolean {
+    const candidates = [message.senderId, message.senderName]
+        .filter((value): value is string => !!value)
+        .map(normalizeSender);
+    return list.some(entry => candidates.includes(normalizeSender(entry)));
+}
+
+function testPattern(pattern: string, text: string): boolean {
+    try {
+        return new RegExp(pattern, 'i').test(text);
+    } catch {
+        console.warn(`[Filters] Invalid regex in route filter: ${pattern}`);
+        return false;
+    }
+}
+
+/**
+ * Evaluate a route's content filters against a message.
+ * Cheap checks run first; the first failing filter decides the reason.
+ */
+export function evaluateFilters(filters: RouteFilters | undefined, message: RoutableMessage): FilterDecision {
+    if (!filters) {
+        return pass();
+    }
+
+    const text = message.text || '';
+    const lowerText = text.toLowerCase();
+
+    if (filters.forwarded === 'only' && !message.isForwarded) {
+        return reject('not a forwarded message');
+    }
+    if (filters.forwarded === 'never' && message.isForwarded) {
+        return reject('forwarded message');
+    }
+
+    if (filters.content === 'mediaOnly' && !message.hasMedia) {
+        return reject('no media');
+    }
+    if (filters.content === 'textOnly' && message.hasMedia) {
+        return reject('has media');
+    }
+
+    if (filters.minLength && text.trim().length < filters.minLength) {
+        return reject(`text shorter than ${filters.minLength} characters`);
+    }
+
+    if (filters.allowedSenders?.length && !senderMatches(filters.allowedSenders, message)) {
+        return reject(`sender ${message.senderName || message.senderId || 'unknown'} not in allow list`);
+    }
+    if (filters.blockedSenders?.length && senderMatches(filters.blockedSenders, message)) {
+        return reject(`sender ${message.senderName || message.senderId || 'unknown'} is blocked`);
+    }
+
+    const excludedKeyword = filters.excludeKeywords?.find(keyword => lowerText.includes(keyword.toLowerCase()));
+    if (excludedKeyword) {
+        return reject(`contains excluded keyword "${excludedKeyword}"`);
+    }
+    const excludedPattern = filters.excludePatterns?.find(pattern => testPattern(pattern, text));
+    if (excludedPattern) {
+        return reject(`matches excluded pattern /${excludedPattern}/`);
+    }
+
+    if (filters.includeKeywords?.length && !filters.includeKeywords.some(keyword => lowerText.includes(keyword.toLowerCase()))) {
+        return reject('contains none of the required keywords');
+    }
+    if (filters.includePatterns?.length && !filters.includePatterns.some(pattern => testPattern(pattern, text))) {
+        return reject('matches none of the required patterns');
+    }
+
+    return pass();
+}
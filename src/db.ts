@@ -420,11 +420,17 @@ async function getListeningConfig(id: string): Promise<ListeningConfig | null> {
   }
 }
 
-async function getAllListeningConfigs(): Promise<ListeningConfig[]> {
+/**
+ * @param strict Throw when the database can't be read, instead of returning an empty list
+ */
+async function getAllListeningConfigs(strict: boolean = false): Promise<ListeningConfig[]> {
   let conn: any = null;
   try {
     const dbResult = await database('app_config');
-    if (!dbResult) return [];
+    if (!dbResult) {
+      if (strict) throw new Error('Database not available');
+      return [];
+    }
     
     conn = dbResult.conn;
     const coll = dbResult.coll;
@@ -433,6 +439,7 @@ async function getAllListeningConfigs(): Promise<ListeningConfig[]> {
     return configs as unknown as ListeningConfig[];
   } catch (error) {
     console.error('Error getting all listening configs:', error);
+    if (strict) throw error;
     return [];
   } finally {
     if (conn) {
@@ -552,16 +559,23 @@ async function getWaToTgConfig(id: string): Promise<WaToTgConfig | null> {
   }
 }
 
-async function getAllWaToTgConfigs(): Promise<WaToTgConfig[]> {
+/**
+ * @param strict Throw when the database can't be read, instead of returning an empty list
+ */
+async function getAllWaToTgConfigs(strict: boolean = false): Promise<WaToTgConfig[]> {
   let conn: any = null;
   try {
     const dbResult = await database(WA_TO_TG_COLLECTION);
-    if (!dbResult) return [];
+    if (!dbResult) {
+      if (strict) throw new Error('Database not available');
+      return [];
+    }
     conn = dbResult.conn;
     const coll = dbResult.coll;
     return await coll.find({}).toArray() as unknown as WaToTgConfig[];
   } catch (error) {
     console.error('Error getting all WA→TG configs:', error);
+    if (strict) throw error;
     return [];
   } finally {
     if (conn) await conn.close();
@@ -601,6 +615,1105 @@ async function deleteWaToTgConfig(id: string): Promise<boolean> {
   }
 }
 
+// Unified routing rules: one source, one or more destinations, ordered match conditions
+export type RoutePlatform = 'telegram' | 'whatsapp' | 'twitter';
+
+export interface RouteSource {
+  platform: RoutePlatform;
+  id: string; // Telegram channel ID (without -100 prefix), WhatsApp group ID or Twitter account ID
+  sessionId?: string; // WhatsApp or Telegram user session that reads the source (default session when unset)
+}
+
+export interface RouteDestination {
+  platform: 'telegram' | 'whatsapp';
+  id: string; // Telegram chat ID or WhatsApp group ID
+  sessionId?: string; // WhatsApp session, or Telegram user or bot session, that sends (default session when unset)
+}
+
+export interface RouteCondition {
+  field: 'text' | 'senderId' | 'senderName' | 'mediaType' | 'hasMedia' | 'isForwarded';
+  operator: 'equals' | 'contains' | 'regex' | 'exists';
+  value?: string;
+  negate?: boolean;
+}
+
+// Content filters, evaluated before any AI call or media download
+export interface RouteFilters {
+  includeKeywords?: string[]; // At least one must appear in the text
+  excludeKeywords?: string[];
+  includePatterns?: string[]; // Regular expressions, at least one must match
+  excludePatterns?: string[];
+  allowedSenders?: string[]; // Sender IDs, names or @usernames
+  blockedSenders?: string[];
+  forwarded?: 'any' | 'only' | 'never';
+  content?: 'any' | 'mediaOnly' | 'textOnly';
+  minLength?: number;
+}
+
+// AI actions beyond translation, answered in one JSON call with the route's AI profile (see aiActions.ts)
+export interface RouteAIActions {
+  summarize?: { minLength: number; bullets: number }; // Posts of at least minLength characters become N bullets
+  classify?: { topics: string[] }; // Matching topics are prepended as hashtags
+  headline?: boolean; // A headline is prepended to the text
+  skip?: { criteria?: string }; // Spam, ads and anything matching the criteria is not forwarded
+}
+
+// Per-route switches for the message pipeline stages (see messagePipeline.ts); a stage runs unless set to false
+export interface RouteStages {
+  filters?: boolean; // Content filters (route conditions always apply)
+  ai?: boolean; // AI profile and actions
+  template?: boolean; // Message template; when off, the (translated) text is sent as it is
+  transcription?: boolean; // Audio transcript added to the text (when transcription is enabled)
+}
+
+export interface Route {
+  id: string;
+  name: string;
+  source: RouteSource;
+  destinations: RouteDestination[];
+  conditions: RouteCondition[]; // Evaluated in order, all must match
+  filters?: RouteFilters;
+  template?: string; // Overrides the global message template (see messageTemplate.ts)
+  aiProfileId?: string; // AI profile for this route's messages, 'none' for no AI (see aiProfiles.ts)
+  aiActions?: RouteAIActions;
+  stages?: RouteStages;
+  mirrorEdits?: boolean; // Edit the delivered copies when the source message is edited
+  mirrorDeletes?: boolean; // Delete the delivered copies for everyone when the source message is deleted
+  order: number;
+  isActive: boolean;
+  legacyKey?: string; // Set on routes kept in sync with the pre-route configs (see migrateConfig.ts)
+  createdAt: Date;
+  lastModified: Date;
+}
+
+const ROUTES_COLLECTION = 'routes';
+
+async function saveRoute(route: Omit<Route, 'id' | 'createdAt' | 'lastModified'>): Promise<Route | false> {
+  let conn: any = null;
+  try {
+    const dbResult = await database(ROUTES_COLLECTION);
+    if (!dbResult) return false;
+    conn = dbResult.conn;
+    const coll = dbResult.coll;
+    const routeWithMeta: Route = {
+      ...route,
+      id: `route_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: new Date(),
+      lastModified: new Date()
+    };
+    await coll.insertOne(routeWithMeta);
+    return routeWithMeta;
+  } catch (error) {
+    console.error('Error saving route:', error);
+    return false;
+  } finally {
+    if (conn) await conn.close();
+  }
+}
+
+async function updateRoute(id: string, updates: Partial<Omit<Route, 'id' | 'createdAt'>>): Promise<boolean> {
+  let conn: any = null;
+  try {
+    const dbResult = await database(ROUTES_COLLECTION);
+    if (!dbResult) return false;
+    conn = dbResult.conn;
+    const coll = dbResult.coll;
+    const result = await coll.updateOne({ id }, { $set: { ...updates, lastModified: new Date() } });
+    return result.matchedCount > 0;
+  } catch (error) {
+    console.error('Error updating route:', error);
+    return false;
+  } finally {
+    if (conn) await conn.close();
+  }
+}
+
+async function getRoute(id: string): Promise<Route | null> {
+  let conn: any = null;
+  try {
+    const dbResult = await database(ROUTES_COLLECTION);
+    if (!dbResult) return null;
+    conn = dbResult.conn;
+    const coll = dbResult.coll;
+    return await coll.findOne({ id }) as unknown as Route | null;
+  } catch (error) {
+    console.error('Error getting route:', error);
+    return null;
+  } finally {
+    if (conn) await conn.close();
+  }
+}
+
+/**
+ * @param strict Throw when the database can't be read, instead of returning an empty list
+ */
+async function getAllRoutes(strict: boolean = false): Promise<Route[]> {
+  let conn: any = null;
+  try {
+    const dbResult = await database(ROUTES_COLLECTION);
+    if (!dbResult) {
+      if (strict) throw new Error('Database not available');
+      return [];
+    }
+    conn = dbResult.conn;
+    const coll = dbResult.coll;
+    return await coll.find({}).sort({ order: 1, createdAt: 1 }).toArray() as unknown as Route[];
+  } catch (error) {
+    console.error('Error getting all routes:', error);
+    if (strict) throw error;
+    return [];
+  } finally {
+    if (conn) await conn.close();
+  }
+}
+
+async function deleteRoute(id: string): Promise<boolean> {
+  let conn: any = null;
+  try {
+    const dbResult = await database(ROUTES_COLLECTION);
+    if (!dbResult) return false;
+    conn = dbResult.conn;
+    const coll = dbResult.coll;
+    const result = await coll.deleteOne({ id });
+    return result.deletedCount > 0;
+  } catch (error) {
+    console.error('Error deleting route:', error);
+    return false;
+  } finally {
+    if (conn) await conn.close();
+  }
+}
+
+// Named AI processing profiles, assigned per route or per source channel
+export interface AIProfile {
+  id: string;
+  name: string;
+  prompt: string;
+  providerId?: string; // LLM provider (see llmProviders.ts), OpenRouter when unset
+  model: string;
+  temperature: number;
+  targetLanguage?: string; // Added to the prompt, e.g. "Hebrew"
+  sources?: Pick<RouteSource, 'platform' | 'id'>[]; // Source channels that use this profile unless their route sets one
+  isDefault?: boolean; // Used by Telegram and WhatsApp sources that have no profile of their own
+  createdAt: Date;
+  lastModified: Date;
+}
+
+const AI_PROFILES_COLLECTION = 'ai_profiles';
+
+async function saveAIProfile(profile: Omit<AIProfile, 'id' | 'createdAt' | 'lastModified'>): Promise<AIProfile | false> {
+  let conn: any = null;
+  try {
+    const dbResult = await database(AI_PROFILES_COLLECTION);
+    if (!dbResult) return false;
+    conn = dbResult.conn;
+    const coll = dbResult.coll;
+    const profileWithMeta: AIProfile = {
+      ...profile,
+      id: `aiprofile_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: new Date(),
+      lastModified: new Date()
+    };
+    await coll.insertOne(profileWithMeta);
+    return profileWithMeta;
+  } catch (error) {
+    console.error('Error saving AI profile:', error);
+    return false;
+  } finally {
+    if (conn) await conn.close();
+  }
+}
+
+async function updateAIProfile(id: string, updates: Partial<Omit<AIProfile, 'id' | 'createdAt'>>): Promise<boolean> {
+  let conn: any = null;
+  try {
+    const dbResult = await database(AI_PROFILES_COLLECTION);
+    if (!dbResult) return false;
+    conn = dbResult.conn;
+    const coll = dbResult.coll;
+    const result = await coll.updateOne({ id }, { $set: { ...updates, lastModified: new Date() } });
+    return result.matchedCount > 0;
+  } catch (error) {
+    console.error('Error updating AI profile:', error);
+    return false;
+  } finally {
+    if (conn) await conn.close();
+  }
+}
+
+/**
+ * Make one profile the default and clear the flag on every other profile
+ */
+async function setDefaultAIProfile(id: string): Promise<boolean> {
+  let conn: any = null;
+  try {
+    const dbResult = await database(AI_PROFILES_COLLECTION);
+    if (!dbResult) return false;
+    conn = dbResult.conn;
+    const coll = dbResult.coll;
+    await coll.updateMany({ id: { $ne: id }, isDefault: true }, { $set: { isDefault: false, lastModified: new Date() } });
+    const result = await coll.updateOne({ id }, { $set: { isDefault: true, lastModified: new Date() } });
+    return result.matchedCount > 0;
+  } catch (error) {
+    console.error('Error setting default AI profile:', error);
+    return false;
+  } finally {
+    if (conn) await conn.close();
+  }
+}
+
+async function getAIProfile(id: string): Promise<AIProfile | null> {
+  let conn: any = null;
+  try {
+    const dbResult = await database(AI_PROFILES_COLLECTION);
+    if (!dbResult) return null;
+    conn = dbResult.conn;
+    const coll = dbResult.coll;
+    return await coll.findOne({ id }) as unknown as AIProfile | null;
+  } catch (error) {
+    console.error('Error getting AI profile:', error);
+    return null;
+  } finally {
+    if (conn) await conn.close();
+  }
+}
+
+async function getAllAIProfiles(): Promise<AIProfile[]> {
+  let conn: any = null;
+  try {
+    const dbResult = await database(AI_PROFILES_COLLECTION);
+    if (!dbResult) return [];
+    conn = dbResult.conn;
+    const coll = dbResult.coll;
+    return await coll.find({}).sort({ createdAt: 1 }).toArray() as unknown as AIProfile[];
+  } catch (error) {
+    console.error('Error getting all AI profiles:', error);
+    return [];
+  } finally {
+    if (conn) await conn.close();
+  }
+}
+
+async function deleteAIProfile(id: string): Promise<boolean> {
+  let conn: any = null;
+  try {
+    const dbResult = await database(AI_PROFILES_COLLECTION);
+    if (!dbResult) return false;
+    conn = dbResult.conn;
+    const coll = dbResult.coll;
+    const result = await coll.deleteOne({ id });
+    return result.deletedCount > 0;
+  } catch (error) {
+    console.error('Error deleting AI profile:', error);
+    return false;
+  } finally {
+    if (conn) await conn.close();
+  }
+}
+
+/**
+ * The single system prompt used before AI profiles (system_prompts collection)
+ */
+async function getLegacySystemPrompt(): Promise<{ prompt?: string; model?: string; temperature?: number } | null> {
+  let conn: any = null;
+  try {
+    const dbResult = await database('system_prompts');
+    if (!dbResult) return null;
+    conn = dbResult.conn;
+    const coll = dbResult.coll;
+    return await coll.findOne({}) as { prompt?: string; model?: string; temperature?: number } | null;
+  } catch (error) {
+    console.error('Error getting legacy system prompt:', error);
+    return null;
+  } finally {
+    if (conn) await conn.close();
+  }
+}
+
+// Persisted outbound WhatsApp delivery queue (shared by both engines)
+export interface OutboundQueueItem {
+  id: string;
+  sessionId?: string; // WhatsApp session that sends it (default session when unset)
+  groupId: string;
+  mediaPath: string;
+  content: string;
+  options?: {
+    type?: 'text' | 'media';
+    caption?: string;
+    mediaType?: 'image' | 'video' | 'audio' | 'document';
+    quotedMessageId?: string; // Sent as a quote-reply to this WhatsApp message
+  };
+  createdAt: Date;
+  attempts?: number;
+  nextAttemptAt?: Date;
+  lastError?: string;
+}
+
+const OUTBOUND_QUEUE_COLLECTION = 'outbound_queue';
+
+async function saveOutboundQueueItem(item: OutboundQueueItem): Promise<boolean> {
+  let conn: any = null;
+  try {
+    const dbResult = await database(OUTBOUND_QUEUE_COLLECTION);
+    if (!dbResult) return false;
+    conn = dbResult.conn;
+    const coll = dbResult.coll;
+    await coll.replaceOne({ id: item.id }, item, { upsert: true });
+    return true;
+  } catch (error) {
+    console.error('Error saving outbound queue item:', error);
+    return false;
+  } finally {
+    if (conn) await conn.close();
+  }
+}
+
+async function deleteOutboundQueueItem(id: string): Promise<boolean> {
+  let conn: any = null;
+  try {
+    const dbResult = await database(OUTBOUND_QUEUE_COLLECTION);
+    if (!dbResult) return false;
+    conn = dbResult.conn;
+    const coll = dbResult.coll;
+    const result = await coll.deleteOne({ id });
+    return result.deletedCount > 0;
+  } catch (error) {
+    console.error('Error deleting outbound queue item:', error);
+    return false;
+  } finally {
+    if (conn) await conn.close();
+  }
+}
+
+async function getOutboundQueueItems(): Promise<OutboundQueueItem[]> {
+  let conn: any = null;
+  try {
+    const dbResult = await database(OUTBOUND_QUEUE_COLLECTION);
+    if (!dbResult) return [];
+    conn = dbResult.conn;
+    const coll = dbResult.coll;
+    return await coll.find({}).sort({ createdAt: 1 }).toArray() as unknown as OutboundQueueItem[];
+  } catch (error) {
+    console.error('Error getting outbound queue items:', error);
+    return [];
+  } finally {
+    if (conn) await conn.close();
+  }
+}
+
+/**
+ * Telegram send waiting in the Telegram outbound queue (see telegramOutboundQueue.ts)
+ */
+export interface TelegramOutboundItem {
+  id: string;
+  sessionId: string; // Telegram user or bot session that sends it
+  chatId: string;
+  sourceMessageId: string; // Source message it delivers
+  text: string; // Message text, or the caption when files are attached
+  files?: { path: string; fileName: string; mimeType: string }[]; // One file goes as media, several as an album
+  replyTo?: number;
+  options?: {
+    parseMode?: 'html'; // The text is converted to Telegram HTML when sent
+    linkPreview?: boolean;
+  };
+  createdAt: Date;
+  attempts?: number;
+  nextAttemptAt?: Date;
+  lastError?: string;
+}
+
+const TELEGRAM_OUTBOUND_QUEUE_COLLECTION = 'telegram_outbound_queue';
+
+async function saveTelegramOutboundItem(item: TelegramOutboundItem): Promise<boolean> {
+  let conn: any = null;
+  try {
+    const dbResult = await database(TELEGRAM_OUTBOUND_QUEUE_COLLECTION);
+    if (!dbResult) return false;
+    conn = dbResult.conn;
+    const coll = dbResult.coll;
+    await coll.replaceOne({ id: item.id }, item, { upsert: true });
+    return true;
+  } catch (error) {
+    console.error('Error saving Telegram outbound queue item:', error);
+    return false;
+  } finally {
+    if (conn) await conn.close();
+  }
+}
+
+async function deleteTelegramOutboundItem(id: string): Promise<boolean> {
+  let conn: any = null;
+  try {
+    const dbResult = await database(TELEGRAM_OUTBOUND_QUEUE_COLLECTION);
+    if (!dbResult) return false;
+    conn = dbResult.conn;
+    const coll = dbResult.coll;
+    const result = await coll.deleteOne({ id });
+    return result.deletedCount > 0;
+  } catch (error) {
+    console.error('Error deleting Telegram outbound queue item:', error);
+    return false;
+  } finally {
+    if (conn) await conn.close();
+  }
+}
+
+async function getTelegramOutboundItems(): Promise<TelegramOutboundItem[]> {
+  let conn: any = null;
+  try {
+    const dbResult = await database(TELEGRAM_OUTBOUND_QUEUE_COLLECTION);
+    if (!dbResult) return [];
+    conn = dbResult.conn;
+    const coll = dbResult.coll;
+    return await coll.find({}).sort({ createdAt: 1 }).toArray() as unknown as TelegramOutboundItem[];
+  } catch (error) {
+    console.error('Error getting Telegram outbound queue items:', error);
+    return [];
+  } finally {
+    if (conn) await conn.close();
+  }
+}
+
+// Deliveries that exhausted their retry policy
+export interface DeadLetter {
+  id: string;
+  platform: 'whatsapp' | 'telegram';
+  destinationId: string; // WhatsApp group ID or Telegram chat ID
+  sessionId?: string; // WhatsApp or Telegram session the delivery was sent from
+  content: string;
+  mediaPath?: string;
+  mediaFileName?: string;
+  mediaMimeType?: string;
+  mediaFiles?: { path: string; fileName: string; mimeType: string }[]; // Every file of a Telegram album
+  options?: OutboundQueueItem['options'];
+  attempts: number;
+  lastError: string;
+  createdAt: Date;
+  failedAt: Date;
+}
+
+const DEAD_LETTER_COLLECTION = 'dead_letters';
+
+async function saveDeadLetter(deadLetter: DeadLetter): Promise<boolean> {
+  let conn: any = null;
+  try {
+    const dbResult = await database(DEAD_LETTER_COLLECTION);
+    if (!dbResult) return false;
+    conn = dbResult.conn;
+    const coll = dbResult.coll;
+    await coll.replaceOne({ id: deadLetter.id }, deadLetter, { upsert: true });
+    return true;
+  } catch (error) {
+    console.error('Error saving dead letter:', error);
+    return false;
+  } finally {
+    if (conn) await conn.close();
+  }
+}
+
+async function getDeadLetter(id: string): Promise<DeadLetter | null> {
+  let conn: any = null;
+  try {
+    const dbResult = await database(DEAD_LETTER_COLLECTION);
+    if (!dbResult) return null;
+    conn = dbResult.conn;
+    const coll = dbResult.coll;
+    return await coll.findOne({ id }) as unknown as DeadLetter | null;
+  } catch (error) {
+    console.error('Error getting dead letter:', error);
+    return null;
+  } finally {
+    if (conn) await conn.close();
+  }
+}
+
+async function getDeadLetters(query: Partial<Pick<DeadLetter, 'platform' | 'destinationId'>> = {}): Promise<DeadLetter[]> {
+  let conn: any = null;
+  try {
+    const dbResult = await database(DEAD_LETTER_COLLECTION);
+    if (!dbResult) return [];
+    conn = dbResult.conn;
+    const coll = dbResult.coll;
+    return await coll.find(query).sort({ failedAt: -1 }).toArray() as unknown as DeadLetter[];
+  } catch (error) {
+    console.error('Error getting dead letters:', error);
+    return [];
+  } finally {
+    if (conn) await conn.close();
+  }
+}
+
+async function deleteDeadLetter(id: string): Promise<boolean> {
+  let conn: any = null;
+  try {
+    const dbResult = await database(DEAD_LETTER_COLLECTION);
+    if (!dbResult) return false;
+    conn = dbResult.conn;
+    const coll = dbResult.coll;
+    const result = await coll.deleteOne({ id });
+    return result.deletedCount > 0;
+  } catch (error) {
+    console.error('Error deleting dead letter:', error);
+    return false;
+  } finally {
+    if (conn) await conn.close();
+  }
+}
+
+
+/**
+ * Link between a source message and the copy delivered to a destination,
+ * used to mirror edits and deletions
+ */
+export interface MessageMapping {
+  sourcePlatform: RoutePlatform;
+  sourceChatId: string; // Telegram IDs without the -100 prefix
+  sourceMessageId: string;
+  destinationPlatform: RouteDestination['platform'];
+  destinationId: string;
+  destinationMessageId: string;
+  destinationMessageKey: string; // The copy's ID as readers of the destination see it (see loopGuard.ts)
+  sessionId?: string; // Session that sent the copy, and must edit or delete it
+  routeId?: string;
+  suffix?: string; // Text appended after the rendered template (e.g. media notes), kept on edits
+  captionless?: boolean; // Album parts sent without the caption are not edited
+  deleted?: boolean;
+  createdAt: Date;
+  expiresAt?: Date; // Set on save, see MESSAGE_MAPPING_TTL_MS
+}
+
+const MESSAGE_MAPPING_COLLECTION = 'message_mappings';
+// Copies older than this are no longer edited, deleted, quoted or recognized by the loop guard
+const MESSAGE_MAPPING_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+let messageMappingIndexesReady = false;
+
+async function saveMessageMapping(mapping: MessageMapping): Promise<boolean> {
+  let conn: any = null;
+  try {
+    const dbResult = await database(MESSAGE_MAPPING_COLLECTION);
+    if (!dbResult) return false;
+    conn = dbResult.conn;
+    const coll = dbResult.coll;
+
+    if (!messageMappingIndexesReady) {
+      // Source lookups, with or without the chat ID, and delivered copy lookups
+      await coll.createIndex({ sourcePlatform: 1, sourceMessageId: 1, sourceChatId: 1, destinationPlatform: 1, destinationId: 1 });
+      await coll.createIndex({ destinationPlatform: 1, destinationMessageKey: 1, destinationId: 1 });
+      await coll.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+      messageMappingIndexesReady = true;
+    }
+
+    await coll.replaceOne(
+      {
+        sourcePlatform: mapping.sourcePlatform,
+        sourceChatId: mapping.sourceChatId,
+        sourceMessageId: mapping.sourceMessageId,
+        destinationPlatform: mapping.destinationPlatform,
+        destinationId: mapping.destinationId
+      },
+      { ...mapping, expiresAt: new Date(mapping.createdAt.getTime() + MESSAGE_MAPPING_TTL_MS) },
+      { upsert: true }
+    );
+    return true;
+  } catch (error) {
+    console.error('Error saving message mapping:', error);
+    return false;
+  } finally {
+    if (conn) await conn.close();
+  }
+}
+
+/**
+ * Get the destination copies of a source message. Without a chat ID (Telegram
+ * deletions outside channels) the message ID alone is used.
+ */
+async function getMessageMappings(sourcePlatform: RoutePlatform, sourceChatId: string | undefined, sourceMessageId: string): Promise<MessageMapping[]> {
+  let conn: any = null;
+  try {
+    const dbResult = await database(MESSAGE_MAPPING_COLLECTION);
+    if (!dbResult) return [];
+    conn = dbResult.conn;
+    const coll = dbResult.coll;
+    const query: any = { sourcePlatform, sourceMessageId, deleted: { $ne: true } };
+    if (sourceChatId) query.sourceChatId = sourceChatId;
+    return await coll.find(query).toArray() as unknown as MessageMapping[];
+  } catch (error) {
+    console.error('Error getting message mappings:', error);
+    return [];
+  } finally {
+    if (conn) await conn.close();
+  }
+}
+
+/**
+ * Find the copy of a source message delivered to one destination (e.g. to quote-reply to it)
+ */
+async function findMessageMapping(
+  sourcePlatform: RoutePlatform,
+  sourceChatId: string | undefined,
+  sourceMessageId: string,
+  destinationPlatform: RouteDestination['platform'],
+  destinationId: string
+): Promise<MessageMapping | null> {
+  const mappings = await getMessageMappings(sourcePlatform, sourceChatId, sourceMessageId);
+  return mappings.find(m => m.destinationPlatform === destinationPlatform && m.destinationId === destinationId) || null;
+}
+
+/**
+ * Check whether a message is one of our delivered copies (so it must not be forwarded again)
+ * @param destinationIds Forms the chat ID may have been stored in (e.g. with and without the -100 prefix)
+ * @param messageKey The message's key, as stored in destinationMessageKey
+ */
+async function isDeliveredCopy(
+  destinationPlatform: RouteDestination['platform'],
+  destinationIds: string[],
+  messageKey: string
+): Promise<boolean> {
+  let conn: any = null;
+  try {
+    const dbResult = await database(MESSAGE_MAPPING_COLLECTION);
+    if (!dbResult) return false;
+    conn = dbResult.conn;
+    const coll = dbResult.coll;
+    const mapping = await coll.findOne({
+      destinationPlatform,
+      destinationId: { $in: destinationIds },
+      destinationMessageKey: messageKey
+    });
+    return mapping !== null;
+  } catch (error) {
+    console.error('Error checking delivered copies:', error);
+    return false;
+  } finally {
+    if (conn) await conn.close();
+  }
+}
+
+async function markMessageMappingDeleted(mapping: MessageMapping): Promise<boolean> {
+  let conn: any = null;
+  try {
+    const dbResult = await database(MESSAGE_MAPPING_COLLECTION);
+    if (!dbResult) return false;
+    conn = dbResult.conn;
+    const coll = dbResult.coll;
+    const result = await coll.updateOne(
+      {
+        sourcePlatform: mapping.sourcePlatform,
+        sourceChatId: mapping.sourceChatId,
+        sourceMessageId: mapping.sourceMessageId,
+        destinationPlatform: mapping.destinationPlatform,
+        destinationId: mapping.destinationId
+      },
+      { $set: { deleted: true } }
+    );
+    return result.modifiedCount > 0;
+  } catch (error) {
+    console.error('Error updating message mapping:', error);
+    return false;
+  } finally {
+    if (conn) await conn.close();
+  }
+}
+
+// Outcome of one forward attempt (a source message and every destination it was routed to)
+export type HistoryStatus = 'delivered' | 'partial' | 'dead_letter' | 'failed' | 'skipped';
+
+export interface HistoryDelivery {
+  platform: RouteDestination['platform'];
+  destinationId: string;
+  routeId: string;
+  routeName: string;
+  status: HistoryStatus;
+  text: string; // Final text as sent (rendered template plus media notes)
+  messageId?: string;
+  mediaSent: number;
+  mediaFailed: number;
+  error?: string;
+  skipReason?: string; // Why the route's AI skip verdict suppressed the delivery
+  latencyMs: number;
+}
+
+export interface ForwardHistory {
+  id: string;
+  sourcePlatform: RoutePlatform;
+  sourceId: string;
+  sourceTitle: string;
+  sourceMessageId: string;
+  sourceDate: Date;
+  originalText: string;
+  language?: string; // ISO 639-1 code detected from the original text
+  transcript?: string; // Transcript of the message's audio
+  routeIds: string[];
+  deliveries: HistoryDelivery[];
+  ai?: {
+    model: string; // Models of every profile that processed the text, comma-separated
+    profileIds?: string[];
+    translated: boolean;
+    durationMs: number;
+  };
+  media?: {
+    type?: string;
+    count: number;
+    downloaded: number;
+    skipped: string[]; // Skip reason of each item that was not downloaded
+  };
+  status: HistoryStatus;
+  startedAt: Date;
+  completedAt: Date;
+  latencyMs: number; // From the source message date to the last delivery
+  expiresAt?: Date; // Set on save, see HISTORY_TTL_MS
+}
+
+export interface HistoryQuery {
+  from?: Date;
+  to?: Date;
+  sourcePlatform?: RoutePlatform;
+  sourceId?: string;
+  destinationId?: string;
+  routeId?: string;
+  status?: HistoryStatus;
+}
+
+const HISTORY_COLLECTION = 'forward_history';
+// Forward attempts older than this are removed by MongoDB's TTL monitor
+const HISTORY_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+let historyIndexesReady = false;
+
+function buildHistoryFilter(query: HistoryQuery): any {
+  const filter: any = {};
+  if (query.from || query.to) {
+    filter.startedAt = {};
+    if (query.from) filter.startedAt.$gte = query.from;
+    if (query.to) filter.startedAt.$lte = query.to;
+  }
+  if (query.sourcePlatform) filter.sourcePlatform = query.sourcePlatform;
+  if (query.sourceId) filter.sourceId = query.sourceId;
+  if (query.destinationId) filter['deliveries.destinationId'] = query.destinationId;
+  if (query.routeId) filter.routeIds = query.routeId;
+  if (query.status) filter.status = query.status;
+  return filter;
+}
+
+async function saveForwardHistory(entry: ForwardHistory): Promise<boolean> {
+  let conn: any = null;
+  try {
+    const dbResult = await database(HISTORY_COLLECTION);
+    if (!dbResult) return false;
+    conn = dbResult.conn;
+    const coll = dbResult.coll;
+
+    if (!historyIndexesReady) {
+      // The /history filters, each sorted newest first
+      await coll.createIndex({ id: 1 }, { unique: true });
+      await coll.createIndex({ startedAt: -1 });
+      await coll.createIndex({ sourceId: 1, startedAt: -1 });
+      await coll.createIndex({ 'deliveries.destinationId': 1, startedAt: -1 });
+      await coll.createIndex({ status: 1, startedAt: -1 });
+      await coll.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+      historyIndexesReady = true;
+    }
+
+    await coll.replaceOne({ id: entry.id }, { ...entry, expiresAt: new Date(entry.startedAt.getTime() + HISTORY_TTL_MS) }, { upsert: true });
+    return true;
+  } catch (error) {
+    console.error('Error saving forward history:', error);
+    return false;
+  } finally {
+    if (conn) await conn.close();
+  }
+}
+
+async function getForwardHistoryEntry(id: string): Promise<ForwardHistory | null> {
+  let conn: any = null;
+  try {
+    const dbResult = await database(HISTORY_COLLECTION);
+    if (!dbResult) return null;
+    conn = dbResult.conn;
+    const coll = dbResult.coll;
+    return await coll.findOne({ id }, { projection: { _id: 0 } }) as unknown as ForwardHistory | null;
+  } catch (error) {
+    console.error('Error getting forward history entry:', error);
+    return null;
+  } finally {
+    if (conn) await conn.close();
+  }
+}
+
+/**
+ * Get forward history entries, newest first, with the total number of matching entries
+ */
+async function getForwardHistory(
+  query: HistoryQuery = {},
+  limit: number = 50,
+  offset: number = 0
+): Promise<{ total: number; entries: ForwardHistory[] }> {
+  let conn: any = null;
+  try {
+    const dbResult = await database(HISTORY_COLLECTION);
+    if (!dbResult) return { total: 0, entries: [] };
+    conn = dbResult.conn;
+    const coll = dbResult.coll;
+    const filter = buildHistoryFilter(query);
+    const total = await coll.countDocuments(filter);
+    const entries = await coll.find(filter, { projection: { _id: 0 } })
+      .sort({ startedAt: -1 })
+      .skip(offset)
+      .limit(limit)
+      .toArray() as unknown as ForwardHistory[];
+    return { total, entries };
+  } catch (error) {
+    console.error('Error getting forward history:', error);
+    return { total: 0, entries: [] };
+  } finally {
+    if (conn) await conn.close();
+  }
+}
+
+/**
+ * Dedup ledger entry: a source message (or a content hash sent to one destination)
+ * that was already forwarded, kept until it expires
+ */
+export interface DedupEntry {
+  key: string;
+  kind: 'message' | 'content' | 'delivery';
+  platform: string;
+  chatId: string;
+  messageId: string; // Source message ID, or the content hash for content entries
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+const DEDUP_COLLECTION = 'dedup_ledger';
+let dedupIndexesReady = false;
+
+/**
+ * Record a ledger entry unless a live one with the same key exists.
+ * @returns true when claimed, false for a duplicate, null when the database could not be reached
+ */
+async function claimDedupEntry(entry: DedupEntry): Promise<boolean | null> {
+  let conn: any = null;
+  try {
+    const dbResult = await database(DEDUP_COLLECTION);
+    if (!dbResult) return null;
+    conn = dbResult.conn;
+    const coll = dbResult.coll;
+
+    if (!dedupIndexesReady) {
+      await coll.createIndex({ key: 1 }, { unique: true });
+      await coll.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+      dedupIndexesReady = true;
+    }
+
+    const inserted = await coll.updateOne({ key: entry.key }, { $setOnInsert: entry }, { upsert: true });
+    if (inserted.upsertedCount > 0) return true;
+
+    // Expired entries linger until MongoDB's TTL monitor removes them, take them over
+    const renewed = await coll.updateOne({ key: entry.key, expiresAt: { $lte: new Date() } }, { $set: entry });
+    return renewed.modifiedCount > 0;
+  } catch (error: any) {
+    // Two processes raced on the same new key
+    if (error?.code === 11000) return false;
+    console.error('Error claiming dedup entry:', error);
+    return null;
+  } finally {
+    if (conn) await conn.close();
+  }
+}
+
+/**
+ * Remove ledger entries so their messages can be forwarded again
+ */
+async function releaseDedupEntries(keys: string[]): Promise<boolean> {
+  let conn: any = null;
+  try {
+    const dbResult = await database(DEDUP_COLLECTION);
+    if (!dbResult) return false;
+    conn = dbResult.conn;
+    const coll = dbResult.coll;
+
+    await coll.deleteMany({ key: { $in: keys } });
+    return true;
+  } catch (error) {
+    console.error('Error releasing dedup entries:', error);
+    return false;
+  } finally {
+    if (conn) await conn.close();
+  }
+}
+
+/**
+ * AI token and cost totals for one day, model and route
+ */
+export interface AIUsageEntry {
+  day: string; // YYYY-MM-DD, UTC
+  model: string;
+  providerId: string;
+  routeId: string; // Empty for calls made outside a route (e.g. test translations)
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number; // USD, as reported by the provider
+  updatedAt: Date;
+}
+
+const AI_USAGE_COLLECTION = 'ai_usage';
+
+async function addAIUsage(
+  key: Pick<AIUsageEntry, 'day' | 'model' | 'providerId' | 'routeId'>,
+  usage: Pick<AIUsageEntry, 'promptTokens' | 'completionTokens' | 'cost'>
+): Promise<boolean> {
+  let conn: any = null;
+  try {
+    const dbResult = await database(AI_USAGE_COLLECTION);
+    if (!dbResult) return false;
+    conn = dbResult.conn;
+    const coll = dbResult.coll;
+    await coll.updateOne(
+      key,
+      {
+        $inc: { requests: 1, promptTokens: usage.promptTokens, completionTokens: usage.completionTokens, cost: usage.cost },
+        $set: { updatedAt: new Date() }
+      },
+      { upsert: true }
+    );
+    return true;
+  } catch (error) {
+    console.error('Error adding AI usage:', error);
+    return false;
+  } finally {
+    if (conn) await conn.close();
+  }
+}
+
+/**
+ * @param fromDay First day included (YYYY-MM-DD)
+ * @param toDay Last day included (YYYY-MM-DD)
+ */
+async function getAIUsage(fromDay: string, toDay: string): Promise<AIUsageEntry[] | null> {
+  let conn: any = null;
+  try {
+    const dbResult = await database(AI_USAGE_COLLECTION);
+    if (!dbResult) return null;
+    conn = dbResult.conn;
+    const coll = dbResult.coll;
+    return await coll.find({ day: { $gte: fromDay, $lte: toDay } }, { projection: { _id: 0 } })
+      .sort({ day: 1, model: 1 })
+      .toArray() as unknown as AIUsageEntry[];
+  } catch (error) {
+    console.error('Error getting AI usage:', error);
+    return null;
+  } finally {
+    if (conn) await conn.close();
+  }
+}
+
+/**
+ * Model output reused for identical requests until it expires
+ */
+export interface TranslationCacheEntry {
+  key: string; // Hash of the provider, model, temperature and full prompt
+  text: string;
+  model: string;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+const TRANSLATION_CACHE_COLLECTION = 'translation_cache';
+let translationCacheIndexesReady = false;
+
+async function getCachedTranslation(key: string): Promise<string | null> {
+  let conn: any = null;
+  try {
+    const dbResult = await database(TRANSLATION_CACHE_COLLECTION);
+    if (!dbResult) return null;
+    conn = dbResult.conn;
+    const coll = dbResult.coll;
+    const entry = await coll.findOne({ key, expiresAt: { $gt: new Date() } }) as unknown as TranslationCacheEntry | null;
+    return entry ? entry.text : null;
+  } catch (error) {
+    console.error('Error getting cached translation:', error);
+    return null;
+  } finally {
+    if (conn) await conn.close();
+  }
+}
+
+async function saveCachedTranslation(entry: TranslationCacheEntry): Promise<boolean> {
+  let conn: any = null;
+  try {
+    const dbResult = await database(TRANSLATION_CACHE_COLLECTION);
+    if (!dbResult) return false;
+    conn = dbResult.conn;
+    const coll = dbResult.coll;
+
+    if (!translationCacheIndexesReady) {
+      await coll.createIndex({ key: 1 }, { unique: true });
+      await coll.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+      translationCacheIndexesReady = true;
+    }
+
+    await coll.replaceOne({ key: entry.key }, entry, { upsert: true });
+    return true;
+  } catch (error) {
+    console.error('Error saving cached translation:', error);
+    return false;
+  } finally {
+    if (conn) await conn.close();
+  }
+}
+
+/**
+ * Last Telegram message taken in per listened channel, used to catch up after downtime
+ */
+export interface TelegramCheckpoint {
+  channelId: string; // Without the -100 prefix
+  chatId: string; // As reported by Telegram, used to fetch history
+  lastMessageId: number;
+  updatedAt: Date;
+}
+
+const TELEGRAM_CHECKPOINT_COLLECTION = 'telegram_checkpoints';
+
+/**
+ * Move a channel's checkpoint forward (never backwards)
+ */
+async function saveTelegramCheckpoint(channelId: string, chatId: string, messageId: number): Promise<boolean> {
+  let conn: any = null;
+  try {
+    const dbResult = await database(TELEGRAM_CHECKPOINT_COLLECTION);
+    if (!dbResult) return false;
+    conn = dbResult.conn;
+    const coll = dbResult.coll;
+    await coll.updateOne(
+      { channelId },
+      { $max: { lastMessageId: messageId }, $set: { chatId, updatedAt: new Date() } },
+      { upsert: true }
+    );
+    return true;
+  } catch (error) {
+    console.error('Error saving Telegram checkpoint:', error);
+    return false;
+  } finally {
+    if (conn) await conn.close();
+  }
+}
+
+async function getTelegramCheckpoints(): Promise<TelegramCheckpoint[]> {
+  let conn: any = null;
+  try {
+    const dbResult = await database(TELEGRAM_CHECKPOINT_COLLECTION);
+    if (!dbResult) return [];
+    conn = dbResult.conn;
+    const coll = dbResult.coll;
+    return await coll.find({}, { projection: { _id: 0 } }).toArray() as unknown as TelegramCheckpoint[];
+  } catch (error) {
+    console.error('Error getting Telegram checkpoints:', error);
+    return [];
+  } finally {
+    if (conn) await conn.close();
+  }
+}
+
 export {
   insert,
   read,
@@ -627,5 +1740,43 @@ export {
   getWaToTgConfig,
   getAllWaToTgConfigs,
   getActiveWaToTgConfigs,
-  deleteWaToTgConfig
+  deleteWaToTgConfig,
+  saveRoute,
+  updateRoute,
+  getRoute,
+  getAllRoutes,
+  deleteRoute,
+  saveAIProfile,
+  updateAIProfile,
+  setDefaultAIProfile,
+  getAIProfile,
+  getAllAIProfiles,
+  deleteAIProfile,
+  getLegacySystemPrompt,
+  saveOutboundQueueItem,
+  deleteOutboundQueueItem,
+  getOutboundQueueItems,
+  saveTelegramOutboundItem,
+  deleteTelegramOutboundItem,
+  getTelegramOutboundItems,
+  saveDeadLetter,
+  getDeadLetter,
+  getDeadLetters,
+  deleteDeadLetter,
+  saveMessageMapping,
+  getMessageMappings,
+  findMessageMapping,
+  isDeliveredCopy,
+  markMessageMappingDeleted,
+  saveForwardHistory,
+  getForwardHistoryEntry,
+  getForwardHistory,
+  claimDedupEntry,
+  releaseDedupEntries,
+  addAIUsage,
+  getAIUsage,
+  getCachedTranslation,
+  saveCachedTranslation,
+  saveTelegramCheckpoint,
+  getTelegramCheckpoints
 };
\ No newline at end of file
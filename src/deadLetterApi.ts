@@ -0,0 +1,115 @@
+import express from 'express';
+import fs from 'fs';
+import { whatsappSessions, telegramSessions, waToTgForwardingManager } from './sharedInstances';
+import { DeadLetter, getDeadLetter, getDeadLetters, deleteDeadLetter } from './db';
+import { discardDeadLetter } from './deadLetters';
+
+const router = express.Router();
+
+/**
+ * List dead letters, optionally filtered by platform and destination
+ */
+router.get('/', async (req, res) => {
+    try {
+        const query: Partial<Pick<DeadLetter, 'platform' | 'destinationId'>> = {};
+        const { platform, destinationId } = req.query;
+
+        if (platform === 'whatsapp' || platform === 'telegram') {
+            query.platform = platform;
+        }
+        if (typeof destinationId === 'string' && destinationId) {
+            query.destinationId = destinationId;
+        }
+
+        const deadLetters = await getDeadLetters(query);
+        res.json({ success: true, count: deadLetters.length, deadLetters });
+    } catch (error: any) {
+        res.status(500).json({ success: false, error: error.message });
+    }
+});
+
+/**
+ * Get a specific dead letter by ID
+ */
+router.get('/:id', async (req, res) => {
+    try {
+        const deadLetter = await getDeadLetter(req.params.id);
+        if (!deadLetter) {
+            return res.status(404).json({ success: false, error: 'Dead letter not found' });
+        }
+        res.json({ success: true, deadLetter });
+    } catch (error: any) {
+        res.status(500).json({ success: false, error: error.message });
+    }
+});
+
+/**
+ * Requeue a dead letter for delivery
+ */
+router.post('/:id/requeue', async (req, res) => {
+    try {
+        const deadLetter = await getDeadLetter(req.params.id);
+        if (!deadLetter) {
+            return res.status(404).json({ success: false, error: 'Dead letter not found' });
+        }
+
+        if (deadLetter.platform === 'whatsapp') {
+            const whatsappInstance = whatsappSessions.get(deadLetter.sessionId);
+            if (!whatsappInstance) {
+                return res.status(409).json({ success: false, error: `WhatsApp session not found: ${deadLetter.sessionId}` });
+            }
+            if (!whatsappInstance.isReady()) {
+                return res.status(503).json({ success: false, error: 'WhatsApp client is not ready' });
+            }
+
+            // The queue keeps its own copy of the media and dead-letters it again if retries run out
+            const mediaPath = deadLetter.mediaPath || '';
+            whatsappInstance.sendMessageToGroup(deadLetter.destinationId, mediaPath, deadLetter.content, deadLetter.options)
+                .catch((error) => console.error(`[DeadLetter] Requeued delivery ${deadLetter.id} failed:`, error.message))
+                .finally(() => {
+                    if (mediaPath && !mediaPath.startsWith('data:') && fs.existsSync(mediaPath)) {
+                        try { fs.unlinkSync(mediaPath); } catch (_) {}
+                    }
+                });
+            await deleteDeadLetter(deadLetter.id);
+
+            return res.json({ success: true, message: 'Dead letter requeued for WhatsApp delivery' });
+        }
+
+        const telegram = telegramSessions.get(deadLetter.sessionId);
+        if (!telegram) {
+            return res.status(409).json({ success: false, error: `Telegram session not found: ${deadLetter.sessionId}` });
+        }
+        if (!telegram.isReady()) {
+            return res.status(503).json({ success: false, error: 'Telegram client is not ready' });
+        }
+
+        // The queue keeps its own copy of the media and dead-letters it again if retries run out
+        waToTgForwardingManager.redeliverDeadLetter(deadLetter)
+            .catch((error) => console.error(`[DeadLetter] Requeued delivery ${deadLetter.id} failed:`, error.message));
+        await discardDeadLetter(deadLetter);
+
+        res.json({ success: true, message: 'Dead letter requeued for Telegram delivery' });
+    } catch (error: any) {
+        res.status(500).json({ success: false, error: error.message });
+    }
+});
+
+/**
+ * Discard a dead letter and its media
+ */
+router.delete('/:id', async (req, res) => {
+    try {
+        const deadLetter = await getDeadLetter(req.params.id);
+        if (!deadLetter) {
+            return res.status(404).json({ success: false, error: 'Dead letter not found' });
+        }
+
+        await discardDeadLetter(deadLetter);
+        res.json({ success: true, message: 'Dead letter discarded' });
+    } catch (error: any) {
+        res.status(500).json({ success: false, error: error.message });
+    }
+});
+
+export default router;
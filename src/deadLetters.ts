@@ -0,0 +1,82 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DeadLetter, saveDeadLetter, deleteDeadLetter } from './db';
+import { RetryExhaustedError } from './retryPolicy';
+
+const deadLetterDir = process.env.DEAD_LETTER_MEDIA_PATH || path.join(process.cwd(), 'dead_letters');
+
+/**
+ * Keep a dead letter's media on disk so it can be requeued later.
+ * A file path is moved into the dead-letter directory, a buffer is written there.
+ */
+export function storeDeadLetterMedia(id: string, media: string | Buffer, fileName: string): string | undefined {
+    if (!Buffer.isBuffer(media) && !fs.existsSync(media)) {
+        return undefined;
+    }
+
+    if (!fs.existsSync(deadLetterDir)) {
+        fs.mkdirSync(deadLetterDir, { recursive: true });
+    }
+
+    const baseName = path.basename(fileName);
+    const storedPath = path.join(deadLetterDir, baseName.startsWith(`${id}_`) ? baseName : `${id}_${baseName}`);
+    if (Buffer.isBuffer(media)) {
+        fs.writeFileSync(storedPath, media);
+    } else {
+        fs.copyFileSync(media, storedPath);
+        try { fs.unlinkSync(media); } catch (_) {}
+    }
+    return storedPath;
+}
+
+/**
+ * Build the dead letter of a Telegram send that exhausted its retries
+ * @param id ID of the outbound queue item; one source message can be sent as several items
+ */
+export function createTelegramDeadLetter(
+    id: string,
+    sessionId: string,
+    chatId: string,
+    content: string,
+    error: RetryExhaustedError,
+    media: Pick<DeadLetter, 'mediaPath' | 'mediaFileName' | 'mediaMimeType' | 'mediaFiles'> = {}
+): DeadLetter {
+    const now = new Date();
+    return {
+        id,
+        platform: 'telegram',
+        destinationId: chatId,
+        sessionId,
+        content,
+        ...media,
+        attempts: error.attempts,
+        lastError: error.lastError instanceof Error ? error.lastError.message : String(error.lastError),
+        createdAt: now,
+        failedAt: now
+    };
+}
+
+/**
+ * Record a delivery that exhausted its retries
+ */
+export async function recordDeadLetter(deadLetter: DeadLetter): Promise<void> {
+    const saved = await saveDeadLetter(deadLetter);
+    if (saved) {
+        console.warn(`[DeadLetter] Stored ${deadLetter.platform} delivery ${deadLetter.id} for ${deadLetter.destinationId} after ${deadLetter.attempts} attempt(s)`);
+    } else {
+        console.error(`[DeadLetter] Failed to store ${deadLetter.platform} delivery ${deadLetter.id} for ${deadLetter.destinationId}`);
+    }
+}
+
+/**
+ * Delete a dead letter and the media kept for it
+ */
+export async function discardDeadLetter(deadLetter: DeadLetter): Promise<boolean> {
+    const mediaPaths = [deadLetter.mediaPath, ...(deadLetter.mediaFiles || []).map(file => file.path)];
+    for (const mediaPath of mediaPaths) {
+        if (mediaPath && fs.existsSync(mediaPath)) {
+            try { fs.unlinkSync(mediaPath); } catch (_) {}
+        }
+    }
+    return deleteDeadLetter(deadLetter.id);
+}
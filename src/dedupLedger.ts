@@ -0,0 +1,174 @@
+import crypto from 'crypto';
+import { DedupEntry, claimDedupEntry, releaseDedupEntries } from './db';
+import { configManager } from './configManager';
+import { RouteTarget } from './routeEngine';
+
+/**
+ * Normalize text for content dedup: case, links, punctuation and spacing
+ * differ between reposts of the same item
+ */
+export function normalizeContent(text: string): string {
+    return text
+        .toLowerCase()
+        .replace(/https?:\/\/\S+/g, ' ')
+        .replace(/[^\p{L}\p{N}]+/gu, ' ')
+        .trim();
+}
+
+/**
+ * Persistent record of what was already forwarded, shared by all sources.
+ * Message entries are keyed by platform + chat + message ID; content entries by destination + text hash;
+ * delivery entries by message and destination.
+ */
+class DedupLedger {
+    // Keys claimed by this process, so repeats are caught without a database round trip
+    private recent: Map<string, number> = new Map();
+    private readonly maxRecent = 5000;
+
+    /**
+     * Claim a source message for forwarding
+     * @returns false when the message was already forwarded within the TTL
+     */
+    public async claimMessage(platform: string, chatId: string, messageId: string): Promise<boolean> {
+        const ttlMs = configManager.getDedupSettings().ttlHours * 60 * 60 * 1000;
+        return this.claim({
+            key: this.messageKey(platform, chatId, messageId),
+            kind: 'message',
+            platform,
+            chatId,
+            messageId
+        }, ttlMs);
+    }
+
+    /**
+     * Drop the targets that already received the same text within the content window
+     * (e.g. one news item reposted by several source channels). No-op unless content dedup is enabled.
+     */
+    public async filterContentDuplicates(text: string, targets: RouteTarget[]): Promise<RouteTarget[]> {
+        const settings = configManager.getDedupSettings();
+        const normalized = normalizeContent(text || '');
+        if (!settings.contentHashEnabled || normalized.length < settings.contentMinLength) {
+            return targets;
+        }
+
+        const hash = this.contentHash(normalized);
+        const ttlMs = settings.contentWindowMinutes * 60 * 1000;
+        const kept: RouteTarget[] = [];
+
+        for (const target of targets) {
+            const { platform, id } = target.destination;
+            const claimed = await this.claim({
+                key: this.contentKey(target, hash),
+                kind: 'content',
+                platform,
+                chatId: id,
+                messageId: hash
+            }, ttlMs);
+
+            if (claimed) {
+                kept.push(target);
+            } else {
+                console.log(`[Dedup] Skipping ${platform}:${id}, the same content was forwarded there in the last ${settings.contentWindowMinutes} min`);
+            }
+        }
+
+        return kept;
+    }
+
+    /**
+     * Drop the targets an earlier, partly failed forwarding of the message already delivered to, and claim
+     * the delivery to the others (see releaseMessage)
+     */
+    public async filterDelivered(platform: string, chatId: string, messageId: string, targets: RouteTarget[]): Promise<RouteTarget[]> {
+        const ttlMs = configManager.getDedupSettings().ttlHours * 60 * 60 * 1000;
+        const kept: RouteTarget[] = [];
+
+        for (const target of targets) {
+            const { platform: destinationPlatform, id } = target.destination;
+            const claimed = await this.claim({
+                key: this.deliveryKey(platform, chatId, messageId, target),
+                kind: 'delivery',
+                platform: destinationPlatform,
+                chatId: id,
+                messageId
+            }, ttlMs);
+
+            if (claimed) {
+                kept.push(target);
+            } else {
+                console.log(`[Dedup] Skipping ${destinationPlatform}:${id}, ${platform} message ${messageId} was already delivered there`);
+            }
+        }
+
+        return kept;
+    }
+
+    /**
+     * Give back the claims taken for a message whose forwarding failed: its message claim, and the content
+     * and delivery claims of the targets that failed, so a redelivery or catch-up of the same message is
+     * forwarded again to those targets only.
+     */
+    public async releaseMessage(platform: string, chatId: string, messageId: string, text: string, failedTargets: RouteTarget[]): Promise<void> {
+        const hash = this.contentHash(normalizeContent(text || ''));
+        const keys = [
+            this.messageKey(platform, chatId, messageId),
+            ...failedTargets.map(target => this.contentKey(target, hash)),
+            ...failedTargets.map(target => this.deliveryKey(platform, chatId, messageId, target))
+        ];
+        keys.forEach(key => this.recent.delete(key));
+
+        if (!(await releaseDedupEntries(keys))) {
+            console.warn(`[Dedup] Failed to release ${platform} message ${messageId} from ${chatId}, it won't be forwarded again until its claim expires`);
+        }
+    }
+
+    private messageKey(platform: string, chatId: string, messageId: string): string {
+        return `message:${platform}:${chatId}:${messageId}`;
+    }
+
+    private deliveryKey(platform: string, chatId: string, messageId: string, target: RouteTarget): string {
+        return `delivery:${platform}:${chatId}:${messageId}:${target.destination.platform}:${target.destination.id}`;
+    }
+
+    private contentKey(target: RouteTarget, hash: string): string {
+        return `content:${target.destination.platform}:${target.destination.id}:${hash}`;
+    }
+
+    private contentHash(normalized: string): string {
+        return crypto.createHash('sha256').update(normalized).digest('hex');
+    }
+
+    private async claim(entry: Omit<DedupEntry, 'createdAt' | 'expiresAt'>, ttlMs: number): Promise<boolean> {
+        const now = Date.now();
+        const cachedExpiry = this.recent.get(entry.key);
+        if (cachedExpiry && cachedExpiry > now) {
+            return false;
+        }
+        // Remember before awaiting so concurrent deliveries of the same message are caught too
+        this.remember(entry.key, now + ttlMs);
+
+        const claimed = await claimDedupEntry({ ...entry, createdAt: new Date(now), expiresAt: new Date(now + ttlMs) });
+        if (claimed === null) {
+            // Don't drop messages because the ledger is unavailable; the in-memory cache still applies
+            console.warn(`[Dedup] Ledger unavailable, forwarding ${entry.key} without a persistent check`);
+            return true;
+        }
+        return claimed;
+    }
+
+    private remember(key: string, expiresAt: number): void {
+        this.recent.delete(key);
+        this.recent.set(key, expiresAt);
+
+        // Bound memory: drop oldest entries when the map grows too large
+        if (this.recent.size > this.maxRecent) {
+            const oldest = this.recent.keys().next().value;
+            if (oldest !== undefined) this.recent.delete(oldest);
+        }
+    }
+}
+
+const dedupLedger = new DedupLedger();
+
+export { dedupLedger };
+export default DedupLedger;
@@ -0,0 +1,194 @@
+import { ForwardHistory, HistoryDelivery, HistoryStatus, RoutePlatform, saveForwardHistory } from './db';
+import { RouteTarget, normalizeTelegramId } from './routeEngine';
+import { TelegramMessage } from './telegramInstance';
+import { TwitterMessage } from './twitterInstance';
+import { WhatsAppMessage } from './whatsappEngine';
+
+// When each open delivery started, to compute its latency
+const deliveryStarts = new WeakMap<HistoryDelivery, number>();
+
+function createEntry(
+    sourcePlatform: RoutePlatform,
+    sourceId: string,
+    sourceTitle: string,
+    sourceMessageId: string,
+    sourceDate: Date,
+    originalText: string,
+    media?: ForwardHistory['media']
+): ForwardHistory {
+    const now = new Date();
+    return {
+        id: `${sourcePlatform}_${sourceId}_${sourceMessageId}_${now.getTime()}`,
+        sourcePlatform,
+        sourceId,
+        sourceTitle,
+        sourceMessageId,
+        sourceDate,
+        originalText,
+        routeIds: [],
+        deliveries: [],
+        media,
+        status: 'failed',
+        startedAt: now,
+        completedAt: now,
+        latencyMs: 0
+    };
+}
+
+function describeMedia(items: { mediaType?: string; hasMedia: boolean; downloaded: boolean; skippedReason?: string }[]): ForwardHistory['media'] {
+    const withMedia = items.filter(item => item.hasMedia);
+    if (withMedia.length === 0) return undefined;
+    return {
+        type: withMedia[0].mediaType,
+        count: withMedia.length,
+        downloaded: withMedia.filter(item => item.downloaded).length,
+        skipped: withMedia.filter(item => !item.downloaded).map(item => item.skippedReason || 'download_failed')
+    };
+}
+
+export function createTelegramHistory(message: TelegramMessage): ForwardHistory {
+    const parts = message.album?.length ? message.album : [message];
+    return createEntry(
+        'telegram',
+        normalizeTelegramId(message.channelId),
+        message.channelTitle,
+        String(message.id),
+        message.date,
+        message.text,
+        describeMedia(parts.map(part => ({
+            mediaType: part.mediaType,
+            hasMedia: part.hasMedia,
+            downloaded: !!part.mediaBuffer,
+            skippedReason: part.mediaSkippedReason
+        })))
+    );
+}
+
+export function createTwitterHistory(message: TwitterMessage): ForwardHistory {
+    return createEntry(
+        'twitter',
+        message.authorId,
+        `@${message.authorUsername}`,
+        message.id,
+        message.date,
+        message.text,
+        describeMedia((message.media || []).map(item => ({
+            mediaType: item.type,
+            hasMedia: true,
+            downloaded: !!item.buffer,
+            skippedReason: item.skippedReason
+        })))
+    );
+}
+
+export function createWhatsAppHistory(message: WhatsAppMessage): ForwardHistory {
+    const parts = message.album?.length ? message.album : [message];
+    return createEntry(
+        'whatsapp',
+        message.groupId,
+        message.groupName,
+        message.id,
+        message.date,
+        message.text,
+        describeMedia(parts.map(part => ({
+            mediaType: part.mediaType,
+            hasMedia: part.hasMedia,
+            downloaded: !!part.mediaBuffer
+        })))
+    );
+}
+
+/**
+ * Start recording the delivery of a forward attempt to one route target.
+ * Senders update the returned record as they go; it counts as delivered unless they say otherwise.
+ */
+export function startDelivery(entry: ForwardHistory, target: RouteTarget, text: string): HistoryDelivery {
+    const delivery: HistoryDelivery = {
+        platform: target.destination.platform,
+        destinationId: target.destination.id,
+        routeId: target.route.id,
+        routeName: target.route.name,
+        status: 'delivered',
+        text,
+        mediaSent: 0,
+        mediaFailed: 0,
+        latencyMs: 0
+    };
+    deliveryStarts.set(delivery, Date.now());
+    if (!entry.routeIds.includes(target.route.id)) {
+        entry.routeIds.push(target.route.id);
+    }
+    entry.deliveries.push(delivery);
+    return delivery;
+}
+
+/**
+ * Close a delivery record; a thrown error marks it failed
+ */
+export function finishDelivery(delivery: HistoryDelivery, error?: unknown): void {
+    if (error !== undefined) {
+        delivery.status = 'failed';
+        delivery.error = error instanceof Error ? error.message : String(error);
+    }
+    delivery.latencyMs = Date.now() - (deliveryStarts.get(delivery) ?? Date.now());
+}
+
+/**
+ * Note a media item that could not be delivered; the text still went out, so the delivery is partial
+ */
+export function markMediaFailed(delivery: HistoryDelivery, error?: unknown): void {
+    delivery.mediaFailed++;
+    if (delivery.status === 'delivered') {
+        delivery.status = 'partial';
+    }
+    if (error !== undefined && !delivery.error) {
+        delivery.error = error instanceof Error ? error.message : String(error);
+    }
+}
+
+/**
+ * Note that a delivery ran out of retries and was stored as a dead letter
+ */
+export function markDeadLettered(delivery: HistoryDelivery, error?: unknown): void {
+    delivery.status = delivery.mediaSent > 0 ? 'partial' : 'dead_letter';
+    if (error !== undefined) {
+        delivery.error = error instanceof Error ? error.message : String(error);
+    }
+}
+
+/**
+ * Record a route target whose AI skip verdict suppressed the delivery
+ */
+export function recordSkippedDelivery(entry: ForwardHistory, target: RouteTarget, reason: string): void {
+    const delivery = startDelivery(entry, target, '');
+    delivery.status = 'skipped';
+    delivery.skipReason = reason;
+    finishDelivery(delivery);
+}
+
+/**
+ * Overall status of an entry; skipped deliveries only count when every delivery was skipped
+ */
+function summarizeStatus(entries: HistoryDelivery[]): HistoryStatus {
+    if (entries.length === 0) return 'failed';
+    const deliveries = entries.filter(d => d.status !== 'skipped');
+    if (deliveries.length === 0) return 'skipped';
+    const statuses = new Set(deliveries.map(d => d.status));
+    if (statuses.size === 1) return deliveries[0].status;
+    return deliveries.some(d => d.status === 'delivered' || d.status === 'partial') ? 'partial' : 'failed';
+}
+
+/**
+ * Complete a forward attempt and persist it. History is best-effort and never interrupts forwarding.
+ */
+export async function recordForwardHistory(entry: ForwardHistory): Promise<void> {
+    entry.completedAt = new Date();
+    const sourceTime = entry.sourceDate?.getTime();
+    entry.latencyMs = entry.completedAt.getTime() - (Number.isNaN(sourceTime) || !sourceTime ? entry.startedAt.getTime() : sourceTime);
+    entry.status = summarizeStatus(entry.deliveries);
+
+    const saved = await saveForwardHistory(entry);
+    if (!saved) {
+        console.error(`[History] Failed to store forward history for ${entry.sourcePlatform} message ${entry.sourceMessageId}`);
+    }
+}
@@ -1,13 +1,32 @@
-import { TelegramInstance, TelegramMessage } from './telegramInstance';
+import { TelegramMessage, TelegramDeletion, TelegramSendOptions } from './telegramInstance';
+import { TelegramSessionRegistry } from './telegramSessions';
 import { TwitterInstance, TwitterMessage } from './twitterInstance';
 import { ListeningConfig } from './db';
-import { database } from './db';
-import { WhatsAppEngine } from './whatsappEngine';
-import { askModel } from './openRouter';
+import { WhatsAppEngine, WhatsAppMediaType, sendMediaBatchToGroup } from './whatsappEngine';
+import { WhatsAppSessionRegistry } from './whatsappSessions';
+import { RouteAIResult } from './aiActions';
+import { runPipeline, transformStage, renderStage, failedTargets } from './messagePipeline';
+import { getMessageAudio } from './transcription';
 import fs from 'fs';
 import path from 'path';
-import { getListeningConfig, getActiveListeningConfigs } from './db';
+import { getListeningConfig, getActiveListeningConfigs, saveMessageMapping, getMessageMappings, findMessageMapping, markMessageMappingDeleted, MessageMapping, RoutePlatform, RouteDestination, HistoryDelivery } from './db';
 import { configManager, TwitterAccount, TelegramChannel } from './configManager';
+import { RetryExhaustedError } from './retryPolicy';
+import { deliveredMessageKey, loopGuard } from './loopGuard';
+import { dedupLedger } from './dedupLedger';
+import { routeEngine, RoutableMessage, RouteTarget, fromTelegramMessage, fromTwitterMessage, normalizeTelegramId } from './routeEngine';
+import {
+    buildTelegramContext,
+    buildTwitterContext,
+    splitTelegramText,
+    TELEGRAM_CAPTION_LIMIT
+} from './messageTemplate';
+import {
+    createTelegramHistory,
+    createTwitterHistory,
+    markMediaFailed,
+    markDeadLettered
+} from './forwardHistory';
 
 export interface ForwardingSession {
     configId: string;
@@ -26,61 +45,22 @@ export interface TwitterForwardingSession {
 }
 
 class ForwardingManager {
-    private telegramInstance: TelegramInstance;
-    private whatsappInstance: WhatsAppEngine;
+    private telegramSessions: TelegramSessionRegistry;
+    private whatsappSessions: WhatsAppSessionRegistry;
     private twitterInstance: TwitterInstance;
     private activeSessions: Map<string, ForwardingSession> = new Map();
     private activeTwitterSessions: Map<string, TwitterForwardingSession> = new Map();
 
-    constructor(telegramInstance: TelegramInstance, whatsappInstance: WhatsAppEngine, twitterInstance: TwitterInstance) {
-        this.telegramInstance = telegramInstance;
-        this.whatsappInstance = whatsappInstance;
+    constructor(telegramSessions: TelegramSessionRegistry, whatsappSessions: WhatsAppSessionRegistry, twitterInstance: TwitterInstance) {
+        this.telegramSessions = telegramSessions;
+        this.whatsappSessions = whatsappSessions;
         this.twitterInstance = twitterInstance;
-        // Don't burn Twitter search quota while WhatsApp can't deliver
-        this.twitterInstance.setDeliveryReadyCheck(() => this.whatsappInstance.isReady());
-    }
-
-    /**
-     * Get AI settings from database
-     */
-    private async getAISettings(): Promise<{ prompt: string; model: string; temperature: number } | null> {
-        try {
-            const dbResult = await database('system_prompts');
-            if (!dbResult) return null;
-
-            const { conn, coll } = dbResult;
-            
-            try {
-                const settings = await coll.findOne({});
-                if (settings && settings.prompt && settings.prompt.trim()) {
-                    return {
-                        prompt: settings.prompt,
-                        model: settings.model || 'anthropic/claude-3.5-sonnet',
-                        temperature: settings.temperature || 0.0
-                    };
-                }
-                return null;
-            } finally {
-                await conn.close();
-            }
-        } catch (error) {
-            console.error('Error getting AI settings:', error);
-            return null;
-        }
-    }
-
-    /**
-     * Translate message text using AI
-     */
-    private async translateMessage(text: string, aiSettings: { prompt: string; model: string; temperature: number }): Promise<string> {
-        try {
-            const fullPrompt = `${aiSettings.prompt}\n\nMessage to translate: ${text}`;
-            const translation = await askModel(fullPrompt, aiSettings.model, aiSettings.temperature);
-            return translation || text; // Fallback to original text if translation fails
-        } catch (error) {
-            console.error('Error translating message:', error);
-            return text; // Fallback to original text on error
-        }
+        // Don't burn Twitter search quota while nothing can deliver
+        this.twitterInstance.setDeliveryReadyCheck(() => this.isTwitterDeliveryReady());
+        // Apply route filters before media downloads and AI calls
+        this.telegramSessions.setMessageFilter(message => routeEngine.shouldIngest(fromTelegramMessage(message)));
+        this.twitterInstance.setMessageFilter(message => routeEngine.shouldIngest(fromTwitterMessage(message)));
+        this.twitterInstance.setSearchExclusions(accountId => routeEngine.getSourceExclusions('twitter', accountId));
     }
 
     /**
@@ -97,49 +77,37 @@ class ForwardingManager {
             // CRITICAL FIX: Stop any existing config first to prevent handler accumulation
             this.stopForwardingConfig(config.id);
 
-            // Check if Telegram client is ready
-            if (!this.telegramInstance.isReady()) {
+            // Check if a Telegram user session is ready
+            if (!this.telegramSessions.isAnyUserReady()) {
                 console.error('Telegram client is not ready');
                 return false;
             }
 
-            // Check if WhatsApp client is ready
-            if (!this.whatsappInstance.isReady()) {
+            // Check if a WhatsApp session is ready
+            if (!this.whatsappSessions.isAnyReady()) {
                 console.error('WhatsApp client is not ready');
                 return false;
             }
 
-            // Start listening to the channels in this config
-            await this.telegramInstance.startListening(config.telegramChannelIds);
-
-            // Create message handler for this config
-            const messageHandler = async (message: TelegramMessage) => {
-                // console.log(`ForwardingManager: Checking message from channel ${message.channelId}`);
-                // console.log(`ForwardingManager: Config sources:`, config.telegramChannelIds);
-                
-                // Check if this message is from one of the sources in this config
-                const fixedId = message.channelId.startsWith('-100')?message.channelId.replace('-100', ''):message.channelId.replace('-', '');
-                if (config.telegramChannelIds.includes(fixedId)) {
-                    // console.log(`ForwardingManager: Message matches config ${config.id}, forwarding to WhatsApp`);
-                    try {
-                        await this.forwardMessageToWhatsApp(message, config);
-                        console.log(`ForwardingManager: Message forwarded successfully`);
-                    } catch (error) {
-                        console.error(`Error forwarding message from config ${config.id}:`, error);
-                    }
-                } else {
-                    console.log(`ForwardingManager: Message does not match config ${config.id}`);
-                }
-            };
+            // Start listening to the channels in this config (default session) and to all route sources
+            const defaultTelegram = this.telegramSessions.getDefault();
+            if (defaultTelegram.isReady()) {
+                await defaultTelegram.startListening(config.telegramChannelIds);
+            }
+            await this.telegramSessions.listenToRouteSources();
 
-            // Add the handler to Telegram instance
-            this.telegramInstance.onMessage(messageHandler);
+            // Routes decide where messages go, so one handler serves every session
+            if (this.activeSessions.size === 0) {
+                this.telegramSessions.onMessage(this.telegramMessageHandler);
+                this.telegramSessions.onMessageEdit(this.telegramEditHandler);
+                this.telegramSessions.onMessageDelete(this.telegramDeleteHandler);
+            }
 
             // Create session record
             const session: ForwardingSession = {
                 configId: config.id,
                 handlerId: `handler_${config.id}_${Date.now()}`,
-                messageHandler,
+                messageHandler: this.telegramMessageHandler,
                 isActive: true
             };
 
@@ -174,52 +142,29 @@ class ForwardingManager {
                 return false;
             }
 
-            // Check if WhatsApp client is ready
-            if (!this.whatsappInstance.isReady()) {
-                console.error('WhatsApp client is not ready');
+            // Check if a WhatsApp or Telegram session can deliver
+            if (!this.isTwitterDeliveryReady()) {
+                console.error('Neither WhatsApp nor Telegram client is ready');
                 return false;
             }
 
-            // Get full Twitter accounts with their WhatsApp group configurations
+            // Get full Twitter accounts
             const allAccounts = configManager.getTwitterAccounts();
             const accounts = allAccounts.filter(acc => accountIds.includes(acc.id));
 
             // Start listening to the accounts in this config
             await this.twitterInstance.startListening(accountIds.map(id => ({ id, username: `user_${id}` })), false);
 
-            // Create message handler for this config
-            const messageHandler = async (message: TwitterMessage) => {
-                console.log(`TwitterForwardingManager: Checking tweet from account ${message.authorId}`);
-                console.log(`TwitterForwardingManager: Config sources:`, accountIds);
-                
-                // Check if this message is from one of the sources in this config
-                if (accountIds.includes(message.authorId)) {
-                    console.log(`TwitterForwardingManager: Tweet matches config ${config.id}, forwarding to WhatsApp`);
-                    try {
-                        // Find the specific account configuration
-                        const account = accounts.find(acc => acc.id === message.authorId);
-                        await this.forwardTwitterMessageToWhatsApp(message, config, account);
-                        console.log(`TwitterForwardingManager: Tweet forwarded successfully`);
-                    } catch (error) {
-                        console.error(`Error forwarding tweet from config ${config.id}:`, error);
-                        const messageText = error instanceof Error ? error.message : String(error);
-                        if (!this.whatsappInstance.isReady() || /not initialized/i.test(messageText)) {
-                            this.twitterInstance.pausePolling('WhatsApp client is not initialized');
-                        }
-                    }
-                } else {
-                    console.log(`TwitterForwardingManager: Tweet does not match config ${config.id}`);
-                }
-            };
-
-            // Add the handler to Twitter instance
-            this.twitterInstance.onMessage(messageHandler);
+            // Routes decide where tweets go, so one handler serves every session
+            if (this.activeTwitterSessions.size === 0) {
+                this.twitterInstance.onMessage(this.twitterMessageHandler);
+            }
 
             // Create session record
             const session: TwitterForwardingSession = {
                 configId: config.id,
                 handlerId: `twitter_handler_${config.id}_${Date.now()}`,
-                messageHandler,
+                messageHandler: this.twitterMessageHandler,
                 isActive: true,
                 accountIds: accountIds,
                 accounts: accounts
@@ -247,12 +192,16 @@ class ForwardingManager {
                 return false;
             }
 
-            // Remove message handler
-            this.telegramInstance.removeMessageHandler(session.messageHandler);
-
             // Remove session
             this.activeSessions.delete(configId);
 
+            // Remove the shared message handler with the last session
+            if (this.activeSessions.size === 0) {
+                this.telegramSessions.removeMessageHandler(session.messageHandler);
+                this.telegramSessions.removeMessageEditHandler(this.telegramEditHandler);
+                this.telegramSessions.removeMessageDeleteHandler(this.telegramDeleteHandler);
+            }
+
             console.log(`Stopped forwarding config: ${configId}`);
             return true;
 
@@ -273,12 +222,14 @@ class ForwardingManager {
                 return false;
             }
 
-            // Remove message handler
-            this.twitterInstance.removeMessageHandler(session.messageHandler);
-
             // Remove session
             this.activeTwitterSessions.delete(configId);
 
+            // Remove the shared message handler with the last session
+            if (this.activeTwitterSessions.size === 0) {
+                this.twitterInstance.removeMessageHandler(session.messageHandler);
+            }
+
             console.log(`Stopped Twitter forwarding config: ${configId}`);
             return true;
 
@@ -430,218 +381,413 @@ class ForwardingManager {
     }
 
     /**
-     * Forward a Telegram message to WhatsApp
+     * Route an incoming Telegram message (shared by all Telegram sessions)
      */
-    private async forwardMessageToWhatsApp(message: TelegramMessage, config: ListeningConfig): Promise<void> {
+    private readonly telegramMessageHandler = async (message: TelegramMessage) => {
+        let targets = this.getTargets(fromTelegramMessage(message), ['whatsapp', 'telegram']);
+        if (targets.length === 0) {
+            console.log(`ForwardingManager: No route matches message from channel ${message.channelId}`);
+            return;
+        }
+
+        // A copy the bridge posted into a chat that is also a route source (albums are checked by their first part)
+        if (await loopGuard.isOwnMessage('telegram', message.channelId, String(message.id), message.text)) {
+            return;
+        }
+
+        const channelId = normalizeTelegramId(message.channelId);
+        if (!(await dedupLedger.claimMessage('telegram', channelId, String(message.id)))) {
+            console.log(`ForwardingManager: Skipping already-forwarded message ${message.id} from channel ${message.channelId}`);
+            return;
+        }
+        targets = await dedupLedger.filterDelivered('telegram', channelId, String(message.id), targets);
+        targets = await dedupLedger.filterContentDuplicates(message.text, targets);
+        if (targets.length === 0) return;
+
         try {
-            // Get AI settings
-            const aiSettings = await this.getAISettings();
-            
-            // Format the message for WhatsApp
-            let formattedMessage = `📢 *${message.channelTitle}*\n`;
-            
-            if (message.text) {
-                let messageText = message.text;
-                
-                // Translate text if AI settings exist
-                if (aiSettings) {
-                    console.log('Translating message with AI...');
-                    messageText = await this.translateMessage(messageText, aiSettings);
+            await this.forwardTelegramMessage(message, targets);
+            console.log(`ForwardingManager: Message forwarded successfully`);
+        } catch (error) {
+            console.error(`Error forwarding message from channel ${message.channelId}:`, error);
+            await dedupLedger.releaseMessage('telegram', channelId, String(message.id), message.text, failedTargets(error, targets));
+            // Keeps the channel's catch-up checkpoint before this message
+            throw error;
+        }
+    };
+
+    /**
+     * Mirror a Telegram edit to the WhatsApp copies of routes that have mirrorEdits enabled
+     */
+    private readonly telegramEditHandler = async (message: TelegramMessage) => {
+        try {
+            const mappings = this.getMirroredMappings(
+                await getMessageMappings('telegram', normalizeTelegramId(message.channelId), String(message.id)),
+                'mirrorEdits'
+            );
+            if (mappings.length === 0) return;
+
+            const source = { platform: 'telegram' as const, id: normalizeTelegramId(message.channelId) };
+            const processed = new Map<string, RouteAIResult>();
+
+            for (const mapping of mappings) {
+                const route = routeEngine.getRoutes().find(r => r.id === mapping.routeId);
+                const transformed = await transformStage(message.text, source, route, processed);
+                // An edit that turns the post into spam or an ad leaves the copy as it was
+                if (transformed.skipReason) continue;
+                const text = renderStage('telegram', route, buildTelegramContext(message, transformed.text)) + (mapping.suffix || '');
+                try {
+                    await this.whatsappSessions.resolve(mapping.sessionId).editMessage(mapping.destinationId, mapping.destinationMessageId, text);
+                } catch (error) {
+                    console.error(`ForwardingManager: Failed to edit message ${mapping.destinationMessageId} in group ${mapping.destinationId}:`, error);
                 }
-                
-                formattedMessage += `\n${messageText}`;
             }
+            console.log(`ForwardingManager: Mirrored edit of message ${message.id} from ${message.channelTitle} to ${mappings.length} WhatsApp message(s)`);
+        } catch (error) {
+            console.error(`Error mirroring edit of message ${message.id} from channel ${message.channelId}:`, error);
+        }
+    };
 
-            // Determine target WhatsApp groups
-            // Priority: channel-specific groups > default config group
-            const targetGroupIds: string[] = [];
-            const telegramChannels = configManager.getTelegramChannels();
-            const channel = telegramChannels.find(ch => ch.id === message.channelId);
-            
-            if (channel?.whatsappGroupIds && channel.whatsappGroupIds.length > 0) {
-                targetGroupIds.push(...channel.whatsappGroupIds);
-                console.log(`Using channel-specific WhatsApp groups for ${message.channelTitle}:`, targetGroupIds);
-            } else if (config.whatsappGroupId) {
-                targetGroupIds.push(config.whatsappGroupId);
-                console.log(`Using default WhatsApp group: ${config.whatsappGroupId}`);
-            }
+    /**
+     * Delete for everyone the WhatsApp copies of deleted Telegram messages, for routes that have mirrorDeletes enabled
+     */
+    private readonly telegramDeleteHandler = async (deletion: TelegramDeletion) => {
+        for (const messageId of deletion.messageIds) {
+            try {
+                const mappings = this.getMirroredMappings(
+                    await getMessageMappings('telegram', deletion.channelId, String(messageId)),
+                    'mirrorDeletes'
+                );
 
-            if (targetGroupIds.length === 0) {
-                console.error('No WhatsApp groups configured for this Telegram channel');
-                return;
+                for (const mapping of mappings) {
+                    try {
+                        await this.whatsappSessions.resolve(mapping.sessionId).deleteMessage(mapping.destinationId, mapping.destinationMessageId);
+                        await markMessageMappingDeleted(mapping);
+                    } catch (error) {
+                        console.error(`ForwardingManager: Failed to delete message ${mapping.destinationMessageId} in group ${mapping.destinationId}:`, error);
+                    }
+                }
+                if (mappings.length > 0) {
+                    console.log(`ForwardingManager: Mirrored deletion of message ${messageId} to ${mappings.length} WhatsApp message(s)`);
+                }
+            } catch (error) {
+                console.error(`Error mirroring deletion of message ${messageId}:`, error);
             }
+        }
+    };
 
-            // Forward to each configured WhatsApp group
-            for (const groupId of targetGroupIds) {
-                await this.sendTelegramMessageToWhatsAppGroup(message, formattedMessage, groupId);
-            }
-            
-            console.log(`Forwarded message from ${message.channelTitle} to ${targetGroupIds.length} WhatsApp group(s)`);
+    /**
+     * Keep the WhatsApp copies whose route has the given mirroring option enabled
+     */
+    private getMirroredMappings(mappings: MessageMapping[], option: 'mirrorEdits' | 'mirrorDeletes'): MessageMapping[] {
+        const routes = routeEngine.getRoutes();
+        return mappings.filter(mapping =>
+            mapping.destinationPlatform === 'whatsapp' &&
+            !(option === 'mirrorEdits' && mapping.captionless) &&
+            routes.some(route => route.id === mapping.routeId && route[option])
+        );
+    }
 
-        } catch (error) {
-            console.error('Error forwarding message to WhatsApp:', error);
-            throw error;
-        }
+    /**
+     * Remember which message a Telegram message was delivered as
+     */
+    private async recordTelegramMapping(
+        message: TelegramMessage,
+        target: RouteTarget,
+        sentMessageId: string | undefined,
+        suffix?: string,
+        captionless?: boolean
+    ): Promise<void> {
+        await this.recordMapping('telegram', normalizeTelegramId(message.channelId), String(message.id), target, sentMessageId, suffix, captionless);
     }
 
     /**
-     * Forward a Twitter message to WhatsApp
+     * Remember which message a source message was delivered as
      */
-    private async forwardTwitterMessageToWhatsApp(
-        message: TwitterMessage, 
-        config: ListeningConfig, 
-        account?: TwitterAccount
+    private async recordMapping(
+        sourcePlatform: RoutePlatform,
+        sourceChatId: string,
+        sourceMessageId: string,
+        target: RouteTarget,
+        sentMessageId: string | undefined,
+        suffix?: string,
+        captionless?: boolean
     ): Promise<void> {
+        if (!sentMessageId) return;
+        await saveMessageMapping({
+            sourcePlatform,
+            sourceChatId,
+            sourceMessageId,
+            destinationPlatform: target.destination.platform,
+            destinationId: target.destination.id,
+            destinationMessageId: sentMessageId,
+            destinationMessageKey: deliveredMessageKey(target.destination.platform, sentMessageId),
+            sessionId: target.destination.sessionId,
+            routeId: target.route.id,
+            suffix,
+            captionless,
+            createdAt: new Date()
+        });
+    }
+
+    /**
+     * Find our copy, in the target's group or chat, of the message a source message replies to
+     * @param sourceChatId Source chat of the replied-to message (undefined for tweets, whose IDs are global)
+     */
+    private async findQuotedMessageId(
+        sourcePlatform: RoutePlatform,
+        sourceChatId: string | undefined,
+        replyToMessageId: string | undefined,
+        target: RouteTarget
+    ): Promise<string | undefined> {
+        if (!replyToMessageId) return undefined;
+        const mapping = await findMessageMapping(sourcePlatform, sourceChatId, replyToMessageId, target.destination.platform, target.destination.id);
+        return mapping?.destinationMessageId;
+    }
+
+    /**
+     * Route an incoming tweet (shared by all Twitter sessions)
+     */
+    private readonly twitterMessageHandler = async (message: TwitterMessage) => {
+        let targets = this.getTargets(fromTwitterMessage(message), ['whatsapp', 'telegram']);
+        if (targets.length === 0) {
+            console.log(`TwitterForwardingManager: No route matches tweet from account ${message.authorId}`);
+            return;
+        }
+
+        // Tweet IDs are claimed by the Twitter client before media downloads
+        targets = await dedupLedger.filterDelivered('twitter', message.authorId, message.id, targets);
+        targets = await dedupLedger.filterContentDuplicates(message.text, targets);
+        if (targets.length === 0) return;
+
         try {
-            // Get AI settings
-            const aiSettings = await this.getAISettings();
-            
-            // Format the message for WhatsApp
-            let formattedMessage = `🐦 *@${message.authorUsername}* (${message.authorName})\n`;
-            
-            if (message.isRetweet && message.retweetedFrom) {
-                formattedMessage += `🔄 Retweeted from: ${message.retweetedFrom}\n`;
-            }
-            
-            if (message.text) {
-                let messageText = message.text;
-                
-                // Translate text if AI settings exist
-                // if (aiSettings) {
-                //     console.log('Translating Twitter message with AI...');
-                //     messageText = await this.translateMessage(messageText, aiSettings);
-                // }
-                
-                formattedMessage += `\n${messageText}`;
+            await this.forwardTwitterMessage(message, targets);
+            console.log(`TwitterForwardingManager: Tweet forwarded successfully`);
+        } catch (error) {
+            console.error(`Error forwarding tweet from account ${message.authorId}:`, error);
+            await dedupLedger.releaseMessage('twitter', message.authorId, message.id, message.text, failedTargets(error, targets));
+            const messageText = error instanceof Error ? error.message : String(error);
+            if (!this.isTwitterDeliveryReady() || /not initialized/i.test(messageText)) {
+                this.twitterInstance.pausePolling('Delivery client is not initialized');
             }
+        }
+    };
 
-            // Determine target WhatsApp groups
-            // Priority: account-specific groups > default config group
-            const targetGroupIds: string[] = [];
-            if (account?.whatsappGroupIds && account.whatsappGroupIds.length > 0) {
-                targetGroupIds.push(...account.whatsappGroupIds);
-                console.log(`Using account-specific WhatsApp groups for @${message.authorUsername}:`, targetGroupIds);
-            } else if (config.whatsappGroupId) {
-                targetGroupIds.push(config.whatsappGroupId);
-                console.log(`Using default WhatsApp group: ${config.whatsappGroupId}`);
-            }
+    /**
+     * Whether tweets can be delivered somewhere: a WhatsApp session or a Telegram sender is connected
+     */
+    private isTwitterDeliveryReady(): boolean {
+        return this.whatsappSessions.isAnyReady() || this.telegramSessions.isAnyReady();
+    }
 
-            if (targetGroupIds.length === 0) {
-                console.error('No WhatsApp groups configured for this Twitter account');
-                return;
-            }
+    /**
+     * Resolve the destinations a message is routed to, with the route that selected each one
+     * @param platforms Destination platforms this source can be delivered to
+     */
+    private getTargets(message: RoutableMessage, platforms: RouteDestination['platform'][]): RouteTarget[] {
+        const targets = routeEngine.resolveTargets(message);
+        const unsupported = targets.filter(t => !platforms.includes(t.destination.platform));
+        if (unsupported.length > 0) {
+            console.warn(`ForwardingManager: Skipping ${unsupported.length} ${unsupported[0].destination.platform} destination(s) for ${message.platform} source ${message.sourceId} (not supported yet)`);
+        }
+        return targets.filter(t => platforms.includes(t.destination.platform));
+    }
 
-            // Forward to each configured WhatsApp group
-            for (const groupId of targetGroupIds) {
-                await this.sendTwitterMessageToWhatsAppGroup(message, formattedMessage, groupId);
-            }
-            
-            console.log(`Forwarded tweet from @${message.authorUsername} to ${targetGroupIds.length} WhatsApp group(s)`);
+    /**
+     * Forward a Telegram message to the routed WhatsApp groups and Telegram chats
+     */
+    private async forwardTelegramMessage(message: TelegramMessage, targets: RouteTarget[]): Promise<void> {
+        try {
+            await runPipeline(
+                {
+                    platform: 'telegram',
+                    id: String(message.id),
+                    text: message.text,
+                    audio: getMessageAudio(message),
+                    buildContext: translated => buildTelegramContext(message, translated)
+                },
+                targets,
+                createTelegramHistory(message),
+                (target, formattedMessage, delivery) => target.destination.platform === 'telegram'
+                    ? this.sendTelegramMessageToTelegramChat(message, formattedMessage, target, delivery)
+                    : this.sendTelegramMessageToWhatsAppGroup(message, formattedMessage, target, delivery)
+            );
+            console.log(`Forwarded message from ${message.channelTitle} to ${targets.length} destination(s)`);
+        } catch (error) {
+            console.error('Error forwarding Telegram message:', error);
+            throw error;
+        }
+    }
 
+    /**
+     * Forward a Twitter message to the routed WhatsApp groups and Telegram chats
+     */
+    private async forwardTwitterMessage(
+        message: TwitterMessage,
+        targets: RouteTarget[]
+    ): Promise<void> {
+        try {
+            await runPipeline(
+                {
+                    platform: 'twitter',
+                    id: message.id,
+                    text: message.text,
+                    buildContext: translated => buildTwitterContext(message, translated)
+                },
+                targets,
+                createTwitterHistory(message),
+                (target, formattedMessage, delivery) => target.destination.platform === 'telegram'
+                    ? this.sendTwitterMessageToTelegramChat(message, formattedMessage, target, delivery)
+                    : this.sendTwitterMessageToWhatsAppGroup(message, formattedMessage, target, delivery)
+            );
+            console.log(`Forwarded tweet from @${message.authorUsername} to ${targets.length} destination(s)`);
         } catch (error) {
-            console.error('Error forwarding Twitter message to WhatsApp:', error);
+            console.error('Error forwarding Twitter message:', error);
             throw error;
         }
     }
 
     /**
-     * Send a formatted Twitter message to a specific WhatsApp group
+     * Send a formatted Twitter message to a specific WhatsApp group. Every downloaded media item is sent,
+     * in order, with the text as caption of the first one; items that could not be downloaded are listed
+     * under the text with their reason and URL.
      */
     private async sendTwitterMessageToWhatsAppGroup(
         message: TwitterMessage,
         formattedMessage: string,
-        groupId: string
+        target: RouteTarget,
+        delivery: HistoryDelivery
     ): Promise<void> {
+        const groupId = target.destination.id;
         try {
-            // Handle media messages
-            if (message.hasMedia && message.mediaBuffer) {
-                console.log(`[ForwardingManager] Forwarding Twitter media to group ${groupId}: ${message.mediaFileName}`);
-                
-                // Create a temporary file path
-                const tempDir = path.join(process.cwd(), 'temp', 'twitter');
-                if (!fs.existsSync(tempDir)) {
-                    fs.mkdirSync(tempDir, { recursive: true });
-                }
-                
-                const tempFilePath = path.join(tempDir, message.mediaFileName || `twitter_media_${message.id}`);
-                
-                try {
-                    // Write media to temporary file
-                    fs.writeFileSync(tempFilePath, message.mediaBuffer);
-                    
-                    // Determine media type for WhatsApp
-                    let whatsappMediaType: 'image' | 'video' | 'audio' | 'document' = 'document';
-                    if (message.mediaType === 'photo') {
-                        whatsappMediaType = 'image';
-                    } else if (message.mediaType === 'video') {
-                        whatsappMediaType = 'video';
-                    } else if (message.mediaType === 'gif') {
-                        whatsappMediaType = 'image'; // GIFs are treated as images in WhatsApp
-                    }
-                    console.log('[ForwardingManager] Sending media to WhatsApp group:', tempFilePath);
-                    
-                    
-                    // Send media to WhatsApp
-                    await this.whatsappInstance.sendMediaToGroup(
-                        groupId, 
-                        tempFilePath, 
-                        formattedMessage, // Use formatted message as caption
-                        whatsappMediaType
-                    );
+            const whatsapp = this.whatsappSessions.resolve(target.destination.sessionId);
+            const quotedMessageId = await this.findQuotedMessageId('twitter', undefined, message.replyToTweetId, target);
+            const record = async (sentMessageId: string | undefined) => {
+                delivery.messageId = sentMessageId;
+                await this.recordMapping('twitter', message.authorId, message.id, target, sentMessageId);
+            };
+            const items = message.media || [];
+            const downloaded = items.filter(item => item.buffer);
+            const caption = formattedMessage + this.describeSkippedTwitterMedia(message);
+            delivery.text = caption;
+
+            if (downloaded.length === 0) {
+                // Text-only tweet, or no media item could be downloaded
+                await record(await whatsapp.sendMessageToGroup(groupId, '', caption, { quotedMessageId }));
+                return;
+            }
 
-                } catch (mediaError) {
-                    console.error('Error handling Twitter media file:', mediaError);
-                    // Fall back to text-only message
-                    await this.whatsappInstance.sendMessageToGroup(groupId, '', formattedMessage);
-                } finally {
-                    try {
-                        if (fs.existsSync(tempFilePath)) {
-                            fs.unlinkSync(tempFilePath);
-                        }
-                    } catch { /* ignore cleanup errors */ }
-                }
-            } else if (message.hasMedia && message.mediaSkippedReason) {
-                // Media was skipped, add note to message
-                let messageWithNote = formattedMessage;
-                if (message.mediaSkippedReason === 'size_limit') {
-                    messageWithNote += `\n\n📎 Media: too large (>85MB)`;
-                } else if (message.mediaSkippedReason === 'download_failed') {
-                    messageWithNote += `\n\n📎 Media: Download failed`;
-                }
-                
-                // Add media URLs as fallback
-                if (message.mediaUrls && message.mediaUrls.length > 0) {
-                    messageWithNote += `\n${message.mediaUrls.join('\n')}`;
-                }
-                
-                // Send text message to WhatsApp group
-                await this.whatsappInstance.sendMessageToGroup(groupId, '', messageWithNote);
-            } else {
-                // No media or media URLs only
-                let finalMessage = formattedMessage;
-                if (message.hasMedia && message.mediaUrls && message.mediaUrls.length > 0) {
-                    finalMessage += `\n\n📎 Media: ${message.mediaType || 'Unknown'}`;
-                    finalMessage += `\n${message.mediaUrls.join('\n')}`;
+            console.log(`[ForwardingManager] Forwarding ${downloaded.length} Twitter media file(s) to group ${groupId}`);
+            const results = await sendMediaBatchToGroup(
+                whatsapp,
+                groupId,
+                downloaded.map((item, index) => ({
+                    buffer: item.buffer as Buffer,
+                    fileName: item.fileName || `twitter_media_${message.id}_${index + 1}`,
+                    // Animated GIFs are downloaded as MP4 videos
+                    mediaType: item.type === 'photo' ? 'image' : 'video',
+                    caption: index === 0 ? caption : '',
+                    quotedMessageId: index === 0 ? quotedMessageId : undefined
+                })),
+                path.join(process.cwd(), 'temp', 'twitter')
+            );
+            if (results[0].status === 'fulfilled') {
+                await record(results[0].value);
+            }
+
+            const failed = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+            delivery.mediaSent = results.length - failed.length;
+            failed.forEach(result => markMediaFailed(delivery, result.reason));
+            if (failed.some(result => result.reason instanceof RetryExhaustedError)) {
+                throw failed.find(result => result.reason instanceof RetryExhaustedError)?.reason;
+            }
+            if (failed.length > 0) {
+                console.error(`Error sending ${failed.length} Twitter media file(s) to WhatsApp group ${groupId}:`, failed[0].reason);
+                if (results[0].status === 'rejected') {
+                    // The caption went with the first file, fall back to a text message
+                    await record(await whatsapp.sendMessageToGroup(groupId, '', caption, { quotedMessageId }));
                 }
-                
-                // Send text message to WhatsApp group
-                await this.whatsappInstance.sendMessageToGroup(groupId, '', finalMessage);
             }
         } catch (error) {
+            if (error instanceof RetryExhaustedError) {
+                // Already stored as a dead letter, don't hold up the other groups
+                console.error(`Twitter message to WhatsApp group ${groupId} moved to dead letters: ${error.message}`);
+                markDeadLettered(delivery, error);
+                return;
+            }
             console.error(`Error sending Twitter message to WhatsApp group ${groupId}:`, error);
             throw error;
         }
     }
 
+    /**
+     * Send a formatted Twitter message to a Telegram chat. Downloaded media goes as one album; long tweets
+     * (note_tweet) that don't fit a caption are sent as text first, split to Telegram's message limit.
+     */
+    private async sendTwitterMessageToTelegramChat(
+        message: TwitterMessage,
+        formattedMessage: string,
+        target: RouteTarget,
+        delivery: HistoryDelivery
+    ): Promise<void> {
+        const files = (message.media || [])
+            .filter(item => item.buffer)
+            .map((item, index) => ({
+                buffer: item.buffer as Buffer,
+                fileName: item.fileName || `twitter_media_${message.id}_${index + 1}`,
+                // Animated GIFs are downloaded as MP4 videos
+                mimeType: item.mimeType || (item.type === 'photo' ? 'image/jpeg' : 'video/mp4')
+            }));
+
+        const quotedMessageId = await this.findQuotedMessageId('twitter', undefined, message.replyToTweetId, target);
+        const sentMessageId = await this.sendToTelegramChat(
+            target,
+            message.id,
+            formattedMessage + this.describeSkippedTwitterMedia(message),
+            files,
+            delivery,
+            quotedMessageId ? Number(quotedMessageId) : undefined
+        );
+        await this.recordMapping('twitter', message.authorId, message.id, target, sentMessageId);
+    }
+
+    /**
+     * List the media items that could not be downloaded, with their reason and URL, to go under the text
+     */
+    private describeSkippedTwitterMedia(message: TwitterMessage): string {
+        const notes = (message.media || [])
+            .filter(item => !item.buffer)
+            .map(item => {
+                const reason = item.skippedReason === 'size_limit' ? 'too large (>85MB)' : 'Download failed';
+                return `\n📎 Media: ${item.type || 'Unknown'} - ${reason}${item.url ? `\n${item.url}` : ''}`;
+            })
+            .join('');
+        return notes ? `\n${notes}` : '';
+    }
+
     /**
      * Send a formatted Telegram message to a specific WhatsApp group
      */
     private async sendTelegramMessageToWhatsAppGroup(
         message: TelegramMessage,
         formattedMessage: string,
-        groupId: string
+        target: RouteTarget,
+        delivery: HistoryDelivery
     ): Promise<void> {
+        const groupId = target.destination.id;
         try {
+            const whatsapp = this.whatsappSessions.resolve(target.destination.sessionId);
+            const quotedMessageId = await this.findQuotedMessageId(
+                'telegram',
+                normalizeTelegramId(message.channelId),
+                message.replyToMessageId !== undefined ? String(message.replyToMessageId) : undefined,
+                target
+            );
+
+            if (message.album?.length) {
+                await this.sendTelegramAlbumToWhatsAppGroup(whatsapp, message, formattedMessage, target, delivery, quotedMessageId);
+                return;
+            }
+
             // Handle media messages
             if (message.hasMedia && message.mediaBuffer) {
                 console.log(`[ForwardingManager] Forwarding media to group ${groupId}: ${message.mediaFileName}`);
@@ -659,28 +805,33 @@ class ForwardingManager {
                     fs.writeFileSync(tempFilePath, message.mediaBuffer);
                     
                     // Determine media type for WhatsApp
-                    let whatsappMediaType: 'image' | 'video' | 'audio' | 'document' = 'document';
-                    if (message.mediaType === 'photo') {
-                        whatsappMediaType = 'image';
-                    } else if (message.mediaType === 'video') {
-                        whatsappMediaType = 'video';
-                    } else if (message.mediaType === 'audio') {
-                        whatsappMediaType = 'audio';
-                    }
+                    const whatsappMediaType = this.getWhatsAppMediaType(message.mediaType);
                     
                     console.log('[ForwardingManager] Sending media to WhatsApp group:', tempFilePath);
 
                     // Send media to WhatsApp
-                    await this.whatsappInstance.sendMediaToGroup(
+                    const sentMessageId = await whatsapp.sendMediaToGroup(
                         groupId, 
                         tempFilePath, 
                         formattedMessage,
-                        whatsappMediaType
+                        whatsappMediaType,
+                        quotedMessageId
                     );
+                    delivery.messageId = sentMessageId;
+                    delivery.mediaSent = 1;
+                    await this.recordTelegramMapping(message, target, sentMessageId);
                 } catch (mediaError) {
+                    if (mediaError instanceof RetryExhaustedError) {
+                        throw mediaError;
+                    }
                     console.error('Error handling media file:', mediaError);
                     // Fallback to text message mentioning media
-                    await this.whatsappInstance.sendMessageToGroup(groupId, '', formattedMessage + `\n\n📎 Media: ${message.mediaType || 'Unknown'} (failed to forward)`);
+                    const suffix = `\n\n📎 Media: ${message.mediaType || 'Unknown'} (failed to forward)`;
+                    markMediaFailed(delivery, mediaError);
+                    delivery.text = formattedMessage + suffix;
+                    const sentMessageId = await whatsapp.sendMessageToGroup(groupId, '', formattedMessage + suffix, { quotedMessageId });
+                    delivery.messageId = sentMessageId;
+                    await this.recordTelegramMapping(message, target, sentMessageId, suffix);
                 } finally {
                     try {
                         if (fs.existsSync(tempFilePath)) {
@@ -690,23 +841,225 @@ class ForwardingManager {
                 }
             } else {
                 // Text-only message or media without buffer
-                let finalMessage = formattedMessage;
+                let suffix = '';
                 if (message.hasMedia) {
                     if (message.mediaSkippedReason === 'size_limit') {
-                        finalMessage += `\n\n📎 Media: ${message.mediaType || 'Unknown'} (skipped - file too large >85MB)`;
+                        suffix = `\n\n📎 Media: ${message.mediaType || 'Unknown'} (skipped - file too large >85MB)`;
                     } else {
-                        finalMessage += `\n\n📎 Media: ${message.mediaType || 'Unknown'} (download failed)`;
+                        suffix = `\n\n📎 Media: ${message.mediaType || 'Unknown'} (download failed)`;
                     }
                 }
                 
                 // Send text message to WhatsApp group
-                await this.whatsappInstance.sendMessageToGroup(groupId, '', finalMessage);
+                delivery.text = formattedMessage + suffix;
+                const sentMessageId = await whatsapp.sendMessageToGroup(groupId, '', formattedMessage + suffix, { quotedMessageId });
+                delivery.messageId = sentMessageId;
+                await this.recordTelegramMapping(message, target, sentMessageId, suffix);
             }
         } catch (error) {
+            if (error instanceof RetryExhaustedError) {
+                // Already stored as a dead letter, don't hold up the other groups
+                console.error(`Telegram message to WhatsApp group ${groupId} moved to dead letters: ${error.message}`);
+                markDeadLettered(delivery, error);
+                return;
+            }
             console.error(`Error sending Telegram message to WhatsApp group ${groupId}:`, error);
             throw error;
         }
     }
+
+    /**
+     * Send a formatted Telegram message to a Telegram chat, albums as albums with the caption once.
+     * Media that could not be downloaded is listed under the text.
+     */
+    private async sendTelegramMessageToTelegramChat(
+        message: TelegramMessage,
+        formattedMessage: string,
+        target: RouteTarget,
+        delivery: HistoryDelivery
+    ): Promise<void> {
+        const parts = message.album?.length ? message.album : [message];
+        const files = parts
+            .filter(part => part.mediaBuffer)
+            .map(part => ({
+                buffer: part.mediaBuffer as Buffer,
+                fileName: part.mediaFileName || `media_${part.id}`,
+                mimeType: part.mediaMimeType || (part.mediaType === 'photo' ? 'image/jpeg' : 'application/octet-stream')
+            }));
+
+        const suffix = parts
+            .filter(part => part.hasMedia && !part.mediaBuffer)
+            .map(part => part.mediaSkippedReason === 'size_limit'
+                ? `\n📎 Media: ${part.mediaType || 'Unknown'} (skipped - file too large >85MB)`
+                : `\n📎 Media: ${part.mediaType || 'Unknown'} (download failed)`)
+            .join('');
+        const fullSuffix = suffix ? `\n${suffix}` : '';
+
+        const quotedMessageId = await this.findQuotedMessageId(
+            'telegram',
+            normalizeTelegramId(message.channelId),
+            message.replyToMessageId !== undefined ? String(message.replyToMessageId) : undefined,
+            target
+        );
+        const sentMessageId = await this.sendToTelegramChat(
+            target,
+            String(message.id),
+            formattedMessage + fullSuffix,
+            files,
+            delivery,
+            quotedMessageId ? Number(quotedMessageId) : undefined
+        );
+        await this.recordTelegramMapping(message, target, sentMessageId, fullSuffix);
+    }
+
+    /**
+     * Send text and media to a Telegram chat through the destination's session, within Telegram's limits:
+     * the text is the caption when it fits, otherwise it goes first (split into several messages when needed)
+     * and the media follows without a caption. Sends go through the Telegram outbound queue, which retries
+     * them and dead-letters the ones whose retries run out.
+     * @param sourceMessageId Source message, used for the dead letter ID
+     * @returns ID of the message that carries (the start of) the text
+     */
+    private async sendToTelegramChat(
+        target: RouteTarget,
+        sourceMessageId: string,
+        text: string,
+        files: { buffer: Buffer; fileName: string; mimeType: string }[],
+        delivery: HistoryDelivery,
+        replyTo?: number
+    ): Promise<string | undefined> {
+        const chatId = target.destination.id;
+        const asCaption = files.length > 0 && text.length <= TELEGRAM_CAPTION_LIMIT;
+        delivery.text = text;
+
+        let sentMessageId: number | undefined;
+        try {
+            const sessionId = this.telegramSessions.resolveSender(target.destination.sessionId).getSessionId();
+            const send = (content: string, sendFiles: typeof files, replyToId: number | undefined, options: TelegramSendOptions) =>
+                this.telegramSessions.send({ sessionId, chatId, sourceMessageId, text: content, files: sendFiles, replyTo: replyToId, options });
+
+            if (!asCaption) {
+                const chunks = splitTelegramText(text);
+                for (let index = 0; index < chunks.length; index++) {
+                    // Previews only for text-only posts, media shows below anyway
+                    const id = await send(chunks[index], [], index === 0 ? replyTo : undefined, { parseMode: 'html', linkPreview: files.length === 0 });
+                    if (index === 0) sentMessageId = id;
+                }
+            }
+
+            if (files.length > 0) {
+                const caption = asCaption ? text : '';
+                try {
+                    const id = await send(caption, files, asCaption ? replyTo : undefined, { parseMode: 'html' });
+                    if (asCaption) sentMessageId = id;
+                    delivery.mediaSent = files.length;
+                } catch (mediaError) {
+                    if (mediaError instanceof RetryExhaustedError) {
+                        throw mediaError;
+                    }
+                    console.error(`Error sending media to Telegram chat ${chatId}:`, mediaError);
+                    // Fallback to text message mentioning media
+                    markMediaFailed(delivery, mediaError);
+                    const note = `📎 Media: ${files.length} file(s) (failed to forward)`;
+                    const fallback = asCaption ? `${text}\n\n${note}` : note;
+                    if (asCaption) delivery.text = fallback;
+                    const id = await send(fallback, [], asCaption ? replyTo : undefined, { parseMode: 'html' });
+                    if (asCaption) sentMessageId = id;
+                }
+            }
+
+        } catch (error) {
+            if (error instanceof RetryExhaustedError) {
+                // Already stored as a dead letter by the queue
+                console.error(`Message to Telegram chat ${chatId} moved to dead letters: ${error.message}`);
+                markDeadLettered(delivery, error);
+            } else {
+                console.error(`Error sending message to Telegram chat ${chatId}:`, error);
+                throw error;
+            }
+        }
+
+        delivery.messageId = sentMessageId !== undefined ? String(sentMessageId) : undefined;
+        return delivery.messageId;
+    }
+
+    private getWhatsAppMediaType(mediaType: TelegramMessage['mediaType']): WhatsAppMediaType {
+        if (mediaType === 'photo') return 'image';
+        if (mediaType === 'video') return 'video';
+        if (mediaType === 'audio') return 'audio';
+        return 'document';
+    }
+
+    /**
+     * Send a Telegram album to a WhatsApp group as one ordered batch, with the caption attached once
+     * (to the part that carried it). Parts whose media could not be downloaded are listed under the caption.
+     */
+    private async sendTelegramAlbumToWhatsAppGroup(
+        whatsapp: WhatsAppEngine,
+        message: TelegramMessage,
+        formattedMessage: string,
+        target: RouteTarget,
+        delivery: HistoryDelivery,
+        quotedMessageId?: string
+    ): Promise<void> {
+        const groupId = target.destination.id;
+        const parts = message.album || [];
+        const mediaParts = parts.filter(part => part.mediaBuffer);
+
+        const suffix = parts
+            .filter(part => !part.mediaBuffer)
+            .map(part => part.mediaSkippedReason === 'size_limit'
+                ? `\n📎 Media: ${part.mediaType || 'Unknown'} (skipped - file too large >85MB)`
+                : `\n📎 Media: ${part.mediaType || 'Unknown'} (download failed)`)
+            .join('');
+        const fullSuffix = suffix ? `\n${suffix}` : '';
+
+        delivery.text = formattedMessage + fullSuffix;
+        if (mediaParts.length === 0) {
+            const sentMessageId = await whatsapp.sendMessageToGroup(groupId, '', formattedMessage + fullSuffix, { quotedMessageId });
+            delivery.messageId = sentMessageId;
+            await this.recordTelegramMapping({ ...message, id: (parts.find(part => part.text) || parts[0] || message).id }, target, sentMessageId, fullSuffix);
+            return;
+        }
+
+        const captionPart = mediaParts.find(part => part.text) || mediaParts[0];
+        console.log(`[ForwardingManager] Forwarding album of ${mediaParts.length} file(s) to group ${groupId}`);
+
+        const results = await sendMediaBatchToGroup(
+            whatsapp,
+            groupId,
+            mediaParts.map(part => ({
+                buffer: part.mediaBuffer as Buffer,
+                fileName: part.mediaFileName || `media_${part.id}`,
+                mediaType: this.getWhatsAppMediaType(part.mediaType),
+                caption: part === captionPart ? formattedMessage + fullSuffix : '',
+                quotedMessageId: part === captionPart ? quotedMessageId : undefined
+            })),
+            path.join(process.cwd(), 'temp')
+        );
+
+        for (let index = 0; index < results.length; index++) {
+            const result = results[index];
+            const part = mediaParts[index];
+            if (result.status === 'fulfilled') {
+                const isCaption = part === captionPart;
+                delivery.mediaSent++;
+                if (isCaption) delivery.messageId = result.value;
+                await this.recordTelegramMapping({ ...message, id: part.id }, target, result.value, isCaption ? fullSuffix : undefined, !isCaption);
+            } else if (result.reason instanceof RetryExhaustedError) {
+                console.error(`Album part ${part.id} to WhatsApp group ${groupId} moved to dead letters: ${result.reason.message}`);
+                markMediaFailed(delivery, result.reason);
+            } else {
+                console.error(`Error sending album part ${part.id} to WhatsApp group ${groupId}:`, result.reason);
+                markMediaFailed(delivery, result.reason);
+            }
+        }
+
+        if (delivery.mediaSent === 0) {
+            const deadLettered = results.every(result => result.status === 'rejected' && result.reason instanceof RetryExhaustedError);
+            delivery.status = deadLettered ? 'dead_letter' : 'failed';
+        }
+    }
 }
 
 export default ForwardingManager;
@@ -0,0 +1,82 @@
+import express from 'express';
+import { HistoryQuery, HistoryStatus, RoutePlatform, getForwardHistory, getForwardHistoryEntry } from './db';
+import { normalizeTelegramId } from './routeEngine';
+
+const router = express.Router();
+
+const SOURCE_PLATFORMS: RoutePlatform[] = ['telegram', 'twitter', 'whatsapp'];
+const STATUSES: HistoryStatus[] = ['delivered', 'partial', 'dead_letter', 'failed', 'skipped'];
+
+/**
+ * Parse an optional date query parameter; throws on values that are not dates
+ */
+function parseDate(value: unknown, name: string): Date | undefined {
+    if (typeof value !== 'string' || !value) return undefined;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+        throw new Error(`${name} must be a date`);
+    }
+    return date;
+}
+
+/**
+ * Search the forward history.
+ * Query: from, to (dates), sourcePlatform, sourceId, destinationId, routeId, status, limit (max 200), offset
+ */
+router.get('/', async (req, res) => {
+    const query: HistoryQuery = {};
+    const { sourcePlatform, sourceId, destinationId, routeId, status } = req.query;
+
+    try {
+        query.from = parseDate(req.query.from, 'from');
+        query.to = parseDate(req.query.to, 'to');
+    } catch (error: any) {
+        return res.status(400).json({ success: false, error: error.message });
+    }
+
+    if (sourcePlatform !== undefined) {
+        if (!SOURCE_PLATFORMS.includes(sourcePlatform as RoutePlatform)) {
+            return res.status(400).json({ success: false, error: `sourcePlatform must be one of: ${SOURCE_PLATFORMS.join(', ')}` });
+        }
+        query.sourcePlatform = sourcePlatform as RoutePlatform;
+    }
+    if (status !== undefined) {
+        if (!STATUSES.includes(status as HistoryStatus)) {
+            return res.status(400).json({ success: false, error: `status must be one of: ${STATUSES.join(', ')}` });
+        }
+        query.status = status as HistoryStatus;
+    }
+    if (typeof sourceId === 'string' && sourceId) {
+        // Telegram sources are stored without the -100 prefix
+        query.sourceId = query.sourcePlatform === 'telegram' || sourceId.startsWith('-') ? normalizeTelegramId(sourceId) : sourceId;
+    }
+    if (typeof destinationId === 'string' && destinationId) query.destinationId = destinationId;
+    if (typeof routeId === 'string' && routeId) query.routeId = routeId;
+
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 50, 1), 200);
+    const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+    try {
+        const { total, entries } = await getForwardHistory(query, limit, offset);
+        res.json({ success: true, total, count: entries.length, limit, offset, entries });
+    } catch (error: any) {
+        res.status(500).json({ success: false, error: error.message });
+    }
+});
+
+/**
+ * Get a specific forward attempt by ID
+ */
+router.get('/:id', async (req, res) => {
+    try {
+        const entry = await getForwardHistoryEntry(req.params.id);
+        if (!entry) {
+            return res.status(404).json({ success: false, error: 'History entry not found' });
+        }
+        res.json({ success: true, entry });
+    } catch (error: any) {
+        res.status(500).json({ success: false, error: error.message });
+    }
+});
+
+export default router;
@@ -0,0 +1,115 @@
+export interface DetectedLanguage {
+    code: string; // ISO 639-1
+    name: string;
+}
+
+interface LanguageInfo {
+    name: string;
+    names: string[]; // Lowercase names a profile's targetLanguage may use, English and native
+}
+
+const LANGUAGES: Record<string, LanguageInfo> = {
+    he: { name: 'Hebrew', names: ['hebrew', 'עברית', 'ivrit'] },
+    ar: { name: 'Arabic', names: ['arabic', 'العربية', 'عربي'] },
+    fa: { name: 'Persian', names: ['persian', 'farsi', 'فارسی'] },
+    ru: { name: 'Russian', names: ['russian', 'русский'] },
+    uk: { name: 'Ukrainian', names: ['ukrainian', 'українська'] },
+    el: { name: 'Greek', names: ['greek', 'ελληνικά'] },
+    ja: { name: 'Japanese', names: ['japanese', '日本語'] },
+    ko: { name: 'Korean', names: ['korean', '한국어'] },
+    zh: { name: 'Chinese', names: ['chinese', 'mandarin', '中文'] },
+    th: { name: 'Thai', names: ['thai', 'ไทย'] },
+    hi: { name: 'Hindi', names: ['hindi', 'हिन्दी'] },
+    hy: { name: 'Armenian', names: ['armenian', 'հայերեն'] },
+    ka: { name: 'Georgian', names: ['georgian', 'ქართული'] },
+    en: { name: 'English', names: ['english'] },
+    es: { name: 'Spanish', names: ['spanish', 'español', 'espanol', 'castellano'] },
+    fr: { name: 'French', names: ['french', 'français', 'francais'] },
+    de: { name: 'German', names: ['german', 'deutsch'] },
+    it: { name: 'Italian', names: ['italian', 'italiano'] },
+    pt: { name: 'Portuguese', names: ['portuguese', 'português', 'portugues'] },
+    nl: { name: 'Dutch', names: ['dutch', 'nederlands'] },
+    tr: { name: 'Turkish', names: ['turkish', 'türkçe', 'turkce'] }
+};
+
+// Scripts used by a single language (or one language in practice), checked letter by letter
+const SCRIPTS: { code: string; pattern: RegExp }[] = [
+    { code: 'he', pattern: /\p{Script=Hebrew}/u },
+    { code: 'ar', pattern: /\p{Script=Arabic}/u },
+    { code: 'ru', pattern: /\p{Script=Cyrillic}/u },
+    { code: 'el', pattern: /\p{Script=Greek}/u },
+    { code: 'ja', pattern: /\p{Script=Hiragana}|\p{Script=Katakana}/u },
+    { code: 'ko', pattern: /\p{Script=Hangul}/u },
+    { code: 'zh', pattern: /\p{Script=Han}/u },
+    { code: 'th', pattern: /\p{Script=Thai}/u },
+    { code: 'hi', pattern: /\p{Script=Devanagari}/u },
+    { code: 'hy', pattern: /\p{Script=Armenian}/u },
+    { code: 'ka', pattern: /\p{Script=Georgian}/u }
+];
+
+// Frequent short words of the Latin-script languages
+const STOPWORDS: Record<string, string[]> = {
+    en: ['the', 'and', 'is', 'are', 'of', 'to', 'in', 'that', 'it', 'for', 'with', 'this', 'was', 'on', 'you', 'have', 'not', 'be', 'will', 'from'],
+    es: ['el', 'la', 'los', 'las', 'de', 'que', 'y', 'en', 'un', 'una', 'es', 'por', 'con', 'para', 'del', 'se', 'no', 'al', 'lo', 'como'],
+    fr: ['le', 'la', 'les', 'de', 'des', 'et', 'est', 'un', 'une', 'du', 'que', 'en', 'pour', 'dans', 'pas', 'qui', 'sur', 'au', 'avec', 'il'],
+    de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ein', 'eine', 'zu', 'den', 'mit', 'von', 'sich', 'des', 'auf', 'für', 'im', 'dem', 'auch', 'wird'],
+    it: ['il', 'la', 'di', 'che', 'e', 'è', 'un', 'una', 'per', 'non', 'in', 'con', 'del', 'della', 'sono', 'gli', 'le', 'da', 'al', 'si'],
+    pt: ['o', 'a', 'os', 'as', 'de', 'que', 'e', 'é', 'um', 'uma', 'em', 'para', 'com', 'não', 'do', 'da', 'no', 'na', 'por', 'se'],
+    nl: ['de', 'het', 'een', 'en', 'van', 'is', 'dat', 'op', 'te', 'in', 'niet', 'met', 'voor', 'zijn', 'er', 'ook', 'aan', 'maar', 'wordt', 'als'],
+    tr: ['ve', 'bir', 'bu', 'da', 'de', 'için', 'ile', 'çok', 'ne', 'var', 'daha', 'olarak', 'gibi', 'ama', 'en', 'mi', 'değil', 'sonra', 'kadar', 'ise']
+};
+
+// Below this many stopword hits a Latin-script text is left undetected
+const MIN_STOPWORD_HITS = 2;
+
+function language(code: string): DetectedLanguage {
+    return { code, name: LANGUAGES[code].name };
+}
+
+/**
+ * Detect the language of a message locally, by script and, for Latin-script text, by frequent words.
+ * Links, mentions and hashtags are ignored.
+ * @returns The language, or null when the text is too short or ambiguous to tell
+ */
+export function detectLanguage(text: string): DetectedLanguage | null {
+    const cleaned = (text || '')
+        .replace(/https?:\/\/\S+/g, ' ')
+        .replace(/[@#][\p{L}\p{N}_]+/gu, ' ');
+    const letters = cleaned.match(/\p{L}/gu) || [];
+    if (letters.length === 0) return null;
+
+    // The script most letters are written in; Latin is whatever no other script claims
+    const counts: Record<string, number> = {};
+    let latin = 0;
+    for (const letter of letters) {
+        const script = SCRIPTS.find(s => s.pattern.test(letter));
+        if (script) counts[script.code] = (counts[script.code] || 0) + 1;
+        else if (/\p{Script=Latin}/u.test(letter)) latin++;
+    }
+    const [topScript, topCount] = Object.entries(counts).sort((a, b) => b[1] - a[1])[0] || ['', 0];
+
+    if (topCount > latin) {
+        // Kana mixed with Han is Japanese; letters unique to Persian or Ukrainian tell them apart
+        if (topScript === 'zh' && counts.ja) return language('ja');
+        if (topScript === 'ar' && /[\u067E\u0686\u0698\u06AF]/.test(cleaned)) return language('fa');
+        if (topScript === 'ru' && /[\u0456\u0457\u0454\u0491\u0406\u0407\u0404\u0490]/.test(cleaned)) return language('uk');
+        return language(topScript);
+    }
+
+    const words = cleaned.toLowerCase().match(/\p{L}+/gu) || [];
+    const scores = Object.entries(STOPWORDS)
+        .map(([code, stopwords]) => [code, words.filter(word => stopwords.includes(word)).length] as [string, number])
+        .sort((a, b) => b[1] - a[1]);
+    const [best, second] = scores;
+    if (best[1] < MIN_STOPWORD_HITS || best[1] === second[1]) return null;
+    return language(best[0]);
+}
+
+/**
+ * Whether a detected language is the one a profile's targetLanguage names (e.g. "Hebrew", "he" or "עברית")
+ */
+export function isTargetLanguage(detected: DetectedLanguage, targetLanguage: string): boolean {
+    const target = targetLanguage.trim().toLowerCase();
+    const names = [detected.code, ...LANGUAGES[detected.code].names];
+    return names.some(name => target === name || target.startsWith(`${name} `) || target.startsWith(`${name}(`));
+}
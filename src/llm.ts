@@ -0,0 +1,195 @@
+import { metrics } from './metrics';
+import { llmProviders, LLMRequestError, LLMResponse } from './llmProviders';
+import { aiUsage } from './aiUsage';
+
+export interface AskModelOptions {
+    json?: boolean; // Ask for a JSON object (JSON mode); the content is still returned as a string
+    providerId?: string; // OpenRouter when unset
+    routeId?: string; // Route the call is made for, for usage accounting
+}
+
+const LLM_REQUESTS_METRIC = 'llm_requests_total';
+metrics.describe(LLM_REQUESTS_METRIC, 'LLM completions by provider and outcome');
+
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1000;
+
+/**
+ * Stops calling a provider after repeated failures. Once the cooldown has passed, a single trial call
+ * decides whether it closes again.
+ */
+class CircuitBreaker {
+    private failures: number = 0;
+    private openedAt: number | null = null;
+    private trialInFlight: boolean = false;
+
+    constructor(private readonly threshold: number = 5, private readonly cooldownMs: number = 60 * 1000) {}
+
+    public canRequest(): boolean {
+        if (this.openedAt === null) return true;
+        if (Date.now() - this.openedAt < this.cooldownMs || this.trialInFlight) return false;
+        this.trialInFlight = true;
+        return true;
+    }
+
+    public recordSuccess(): void {
+        this.failures = 0;
+        this.openedAt = null;
+        this.trialInFlight = false;
+    }
+
+    public recordFailure(): void {
+        this.failures++;
+        this.trialInFlight = false;
+        if (this.openedAt !== null || this.failures >= this.threshold) {
+            this.openedAt = Date.now();
+        }
+    }
+
+    public isOpen(): boolean {
+        return this.openedAt !== null;
+    }
+}
+
+/**
+ * Retries shared by all calls: at most `ratio` of the recent calls (with a floor), so an outage
+ * doesn't multiply the load on a provider that is already failing
+ */
+class RetryBudget {
+    private requests: number[] = [];
+    private retries: number[] = [];
+
+    constructor(private readonly ratio: number = 0.2, private readonly minRetries: number = 10, private readonly windowMs: number = 60 * 1000) {}
+
+    public recordRequest(): void {
+        this.requests.push(Date.now());
+    }
+
+    public tryRetry(): boolean {
+        const cutoff = Date.now() - this.windowMs;
+        this.requests = this.requests.filter(at => at >= cutoff);
+        this.retries = this.retries.filter(at => at >= cutoff);
+        if (this.retries.length >= Math.max(this.minRetries, this.requests.length * this.ratio)) {
+            return false;
+        }
+        this.retries.push(Date.now());
+        return true;
+    }
+}
+
+const breakers: Map<string, CircuitBreaker> = new Map();
+const retryBudget = new RetryBudget();
+
+function getBreaker(providerId: string): CircuitBreaker {
+    let breaker = breakers.get(providerId);
+    if (!breaker) {
+        breaker = new CircuitBreaker();
+        breakers.set(providerId, breaker);
+    }
+    return breaker;
+}
+
+/**
+ * Whether a provider's circuit breaker is currently open
+ */
+export function isProviderSuspended(providerId: string): boolean {
+    return breakers.get(providerId)?.isOpen() || false;
+}
+
+/**
+ * Run a completion with the provider's timeout, retrying transient failures within the retry budget
+ * @returns The response, or null when the provider is unknown or suspended, the monthly AI budget is used up, or every attempt failed
+ */
+export async function requestCompletion(
+    prompt: string,
+    model: string,
+    temperature: number = 0.0,
+    options: AskModelOptions = {}
+): Promise<LLMResponse | null> {
+    const provider = llmProviders.get(options.providerId);
+    if (!provider) {
+        console.error(`[LLM] Unknown provider: ${options.providerId}`);
+        return null;
+    }
+
+    if (await aiUsage.isOverBudget()) {
+        console.warn('[LLM] Monthly AI budget exceeded; skipping the call');
+        metrics.increment(LLM_REQUESTS_METRIC, { provider: provider.id, outcome: 'over_budget' });
+        return null;
+    }
+
+    const breaker = getBreaker(provider.id);
+    retryBudget.recordRequest();
+
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+        if (!breaker.canRequest()) {
+            console.warn(`[LLM] ${provider.id} is suspended after repeated failures; skipping the call`);
+            metrics.increment(LLM_REQUESTS_METRIC, { provider: provider.id, outcome: 'suspended' });
+            return null;
+        }
+
+        try {
+            const response = await provider.complete({
+                prompt,
+                model,
+                temperature,
+                json: options.json,
+                signal: AbortSignal.timeout(provider.timeoutMs)
+            });
+            breaker.recordSuccess();
+            metrics.increment(LLM_REQUESTS_METRIC, { provider: provider.id, outcome: 'success' });
+            if (response.usage) {
+                const cost = response.usage.cost !== undefined ? `, $${response.usage.cost.toFixed(6)}` : '';
+                console.log(`[LLM] ${provider.id} (${model}) tokens: ${response.usage.promptTokens} prompt, ${response.usage.completionTokens} completion${cost}`);
+                await aiUsage.record(model, provider.id, options.routeId, response.usage);
+            }
+            return response;
+        } catch (error) {
+            const retryable = !(error instanceof LLMRequestError) || error.retryable;
+            const timedOut = error instanceof Error && error.name === 'TimeoutError';
+            // Only outages (timeouts, network errors, 408/429/5xx) count towards the breaker;
+            // a rejected request (bad key, model or prompt) means the provider is up
+            if (retryable) {
+                breaker.recordFailure();
+            } else {
+                breaker.recordSuccess();
+            }
+            metrics.increment(LLM_REQUESTS_METRIC, { provider: provider.id, outcome: timedOut ? 'timeout' : 'error' });
+            console.error(`[LLM] ${provider.id} (${model}) attempt ${attempt}/${MAX_ATTEMPTS} failed:`, error instanceof Error ? error.message : error);
+
+            if (!retryable || attempt === MAX_ATTEMPTS) break;
+            if (!retryBudget.tryRetry()) {
+                console.warn('[LLM] Retry budget exhausted; giving up on this call');
+                break;
+            }
+            await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * attempt));
+        }
+    }
+    return null;
+}
+
+/**
+ * Ask a model for a completion
+ * @returns The content, or an empty string when the call failed
+ */
+export async function askModel(prompt: string, model: string, temperature: number = 0.0, options: AskModelOptions = {}): Promise<string> {
+    const response = await requestCompletion(prompt, model, temperature, options);
+    return response?.content || '';
+}
+
+/**
+ * Ask for a JSON object and parse it
+ * @returns The parsed object, or null when the model fails or returns something that isn't a JSON object
+ */
+export async function askModelJson<T = any>(prompt: string, model: string, temperature: number = 0.0, options: Omit<AskModelOptions, 'json'> = {}): Promise<T | null> {
+    const content = await askModel(prompt, model, temperature, { ...options, json: true });
+    if (!content) return null;
+    try {
+        // Some models still wrap the object in a code fence
+        const parsed = JSON.parse(content.trim().replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, ''));
+        return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed as T : null;
+    } catch {
+        console.warn('[LLM] Model returned invalid JSON:', content);
+        return null;
+    }
+}
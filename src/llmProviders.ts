@@ -0,0 +1,210 @@
+import { configManager, LLMProviderConfig } from './configManager';
+
+export const OPENROUTER_PROVIDER_ID = 'openrouter';
+export const MOCK_PROVIDER_ID = 'mock';
+const BUILT_IN_PROVIDER_IDS = [OPENROUTER_PROVIDER_ID, MOCK_PROVIDER_ID];
+const OPENROUTER_URL = process.env.OPENROUTER_URL || 'https://openrouter.ai/api/v1';
+const DEFAULT_TIMEOUT_MS = 60 * 1000;
+
+export type LLMProviderType = 'openrouter' | 'openai' | 'mock';
+
+export interface LLMRequest {
+    prompt: string;
+    model: string;
+    temperature: number;
+    json?: boolean; // Ask for a JSON object (JSON mode)
+    signal?: AbortSignal;
+}
+
+export interface LLMUsage {
+    promptTokens: number;
+    completionTokens: number;
+    cost?: number; // In USD, when the provider reports it
+}
+
+export interface LLMResponse {
+    content: string;
+    usage?: LLMUsage;
+}
+
+/**
+ * A failed completion; retryable unless another attempt would fail the same way (bad key, unknown model, bad request)
+ */
+export class LLMRequestError extends Error {
+    constructor(message: string, public readonly retryable: boolean = true) {
+        super(message);
+        this.name = 'LLMRequestError';
+    }
+}
+
+export interface LLMProvider {
+    readonly id: string;
+    readonly timeoutMs: number;
+    complete(request: LLMRequest): Promise<LLMResponse>;
+}
+
+export interface LLMProviderInfo {
+    id: string;
+    name: string;
+    type: LLMProviderType;
+    baseUrl?: string;
+    hasApiKey: boolean;
+    timeoutMs: number;
+    builtIn: boolean;
+}
+
+/**
+ * Check a new provider ID; returns an error message, or null when it can be used
+ */
+export function validateLLMProviderId(id: unknown): string | null {
+    if (typeof id !== 'string' || !/^[a-z0-9][a-z0-9_-]{0,31}$/.test(id)) {
+        return 'id must be 1-32 lowercase letters, digits, - or _';
+    }
+    if (BUILT_IN_PROVIDER_IDS.includes(id)) {
+        return `${id} is a built-in provider`;
+    }
+    return null;
+}
+
+/**
+ * Chat completions API shared by OpenRouter, OpenAI and local servers such as llama.cpp and Ollama
+ */
+class OpenAICompatibleProvider implements LLMProvider {
+    constructor(
+        public readonly id: string,
+        private readonly baseUrl: string,
+        private readonly apiKey: string | undefined,
+        public readonly timeoutMs: number,
+        private readonly extraBody: Record<string, unknown> = {}
+    ) {}
+
+    public async complete(request: LLMRequest): Promise<LLMResponse> {
+        const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {})
+            },
+            body: JSON.stringify({
+                model: request.model,
+                messages: [{ role: 'user', content: request.prompt }],
+                temperature: request.temperature,
+                ...(request.json ? { response_format: { type: 'json_object' } } : {}),
+                ...this.extraBody
+            }),
+            signal: request.signal
+        });
+
+        const data: any = await response.json().catch(() => null);
+        if (!response.ok) {
+            // Timeouts, rate limits and server errors can pass; anything else will fail again
+            const retryable = response.status === 408 || response.status === 429 || response.status >= 500;
+            throw new LLMRequestError(`${this.id} returned ${response.status}: ${data?.error?.message || response.statusText}`, retryable);
+        }
+
+        const content = data?.choices?.[0]?.message?.content;
+        if (!content) {
+            throw new LLMRequestError(`${this.id} returned no content${data?.error?.message ? `: ${data.error.message}` : ''}`);
+        }
+        return {
+            content,
+            usage: data.usage ? {
+                promptTokens: data.usage.prompt_tokens || 0,
+                completionTokens: data.usage.completion_tokens || 0,
+                cost: typeof data.usage.cost === 'number' ? data.usage.cost : undefined
+            } : undefined
+        };
+    }
+}
+
+/**
+ * Deterministic offline provider for tests: text requests get the message back unchanged,
+ * JSON requests get an empty object (no verdict)
+ */
+class MockProvider implements LLMProvider {
+    public readonly id = MOCK_PROVIDER_ID;
+    public readonly timeoutMs = DEFAULT_TIMEOUT_MS;
+
+    public async complete(request: LLMRequest): Promise<LLMResponse> {
+        const marker = 'Message to translate: ';
+        const index = request.prompt.lastIndexOf(marker);
+        const content = request.json ? '{}' : index >= 0 ? request.prompt.slice(index + marker.length) : request.prompt;
+        return {
+            content,
+            usage: { promptTokens: Math.ceil(request.prompt.length / 4), completionTokens: Math.ceil(content.length / 4), cost: 0 }
+        };
+    }
+}
+
+/**
+ * The LLM backends AI profiles can select: OpenRouter (OPENROUTER_TOKEN), the mock provider,
+ * and the OpenAI-compatible endpoints stored in the config
+ */
+class LLMProviderRegistry {
+    /**
+     * Get a provider by ID; no ID means OpenRouter
+     */
+    public get(providerId?: string): LLMProvider | undefined {
+        const id = providerId || OPENROUTER_PROVIDER_ID;
+        if (id === OPENROUTER_PROVIDER_ID) {
+            return new OpenAICompatibleProvider(id, OPENROUTER_URL, process.env.OPENROUTER_TOKEN, DEFAULT_TIMEOUT_MS, {
+                provider: { sort: 'throughput' },
+                usage: { include: true } // Report the cost of each call
+            });
+        }
+        if (id === MOCK_PROVIDER_ID) {
+            return new MockProvider();
+        }
+        const config = this.getConfig(id);
+        return config
+            ? new OpenAICompatibleProvider(config.id, config.baseUrl, config.apiKey, config.timeoutMs || DEFAULT_TIMEOUT_MS)
+            : undefined;
+    }
+
+    public has(providerId: string): boolean {
+        return BUILT_IN_PROVIDER_IDS.includes(providerId) || !!this.getConfig(providerId);
+    }
+
+    /**
+     * Every provider, without API keys
+     */
+    public list(): LLMProviderInfo[] {
+        return [
+            {
+                id: OPENROUTER_PROVIDER_ID,
+                name: 'OpenRouter',
+                type: 'openrouter' as LLMProviderType,
+                baseUrl: OPENROUTER_URL,
+                hasApiKey: !!process.env.OPENROUTER_TOKEN,
+                timeoutMs: DEFAULT_TIMEOUT_MS,
+                builtIn: true
+            },
+            {
+                id: MOCK_PROVIDER_ID,
+                name: 'Mock (offline, for tests)',
+                type: 'mock' as LLMProviderType,
+                hasApiKey: false,
+                timeoutMs: DEFAULT_TIMEOUT_MS,
+                builtIn: true
+            },
+            ...configManager.getLLMProviders().map(config => ({
+                id: config.id,
+                name: config.name,
+                type: 'openai' as LLMProviderType,
+                baseUrl: config.baseUrl,
+                hasApiKey: !!config.apiKey,
+                timeoutMs: config.timeoutMs || DEFAULT_TIMEOUT_MS,
+                builtIn: false
+            }))
+        ];
+    }
+
+    private getConfig(providerId: string): LLMProviderConfig | undefined {
+        return configManager.getLLMProviders().find(config => config.id === providerId);
+    }
+}
+
+const llmProviders = new LLMProviderRegistry();
+
+export { llmProviders };
+export default LLMProviderRegistry;
@@ -0,0 +1,170 @@
+import crypto from 'crypto';
+import { isDeliveredCopy } from './db';
+import { normalizeContent } from './dedupLedger';
+import { metrics } from './metrics';
+import { normalizeTelegramId } from './routeEngine';
+
+export type LoopGuardPlatform = 'whatsapp' | 'telegram';
+
+// How an incoming message was recognized as one of ours
+export type LoopDropReason = 'message_id' | 'content_hash' | 'delivered_copy';
+
+const LOOP_DROPS_METRIC = 'loop_drops_total';
+metrics.describe(LOOP_DROPS_METRIC, 'Incoming messages dropped because the bridge itself sent them');
+
+/**
+ * Key of a WhatsApp message as both ends see it: whatsapp-web.js serializes IDs as
+ * `<fromMe>_<chat>_<key>[_<participant>]`, so the sender's and a reader's IDs only share the key
+ */
+function whatsappMessageKey(messageId: string): string {
+    const parts = messageId.split('_');
+    return parts.length >= 3 && (parts[0] === 'true' || parts[0] === 'false') ? parts[2] : messageId;
+}
+
+/**
+ * Key a sent message is stored under in its message mapping, and looked up by when it comes back
+ */
+export function deliveredMessageKey(platform: LoopGuardPlatform, messageId: string): string {
+    return platform === 'whatsapp' ? whatsappMessageKey(messageId) : messageId;
+}
+
+/**
+ * Keeps track of the messages this app sends, so a copy posted into a chat that is also a route source
+ * (TG → TG, WA → WA, or a WA ⇄ TG bridge) is never ingested and forwarded again.
+ * Sent messages are known by ID and by a hash of their text, which also catches echoes whose ID
+ * is not known yet or differs on the receiving side (e.g. album parts, edited IDs, other engines).
+ */
+class LoopGuard {
+    // Recently sent messages by chat + message key, with the time they were sent
+    private recent: Map<string, number> = new Map();
+    // Hashes of recently sent text by chat, with the time they were sent
+    private recentContent: Map<string, number> = new Map();
+    // Sends still waiting for their message ID, by chat
+    private pending: Map<string, Set<Promise<unknown>>> = new Map();
+    private readonly recentTtlMs = 10 * 60 * 1000;
+    // How long an incoming message waits for sends to the same chat to report their IDs
+    private readonly pendingWaitMs = 30 * 1000;
+    // Shorter texts (e.g. "ok") are too likely to be typed again by a person
+    private readonly minContentLength = 16;
+
+    /**
+     * Run a send and remember the message it creates
+     * @param text Text or caption being sent, as members of the chat will read it
+     * @returns The send's message ID
+     */
+    public async track<T extends string | number | undefined>(
+        platform: LoopGuardPlatform,
+        chatId: string,
+        send: () => Promise<T>,
+        text?: string
+    ): Promise<T> {
+        const chatKey = this.chatKey(platform, chatId);
+        const contentKey = text ? this.contentKey(chatKey, text) : null;
+        if (contentKey) {
+            // Before the send, since the copy can come back before the send resolves
+            this.recentContent.set(contentKey, Date.now());
+        }
+
+        const promise = send();
+        const pending = this.pending.get(chatKey) || new Set<Promise<unknown>>();
+        pending.add(promise);
+        this.pending.set(chatKey, pending);
+
+        try {
+            const messageId = await promise;
+            if (messageId !== undefined) {
+                this.recent.set(`${chatKey}:${deliveredMessageKey(platform, String(messageId))}`, Date.now());
+            }
+            return messageId;
+        } catch (error) {
+            if (contentKey) this.recentContent.delete(contentKey);
+            throw error;
+        } finally {
+            pending.delete(promise);
+            if (pending.size === 0) this.pending.delete(chatKey);
+        }
+    }
+
+    /**
+     * Check whether an incoming message is one we sent; drops are counted in the loop_drops_total metric.
+     * Waits for in-flight sends to the chat first, since our own copy can arrive before the send reports its ID.
+     */
+    public async isOwnMessage(platform: LoopGuardPlatform, chatId: string, messageId: string, text?: string): Promise<boolean> {
+        const reason = await this.getDropReason(platform, chatId, messageId, text);
+        if (reason) {
+            metrics.increment(LOOP_DROPS_METRIC, { platform, reason });
+            console.log(`[LoopGuard] Dropping our own ${platform} message ${messageId} in ${chatId} (${reason})`);
+        }
+        return reason !== null;
+    }
+
+    private async getDropReason(platform: LoopGuardPlatform, chatId: string, messageId: string, text?: string): Promise<LoopDropReason | null> {
+        const chatKey = this.chatKey(platform, chatId);
+        const key = deliveredMessageKey(platform, messageId);
+
+        this.prune();
+        const contentKey = text ? this.contentKey(chatKey, text) : null;
+        if (contentKey && this.recentContent.has(contentKey)) {
+            return 'content_hash';
+        }
+
+        await this.waitForPending(chatKey);
+        if (this.recent.has(`${chatKey}:${key}`)) {
+            return 'message_id';
+        }
+
+        // Sent before a restart, or by another instance: look for a delivered copy in the message mappings
+        const delivered = await isDeliveredCopy(platform, platform === 'telegram' ? this.telegramChatIds(chatId) : [chatId], key);
+        return delivered ? 'delivered_copy' : null;
+    }
+
+    private chatKey(platform: LoopGuardPlatform, chatId: string): string {
+        return `${platform}:${platform === 'telegram' ? normalizeTelegramId(chatId) : chatId}`;
+    }
+
+    /**
+     * Hash of a text as it reads in the chat: markup, links, entities and spacing are ignored,
+     * since they change between what we send and what a reader receives
+     */
+    private contentKey(chatKey: string, text: string): string | null {
+        const decoded = text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&amp;/g, '&');
+        const normalized = normalizeContent(decoded);
+        if (normalized.length < this.minContentLength) return null;
+        return `${chatKey}:${crypto.createHash('sha256').update(normalized).digest('hex')}`;
+    }
+
+    /**
+     * Forms a Telegram chat ID may have been stored in
+     */
+    private telegramChatIds(chatId: string): string[] {
+        const id = normalizeTelegramId(chatId);
+        return [id, `-100${id}`, `-${id}`];
+    }
+
+    private async waitForPending(chatKey: string): Promise<void> {
+        const pending = this.pending.get(chatKey);
+        if (!pending || pending.size === 0) return;
+
+        let timer: NodeJS.Timeout | null = null;
+        await Promise.race([
+            Promise.allSettled(Array.from(pending)),
+            new Promise(resolve => { timer = setTimeout(resolve, this.pendingWaitMs); })
+        ]);
+        if (timer) clearTimeout(timer);
+    }
+
+    private prune(): void {
+        const cutoff = Date.now() - this.recentTtlMs;
+        for (const map of [this.recent, this.recentContent]) {
+            for (const [key, sentAt] of map) {
+                if (sentAt >= cutoff) break;
+                map.delete(key);
+            }
+        }
+    }
+}
+
+const loopGuard = new LoopGuard();
+
+export { loopGuard };
+export default LoopGuard;
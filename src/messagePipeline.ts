@@ -0,0 +1,153 @@
+import { ForwardHistory, HistoryDelivery, Route, RoutePlatform, RouteSource, RouteStages } from './db';
+import { RouteTarget } from './routeEngine';
+import { processRouteText, RouteAIResult } from './aiActions';
+import { TemplateContext, renderTemplate, resolveTemplate } from './messageTemplate';
+import { startDelivery, finishDelivery, recordSkippedDelivery, recordForwardHistory } from './forwardHistory';
+import { TranscriptionAudio, transcribeAudio } from './transcription';
+
+/**
+ * A source message as the pipeline sees it, whatever platform it came from
+ */
+export interface PipelineMessage {
+    platform: RoutePlatform;
+    id: string;
+    text: string;
+    audio?: TranscriptionAudio; // Audio or voice note to transcribe
+    buildContext(translated: string): TemplateContext; // Template placeholders (see messageTemplate.ts)
+}
+
+/**
+ * Thrown by runPipeline once every target was tried, when some of them failed
+ */
+export class DeliveryFailedError extends Error {
+    public readonly failedTargets: RouteTarget[];
+    public readonly errors: unknown[];
+
+    constructor(failedTargets: RouteTarget[], errors: unknown[]) {
+        const reason = errors[0] instanceof Error ? errors[0].message : String(errors[0]);
+        super(`Delivery to ${failedTargets.length} target(s) failed: ${reason}`);
+        this.name = 'DeliveryFailedError';
+        this.failedTargets = failedTargets;
+        this.errors = errors;
+    }
+}
+
+/**
+ * The targets a failed forwarding did not reach: those named by a DeliveryFailedError, else all of them
+ */
+export function failedTargets(error: unknown, targets: RouteTarget[]): RouteTarget[] {
+    return error instanceof DeliveryFailedError ? error.failedTargets : targets;
+}
+
+/**
+ * Send rendered text (and the message's media) to one target, filling in the delivery record
+ */
+export type DeliverStage = (target: RouteTarget, text: string, delivery: HistoryDelivery) => Promise<void>;
+
+/**
+ * What the pipeline calls besides the stages: the transcriber and the history store
+ */
+export interface PipelineServices {
+    transcribe(audio: TranscriptionAudio): Promise<string | null>;
+    recordHistory(history: ForwardHistory): Promise<void>;
+}
+
+const defaultServices: PipelineServices = {
+    transcribe: transcribeAudio,
+    recordHistory: recordForwardHistory
+};
+
+export function isStageEnabled(route: Route | undefined, stage: keyof RouteStages): boolean {
+    return route?.stages?.[stage] !== false;
+}
+
+/**
+ * Text the transform stage starts from: the message text, followed by the transcript of its audio
+ */
+export function withTranscript(text: string, transcript: string | null): string {
+    return [text, transcript].filter(part => part).join('\n\n');
+}
+
+/**
+ * Transform stage: the route's AI actions and translation
+ * @param results Results shared by the routes a message is processed for (see processRouteText)
+ */
+export async function transformStage(
+    text: string,
+    source: Pick<RouteSource, 'platform' | 'id'>,
+    route: Route | undefined,
+    results: Map<string, RouteAIResult>,
+    history?: ForwardHistory
+): Promise<RouteAIResult> {
+    if (!isStageEnabled(route, 'ai')) return { text };
+    return processRouteText(text, source, route, results, history);
+}
+
+/**
+ * Render stage: the route's template, or the transformed text alone when the route turns templates off
+ */
+export function renderStage(platform: RoutePlatform, route: Route | undefined, context: TemplateContext): string {
+    if (!isStageEnabled(route, 'template')) return context.translated;
+    return renderTemplate(resolveTemplate(platform, route), context);
+}
+
+/**
+ * Run a message through the transform, render and deliver stages for each target, then record its history.
+ * Audio is transcribed once, before the first route that wants the transcript, which is then translated
+ * and rendered with the text (and available as {transcript}).
+ * The filter stage runs earlier, when the targets are resolved (RouteEngine.resolveTargets), so media is
+ * only downloaded for messages some route takes. A failed delivery is recorded and the remaining targets are
+ * still delivered; once every target has been tried, a DeliveryFailedError names the targets that failed.
+ */
+export async function runPipeline(
+    message: PipelineMessage,
+    targets: RouteTarget[],
+    history: ForwardHistory,
+    deliver: DeliverStage,
+    services: PipelineServices = defaultServices
+): Promise<void> {
+    const failedTargets: RouteTarget[] = [];
+    const errors: unknown[] = [];
+    try {
+        const results = new Map<string, RouteAIResult>();
+        const transcribedResults = new Map<string, RouteAIResult>();
+        let transcript: string | null | undefined; // Undefined until transcribed
+
+        for (const target of targets) {
+            const transcribe = !!message.audio && isStageEnabled(target.route, 'transcription');
+            if (transcribe && transcript === undefined) {
+                transcript = await services.transcribe(message.audio as TranscriptionAudio);
+                if (transcript) history.transcript = transcript;
+            }
+            const transcribed = transcribe ? transcript || null : null;
+
+            const transformed = await transformStage(
+                withTranscript(message.text, transcribed),
+                target.route.source,
+                target.route,
+                transcribed ? transcribedResults : results,
+                history
+            );
+            if (transformed.skipReason) {
+                recordSkippedDelivery(history, target, transformed.skipReason);
+                console.log(`[Pipeline] Route ${target.route.name} skipped ${message.platform} message ${message.id}: ${transformed.skipReason}`);
+                continue;
+            }
+
+            const text = renderStage(message.platform, target.route, { ...message.buildContext(transformed.text), transcript: transcribed || '' });
+            const delivery = startDelivery(history, target, text);
+            try {
+                await deliver(target, text, delivery);
+                finishDelivery(delivery);
+            } catch (error) {
+                finishDelivery(delivery, error);
+                console.error(`[Pipeline] Route ${target.route.name} failed to deliver ${message.platform} message ${message.id} to ${target.destination.platform} ${target.destination.id}:`, error);
+                failedTargets.push(target);
+                errors.push(error);
+            }
+        }
+    } finally {
+        await services.recordHistory(history);
+    }
+    if (failedTargets.length > 0) throw new DeliveryFailedError(failedTargets, errors);
+}
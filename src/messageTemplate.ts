@@ -0,0 +1,161 @@
+import { Route, RoutePlatform } from './db';
+import { configManager } from './configManager';
+import { TelegramMessage } from './telegramInstance';
+import { TwitterMessage } from './twitterInstance';
+import { WhatsAppMessage } from './whatsappEngine';
+import { normalizeTelegramId } from './routeEngine';
+import { detectLanguage } from './languageDetection';
+
+export type TemplateContext = Record<string, string>;
+
+// Built-in templates, matching the formats used before templates were configurable
+export const DEFAULT_TEMPLATES: Record<RoutePlatform, string> = {
+    telegram: '📢 *{source.title}*\n{?translated}\n{translated}{/translated}',
+    twitter: '🐦 *@{source.username}* ({source.title})\n{?forwardedFrom}🔄 Retweeted from: {forwardedFrom}\n{/forwardedFrom}{?translated}\n{translated}{/translated}',
+    whatsapp: '💬 *{source.title}*\n{?sender}👤 {sender}\n{/sender}{?translated}\n{translated}{/translated}'
+};
+
+export const TEMPLATE_PLACEHOLDERS = [
+    'source.title', 'source.username', 'source.id', 'sender', 'text', 'translated',
+    'original_link', 'date', 'hashtags', 'forwardedFrom', 'mediaType', 'language', 'language.name', 'transcript'
+];
+
+/**
+ * Render a template.
+ * - {name} is replaced by the context value (unknown placeholders are kept as-is)
+ * - {?name}...{/name} is only rendered when name is non-empty
+ * - {!name}...{/name} is only rendered when name is empty
+ */
+export function renderTemplate(template: string, context: TemplateContext): string {
+    let output = template;
+
+    // Outer sections are resolved first, so repeat until nested sections are gone
+    for (let i = 0; i < 10; i++) {
+        const next = output.replace(/\{([?!])([\w.]+)\}([\s\S]*?)\{\/\2\}/g, (_, mode: string, name: string, body: string) => {
+            const present = !!context[name]?.trim();
+            return (mode === '?') === present ? body : '';
+        });
+        if (next === output) break;
+        output = next;
+    }
+
+    output = output.replace(/\{([\w.]+)\}/g, (match, name: string) => (name in context ? context[name] : match));
+    return output.replace(/\n{3,}/g, '\n\n').trim();
+}
+
+// Telegram's length limits, in UTF-16 code units of the text without markup
+export const TELEGRAM_MESSAGE_LIMIT = 4096;
+export const TELEGRAM_CAPTION_LIMIT = 1024;
+
+/**
+ * Split rendered text into messages within Telegram's length limit, at line breaks or spaces where possible
+ */
+export function splitTelegramText(text: string, limit: number = TELEGRAM_MESSAGE_LIMIT): string[] {
+    const chunks: string[] = [];
+    let rest = text;
+    while (rest.length > limit) {
+        let cut = rest.lastIndexOf('\n', limit);
+        if (cut < limit / 2) cut = rest.lastIndexOf(' ', limit);
+        if (cut < limit / 2) {
+            // No good break, don't split a surrogate pair
+            cut = /[\uD800-\uDBFF]/.test(rest.charAt(limit - 1)) ? limit - 1 : limit;
+        }
+        chunks.push(rest.slice(0, cut).trimEnd());
+        rest = rest.slice(cut).trimStart();
+    }
+    chunks.push(rest);
+    return chunks;
+}
+
+/**
+ * Convert rendered text to Telegram HTML. Templates use WhatsApp markup (*bold*, _italic_, ~strike~, ```code```);
+ * entities already escaped by the source (e.g. &amp; in tweets) are kept as they are.
+ */
+export function toTelegramHtml(text: string): string {
+    return text
+        .replace(/&(?!(amp|lt|gt|quot|#\d+);)/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/```([\s\S]+?)```/g, '<pre>$1</pre>')
+        .replace(/(^|[\s(])\*([^*\n]+)\*(?=$|[\s).,!?:;])/g, '$1<b>$2</b>')
+        .replace(/(^|[\s(])_([^_\n]+)_(?=$|[\s).,!?:;])/g, '$1<i>$2</i>')
+        .replace(/(^|[\s(])~([^~\n]+)~(?=$|[\s).,!?:;])/g, '$1<s>$2</s>');
+}
+
+/**
+ * Pick the template for a route: route override, then the global default for the source platform
+ */
+export function resolveTemplate(platform: RoutePlatform, route?: Route): string {
+    return route?.template || configManager.getMessageTemplate(platform) || DEFAULT_TEMPLATES[platform];
+}
+
+function formatDate(date: Date): string {
+    return isNaN(date.getTime()) ? '' : date.toLocaleString('en-GB', { dateStyle: 'short', timeStyle: 'short' });
+}
+
+/**
+ * Detected language of the original text, as placeholders (empty when it can't be told)
+ */
+function languageContext(text: string): TemplateContext {
+    const detected = detectLanguage(text);
+    return { language: detected?.code || '', 'language.name': detected?.name || '' };
+}
+
+function extractHashtags(text: string): string[] {
+    return Array.from(new Set(text.match(/#[\p{L}\p{N}_]+/gu) || []));
+}
+
+export function buildTelegramContext(message: TelegramMessage, translated: string): TemplateContext {
+    return {
+        'source.title': message.channelTitle,
+        'source.username': '',
+        'source.id': message.channelId,
+        sender: message.senderName || '',
+        text: message.text,
+        translated,
+        original_link: `https://t.me/c/${normalizeTelegramId(message.channelId)}/${message.id}`,
+        date: formatDate(message.date),
+        hashtags: extractHashtags(message.text).join(' '),
+        forwardedFrom: message.forwardedFrom || '',
+        mediaType: message.mediaType || '',
+        transcript: '', // Filled in by the pipeline when the audio is transcribed
+        ...languageContext(message.text)
+    };
+}
+
+export function buildTwitterContext(message: TwitterMessage, translated: string): TemplateContext {
+    const hashtags = message.hashtags?.length ? message.hashtags.map(tag => `#${tag}`) : extractHashtags(message.text);
+    return {
+        'source.title': message.authorName,
+        'source.username': message.authorUsername,
+        'source.id': message.authorId,
+        sender: message.authorName,
+        text: message.text,
+        translated,
+        original_link: `https://x.com/${message.authorUsername}/status/${message.id}`,
+        date: formatDate(message.date),
+        hashtags: hashtags.join(' '),
+        forwardedFrom: message.isRetweet ? message.retweetedFrom || '' : '',
+        mediaType: message.mediaType || '',
+        transcript: '', // Filled in by the pipeline when the audio is transcribed
+        ...languageContext(message.text)
+    };
+}
+
+export function buildWhatsAppContext(message: WhatsAppMessage, translated: string): TemplateContext {
+    return {
+        'source.title': message.groupName,
+        'source.username': '',
+        'source.id': message.groupId,
+        sender: message.senderName || '',
+        text: message.text,
+        translated,
+        original_link: '',
+        date: formatDate(message.date),
+        hashtags: extractHashtags(message.text).join(' '),
+        forwardedFrom: message.isForwarded ? 'forwarded' : '',
+        mediaType: message.mediaType || '',
+        transcript: '', // Filled in by the pipeline when the audio is transcribed
+        ...languageContext(message.text)
+    };
+}
@@ -0,0 +1,68 @@
+export type MetricLabels = Record<string, string>;
+
+export interface CounterSample {
+    name: string;
+    help: string;
+    labels: MetricLabels;
+    value: number;
+}
+
+/**
+ * In-process counters, exposed by /metrics as JSON and in the Prometheus text format.
+ * Values start at zero with every process start.
+ */
+class Metrics {
+    private counters: Map<string, CounterSample> = new Map();
+    private help: Map<string, string> = new Map();
+    private readonly startedAt: Date = new Date();
+
+    /**
+     * Describe a counter; shown as HELP in the Prometheus output
+     */
+    public describe(name: string, help: string): void {
+        this.help.set(name, help);
+    }
+
+    public increment(name: string, labels: MetricLabels = {}, value: number = 1): void {
+        const key = `${name}${JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)))}`;
+        const sample = this.counters.get(key);
+        if (sample) {
+            sample.value += value;
+            return;
+        }
+        this.counters.set(key, { name, help: this.help.get(name) || '', labels: { ...labels }, value });
+    }
+
+    public getCounters(): CounterSample[] {
+        return Array.from(this.counters.values()).map(sample => ({ ...sample, help: this.help.get(sample.name) || sample.help }));
+    }
+
+    public getStartedAt(): Date {
+        return this.startedAt;
+    }
+
+    public toPrometheus(): string {
+        const lines: string[] = [];
+        const byName = new Map<string, CounterSample[]>();
+        for (const sample of this.getCounters()) {
+            byName.set(sample.name, [...(byName.get(sample.name) || []), sample]);
+        }
+
+        for (const [name, samples] of byName) {
+            if (samples[0].help) lines.push(`# HELP ${name} ${samples[0].help}`);
+            lines.push(`# TYPE ${name} counter`);
+            for (const sample of samples) {
+                const labels = Object.entries(sample.labels)
+                    .map(([key, value]) => `${key}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`)
+                    .join(',');
+                lines.push(`${name}${labels ? `{${labels}}` : ''} ${sample.value}`);
+            }
+        }
+        return lines.join('\n') + '\n';
+    }
+}
+
+const metrics = new Metrics();
+
+export { metrics };
+export default Metrics;
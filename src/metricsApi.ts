@@ -0,0 +1,17 @@
+import express from 'express';
+import { metrics } from './metrics';
+
+const router = express.Router();
+
+/**
+ * Get all counters. ?format=prometheus returns the Prometheus text format instead of JSON.
+ */
+router.get('/', (req, res) => {
+    if (req.query.format === 'prometheus') {
+        res.type('text/plain; version=0.0.4').send(metrics.toPrometheus());
+        return;
+    }
+    res.json({ success: true, startedAt: metrics.getStartedAt(), counters: metrics.getCounters() });
+});
+
+export default router;
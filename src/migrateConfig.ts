@@ -0,0 +1,189 @@
+import { configManager, AppConfig } from './configManager';
+import {
+    Route,
+    saveRoute,
+    updateRoute,
+    getAllRoutes,
+    deleteRoute,
+    getAllListeningConfigs,
+    getAllWaToTgConfigs
+} from './db';
+import { routeEngine, normalizeTelegramId } from './routeEngine';
+
+type LegacyRoute = Pick<Route, 'name' | 'source' | 'destinations' | 'isActive' | 'filters'> & { legacyKey: string };
+
+// Twitter accounts used to be searched without retweets and ads
+const LEGACY_TWITTER_FILTERS: Route['filters'] = { forwarded: 'never', excludeKeywords: ['#ad'] };
+
+// Config fields that used to hold routing information
+const LEGACY_ROUTING_FIELDS: (keyof AppConfig)[] = ['whatsappGroupId', 'telegramChannelIds', 'telegramChannels', 'twitterAccounts'];
+
+/**
+ * Derive routes from the pre-route configs:
+ * - main config Telegram channels → channel WhatsApp groups (or the default group)
+ * - other ListeningConfig documents → their WhatsApp group
+ * - Twitter accounts → account WhatsApp groups (or the default group) and account Telegram chats
+ * - WaToTgConfig documents → one route per WhatsApp group to the Telegram chat
+ */
+async function collectLegacyRoutes(): Promise<LegacyRoute[]> {
+    // The defaults stand in for the config while the database is down; syncing from them would delete routes
+    if (!configManager.isLoadedFromDatabase()) {
+        throw new Error('Config was not loaded from the database; skipping legacy route sync');
+    }
+    const config = await configManager.getConfig();
+    const defaultGroups = config.whatsappGroupId ? [config.whatsappGroupId] : [];
+    const legacyRoutes: LegacyRoute[] = [];
+
+    for (const channelId of Array.from(new Set(config.telegramChannelIds.map(normalizeTelegramId)))) {
+        const channel = config.telegramChannels.find(ch => normalizeTelegramId(ch.id) === channelId);
+        const groupIds = channel?.whatsappGroupIds?.length ? channel.whatsappGroupIds : defaultGroups;
+        if (groupIds.length === 0) continue;
+
+        legacyRoutes.push({
+            legacyKey: `telegram:${channelId}`,
+            name: `Telegram ${channel?.title || channelId}`,
+            source: { platform: 'telegram', id: channelId },
+            destinations: groupIds.map(id => ({ platform: 'whatsapp', id })),
+            isActive: true
+        });
+    }
+
+    // The main config document lives in the same collection but has no id
+    const listeningConfigs = (await getAllListeningConfigs(true))
+        .filter(lc => lc.id && lc.whatsappGroupId && Array.isArray(lc.telegramChannelIds));
+    for (const listeningConfig of listeningConfigs) {
+        for (const channelId of listeningConfig.telegramChannelIds.map(normalizeTelegramId)) {
+            legacyRoutes.push({
+                legacyKey: `listening:${listeningConfig.id}:${channelId}`,
+                name: `Telegram ${channelId} (${listeningConfig.id})`,
+                source: { platform: 'telegram', id: channelId },
+                destinations: [{ platform: 'whatsapp', id: listeningConfig.whatsappGroupId }],
+                isActive: listeningConfig.isActive
+            });
+        }
+    }
+
+    for (const account of config.twitterAccounts) {
+        const groupIds = account.whatsappGroupIds?.length ? account.whatsappGroupIds : defaultGroups;
+        const chatIds = account.telegramChatIds || [];
+        if (groupIds.length === 0 && chatIds.length === 0) continue;
+
+        legacyRoutes.push({
+            legacyKey: `twitter:${account.id}`,
+            name: `Twitter @${account.username}`,
+            source: { platform: 'twitter', id: account.id },
+            destinations: [
+                ...groupIds.map(id => ({ platform: 'whatsapp' as const, id })),
+                ...chatIds.map(id => ({ platform: 'telegram' as const, id }))
+            ],
+            filters: LEGACY_TWITTER_FILTERS,
+            isActive: true
+        });
+    }
+
+    for (const waToTgConfig of await getAllWaToTgConfigs(true)) {
+        for (const groupId of waToTgConfig.whatsappGroupIds) {
+            legacyRoutes.push({
+                legacyKey: `wa-to-tg:${waToTgConfig.id}:${groupId}`,
+                name: `WhatsApp ${groupId} → Telegram ${waToTgConfig.telegramChatId}`,
+                source: { platform: 'whatsapp', id: groupId },
+                destinations: [{ platform: 'telegram', id: waToTgConfig.telegramChatId }],
+                isActive: waToTgConfig.isActive
+            });
+        }
+    }
+
+    return legacyRoutes;
+}
+
+async function runMigration(): Promise<{ created: number; updated: number; removed: number }> {
+    // Reads throw on database errors, so an outage can't look like removed legacy settings
+    const legacyRoutes = await collectLegacyRoutes();
+    const routes = await getAllRoutes(true);
+    const existing = new Map(routes.filter(r => r.legacyKey).map(r => [r.legacyKey as string, r]));
+    let nextOrder = routes.reduce((max, r) => Math.max(max, r.order ?? 0), 0) + 1;
+    const result = { created: 0, updated: 0, removed: 0 };
+
+    for (const legacyRoute of legacyRoutes) {
+        const route = existing.get(legacyRoute.legacyKey);
+        existing.delete(legacyRoute.legacyKey);
+
+        if (!route) {
+            // Name, conditions and order are left alone once the route exists
+            const saved = await saveRoute({ ...legacyRoute, conditions: [], order: nextOrder++ });
+            if (saved) result.created++;
+            continue;
+        }
+
+        // Filters are only filled in on routes created before they were derived; later edits are kept
+        const addFilters = !route.filters && !!legacyRoute.filters;
+        const changed =
+            addFilters ||
+            JSON.stringify(route.source) !== JSON.stringify(legacyRoute.source) ||
+            JSON.stringify(route.destinations) !== JSON.stringify(legacyRoute.destinations) ||
+            route.isActive !== legacyRoute.isActive;
+        if (changed) {
+            const saved = await updateRoute(route.id, {
+                source: legacyRoute.source,
+                destinations: legacyRoute.destinations,
+                isActive: legacyRoute.isActive,
+                ...(addFilters ? { filters: legacyRoute.filters } : {})
+            });
+            if (saved) result.updated++;
+        }
+    }
+
+    // Legacy settings that no longer exist
+    for (const route of existing.values()) {
+        if (await deleteRoute(route.id)) result.removed++;
+    }
+
+    await routeEngine.reload();
+    return result;
+}
+
+let migrationChain: Promise<unknown> = Promise.resolve();
+
+/**
+ * Create or update routes from the pre-route configs. Idempotent; runs are serialized.
+ */
+export function migrateLegacyRoutes(): Promise<{ created: number; updated: number; removed: number }> {
+    const run = migrationChain.then(runMigration);
+    migrationChain = run.catch(() => undefined);
+    return run.then(result => {
+        if (result.created || result.updated || result.removed) {
+            console.log(`[Migration] Legacy routes: ${result.created} created, ${result.updated} updated, ${result.removed} removed`);
+        }
+        return result;
+    });
+}
+
+/**
+ * Migrate on startup and keep legacy-derived routes in sync with later config changes
+ */
+export async function startLegacyRouteSync(): Promise<void> {
+    configManager.onChange((changedKeys) => {
+        if (changedKeys.some(key => LEGACY_ROUTING_FIELDS.includes(key))) {
+            migrateLegacyRoutes().catch(error => console.error('[Migration] Error syncing legacy routes:', error));
+        }
+    });
+
+    try {
+        await migrateLegacyRoutes();
+    } catch (error) {
+        console.error('[Migration] Error migrating legacy routes:', error);
+        await routeEngine.reload();
+    }
+}
+
+if (require.main === module) {
+    migrateLegacyRoutes()
+        .then(result => {
+            console.log('[Migration] Done:', result);
+            process.exit(0);
+        })
+        .catch(error => {
+            console.error('[Migration] Failed:', error);
+            process.exit(1);
+        });
+}
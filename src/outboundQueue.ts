@@ -0,0 +1,329 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    OutboundQueueItem,
+    saveOutboundQueueItem,
+    deleteOutboundQueueItem,
+    getOutboundQueueItems
+} from './db';
+import { configManager } from './configManager';
+import { getBackoffDelay, RetryExhaustedError } from './retryPolicy';
+import { storeDeadLetterMedia, recordDeadLetter } from './deadLetters';
+import { DEFAULT_WHATSAPP_SESSION_ID } from './whatsappEngine';
+
+export type OutboundSendOptions = OutboundQueueItem['options'];
+
+/**
+ * Move a queue item (and its media) to the dead letters
+ */
+async function deadLetterItem(item: OutboundQueueItem, sessionId: string): Promise<void> {
+    const hasFile = !!item.mediaPath && !item.mediaPath.startsWith('data:');
+    await recordDeadLetter({
+        id: item.id,
+        platform: 'whatsapp',
+        destinationId: item.groupId,
+        sessionId,
+        content: item.content,
+        mediaPath: hasFile ? storeDeadLetterMedia(item.id, item.mediaPath, item.mediaPath) : item.mediaPath || undefined,
+        options: item.options,
+        attempts: item.attempts || 0,
+        lastError: item.lastError || '',
+        createdAt: item.createdAt,
+        failedAt: new Date()
+    });
+}
+
+/**
+ * Dead-letter the items a removed WhatsApp session left in the queue, which no queue would replay
+ * @returns How many items were moved
+ */
+export async function deadLetterSessionItems(sessionId: string): Promise<number> {
+    const items = (await getOutboundQueueItems())
+        .filter(item => (item.sessionId || DEFAULT_WHATSAPP_SESSION_ID) === sessionId);
+
+    for (const item of items) {
+        item.lastError = item.lastError || `WhatsApp session ${sessionId} was removed`;
+        await deadLetterItem(item, sessionId);
+        await deleteOutboundQueueItem(item.id);
+    }
+    return items.length;
+}
+
+interface QueueEntry {
+    item: OutboundQueueItem;
+    // Resolves once the item has been written to the database
+    persisted: Promise<boolean>;
+    // Only set for items enqueued by this process (replayed items have no caller waiting)
+    resolve?: (sentMessageId: string | undefined) => void;
+    reject?: (reason?: any) => void;
+}
+
+/**
+ * Outbound WhatsApp delivery queue persisted in MongoDB.
+ * Items (and a copy of their media on disk) are kept until delivery succeeds,
+ * pending items are replayed on startup, and a full queue makes callers wait
+ * instead of dropping messages. Failed sends are retried with backoff according
+ * to the group's retry policy and dead-lettered once it is exhausted.
+ */
+export class OutboundQueue {
+    private entries: QueueEntry[] = [];
+    private isProcessing: boolean = false;
+    private processingDelay: number = 1000; // 1 second delay between messages
+    private maxQueueSize: number = 100; // Callers wait for space above this size
+    private isLoaded: boolean = false;
+    private isStopped: boolean = false;
+    private readonly timer: ReturnType<typeof setInterval>;
+    private readonly mediaDir: string;
+
+    constructor(
+        private readonly label: string,
+        // Each WhatsApp session replays only its own pending items
+        private readonly sessionId: string,
+        // Resolves with the ID of the sent WhatsApp message, when the engine reports one
+        private readonly sender: (item: OutboundQueueItem) => Promise<string | void>,
+        private readonly canProcess: () => boolean
+    ) {
+        this.mediaDir = process.env.OUTBOUND_QUEUE_MEDIA_PATH || path.join(process.cwd(), 'queue_media');
+        void this.load();
+        this.timer = setInterval(() => {
+            void this.process();
+        }, 100); // Check queue every 100ms
+    }
+
+    /**
+     * Replay items that were still pending when the process last stopped
+     */
+    private async load(): Promise<void> {
+        try {
+            const items = await getOutboundQueueItems();
+            const known = new Set(this.entries.map(entry => entry.item.id));
+            const replayed = items
+                .filter(item => (item.sessionId || DEFAULT_WHATSAPP_SESSION_ID) === this.sessionId)
+                .filter(item => !known.has(item.id))
+                .map(item => ({ item, persisted: Promise.resolve(true) }));
+
+            this.entries = [...replayed, ...this.entries];
+            if (replayed.length > 0) {
+                console.log(`[${this.label}/Queue] Replaying ${replayed.length} pending message(s) from database`);
+            }
+        } catch (error) {
+            console.error(`[${this.label}/Queue] Error loading pending messages:`, error);
+        } finally {
+            this.isLoaded = true;
+        }
+    }
+
+    /**
+     * Add a message to the queue. Resolves with the sent message ID once it has been delivered.
+     */
+    public async enqueue(
+        groupId: string,
+        mediaPath: string,
+        content: string,
+        options?: OutboundSendOptions
+    ): Promise<string | undefined> {
+        await this.waitForCapacity();
+        if (this.isStopped) {
+            throw new Error(`[${this.label}/Queue] Queue is stopped`);
+        }
+
+        const id = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+        const item: OutboundQueueItem = {
+            id,
+            sessionId: this.sessionId,
+            groupId,
+            mediaPath: this.keepMedia(id, mediaPath),
+            content,
+            options,
+            createdAt: new Date()
+        };
+
+        return new Promise((resolve, reject) => {
+            const persisted = saveOutboundQueueItem(item).then((saved) => {
+                if (!saved) {
+                    console.warn(`[${this.label}/Queue] Message ${id} could not be persisted, delivering from memory only`);
+                }
+                return saved;
+            });
+
+            this.entries.push({ item, persisted, resolve, reject });
+            console.log(`[${this.label}/Queue] Added message ${id} to queue. Queue size: ${this.entries.length}`);
+        });
+    }
+
+    /**
+     * Wait until the queue has room, so a burst slows callers down instead of losing messages
+     */
+    private async waitForCapacity(): Promise<void> {
+        let logged = false;
+        while (this.entries.length >= this.maxQueueSize && !this.isStopped) {
+            if (!logged) {
+                console.warn(`[${this.label}/Queue] Queue size limit (${this.maxQueueSize}) reached, waiting for space...`);
+                logged = true;
+            }
+            await new Promise(resolve => setTimeout(resolve, 500));
+        }
+    }
+
+    /**
+     * Copy media into the queue directory so it survives until delivery,
+     * independently of the caller's temporary file
+     */
+    private keepMedia(id: string, mediaPath: string): string {
+        if (!mediaPath || mediaPath.startsWith('data:')) {
+            return mediaPath;
+        }
+
+        if (!fs.existsSync(this.mediaDir)) {
+            fs.mkdirSync(this.mediaDir, { recursive: true });
+        }
+
+        const queuedPath = path.join(this.mediaDir, `${id}_${path.basename(mediaPath)}`);
+        fs.copyFileSync(mediaPath, queuedPath);
+        return queuedPath;
+    }
+
+    private removeMedia(item: OutboundQueueItem): void {
+        if (item.mediaPath && !item.mediaPath.startsWith('data:') && fs.existsSync(item.mediaPath)) {
+            try { fs.unlinkSync(item.mediaPath); } catch (_) {}
+        }
+    }
+
+    /**
+     * Process the next queued message that is due
+     */
+    private async process(): Promise<void> {
+        if (this.isProcessing || !this.isLoaded || this.entries.length === 0) {
+            return;
+        }
+
+        if (!this.canProcess()) {
+            return;
+        }
+
+        const now = Date.now();
+        const entry = this.entries.find(e => !e.item.nextAttemptAt || new Date(e.item.nextAttemptAt).getTime() <= now);
+        if (!entry) {
+            return;
+        }
+
+        this.isProcessing = true;
+
+        try {
+            await entry.persisted;
+
+            console.log(`[${this.label}/Queue] Processing message ${entry.item.id} for group ${entry.item.groupId}`);
+
+            try {
+                const sentMessageId = await this.sender(entry.item);
+                await this.complete(entry);
+                entry.resolve?.(sentMessageId || undefined);
+                console.log(`[${this.label}/Queue] Message ${entry.item.id} sent successfully`);
+            } catch (error) {
+                console.error(`[${this.label}/Queue] Failed to send message ${entry.item.id}:`, error);
+                await this.handleFailure(entry, error);
+            }
+
+            // Wait before processing next message
+            await new Promise(resolve => setTimeout(resolve, this.processingDelay));
+        } catch (error) {
+            console.error(`[${this.label}/Queue] Error processing queue:`, error);
+        } finally {
+            this.isProcessing = false;
+        }
+    }
+
+    /**
+     * Schedule a retry with backoff, or dead-letter the item once its retry policy is exhausted
+     */
+    private async handleFailure(entry: QueueEntry, error: unknown): Promise<void> {
+        const item = entry.item;
+        const policy = configManager.getRetryPolicy('whatsapp', item.groupId);
+        item.attempts = (item.attempts || 0) + 1;
+        item.lastError = error instanceof Error ? error.message : String(error);
+
+        if (item.attempts < policy.maxAttempts) {
+            const delay = getBackoffDelay(item.attempts, policy);
+            item.nextAttemptAt = new Date(Date.now() + delay);
+            console.warn(`[${this.label}/Queue] Retrying message ${item.id} in ${Math.round(delay / 1000)}s (attempt ${item.attempts}/${policy.maxAttempts})`);
+            entry.persisted = saveOutboundQueueItem(item);
+            return;
+        }
+
+        await deadLetterItem(item, this.sessionId);
+
+        // Media now belongs to the dead letter, only drop the queue entry
+        this.entries = this.entries.filter(e => e !== entry);
+        await this.deleteItem(item.id);
+        entry.reject?.(new RetryExhaustedError(`[${this.label}/Queue] Message ${item.id}`, item.attempts, error));
+    }
+
+    /**
+     * Drop a finished item from memory, the database and the media directory.
+     * Awaited while processing, so stop() returns only once the row is gone and the queue that
+     * takes over can't replay the item.
+     */
+    private async complete(entry: QueueEntry): Promise<void> {
+        this.entries = this.entries.filter(e => e !== entry);
+        this.removeMedia(entry.item);
+        await this.deleteItem(entry.item.id);
+    }
+
+    private async deleteItem(id: string): Promise<void> {
+        if (!(await deleteOutboundQueueItem(id))) {
+            console.warn(`[${this.label}/Queue] Failed to delete message ${id} from the database, it may be sent again on replay`);
+        }
+    }
+
+    /**
+     * Stop processing so another queue can take over the pending items, which stay in the database.
+     * Callers still waiting for an item are rejected, since the queue that replays it won't report back to them.
+     */
+    public async stop(): Promise<void> {
+        this.isStopped = true;
+        clearInterval(this.timer);
+        while (this.isProcessing) {
+            await new Promise(resolve => setTimeout(resolve, 100));
+        }
+
+        const pending = this.entries;
+        this.entries = [];
+        const persisted = await Promise.all(pending.map(entry => entry.persisted));
+        const lost = persisted.filter(saved => !saved).length;
+        if (lost > 0) {
+            console.warn(`[${this.label}/Queue] ${lost} pending message(s) were never persisted and are dropped`);
+        }
+        pending.forEach((entry, index) => entry.reject?.(new Error(persisted[index]
+            ? `[${this.label}/Queue] Queue stopped, message ${entry.item.id} is left for replay`
+            : `[${this.label}/Queue] Queue stopped before message ${entry.item.id} was persisted`)));
+        console.log(`[${this.label}/Queue] Stopped with ${pending.length - lost} pending message(s) left for replay`);
+    }
+
+    /**
+     * Get queue status information
+     */
+    public getStatus(): {
+        queueSize: number;
+        isProcessing: boolean;
+        processingDelay: number;
+        maxQueueSize: number;
+    } {
+        return {
+            queueSize: this.entries.length,
+            isProcessing: this.isProcessing,
+            processingDelay: this.processingDelay,
+            maxQueueSize: this.maxQueueSize
+        };
+    }
+
+    /**
+     * Set queue processing delay
+     * @param delayMs Delay in milliseconds between messages
+     */
+    public setDelay(delayMs: number): void {
+        this.processingDelay = Math.max(100, delayMs); // Minimum 100ms delay
+        console.log(`[${this.label}/Queue] Processing delay set to ${this.processingDelay}ms`);
+    }
+}
+
+export default OutboundQueue;
@@ -0,0 +1,35 @@
+export interface RetryPolicy {
+    maxAttempts: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 5,
+    baseDelayMs: 5000,
+    maxDelayMs: 10 * 60 * 1000
+};
+
+/**
+ * Delay before the next attempt: exponential backoff with "equal jitter"
+ * (half of the exponential delay is fixed, the other half random).
+ * @param attempt Number of attempts already made (1 after the first failure)
+ */
+export function getBackoffDelay(attempt: number, policy: RetryPolicy): number {
+    const exp = Math.min(Math.max(attempt - 1, 0), 16);
+    const delay = Math.min(policy.baseDelayMs * Math.pow(2, exp), policy.maxDelayMs);
+    return Math.round(delay / 2 + Math.random() * (delay / 2));
+}
+
+export class RetryExhaustedError extends Error {
+    public readonly attempts: number;
+    public readonly lastError: unknown;
+
+    constructor(label: string, attempts: number, lastError: unknown) {
+        const reason = lastError instanceof Error ? lastError.message : String(lastError);
+        super(`${label} failed after ${attempts} attempt(s): ${reason}`);
+        this.name = 'RetryExhaustedError';
+        this.attempts = attempts;
+        this.lastError = lastError;
+    }
+}
@@ -0,0 +1,336 @@
+import { Route, RouteCondition, RouteDestination, RoutePlatform, getAllRoutes } from './db';
+import { DEFAULT_TELEGRAM_SESSION_ID, TelegramMessage } from './telegramInstance';
+import { TwitterMessage } from './twitterInstance';
+import { DEFAULT_WHATSAPP_SESSION_ID, WhatsAppMessage } from './whatsappEngine';
+import { evaluateFilters, FilterDecision } from './contentFilter';
+
+/**
+ * Platform-independent view of an incoming message, used to evaluate routes
+ */
+export interface RoutableMessage {
+    platform: RoutePlatform;
+    sourceId: string;
+    messageId: string;
+    text: string;
+    senderId?: string;
+    senderName?: string;
+    mediaType?: string;
+    hasMedia: boolean;
+    isForwarded: boolean;
+    sessionId?: string; // Session that received the message; only routes reading through it match
+}
+
+export function fromTelegramMessage(message: TelegramMessage): RoutableMessage {
+    return {
+        platform: 'telegram',
+        sourceId: normalizeTelegramId(message.channelId),
+        messageId: String(message.id),
+        text: message.text,
+        senderId: message.senderId,
+        senderName: message.senderName,
+        mediaType: message.mediaType,
+        hasMedia: message.hasMedia,
+        isForwarded: message.isForwarded,
+        sessionId: message.sessionId
+    };
+}
+
+export function fromTwitterMessage(message: TwitterMessage): RoutableMessage {
+    return {
+        platform: 'twitter',
+        sourceId: message.authorId,
+        messageId: message.id,
+        text: message.text,
+        senderId: message.authorId,
+        senderName: message.authorUsername,
+        mediaType: message.mediaType,
+        hasMedia: message.hasMedia,
+        isForwarded: message.isRetweet
+    };
+}
+
+export function fromWhatsAppMessage(message: WhatsAppMessage): RoutableMessage {
+    return {
+        platform: 'whatsapp',
+        sourceId: message.groupId,
+        messageId: message.id,
+        text: message.text,
+        senderId: message.senderId,
+        senderName: message.senderName,
+        mediaType: message.mediaType,
+        hasMedia: message.hasMedia,
+        isForwarded: message.isForwarded
+    };
+}
+
+/**
+ * Session that reads a route's source (the platform's default session when unset)
+ */
+function getSourceSessionId(route: Route): string {
+    if (route.source.sessionId) return route.source.sessionId;
+    return route.source.platform === 'telegram' ? DEFAULT_TELEGRAM_SESSION_ID : DEFAULT_WHATSAPP_SESSION_ID;
+}
+
+/**
+ * Telegram channel IDs are stored without the -100 / - prefix
+ */
+export function normalizeTelegramId(channelId: string): string {
+    return channelId.startsWith('-100') ? channelId.replace('-100', '') : channelId.replace('-', '');
+}
+
+/**
+ * Evaluate a single condition against a message
+ */
+function evaluateCondition(condition: RouteCondition, message: RoutableMessage): boolean {
+    const actual = message[condition.field];
+    let result: boolean;
+
+    switch (condition.operator) {
+        case 'exists':
+            result = typeof actual === 'boolean' ? actual : actual !== undefined && actual !== '';
+            break;
+        case 'equals':
+            result = String(actual ?? '').toLowerCase() === String(condition.value ?? '').toLowerCase();
+            break;
+        case 'contains':
+            result = String(actual ?? '').toLowerCase().includes(String(condition.value ?? '').toLowerCase());
+            break;
+        case 'regex':
+            try {
+                result = new RegExp(condition.value || '', 'i').test(String(actual ?? ''));
+            } catch {
+                console.warn(`[Routes] Invalid regex in route condition: ${condition.value}`);
+                result = false;
+            }
+            break;
+        default:
+            result = false;
+    }
+
+    return condition.negate ? !result : result;
+}
+
+/**
+ * Conditions are evaluated in order and stop at the first one that fails
+ */
+export function matchesConditions(route: Route, message: RoutableMessage): boolean {
+    for (const condition of route.conditions || []) {
+        if (!evaluateCondition(condition, message)) {
+            return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * Evaluate a route's conditions, then its content filters unless the route turns them off
+ */
+export function evaluateRoute(route: Route, message: RoutableMessage): FilterDecision {
+    if (!matchesConditions(route, message)) {
+        return { passed: false, reason: 'route conditions not met' };
+    }
+    if (route.stages?.filters === false) {
+        return { passed: true, reason: 'filters disabled' };
+    }
+    return evaluateFilters(route.filters, message);
+}
+
+/**
+ * Outcome of evaluating one route against one message, kept for debugging
+ */
+export interface RouteDecision {
+    at: Date;
+    platform: RoutePlatform;
+    sourceId: string;
+    messageId: string;
+    routeId: string;
+    routeName: string;
+    passed: boolean;
+    reason: string;
+}
+
+/**
+ * A destination together with the route that selected it
+ */
+export interface RouteTarget {
+    destination: RouteDestination;
+    route: Route;
+}
+
+/**
+ * Messages every active route of a source rejects (see RouteEngine.getSourceExclusions)
+ */
+export interface SourceExclusions {
+    forwarded: boolean; // Forwarded messages (retweets on Twitter)
+    keywords: string[]; // Exclude keywords
+}
+
+/**
+ * In-memory view of the routes collection, evaluated by all forwarding managers
+ */
+class RouteEngine {
+    private routes: Route[] = [];
+    private decisions: RouteDecision[] = [];
+    private readonly maxDecisions = 500;
+
+    /**
+     * Reload routes from the database
+     */
+    public async reload(): Promise<void> {
+        this.routes = await getAllRoutes();
+        console.log(`[Routes] Loaded ${this.routes.length} route(s)`);
+    }
+
+    public getRoutes(): Route[] {
+        return [...this.routes];
+    }
+
+    /**
+     * Active routes for the message's source, in route order
+     */
+    private getCandidates(message: RoutableMessage): Route[] {
+        return this.routes.filter(route =>
+            route.isActive &&
+            route.source.platform === message.platform &&
+            route.source.id === message.sourceId &&
+            (message.sessionId === undefined || getSourceSessionId(route) === message.sessionId)
+        );
+    }
+
+    /**
+     * Get the active routes whose conditions and filters pass for a message, in route order.
+     * Every decision is recorded.
+     */
+    public match(message: RoutableMessage): Route[] {
+        return this.getCandidates(message).filter(route => {
+            const decision = evaluateRoute(route, message);
+            this.recordDecision(message, route, decision);
+            return decision.passed;
+        });
+    }
+
+    /**
+     * Evaluate every candidate route without recording anything (for previews)
+     */
+    public explain(message: RoutableMessage): { route: Route; decision: FilterDecision }[] {
+        return this.getCandidates(message).map(route => ({ route, decision: evaluateRoute(route, message) }));
+    }
+
+    /**
+     * Check whether any route would take a message, before its media is downloaded.
+     * Only rejections are recorded here; accepted messages are recorded when they are routed.
+     */
+    public shouldIngest(message: RoutableMessage): boolean {
+        const results = this.explain(message);
+        if (results.some(result => result.decision.passed)) {
+            return true;
+        }
+
+        results.forEach(result => this.recordDecision(message, result.route, result.decision));
+        return false;
+    }
+
+    private recordDecision(message: RoutableMessage, route: Route, decision: FilterDecision): void {
+        if (!decision.passed) {
+            console.log(`[Routes] Message ${message.messageId} from ${message.platform}:${message.sourceId} filtered by route ${route.name}: ${decision.reason}`);
+        }
+
+        this.decisions.push({
+            at: new Date(),
+            platform: message.platform,
+            sourceId: message.sourceId,
+            messageId: message.messageId,
+            routeId: route.id,
+            routeName: route.name,
+            passed: decision.passed,
+            reason: decision.reason
+        });
+        if (this.decisions.length > this.maxDecisions) {
+            this.decisions.splice(0, this.decisions.length - this.maxDecisions);
+        }
+    }
+
+    /**
+     * Get recent routing decisions, newest first
+     */
+    public getDecisions(filter: { routeId?: string; sourceId?: string; passed?: boolean } = {}, limit: number = 100): RouteDecision[] {
+        return this.decisions
+            .filter(d =>
+                (filter.routeId === undefined || d.routeId === filter.routeId) &&
+                (filter.sourceId === undefined || d.sourceId === filter.sourceId) &&
+                (filter.passed === undefined || d.passed === filter.passed)
+            )
+            .slice(-limit)
+            .reverse();
+    }
+
+    /**
+     * Get the unique destinations of all matching routes with the route that selected each one
+     * (the first matching route wins), optionally limited to one platform
+     */
+    public resolveTargets(message: RoutableMessage, platform?: RouteDestination['platform']): RouteTarget[] {
+        const seen = new Set<string>();
+        const targets: RouteTarget[] = [];
+
+        for (const route of this.match(message)) {
+            for (const destination of route.destinations) {
+                const key = `${destination.platform}:${destination.id}`;
+                if (seen.has(key) || (platform && destination.platform !== platform)) {
+                    continue;
+                }
+                seen.add(key);
+                targets.push({ destination, route });
+            }
+        }
+
+        return targets;
+    }
+
+    /**
+     * Get the source IDs of active routes for a platform (what the clients need to listen to),
+     * optionally only those a given session reads
+     */
+    public getSourceIds(platform: RoutePlatform, sessionId?: string): string[] {
+        const ids = this.routes
+            .filter(route => route.isActive && route.source.platform === platform)
+            .filter(route => sessionId === undefined || getSourceSessionId(route) === sessionId)
+            .map(route => route.source.id);
+        return Array.from(new Set(ids));
+    }
+
+    /**
+     * What every active route of a source filters out, so the source client can leave it out of its
+     * requests (e.g. the Twitter search query) without starving any route
+     */
+    public getSourceExclusions(platform: RoutePlatform, sourceId: string): SourceExclusions {
+        const routes = this.routes.filter(route =>
+            route.isActive && route.source.platform === platform && route.source.id === sourceId
+        );
+        if (routes.length === 0) {
+            return { forwarded: false, keywords: [] };
+        }
+
+        const [first, ...rest] = routes.map(route => route.filters || {});
+        return {
+            forwarded: routes.every(route => route.filters?.forwarded === 'never'),
+            keywords: (first.excludeKeywords || []).filter(keyword =>
+                rest.every(filters => (filters.excludeKeywords || []).some(k => k.toLowerCase() === keyword.toLowerCase()))
+            )
+        };
+    }
+
+    /**
+     * Routes (active or not) that read from or send through a session
+     */
+    public getRoutesUsingSession(platform: RouteDestination['platform'], sessionId: string): Route[] {
+        return this.routes.filter(route =>
+            (route.source.platform === platform && getSourceSessionId(route) === sessionId) ||
+            route.destinations.some(destination => destination.platform === platform && destination.sessionId === sessionId)
+        );
+    }
+}
+
+const routeEngine = new RouteEngine();
+
+export { routeEngine };
+export default RouteEngine;
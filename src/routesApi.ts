@@ -0,0 +1,566 @@
+import express from 'express';
+import { telegramSessions, whatsappSessions, waToTgForwardingManager } from './sharedInstances';
+import {
+    Route,
+    RouteCondition,
+    RouteDestination,
+    RouteFilters,
+    RouteSource,
+    RouteAIActions,
+    RouteStages,
+    saveRoute,
+    updateRoute,
+    getRoute,
+    getAllRoutes,
+    deleteRoute
+} from './db';
+import { routeEngine, RoutableMessage, normalizeTelegramId } from './routeEngine';
+import { migrateLegacyRoutes } from './migrateConfig';
+import { aiProfiles, NO_AI_PROFILE } from './aiProfiles';
+
+const router = express.Router();
+
+const SOURCE_PLATFORMS = ['telegram', 'whatsapp', 'twitter'];
+const DESTINATION_PLATFORMS = ['telegram', 'whatsapp'];
+const CONDITION_FIELDS = ['text', 'senderId', 'senderName', 'mediaType', 'hasMedia', 'isForwarded'];
+const CONDITION_OPERATORS = ['equals', 'contains', 'regex', 'exists'];
+
+function validateSource(source: any): RouteSource | string {
+    if (!source || !SOURCE_PLATFORMS.includes(source.platform)) {
+        return `source.platform must be one of: ${SOURCE_PLATFORMS.join(', ')}`;
+    }
+    if (!source.id || typeof source.id !== 'string') {
+        return 'source.id is required';
+    }
+    const id = source.platform === 'telegram' ? normalizeTelegramId(source.id) : source.id;
+    const sessionError = validateSessionRef(source, true);
+    if (sessionError) {
+        return sessionError;
+    }
+    const sessionId = getSessionRef(source);
+    return sessionId ? { platform: source.platform, id, sessionId } : { platform: source.platform, id };
+}
+
+/**
+ * The session a source or destination names, undefined for the platform's default session
+ */
+function getSessionRef(ref: any): string | undefined {
+    if (ref.platform === 'twitter' || ref.sessionId === undefined || ref.sessionId === null || ref.sessionId === '') {
+        return undefined;
+    }
+    return ref.sessionId;
+}
+
+/**
+ * Check the optional session of a source or destination. Telegram bots can send but not read channels.
+ * @returns An error message, or null when the session can be used
+ */
+function validateSessionRef(ref: any, isSource: boolean): string | null {
+    const sessionId = getSessionRef(ref);
+    if (sessionId === undefined) {
+        return null;
+    }
+    if (typeof sessionId !== 'string') {
+        return 'sessionId must be a string';
+    }
+    if (ref.platform === 'whatsapp') {
+        return whatsappSessions.has(sessionId) ? null : `unknown WhatsApp session: ${sessionId}`;
+    }
+    if (!telegramSessions.has(sessionId)) {
+        return `unknown Telegram session: ${sessionId}`;
+    }
+    if (isSource && !telegramSessions.isUserSession(sessionId)) {
+        return `Telegram session ${sessionId} is a bot and can't read channels`;
+    }
+    return null;
+}
+
+/**
+ * @param source The route's source; a destination can't be the source chat itself
+ */
+function validateDestinations(destinations: any, source?: RouteSource): RouteDestination[] | string {
+    if (!Array.isArray(destinations) || destinations.length === 0) {
+        return 'destinations must be a non-empty array';
+    }
+    for (const destination of destinations) {
+        if (!destination || !DESTINATION_PLATFORMS.includes(destination.platform)) {
+            return `destination platform must be one of: ${DESTINATION_PLATFORMS.join(', ')}`;
+        }
+        if (!destination.id || typeof destination.id !== 'string') {
+            return 'destination id is required';
+        }
+        const sessionError = validateSessionRef(destination, false);
+        if (sessionError) {
+            return sessionError;
+        }
+        const id = destination.platform === 'telegram' ? normalizeTelegramId(destination.id) : destination.id;
+        if (source && source.platform === destination.platform && source.id === id) {
+            return 'a destination can\'t be the route\'s own source';
+        }
+    }
+    return destinations.map((d: any) => {
+        const sessionId = getSessionRef(d);
+        return sessionId ? { platform: d.platform, id: d.id, sessionId } : { platform: d.platform, id: d.id };
+    });
+}
+
+function validateConditions(conditions: any): RouteCondition[] | string {
+    if (!Array.isArray(conditions)) {
+        return 'conditions must be an array';
+    }
+    for (const condition of conditions) {
+        if (!condition || !CONDITION_FIELDS.includes(condition.field)) {
+            return `condition field must be one of: ${CONDITION_FIELDS.join(', ')}`;
+        }
+        if (!CONDITION_OPERATORS.includes(condition.operator)) {
+            return `condition operator must be one of: ${CONDITION_OPERATORS.join(', ')}`;
+        }
+        if (condition.operator !== 'exists' && typeof condition.value !== 'string') {
+            return `condition value is required for operator ${condition.operator}`;
+        }
+        if (condition.operator === 'regex') {
+            try {
+                new RegExp(condition.value);
+            } catch {
+                return `invalid regex: ${condition.value}`;
+            }
+        }
+    }
+    return conditions.map((c: any) => ({
+        field: c.field,
+        operator: c.operator,
+        value: c.value,
+        negate: c.negate === true
+    }));
+}
+
+function validateStringList(value: any, name: string): string[] | string | undefined {
+    if (value === undefined) return undefined;
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string' || !item.trim())) {
+        return `${name} must be an array of non-empty strings`;
+    }
+    return value.map((item: string) => item.trim());
+}
+
+function validateFilters(filters: any): RouteFilters | string {
+    if (!filters || typeof filters !== 'object' || Array.isArray(filters)) {
+        return 'filters must be an object';
+    }
+
+    const result: RouteFilters = {};
+    const listFields = ['includeKeywords', 'excludeKeywords', 'includePatterns', 'excludePatterns', 'allowedSenders', 'blockedSenders'] as const;
+    for (const field of listFields) {
+        const list = validateStringList(filters[field], field);
+        if (typeof list === 'string') return list;
+        if (list) result[field] = list;
+    }
+
+    for (const pattern of [...(result.includePatterns || []), ...(result.excludePatterns || [])]) {
+        try {
+            new RegExp(pattern);
+        } catch {
+            return `invalid regex: ${pattern}`;
+        }
+    }
+
+    if (filters.forwarded !== undefined) {
+        if (!['any', 'only', 'never'].includes(filters.forwarded)) {
+            return "filters.forwarded must be 'any', 'only' or 'never'";
+        }
+        result.forwarded = filters.forwarded;
+    }
+    if (filters.content !== undefined) {
+        if (!['any', 'mediaOnly', 'textOnly'].includes(filters.content)) {
+            return "filters.content must be 'any', 'mediaOnly' or 'textOnly'";
+        }
+        result.content = filters.content;
+    }
+    if (filters.minLength !== undefined) {
+        if (!Number.isInteger(filters.minLength) || filters.minLength < 0) {
+            return 'filters.minLength must be a non-negative integer';
+        }
+        result.minLength = filters.minLength;
+    }
+
+    return result;
+}
+
+/**
+ * Check a route's AI profile: a profile ID, 'none' for no AI, or empty/null for the source's or default profile
+ * @returns The value to store, or an error message
+ */
+function validateAIProfileId(aiProfileId: any): { value: string | undefined } | string {
+    if (aiProfileId === null || aiProfileId === '') {
+        return { value: undefined };
+    }
+    if (typeof aiProfileId !== 'string') {
+        return 'aiProfileId must be a string or null';
+    }
+    if (aiProfileId !== NO_AI_PROFILE && !aiProfiles.get(aiProfileId)) {
+        return `unknown AI profile: ${aiProfileId}`;
+    }
+    return { value: aiProfileId };
+}
+
+function validateAIActions(actions: any): RouteAIActions | string {
+    if (!actions || typeof actions !== 'object' || Array.isArray(actions)) {
+        return 'aiActions must be an object';
+    }
+
+    const result: RouteAIActions = {};
+    if (actions.summarize !== undefined && actions.summarize !== null && actions.summarize !== false) {
+        const { minLength = 0, bullets = 3 } = actions.summarize === true ? {} : actions.summarize;
+        if (!Number.isInteger(minLength) || minLength < 0) {
+            return 'aiActions.summarize.minLength must be a non-negative integer';
+        }
+        if (!Number.isInteger(bullets) || bullets < 1 || bullets > 10) {
+            return 'aiActions.summarize.bullets must be an integer between 1 and 10';
+        }
+        result.summarize = { minLength, bullets };
+    }
+    if (actions.classify !== undefined && actions.classify !== null) {
+        const topics = validateStringList(actions.classify?.topics, 'aiActions.classify.topics');
+        if (typeof topics === 'string') return topics;
+        if (!topics || topics.length === 0) {
+            return 'aiActions.classify.topics must list at least one topic';
+        }
+        result.classify = { topics };
+    }
+    if (actions.headline !== undefined) {
+        if (typeof actions.headline !== 'boolean') {
+            return 'aiActions.headline must be a boolean';
+        }
+        if (actions.headline) result.headline = true;
+    }
+    if (actions.skip !== undefined && actions.skip !== null && actions.skip !== false) {
+        const criteria = actions.skip === true ? undefined : actions.skip.criteria;
+        if (criteria !== undefined && typeof criteria !== 'string') {
+            return 'aiActions.skip.criteria must be a string';
+        }
+        result.skip = criteria && criteria.trim() ? { criteria: criteria.trim() } : {};
+    }
+
+    return result;
+}
+
+const PIPELINE_STAGES: (keyof RouteStages)[] = ['filters', 'transcription', 'ai', 'template'];
+
+/**
+ * Check the stage switches of a route; only disabled stages are stored
+ */
+function validateStages(stages: any): RouteStages | string {
+    if (!stages || typeof stages !== 'object' || Array.isArray(stages)) {
+        return 'stages must be an object';
+    }
+
+    const result: RouteStages = {};
+    for (const stage of Object.keys(stages)) {
+        if (!PIPELINE_STAGES.includes(stage as keyof RouteStages)) {
+            return `unknown stage: ${stage} (expected ${PIPELINE_STAGES.join(', ')})`;
+        }
+        if (typeof stages[stage] !== 'boolean') {
+            return `stages.${stage} must be a boolean`;
+        }
+        if (!stages[stage]) result[stage as keyof RouteStages] = false;
+    }
+    return result;
+}
+
+/**
+ * Reload routes and make sure the clients listen to every route source
+ */
+async function applyRoutes(): Promise<void> {
+    await routeEngine.reload();
+    await telegramSessions.listenToRouteSources();
+    waToTgForwardingManager.listenToRouteSources();
+}
+
+/**
+ * Get all routes
+ */
+router.get('/', async (req, res) => {
+    try {
+        const routes = await getAllRoutes();
+        res.json({ success: true, routes });
+    } catch (error: any) {
+        res.status(500).json({ success: false, error: error.message });
+    }
+});
+
+/**
+ * Get recent routing and filter decisions (newest first)
+ */
+router.get('/decisions', (req, res) => {
+    try {
+        const { routeId, sourceId, passed, limit } = req.query;
+        const decisions = routeEngine.getDecisions(
+            {
+                routeId: typeof routeId === 'string' ? routeId : undefined,
+                sourceId: typeof sourceId === 'string' ? sourceId : undefined,
+                passed: passed === 'true' ? true : passed === 'false' ? false : undefined
+            },
+            Math.min(Number(limit) || 100, 500)
+        );
+        res.json({ success: true, decisions });
+    } catch (error: any) {
+        res.status(500).json({ success: false, error: error.message });
+    }
+});
+
+/**
+ * Get a specific route by ID
+ */
+router.get('/:id', async (req, res) => {
+    try {
+        const route = await getRoute(req.params.id);
+        if (!route) {
+            return res.status(404).json({ success: false, error: 'Route not found' });
+        }
+        res.json({ success: true, route });
+    } catch (error: any) {
+        res.status(500).json({ success: false, error: error.message });
+    }
+});
+
+/**
+ * Create a new route
+ */
+router.post('/', async (req, res) => {
+    try {
+        const { name, order, isActive, mirrorEdits, mirrorDeletes } = req.body;
+
+        const source = validateSource(req.body.source);
+        if (typeof source === 'string') {
+            return res.status(400).json({ success: false, error: source });
+        }
+        const destinations = validateDestinations(req.body.destinations, source);
+        if (typeof destinations === 'string') {
+            return res.status(400).json({ success: false, error: destinations });
+        }
+        const conditions = validateConditions(req.body.conditions || []);
+        if (typeof conditions === 'string') {
+            return res.status(400).json({ success: false, error: conditions });
+        }
+        const filters = req.body.filters !== undefined ? validateFilters(req.body.filters) : undefined;
+        if (typeof filters === 'string') {
+            return res.status(400).json({ success: false, error: filters });
+        }
+
+        if (req.body.template !== undefined && typeof req.body.template !== 'string') {
+            return res.status(400).json({ success: false, error: 'template must be a string' });
+        }
+        const aiProfileId = req.body.aiProfileId !== undefined ? validateAIProfileId(req.body.aiProfileId) : { value: undefined };
+        if (typeof aiProfileId === 'string') {
+            return res.status(400).json({ success: false, error: aiProfileId });
+        }
+        const aiActions = req.body.aiActions !== undefined && req.body.aiActions !== null ? validateAIActions(req.body.aiActions) : undefined;
+        if (typeof aiActions === 'string') {
+            return res.status(400).json({ success: false, error: aiActions });
+        }
+        const stages = req.body.stages !== undefined && req.body.stages !== null ? validateStages(req.body.stages) : undefined;
+        if (typeof stages === 'string') {
+            return res.status(400).json({ success: false, error: stages });
+        }
+
+        const existingRoutes = await getAllRoutes();
+        const route = await saveRoute({
+            name: typeof name === 'string' && name ? name : `${source.platform} ${source.id}`,
+            source,
+            destinations,
+            conditions,
+            filters,
+            template: req.body.template || undefined,
+            aiProfileId: aiProfileId.value,
+            aiActions,
+            stages,
+            mirrorEdits: mirrorEdits === true,
+            mirrorDeletes: mirrorDeletes === true,
+            order: typeof order === 'number' ? order : existingRoutes.reduce((max, r) => Math.max(max, r.order ?? 0), 0) + 1,
+            isActive: isActive !== false
+        });
+
+        if (!route) {
+            return res.status(500).json({ success: false, error: 'Failed to save route' });
+        }
+
+        await applyRoutes();
+        res.json({ success: true, route });
+    } catch (error: any) {
+        res.status(500).json({ success: false, error: error.message });
+    }
+});
+
+/**
+ * Update a route. Routes migrated from the legacy configs only accept
+ * name, conditions, filters, template, AI profile and actions, pipeline stages, mirroring options and order; their source, destinations and state follow the legacy settings.
+ */
+router.put('/:id', async (req, res) => {
+    try {
+        const route = await getRoute(req.params.id);
+        if (!route) {
+            return res.status(404).json({ success: false, error: 'Route not found' });
+        }
+
+        const { name, order, isActive, mirrorEdits, mirrorDeletes } = req.body;
+        const updates: Partial<Omit<Route, 'id' | 'createdAt'>> = {};
+
+        if (route.legacyKey && (req.body.source !== undefined || req.body.destinations !== undefined || isActive !== undefined)) {
+            return res.status(400).json({
+                success: false,
+                error: `Route is managed by legacy config (${route.legacyKey}); change its source, destinations or state there`
+            });
+        }
+
+        if (req.body.source !== undefined) {
+            const source = validateSource(req.body.source);
+            if (typeof source === 'string') {
+                return res.status(400).json({ success: false, error: source });
+            }
+            updates.source = source;
+        }
+        if (req.body.destinations !== undefined) {
+            const destinations = validateDestinations(req.body.destinations, updates.source || route.source);
+            if (typeof destinations === 'string') {
+                return res.status(400).json({ success: false, error: destinations });
+            }
+            updates.destinations = destinations;
+        }
+        if (req.body.conditions !== undefined) {
+            const conditions = validateConditions(req.body.conditions);
+            if (typeof conditions === 'string') {
+                return res.status(400).json({ success: false, error: conditions });
+            }
+            updates.conditions = conditions;
+        }
+        if (req.body.filters !== undefined) {
+            const filters = validateFilters(req.body.filters);
+            if (typeof filters === 'string') {
+                return res.status(400).json({ success: false, error: filters });
+            }
+            updates.filters = filters;
+        }
+        if (req.body.template !== undefined) {
+            if (req.body.template !== null && typeof req.body.template !== 'string') {
+                return res.status(400).json({ success: false, error: 'template must be a string or null' });
+            }
+            // Empty or null falls back to the global template
+            updates.template = req.body.template || undefined;
+        }
+        if (req.body.aiProfileId !== undefined) {
+            const aiProfileId = validateAIProfileId(req.body.aiProfileId);
+            if (typeof aiProfileId === 'string') {
+                return res.status(400).json({ success: false, error: aiProfileId });
+            }
+            // Unset falls back to the source's or the default AI profile
+            updates.aiProfileId = aiProfileId.value;
+        }
+        if (req.body.aiActions !== undefined) {
+            const aiActions = req.body.aiActions === null ? {} : validateAIActions(req.body.aiActions);
+            if (typeof aiActions === 'string') {
+                return res.status(400).json({ success: false, error: aiActions });
+            }
+            updates.aiActions = aiActions;
+        }
+        if (req.body.stages !== undefined) {
+            // Null turns every stage back on
+            const stages = req.body.stages === null ? {} : validateStages(req.body.stages);
+            if (typeof stages === 'string') {
+                return res.status(400).json({ success: false, error: stages });
+            }
+            updates.stages = stages;
+        }
+        if (typeof name === 'string' && name) updates.name = name;
+        if (typeof order === 'number') updates.order = order;
+        if (typeof isActive === 'boolean') updates.isActive = isActive;
+        if (typeof mirrorEdits === 'boolean') updates.mirrorEdits = mirrorEdits;
+        if (typeof mirrorDeletes === 'boolean') updates.mirrorDeletes = mirrorDeletes;
+
+        const success = await updateRoute(req.params.id, updates);
+        if (!success) {
+            return res.status(500).json({ success: false, error: 'Failed to update route' });
+        }
+
+        await applyRoutes();
+        res.json({ success: true, route: await getRoute(req.params.id) });
+    } catch (error: any) {
+        res.status(500).json({ success: false, error: error.message });
+    }
+});
+
+/**
+ * Delete a route
+ */
+router.delete('/:id', async (req, res) => {
+    try {
+        const route = await getRoute(req.params.id);
+        if (!route) {
+            return res.status(404).json({ success: false, error: 'Route not found' });
+        }
+        if (route.legacyKey) {
+            return res.status(400).json({
+                success: false,
+                error: `Route is managed by legacy config (${route.legacyKey}); remove it there`
+            });
+        }
+
+        const success = await deleteRoute(req.params.id);
+        if (!success) {
+            return res.status(500).json({ success: false, error: 'Failed to delete route' });
+        }
+
+        await applyRoutes();
+        res.json({ success: true, message: 'Route deleted' });
+    } catch (error: any) {
+        res.status(500).json({ success: false, error: error.message });
+    }
+});
+
+/**
+ * Re-run the migration from the legacy configs
+ */
+router.post('/migrate', async (req, res) => {
+    try {
+        const result = await migrateLegacyRoutes();
+        await applyRoutes();
+        res.json({ success: true, ...result });
+    } catch (error: any) {
+        res.status(500).json({ success: false, error: error.message });
+    }
+});
+
+/**
+ * Evaluate the routes and filters against a sample message without forwarding or recording anything
+ */
+router.post('/match', async (req, res) => {
+    try {
+        const { platform, sourceId, text, senderId, senderName, mediaType, hasMedia, isForwarded } = req.body;
+
+        if (!SOURCE_PLATFORMS.includes(platform) || !sourceId || typeof sourceId !== 'string') {
+            return res.status(400).json({ success: false, error: 'platform and sourceId are required' });
+        }
+
+        const message: RoutableMessage = {
+            platform,
+            sourceId: platform === 'telegram' ? normalizeTelegramId(sourceId) : sourceId,
+            messageId: 'preview',
+            text: text || '',
+            senderId,
+            senderName,
+            mediaType,
+            hasMedia: hasMedia === true,
+            isForwarded: isForwarded === true
+        };
+
+        const results = routeEngine.explain(message);
+        const matched = results.filter(r => r.decision.passed).map(r => r.route);
+        res.json({
+            success: true,
+            routes: results.map(r => ({ id: r.route.id, name: r.route.name, ...r.decision })),
+            destinations: matched.flatMap(r => r.destinations)
+        });
+    } catch (error: any) {
+        res.status(500).json({ success: false, error: error.message });
+    }
+});
+
+export default router;
@@ -7,8 +7,15 @@ import telegramApi from './telegramApi';
 import twitterApi from './twitterApi';
 import aiApi from './aiApi';
 import waToTgApi from './waToTgApi';
+import deadLetterApi from './deadLetterApi';
+import routesApi from './routesApi';
+import templatesApi from './templatesApi';
+import historyApi from './historyApi';
+import metricsApi from './metricsApi';
 import { configManager } from './configManager';
-import { forwardingManager, telegramInstance, whatsappInstance, twitterInstance, waToTgForwardingManager } from './sharedInstances';
+import { startLegacyRouteSync } from './migrateConfig';
+import { aiProfiles } from './aiProfiles';
+import { forwardingManager, telegramSessions, whatsappSessions, twitterInstance, waToTgForwardingManager } from './sharedInstances';
 
 const app = express();
 const PORT = process.env.PORT || 1234;
@@ -28,6 +35,11 @@ app.use('/twitter', twitterApi);
 app.use('/config', configApi);
 app.use('/ai', aiApi);
 app.use('/wa-to-tg', waToTgApi);
+app.use('/dead-letters', deadLetterApi);
+app.use('/routes', routesApi);
+app.use('/templates', templatesApi);
+app.use('/history', historyApi);
+app.use('/metrics', metricsApi);
 
 // Health check
 app.get('/health', (req, res) => {
@@ -44,6 +56,12 @@ async function initializeForwarding() {
     try {
         // Ensure config is loaded from DB before checking forwarding status
         const config = await configManager.getConfig();
+
+        // Migrate the legacy forwarding configs into routes before any session starts
+        await startLegacyRouteSync();
+        // Load the AI profiles (the first load migrates the old system prompt)
+        await aiProfiles.reload();
+
         if (!config.isActive) {
             console.log('Configuration is not active (from DB), skipping auto-start forwarding');
             return;
@@ -53,8 +71,8 @@ async function initializeForwarding() {
         
         // Wait for clients to be ready before starting forwarding
         const checkClientsAndStart = async (label: string) => {
-            const telegramReady = telegramInstance.isReady();
-            const whatsappReady = whatsappInstance.isReady();
+            const telegramReady = telegramSessions.isAnyUserReady();
+            const whatsappReady = whatsappSessions.isAnyReady();
             const twitterReady = twitterInstance.isReady();
 
             if (whatsappReady && (telegramReady || twitterReady)) {
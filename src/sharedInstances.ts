@@ -5,34 +5,43 @@ import { BaileysWhatsAppInstance } from './baileysWhatsAppInstance';
 import { TwitterInstance } from './twitterInstance';
 import ForwardingManager from './forwardingManager';
 import WaToTgForwardingManager from './waToTgForwardingManager';
-import { WhatsAppEngine } from './whatsappEngine';
+import { WhatsAppEngine, WhatsAppEngineType, WhatsAppSessionOptions } from './whatsappEngine';
+import { WhatsAppSessionRegistry } from './whatsappSessions';
+import { TelegramSessionRegistry } from './telegramSessions';
 
 dotenv.config();
 
 export type { WhatsAppEngine } from './whatsappEngine';
 
-function createWhatsAppInstance(): WhatsAppEngine {
-    const engine = (process.env.WHATSAPP_ENGINE || 'wwebjs').toLowerCase();
+function createWhatsAppEngine(engine: WhatsAppEngineType, options: WhatsAppSessionOptions): WhatsAppEngine {
     if (engine === 'baileys') {
-        console.log('[WhatsApp] Using Baileys engine (pairing code)');
-        return new BaileysWhatsAppInstance();
+        console.log(`[WhatsApp] Session ${options.sessionId}: using Baileys engine (pairing code)`);
+        return new BaileysWhatsAppInstance(options);
     }
-    console.log('[WhatsApp] Using whatsapp-web.js engine (QR or optional pairing code)');
-    return new WhatsAppInstance();
+    console.log(`[WhatsApp] Session ${options.sessionId}: using whatsapp-web.js engine (QR or optional pairing code)`);
+    return new WhatsAppInstance(options);
 }
 
 // Create shared instances
-export const telegramInstance = new TelegramInstance();
-export const whatsappInstance = createWhatsAppInstance();
+export const telegramSessions = new TelegramSessionRegistry(new TelegramInstance());
+export const whatsappSessions = new WhatsAppSessionRegistry(
+    (process.env.WHATSAPP_ENGINE || 'wwebjs').toLowerCase() === 'baileys' ? 'baileys' : 'wwebjs',
+    createWhatsAppEngine
+);
 export const twitterInstance = new TwitterInstance();
-export const forwardingManager = new ForwardingManager(telegramInstance, whatsappInstance, twitterInstance);
-export const waToTgForwardingManager = new WaToTgForwardingManager(telegramInstance, whatsappInstance);
+export const forwardingManager = new ForwardingManager(telegramSessions, whatsappSessions, twitterInstance);
+export const waToTgForwardingManager = new WaToTgForwardingManager(telegramSessions, whatsappSessions);
 
-// Initialize WhatsApp on startup
-whatsappInstance.initialize().catch((error) => {
+// Initialize every WhatsApp session on startup, with the engines last chosen through the API
+whatsappSessions.initialize().catch((error) => {
     console.error('WhatsApp initialization failed:', error instanceof Error ? error.message : error);
 });
 
+// Connect the extra Telegram sessions; the default one reconnects with its saved login on construction
+telegramSessions.initialize().catch((error) => {
+    console.error('Telegram sessions initialization failed:', error instanceof Error ? error.message : error);
+});
+
 // Initialize Twitter with automatic retry on transient failures
 async function initializeTwitterWithRetry(maxAttempts = 10, baseDelayMs = 30000): Promise<void> {
     console.log(`[Twitter] Starting initialization (up to ${maxAttempts} attempts)...`);
@@ -0,0 +1,220 @@
+import { loopGuard } from './loopGuard';
+import { OutboundSendOptions } from './outboundQueue';
+import {
+    WhatsAppClientInfo,
+    WhatsAppEngine,
+    WhatsAppEngineType,
+    WhatsAppGroup,
+    WhatsAppMediaType,
+    WhatsAppMessageFilter,
+    WhatsAppMessageHandler,
+    WhatsAppPairingInfo,
+    WhatsAppQueueStatus
+} from './whatsappEngine';
+
+export type WhatsAppEngineFactory = (type: WhatsAppEngineType) => WhatsAppEngine;
+
+/**
+ * The WhatsApp engine the rest of the app holds on to. Delegates to the current engine
+ * and can replace it at runtime; message handlers, the filter and listening groups are
+ * carried over, and pending outbound messages are replayed by the new engine's queue.
+ * Sent messages are reported to the loop guard, so our copies are never forwarded again.
+ */
+export class SwitchableWhatsAppEngine implements WhatsAppEngine {
+    private engine: WhatsAppEngine;
+    private isSwitching: boolean = false;
+
+    // Registered through this wrapper, re-applied to every new engine
+    private messageHandlers: WhatsAppMessageHandler[] = [];
+    private messageFilter: WhatsAppMessageFilter | null = null;
+    private listeningGroups: Set<string> = new Set();
+
+    constructor(type: WhatsAppEngineType, private readonly createEngine: WhatsAppEngineFactory) {
+        this.engine = createEngine(type);
+    }
+
+    /**
+     * Shut the current engine down and start the given one.
+     * Resolves once the new engine is created; it connects in the background.
+     */
+    public async switchEngine(type: WhatsAppEngineType): Promise<void> {
+        if (type === this.engine.getEngineType()) {
+            return;
+        }
+        if (this.isSwitching) {
+            throw new Error('A WhatsApp engine switch is already in progress');
+        }
+
+        this.isSwitching = true;
+        const previous = this.engine.getEngineType();
+        try {
+            console.log(`[WhatsApp] Switching engine ${previous} → ${type}`);
+            try {
+                await this.engine.shutdown();
+            } catch (error) {
+                console.error(`[WhatsApp] Error shutting down ${previous} engine:`, error);
+            }
+
+            this.engine = this.createEngine(type);
+            this.engine.setMessageFilter(this.messageFilter);
+            this.messageHandlers.forEach(handler => this.engine.onMessage(handler));
+            if (this.listeningGroups.size > 0) {
+                this.engine.startListeningToGroups(Array.from(this.listeningGroups));
+            }
+        } finally {
+            this.isSwitching = false;
+        }
+
+        this.engine.initialize().catch((error) => {
+            console.error(`[WhatsApp] ${type} initialization failed:`, error instanceof Error ? error.message : error);
+        });
+    }
+
+    public isCurrentlySwitching(): boolean {
+        return this.isSwitching;
+    }
+
+    public getEngineType(): WhatsAppEngineType {
+        return this.engine.getEngineType();
+    }
+
+    public getSessionId(): string {
+        return this.engine.getSessionId();
+    }
+
+    public initialize(qrCallback?: (qr: string) => void): Promise<void> {
+        return this.engine.initialize(qrCallback);
+    }
+
+    public restart(): Promise<void> {
+        return this.engine.restart();
+    }
+
+    public resetInstance(): Promise<void> {
+        return this.engine.resetInstance();
+    }
+
+    public destroy(): Promise<void> {
+        return this.engine.destroy();
+    }
+
+    public shutdown(): Promise<void> {
+        return this.engine.shutdown();
+    }
+
+    public isReady(): boolean {
+        return !this.isSwitching && this.engine.isReady();
+    }
+
+    public isCurrentlyRestarting(): boolean {
+        return this.isSwitching || this.engine.isCurrentlyRestarting();
+    }
+
+    public getRestartAttempts(): number {
+        return this.engine.getRestartAttempts();
+    }
+
+    public resetRestartAttempts(): void {
+        this.engine.resetRestartAttempts();
+    }
+
+    public startKeepAlive(): void {
+        this.engine.startKeepAlive();
+    }
+
+    public getCurrentQrCode(): string {
+        return this.engine.getCurrentQrCode();
+    }
+
+    public getPairingInfo(): WhatsAppPairingInfo {
+        return this.engine.getPairingInfo();
+    }
+
+    public getPhoneNumber(): string {
+        return this.engine.getPhoneNumber();
+    }
+
+    public pairWithPhone(phone: string): Promise<string> {
+        return this.engine.pairWithPhone(phone);
+    }
+
+    public getClientInfo(): Promise<WhatsAppClientInfo | null> {
+        return this.engine.getClientInfo();
+    }
+
+    public takeScreenshot(): Promise<string> {
+        return this.engine.takeScreenshot();
+    }
+
+    public getGroups(): Promise<WhatsAppGroup[]> {
+        return this.engine.getGroups();
+    }
+
+    public sendTextToGroup(groupId: string, message: string): Promise<string | undefined> {
+        return loopGuard.track('whatsapp', groupId, () => this.engine.sendTextToGroup(groupId, message), message);
+    }
+
+    public sendMediaToGroup(
+        groupId: string,
+        mediaPath: string,
+        caption?: string,
+        mediaType?: WhatsAppMediaType,
+        quotedMessageId?: string
+    ): Promise<string | undefined> {
+        return loopGuard.track('whatsapp', groupId, () => this.engine.sendMediaToGroup(groupId, mediaPath, caption, mediaType, quotedMessageId), caption);
+    }
+
+    public sendMessageToGroup(groupId: string, mediaPath: string, content: string, options?: OutboundSendOptions): Promise<string | undefined> {
+        return loopGuard.track('whatsapp', groupId, () => this.engine.sendMessageToGroup(groupId, mediaPath, content, options), content);
+    }
+
+    public editMessage(groupId: string, messageId: string, text: string): Promise<void> {
+        return this.engine.editMessage(groupId, messageId, text);
+    }
+
+    public deleteMessage(groupId: string, messageId: string): Promise<void> {
+        return this.engine.deleteMessage(groupId, messageId);
+    }
+
+    public getQueueStatus(): WhatsAppQueueStatus {
+        return this.engine.getQueueStatus();
+    }
+
+    public setQueueDelay(delayMs: number): void {
+        this.engine.setQueueDelay(delayMs);
+    }
+
+    public setMessageFilter(filter: WhatsAppMessageFilter | null): void {
+        this.messageFilter = filter;
+        this.engine.setMessageFilter(filter);
+    }
+
+    public onMessage(handler: WhatsAppMessageHandler): void {
+        this.messageHandlers.push(handler);
+        this.engine.onMessage(handler);
+    }
+
+    public removeMessageHandler(handler: WhatsAppMessageHandler): void {
+        const index = this.messageHandlers.indexOf(handler);
+        if (index > -1) {
+            this.messageHandlers.splice(index, 1);
+        }
+        this.engine.removeMessageHandler(handler);
+    }
+
+    public startListeningToGroups(groupIds: string[]): void {
+        groupIds.forEach(id => this.listeningGroups.add(id));
+        this.engine.startListeningToGroups(groupIds);
+    }
+
+    public stopListeningToGroups(groupIds: string[]): void {
+        groupIds.forEach(id => this.listeningGroups.delete(id));
+        this.engine.stopListeningToGroups(groupIds);
+    }
+
+    public getListeningGroups(): string[] {
+        return this.engine.getListeningGroups();
+    }
+}
+
+export default SwitchableWhatsAppEngine;
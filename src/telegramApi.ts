@@ -1,11 +1,52 @@
 import express from 'express';
-import { TelegramMessage } from './telegramInstance';
+import { TelegramInstance, TelegramMessage, TelegramSender } from './telegramInstance';
 import { configManager } from './configManager';
-import { telegramInstance, whatsappInstance, forwardingManager } from './sharedInstances';
+import { telegramSessions, whatsappSessions, forwardingManager } from './sharedInstances';
+import { validateTelegramSessionId } from './telegramSessions';
 import { ListeningConfig } from './db';
+import { routeEngine } from './routeEngine';
 
 const router = express.Router();
 
+/**
+ * Session routes are served both unprefixed (default session) and as /:sessionId/...
+ */
+function sessionPaths(path: string): string[] {
+    return [path, `/:sessionId${path}`];
+}
+
+/**
+ * Look up the session a request targets, answering 404 when it doesn't exist
+ */
+function getSession(req: express.Request, res: express.Response): TelegramSender | null {
+    const sessionId = req.params.sessionId as string | undefined;
+    const session = telegramSessions.get(sessionId);
+    if (!session) {
+        res.status(404).json({
+            success: false,
+            error: `Telegram session not found: ${sessionId}`
+        });
+        return null;
+    }
+    return session;
+}
+
+/**
+ * Like getSession, for what only user sessions can do (log in, read channels); answers 400 for bots
+ */
+function getUserSession(req: express.Request, res: express.Response): TelegramInstance | null {
+    const session = getSession(req, res);
+    if (!session) return null;
+    if (!(session instanceof TelegramInstance)) {
+        res.status(400).json({
+            success: false,
+            error: `Telegram session ${session.getSessionId()} is a bot session`
+        });
+        return null;
+    }
+    return session;
+}
+
 // Store for managing message listeners
 const messageListeners: Map<string, (message: TelegramMessage) => void> = new Map();
 
@@ -16,7 +57,7 @@ let autoStartInProgress = false;
 async function attemptAutoStart() {
     if (autoStartAttempted || autoStartInProgress) return;
     
-    if (telegramInstance.isReady() && whatsappInstance.isReady() && configManager.isActive()) {
+    if (telegramSessions.getDefault().isReady() && whatsappSessions.isAnyReady() && configManager.isActive()) {
         autoStartInProgress = true;
         autoStartAttempted = true;
         console.log('Both clients are ready, starting forwarding...');
@@ -55,11 +96,125 @@ async function startForwarding() {
     return success;
 }
 
+/**
+ * List Telegram sessions (users and bots) with their status
+ */
+router.get('/sessions', (req, res) => {
+    try {
+        res.json({
+            success: true,
+            sessions: telegramSessions.list()
+        });
+    } catch (error) {
+        console.error('Error listing Telegram sessions:', error);
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * Add a Telegram session: a user account (log in with /:sessionId/initialize) or a bot that sends with its token
+ */
+router.post('/sessions', async (req, res) => {
+    try {
+        const { id, name, type = 'user', botToken } = req.body || {};
+        const invalid = validateTelegramSessionId(id);
+        if (invalid) {
+            return res.status(400).json({
+                success: false,
+                error: invalid
+            });
+        }
+        if (telegramSessions.has(id)) {
+            return res.status(400).json({
+                success: false,
+                error: `Telegram session already exists: ${id}`
+            });
+        }
+        if (type !== 'user' && type !== 'bot') {
+            return res.status(400).json({
+                success: false,
+                error: 'type must be user or bot'
+            });
+        }
+        if (type === 'bot' && (typeof botToken !== 'string' || !botToken.trim())) {
+            return res.status(400).json({
+                success: false,
+                error: 'botToken is required for bot sessions'
+            });
+        }
+
+        await telegramSessions.createSession({
+            id,
+            name: typeof name === 'string' && name.trim() ? name.trim() : id,
+            type,
+            botToken: type === 'bot' ? botToken.trim() : undefined
+        });
+
+        res.json({
+            success: true,
+            message: type === 'bot'
+                ? `Telegram bot session ${id} added`
+                : `Telegram session ${id} added. Log in with a phone number to start reading channels.`
+        });
+    } catch (error) {
+        console.error('Error adding Telegram session:', error);
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * Remove a Telegram session that no route uses. A user session's login file is kept,
+ * and messages still queued for it are moved to the dead letters.
+ */
+router.delete('/sessions/:sessionId', async (req, res) => {
+    try {
+        const { sessionId } = req.params;
+        if (!telegramSessions.has(sessionId)) {
+            return res.status(404).json({
+                success: false,
+                error: `Telegram session not found: ${sessionId}`
+            });
+        }
+
+        const routes = routeEngine.getRoutesUsingSession('telegram', sessionId);
+        if (routes.length > 0) {
+            return res.status(409).json({
+                success: false,
+                error: `Telegram session is used by route(s): ${routes.map(route => route.name).join(', ')}`
+            });
+        }
+
+        const deadLettered = await telegramSessions.removeSession(sessionId);
+        res.json({
+            success: true,
+            message: deadLettered
+                ? `Telegram session ${sessionId} removed, ${deadLettered} queued message(s) moved to the dead letters`
+                : `Telegram session ${sessionId} removed`,
+            deadLettered
+        });
+    } catch (error) {
+        console.error('Error removing Telegram session:', error);
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
 /**
  * Initialize Telegram client
  */
-router.post('/initialize', async (req, res) => {
+router.post(sessionPaths('/initialize'), async (req, res) => {
     try {
+        const telegramInstance = getUserSession(req, res);
+        if (!telegramInstance) return;
+
         const { phoneNumber } = req.body;
         
         if (telegramInstance.isReady()) {
@@ -74,6 +229,7 @@ router.post('/initialize', async (req, res) => {
 
         console.log('Initializing Telegram client...');
         await telegramInstance.initialize(phoneNumber);
+        await telegramSessions.listenToRouteSources();
         
         if (configManager.isActive()) {
             await attemptAutoStart();
@@ -96,9 +252,14 @@ router.post('/initialize', async (req, res) => {
 /**
  * Get Telegram client status
  */
-router.get('/status', (req, res) => {
+router.get(sessionPaths('/status'), (req, res) => {
+    const telegramInstance = getSession(req, res);
+    if (!telegramInstance) return;
+
     res.json({
         success: true,
+        sessionId: telegramInstance.getSessionId(),
+        type: telegramInstance.getSessionType(),
         isReady: telegramInstance.isReady()
     });
 });
@@ -108,14 +269,14 @@ router.get('/status', (req, res) => {
  */
 router.post('/start-forwarding', async (req, res) => {
     try {
-        if (!telegramInstance.isReady()) {
+        if (!telegramSessions.getDefault().isReady()) {
             return res.status(400).json({ 
                 success: false, 
                 error: 'Telegram client is not ready' 
             });
         }
 
-        if (!whatsappInstance.isReady()) {
+        if (!whatsappSessions.isAnyReady()) {
             return res.status(400).json({ 
                 success: false, 
                 error: 'WhatsApp client is not ready' 
@@ -172,7 +333,7 @@ router.post('/stop-forwarding', async (req, res) => {
  */
 router.get('/forwarding-status', async (req, res) => {
     try {
-        const config = await configManager.getConfig();
+        const config = await configManager.getPublicConfig();
         
         // Check if ANY Telegram forwarding session is active (not just 'main_config')
         const sessionsInfo = await forwardingManager.getActiveSessionsInfo();
@@ -183,8 +344,8 @@ router.get('/forwarding-status', async (req, res) => {
             isActive,
             activeSessions: sessionsInfo.length,
             config: config,
-            telegramReady: telegramInstance.isReady(),
-            whatsappReady: whatsappInstance.isReady()
+            telegramReady: telegramSessions.getDefault().isReady(),
+            whatsappReady: whatsappSessions.isAnyReady()
         });
     } catch (error) {
         console.error('Error getting forwarding status:', error);
@@ -220,7 +381,7 @@ router.post('/update-config', async (req, res) => {
         res.json({
             success: true,
             message: 'Configuration updated successfully',
-            config: await configManager.getConfig()
+            config: await configManager.getPublicConfig()
         });
     } catch (error) {
         console.error('Error updating configuration:', error);
@@ -347,7 +508,7 @@ router.post('/channels/:channelId/whatsapp-groups/remove', async (req, res) => {
  */
 router.get('/listening-channels', (req, res) => {
     try {
-        const channels = telegramInstance.getListeningChannels();
+        const channels = telegramSessions.getDefault().getListeningChannels();
         res.json({
             success: true,
             channels: channels
@@ -364,8 +525,11 @@ router.get('/listening-channels', (req, res) => {
 /**
  * Get available channels and groups
  */
-router.get('/channels', async (req, res) => {
+router.get(sessionPaths('/channels'), async (req, res) => {
     try {
+        const telegramInstance = getUserSession(req, res);
+        if (!telegramInstance) return;
+
         if (!telegramInstance.isReady()) {
             return res.status(400).json({
                 success: false,
@@ -391,8 +555,11 @@ router.get('/channels', async (req, res) => {
 /**
  * Get client info
  */
-router.get('/info', async (req, res) => {
+router.get(sessionPaths('/info'), async (req, res) => {
     try {
+        const telegramInstance = getSession(req, res);
+        if (!telegramInstance) return;
+
         const isReady = telegramInstance.isReady();
         let clientInfo = null;
         
@@ -437,7 +604,7 @@ router.post('/listen', async (req, res) => {
         // Auto-activate config when starting to listen
         await configManager.setActive(true);
         
-        await telegramInstance.startListening(channelIds);
+        await telegramSessions.getDefault().startListening(channelIds);
 
         res.json({
             success: true,
@@ -471,7 +638,7 @@ router.post('/stop-listening', async (req, res) => {
         const newChannels = currentChannels.filter(id => !channelIds.includes(id));
         
         await configManager.setTelegramChannelIds(newChannels);
-        await telegramInstance.stopListening(channelIds);
+        await telegramSessions.getDefault().stopListening(channelIds);
 
         res.json({
             success: true,
@@ -508,8 +675,11 @@ router.get('/listening', async (req, res) => {
 /**
  * Restart Telegram client
  */
-router.post('/restart', async (req, res) => {
+router.post(sessionPaths('/restart'), async (req, res) => {
     try {
+        const telegramInstance = getUserSession(req, res);
+        if (!telegramInstance) return;
+
         await telegramInstance.disconnect();
         await telegramInstance.restart();
         
@@ -526,11 +696,44 @@ router.post('/restart', async (req, res) => {
     }
 });
 
+/**
+ * Fetch and forward posts missed since each listened channel's last processed message
+ */
+router.post(sessionPaths('/catch-up'), async (req, res) => {
+    try {
+        const telegramInstance = getUserSession(req, res);
+        if (!telegramInstance) return;
+
+        if (!telegramInstance.isReady()) {
+            return res.status(400).json({
+                success: false,
+                error: 'Telegram client is not initialized'
+            });
+        }
+
+        await telegramInstance.catchUp();
+
+        res.json({
+            success: true,
+            message: 'Telegram catch-up completed'
+        });
+    } catch (error) {
+        console.error('Error catching up Telegram:', error);
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
 /**
  * Reset Telegram session
  */
-router.post('/reset', async (req, res) => {
+router.post(sessionPaths('/reset'), async (req, res) => {
     try {
+        const telegramInstance = getUserSession(req, res);
+        if (!telegramInstance) return;
+
         await telegramInstance.reset();
         
         res.json({
@@ -549,8 +752,11 @@ router.post('/reset', async (req, res) => {
 /**
  * Submit verification code
  */
-router.post('/submit-code', async (req, res) => {
+router.post(sessionPaths('/submit-code'), async (req, res) => {
     try {
+        const telegramInstance = getUserSession(req, res);
+        if (!telegramInstance) return;
+
         const { code } = req.body;
         
         if (!code) {
@@ -578,8 +784,11 @@ router.post('/submit-code', async (req, res) => {
 /**
  * Submit 2FA password
  */
-router.post('/submit-password', async (req, res) => {
+router.post(sessionPaths('/submit-password'), async (req, res) => {
     try {
+        const telegramInstance = getUserSession(req, res);
+        if (!telegramInstance) return;
+
         const { password } = req.body;
         
         if (!password) {
@@ -607,8 +816,11 @@ router.post('/submit-password', async (req, res) => {
 /**
  * Get authentication status
  */
-router.get('/auth-status', async (req, res) => {
+router.get(sessionPaths('/auth-status'), async (req, res) => {
     try {
+        const telegramInstance = getUserSession(req, res);
+        if (!telegramInstance) return;
+
         const isReady = telegramInstance.isReady();
         const isWaitingForPhoneCode = telegramInstance.isWaitingForPhoneCode();
         const isWaitingForPassword = telegramInstance.isWaitingForPassword();
@@ -0,0 +1,198 @@
+import { TelegramSendOptions, TelegramSender, TelegramSessionType } from './telegramInstance';
+
+const TELEGRAM_BOT_API_URL = 'https://api.telegram.org';
+const REQUEST_TIMEOUT_MS = 30 * 1000;
+const UPLOAD_TIMEOUT_MS = 5 * 60 * 1000; // Multipart calls carry media of up to 50MB
+
+type BotMediaKind = 'photo' | 'video' | 'audio' | 'document';
+
+/**
+ * Sends through the Telegram Bot API with a bot token. Bots can't read channels they aren't admins of,
+ * so bot sessions are used as WA → TG senders only. Chat IDs must be the full Bot API form (-100… for channels).
+ */
+export class TelegramBotInstance implements TelegramSender {
+    private isInitialized: boolean = false;
+    private botInfo: any = null;
+
+    constructor(private readonly sessionId: string, private readonly botToken: string) {}
+
+    public getSessionId(): string {
+        return this.sessionId;
+    }
+
+    public getSessionType(): TelegramSessionType {
+        return 'bot';
+    }
+
+    /**
+     * Check the token and load the bot's profile
+     */
+    public async initialize(): Promise<void> {
+        this.botInfo = await this.call('getMe');
+        this.isInitialized = true;
+        console.log(`[TelegramBot] Session ${this.sessionId} ready as @${this.botInfo.username}`);
+    }
+
+    public isReady(): boolean {
+        return this.isInitialized;
+    }
+
+    /**
+     * Get client info, shaped like the user session's
+     */
+    public async getClientInfo(): Promise<any> {
+        if (!this.isInitialized) {
+            throw new Error('Telegram bot is not initialized');
+        }
+        return {
+            id: String(this.botInfo.id),
+            firstName: this.botInfo.first_name,
+            lastName: undefined,
+            username: this.botInfo.username,
+            phone: undefined,
+            isBot: true
+        };
+    }
+
+    public async disconnect(): Promise<void> {
+        this.isInitialized = false;
+    }
+
+    /**
+     * Send a text message to a Telegram chat/group/channel
+     * @returns ID of the sent message
+     */
+    public async sendMessageToChat(chatId: string, text: string, replyTo?: number, options: TelegramSendOptions = {}): Promise<number | undefined> {
+        this.ensureReady();
+        const sent = await this.call('sendMessage', {
+            chat_id: chatId,
+            text,
+            ...this.replyParameters(replyTo),
+            ...(options.parseMode ? { parse_mode: 'HTML' } : {}),
+            ...(options.linkPreview === false ? { link_preview_options: { is_disabled: true } } : {})
+        });
+        console.log(`[TelegramBot] Sent text message to ${chatId}`);
+        return sent?.message_id;
+    }
+
+    /**
+     * Send a media file to a Telegram chat/group/channel
+     * @returns ID of the sent message
+     */
+    public async sendMediaToChat(
+        chatId: string,
+        buffer: Buffer,
+        fileName: string,
+        mimeType: string,
+        caption?: string,
+        replyTo?: number,
+        options: TelegramSendOptions = {}
+    ): Promise<number | undefined> {
+        this.ensureReady();
+        const kind = this.getMediaKind(mimeType);
+        const form = this.createForm(chatId, replyTo);
+        if (caption) {
+            form.append('caption', caption);
+            if (options.parseMode) form.append('parse_mode', 'HTML');
+        }
+        form.append(kind, new Blob([new Uint8Array(buffer)], { type: mimeType }), fileName);
+
+        const sent = await this.call(`send${kind.charAt(0).toUpperCase()}${kind.slice(1)}`, form);
+        console.log(`[TelegramBot] Sent media to ${chatId}: ${fileName}`);
+        return sent?.message_id;
+    }
+
+    /**
+     * Send several media files as albums (up to 10 files each), with the caption on the first file
+     * @returns ID of the message that carries the caption
+     */
+    public async sendAlbumToChat(
+        chatId: string,
+        files: { buffer: Buffer; fileName: string; mimeType: string }[],
+        caption?: string,
+        replyTo?: number,
+        options: TelegramSendOptions = {}
+    ): Promise<number | undefined> {
+        this.ensureReady();
+        let captionMessageId: number | undefined;
+
+        for (let start = 0; start < files.length; start += 10) {
+            const chunk = files.slice(start, start + 10);
+            const chunkCaption = start === 0 ? caption : undefined;
+            const chunkReplyTo = start === 0 ? replyTo : undefined;
+
+            // A media group needs at least two files
+            if (chunk.length === 1) {
+                const id = await this.sendMediaToChat(chatId, chunk[0].buffer, chunk[0].fileName, chunk[0].mimeType, chunkCaption, chunkReplyTo, options);
+                if (start === 0) captionMessageId = id;
+                continue;
+            }
+
+            // Photos and videos can be mixed in an album, anything else goes as documents
+            const asDocuments = chunk.some(file => !file.mimeType.startsWith('image/') && !file.mimeType.startsWith('video/'));
+            const form = this.createForm(chatId, chunkReplyTo);
+            form.append('media', JSON.stringify(chunk.map((file, index) => ({
+                type: asDocuments ? 'document' : this.getMediaKind(file.mimeType),
+                media: `attach://file${index}`,
+                caption: index === 0 ? chunkCaption : undefined,
+                parse_mode: index === 0 && chunkCaption && options.parseMode ? 'HTML' : undefined
+            }))));
+            chunk.forEach((file, index) => {
+                form.append(`file${index}`, new Blob([new Uint8Array(file.buffer)], { type: file.mimeType }), file.fileName);
+            });
+
+            const sent = await this.call('sendMediaGroup', form);
+            if (start === 0) {
+                captionMessageId = Array.isArray(sent) ? sent[0]?.message_id : undefined;
+            }
+        }
+
+        console.log(`[TelegramBot] Sent album of ${files.length} file(s) to ${chatId}`);
+        return captionMessageId;
+    }
+
+    private ensureReady(): void {
+        if (!this.isInitialized) {
+            throw new Error('Telegram bot is not initialized');
+        }
+    }
+
+    private getMediaKind(mimeType: string): BotMediaKind {
+        if (mimeType.startsWith('image/') && mimeType !== 'image/gif') return 'photo';
+        if (mimeType.startsWith('video/')) return 'video';
+        if (mimeType.startsWith('audio/')) return 'audio';
+        return 'document';
+    }
+
+    private replyParameters(replyTo?: number): { reply_parameters?: { message_id: number; allow_sending_without_reply: boolean } } {
+        return replyTo ? { reply_parameters: { message_id: replyTo, allow_sending_without_reply: true } } : {};
+    }
+
+    private createForm(chatId: string, replyTo?: number): FormData {
+        const form = new FormData();
+        form.append('chat_id', chatId);
+        const { reply_parameters } = this.replyParameters(replyTo);
+        if (reply_parameters) {
+            form.append('reply_parameters', JSON.stringify(reply_parameters));
+        }
+        return form;
+    }
+
+    /**
+     * Call a Bot API method with a JSON or multipart body
+     * @returns The method's result
+     */
+    private async call(method: string, body: Record<string, unknown> | FormData = {}): Promise<any> {
+        const response = await fetch(`${TELEGRAM_BOT_API_URL}/bot${this.botToken}/${method}`, body instanceof FormData
+            ? { method: 'POST', body, signal: AbortSignal.timeout(UPLOAD_TIMEOUT_MS) }
+            : { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body), signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) }
+        );
+        const data: any = await response.json();
+        if (!data.ok) {
+            throw new Error(`Telegram Bot API ${method} failed: ${data.description || response.status}`);
+        }
+        return data.result;
+    }
+}
+
+export default TelegramBotInstance;
@@ -1,16 +1,32 @@
 import { TelegramClient } from 'telegram';
 import { StringSession } from 'telegram/sessions';
 import { NewMessage } from 'telegram/events';
+import { EditedMessage } from 'telegram/events/EditedMessage';
+import { DeletedMessage } from 'telegram/events/DeletedMessage';
 import { Api } from 'telegram/tl';
 import { helpers } from 'telegram';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as dotenv from 'dotenv';
 import { configManager } from './configManager';
-import { getActiveListeningConfigs } from './db';
+import { getActiveListeningConfigs, getTelegramCheckpoints, saveTelegramCheckpoint } from './db';
+import { routeEngine } from './routeEngine';
 // Load environment variables
 dotenv.config();
 
+// The session that existed before multiple accounts: keeps telegram_session.txt and the legacy channel config
+export const DEFAULT_TELEGRAM_SESSION_ID = 'default';
+
+export type TelegramSessionType = 'user' | 'bot';
+
+/**
+ * Where a user session keeps its login
+ */
+export interface TelegramSessionOptions {
+    sessionId: string;
+    sessionFilePath?: string; // telegram_session.txt in the working directory when unset
+}
+
 export interface TelegramChannel {
     id: string;
     title: string;
@@ -38,21 +54,78 @@ export interface TelegramMessage {
     mediaFileName?: string;
     mediaMimeType?: string;
     mediaSkippedReason?: 'size_limit' | 'download_failed';
+    replyToMessageId?: number; // ID of the message this one replies to, in the same chat
+    groupedId?: string;
+    album?: TelegramMessage[]; // Parts of an album in order, each with its own media (set on the combined message)
+    sessionId?: string; // Telegram session that received the message
+}
+
+export interface TelegramDeletion {
+    channelId?: string; // Only known for channels and supergroups
+    messageIds: number[];
+}
+
+export interface TelegramSendOptions {
+    parseMode?: 'html'; // Text and captions are Telegram HTML (plain text when unset)
+    linkPreview?: boolean; // Show a preview of the first link (default true)
+}
+
+/**
+ * What forwarding to Telegram needs from a Telegram session; user sessions and bots both provide it
+ */
+export interface TelegramSender {
+    getSessionId(): string;
+    getSessionType(): TelegramSessionType;
+    isReady(): boolean;
+    getClientInfo(): Promise<any>;
+    disconnect(): Promise<void>;
+    sendMessageToChat(chatId: string, text: string, replyTo?: number, options?: TelegramSendOptions): Promise<number | undefined>;
+    sendMediaToChat(
+        chatId: string,
+        buffer: Buffer,
+        fileName: string,
+        mimeType: string,
+        caption?: string,
+        replyTo?: number,
+        options?: TelegramSendOptions
+    ): Promise<number | undefined>;
+    sendAlbumToChat(
+        chatId: string,
+        files: { buffer: Buffer; fileName: string; mimeType: string }[],
+        caption?: string,
+        replyTo?: number,
+        options?: TelegramSendOptions
+    ): Promise<number | undefined>;
 }
 
-export class TelegramInstance {
+export class TelegramInstance implements TelegramSender {
     private client!: TelegramClient; // Add ! to indicate it will be assigned
     private isInitialized: boolean = false;
     private sessionString: string = '';
     private sessionFilePath: string;
+    private readonly sessionId: string;
     private listeningChannels: Set<string> = new Set();
-    private messageHandlers: ((message: TelegramMessage) => void)[] = [];
+    private messageHandlers: ((message: TelegramMessage) => void | Promise<void>)[] = [];
+    private messageFilter: ((message: TelegramMessage) => boolean) | null = null;
+    private editHandlers: ((message: TelegramMessage) => void)[] = [];
+    private deleteHandlers: ((deletion: TelegramDeletion) => void)[] = [];
+    // Album parts arrive as separate messages sharing a groupedId; they are collected for a short window
+    private albumBuffers: Map<string, { parts: { raw: any; message: TelegramMessage }[]; timer: NodeJS.Timeout | null }> = new Map();
+    private readonly albumWindowMs: number = 1500;
+    // Checkpoint per channel (mirrors the persisted checkpoints)
+    private checkpoints: Map<string, number> = new Map();
+    // Messages per channel that were taken in but are not handled yet or whose handlers failed,
+    // and the highest message ID settled; they hold the checkpoint back (see settleMessages)
+    private progress: Map<string, { pending: Set<number>; failed: Set<number>; highest: number }> = new Map();
+    private isCatchingUp: boolean = false;
     // Authentication state management
     private isAuthenticating: boolean = false;
     private phoneCodeResolver: ((code: string) => void) | null = null;
     private passwordResolver: ((password: string) => void) | null = null;
     // Add this property to store event handler reference
     private currentEventHandler: any = null;
+    private currentEditHandler: any = null;
+    private currentDeleteHandler: any = null;
     
     // Add keep-alive properties
     private keepAliveInterval: NodeJS.Timeout | null = null;
@@ -61,8 +134,9 @@ export class TelegramInstance {
     private reconnectAttempts: number = 0;
     private maxReconnectAttempts: number = 5;
 
-    constructor() {
-        this.sessionFilePath = path.join(process.cwd(), 'telegram_session.txt');
+    constructor(options: TelegramSessionOptions = { sessionId: DEFAULT_TELEGRAM_SESSION_ID }) {
+        this.sessionId = options.sessionId;
+        this.sessionFilePath = options.sessionFilePath || path.join(process.cwd(), 'telegram_session.txt');
         
         // Load existing session if available
         this.loadSession();
@@ -96,11 +170,26 @@ export class TelegramInstance {
         }
     }
 
+    public getSessionId(): string {
+        return this.sessionId;
+    }
+
+    public getSessionType(): TelegramSessionType {
+        return 'user';
+    }
+
+    /**
+     * The legacy channel config belongs to the default session; other sessions only listen to their routes
+     */
+    private isDefaultSession(): boolean {
+        return this.sessionId === DEFAULT_TELEGRAM_SESSION_ID;
+    }
+
     /**
      * Load listening channels from config
      */
     private loadListeningChannelsFromConfig(): void {
-        const configChannels = configManager.getTelegramChannelIds();
+        const configChannels = this.isDefaultSession() ? configManager.getTelegramChannelIds() : routeEngine.getSourceIds('telegram', this.sessionId);
         this.listeningChannels = new Set(configChannels);
         if (configChannels.length > 0) {
             // console.log(`Loaded ${configChannels.length} listening channels from config:`, configChannels);
@@ -111,6 +200,7 @@ export class TelegramInstance {
      * Save listening channels to config
      */
     private async saveListeningChannelsToConfig(): Promise<void> {
+        if (!this.isDefaultSession()) return;
         try {
             const channelArray = Array.from(this.listeningChannels);
             await configManager.setTelegramChannelIds(channelArray);
@@ -162,8 +252,12 @@ export class TelegramInstance {
             this.sessionString = this.client.session.save() as unknown as string;
             this.saveSession();
             
-            console.log('Telegram client is ready!');
+            console.log(`Telegram client is ready! (session ${this.sessionId})`);
             console.log('Logged in as:', (await this.client.getMe()).firstName);
+
+            if (this.messageHandlers.length) {
+                void this.catchUp();
+            }
             
             // Auto-start listening to configured channels
             if (this.listeningChannels.size > 0) {
@@ -245,6 +339,11 @@ export class TelegramInstance {
             }
             
             console.log('Telegram client restarted successfully with session');
+
+            // Pick up what was posted while disconnected
+            if (this.messageHandlers.length) {
+                void this.catchUp();
+            }
             return true;
         } catch (error) {
             console.error('Error restarting Telegram client:', error);
@@ -288,6 +387,8 @@ export class TelegramInstance {
             
             // Clear message handlers
             this.messageHandlers = [];
+            this.editHandlers = [];
+            this.deleteHandlers = [];
 
             console.log('Telegram client reset successfully');
         } catch (error) {
@@ -396,12 +497,24 @@ export class TelegramInstance {
         return Array.from(this.listeningChannels);
     }
 
+    /**
+     * Gate incoming messages before their media is downloaded (e.g. route content filters)
+     */
+    public setMessageFilter(filter: ((message: TelegramMessage) => boolean) | null): void {
+        this.messageFilter = filter;
+    }
+
     /**
      * Add a message handler
      * @param handler Function to handle incoming messages
      */
-    public onMessage(handler: (message: TelegramMessage) => void): void {
+    public onMessage(handler: (message: TelegramMessage) => void | Promise<void>): void {
         this.messageHandlers.push(handler);
+
+        // First handler: forwarding (re)started, pick up what was posted in the meantime
+        if (this.messageHandlers.length === 1 && this.isInitialized) {
+            void this.catchUp();
+        }
         
         // Start keep-alive if we now have forwarding rules and it's not already active
         if (this.hasActiveForwardingRules() && !this.isKeepAliveActive) {
@@ -413,7 +526,7 @@ export class TelegramInstance {
      * Remove a message handler
      * @param handler Function to remove
      */
-    public removeMessageHandler(handler: (message: TelegramMessage) => void): void {
+    public removeMessageHandler(handler: (message: TelegramMessage) => void | Promise<void>): void {
         const index = this.messageHandlers.indexOf(handler);
         if (index > -1) {
             this.messageHandlers.splice(index, 1);
@@ -425,6 +538,28 @@ export class TelegramInstance {
         }
     }
 
+    /**
+     * Add a handler for edited messages in listened channels (media is not downloaded again)
+     */
+    public onMessageEdit(handler: (message: TelegramMessage) => void): void {
+        this.editHandlers.push(handler);
+    }
+
+    public removeMessageEditHandler(handler: (message: TelegramMessage) => void): void {
+        this.editHandlers = this.editHandlers.filter(h => h !== handler);
+    }
+
+    /**
+     * Add a handler for deleted messages
+     */
+    public onMessageDelete(handler: (deletion: TelegramDeletion) => void): void {
+        this.deleteHandlers.push(handler);
+    }
+
+    public removeMessageDeleteHandler(handler: (deletion: TelegramDeletion) => void): void {
+        this.deleteHandlers = this.deleteHandlers.filter(h => h !== handler);
+    }
+
     /**
      * Get client info
      */
@@ -509,6 +644,306 @@ export class TelegramInstance {
         }
     }
 
+    /**
+     * Get the channel ID of a message without the -100 / - prefix
+     */
+    private getFixedChatId(message: any): { chatId: string; fixedId: string } | null {
+        // Fix: Handle BigInt-like Integer object properly
+        const chatId = message.chatId?.value?.toString() || message.chatId?.toString();
+        if (!chatId) return null;
+        const fixedId = chatId.startsWith('-100')?chatId.replace('-100', ''):chatId.replace('-', '');
+        return { chatId, fixedId };
+    }
+
+    /**
+     * Build the message object of an incoming or edited message, without media
+     */
+    private async buildTelegramMessage(message: any, chatId: string, fixedId: string): Promise<TelegramMessage> {
+        let titel = ''
+        const entity = await this.client.getEntity(chatId);
+        // console.log('entity:', entity);
+        if (entity.className === "Channel" || entity.className === "Chat") {
+            titel = entity.title;
+          } else if (entity.className === "User") {
+            titel = entity.firstName + ' ' + entity.lastName;
+          }
+        // Create message object
+        return {
+            id: message.id,
+            text: message.text || '',
+            date: new Date(message.date * 1000),
+            senderId: message.senderId?.value?.toString() || message.senderId?.toString(),
+            senderName: await this.getSenderName(message),
+            channelId: fixedId,
+            channelTitle: titel || message.chatTitle || 'Unknown', // Use the fetched title first
+            isForwarded: !!message.fwdFrom,
+            forwardedFrom: this.getForwardedFromName(message.fwdFrom),
+            mediaType: this.getMediaType(message),
+            hasMedia: !!message.media,
+            replyToMessageId: message.replyTo?.replyToMsgId,
+            sessionId: this.sessionId
+        };
+    }
+
+    /**
+     * Download the media of a message if present, but check size first
+     */
+    private async attachMedia(message: any, telegramMessage: TelegramMessage): Promise<void> {
+        if (!message.media) return;
+
+        const mediaSize = this.getMediaSize(message);
+        const maxSizeBytes = 85 * 1024 * 1024; // 85 MB in bytes
+        
+        if (mediaSize && mediaSize > maxSizeBytes) {
+            console.log(`Skipping media download - file size (${Math.round(mediaSize / (1024 * 1024))} MB) exceeds 85 MB limit. Text will still be forwarded.`);
+            // Still set media properties but without buffer
+            telegramMessage.mediaType = this.getMediaType(message);
+            telegramMessage.hasMedia = true;
+            telegramMessage.mediaFileName = this.getMediaFileName(message);
+            telegramMessage.mediaMimeType = this.getMediaMimeType(message);
+            telegramMessage.mediaSkippedReason = 'size_limit';
+        } else {
+            const mediaData = await this.downloadMedia(message);
+            if (mediaData) {
+                telegramMessage.mediaBuffer = mediaData.buffer;
+                telegramMessage.mediaFileName = mediaData.fileName;
+                telegramMessage.mediaMimeType = mediaData.mimeType;
+            } else {
+                telegramMessage.mediaSkippedReason = 'download_failed';
+            }
+        }
+    }
+
+    /**
+     * Call all message handlers and wait for them to finish
+     * @returns Whether every handler succeeded
+     */
+    private async emitMessage(telegramMessage: TelegramMessage): Promise<boolean> {
+        const results = await Promise.allSettled(
+            this.messageHandlers.map(handler => Promise.resolve().then(() => handler(telegramMessage)))
+        );
+        results.forEach((result, index) => {
+            if (result.status === 'fulfilled') {
+                console.log(`Message handler ${index + 1} completed successfully`);
+            } else {
+                console.error(`Error in message handler ${index + 1}:`, result.reason);
+            }
+        });
+        return results.every(result => result.status === 'fulfilled');
+    }
+
+    /**
+     * Hand a message to the handlers and settle its IDs once they finished (see settleMessages)
+     */
+    private async dispatchMessage(telegramMessage: TelegramMessage, chatId: string): Promise<void> {
+        const handled = await this.emitMessage(telegramMessage);
+        this.settleMessages(telegramMessage.channelId, chatId, this.messageIds(telegramMessage), handled);
+    }
+
+    /**
+     * IDs of a message, or of every part of an album
+     */
+    private messageIds(telegramMessage: TelegramMessage): number[] {
+        return telegramMessage.album ? telegramMessage.album.map(part => part.id) : [telegramMessage.id];
+    }
+
+    /**
+     * Collect an album part; the album is delivered once no new part arrived for albumWindowMs
+     */
+    private bufferAlbumPart(key: string, chatId: string, raw: any, message: TelegramMessage): void {
+        const buffer = this.albumBuffers.get(key) || { parts: [], timer: null };
+        if (buffer.timer) clearTimeout(buffer.timer);
+
+        buffer.parts.push({ raw, message });
+        buffer.timer = setTimeout(() => {
+            this.albumBuffers.delete(key);
+            void this.deliverAlbum(chatId, buffer.parts);
+        }, this.albumWindowMs);
+        this.albumBuffers.set(key, buffer);
+    }
+
+    /**
+     * Deliver buffered album parts (or a single message) as one message: the caption comes from the part
+     * that has text, and route filters are applied to the album as a whole before any media is downloaded
+     * @param waitForHandlers Wait for the handlers to finish, not only for the media to be downloaded
+     */
+    private async deliverAlbum(chatId: string, parts: { raw: any; message: TelegramMessage }[], waitForHandlers: boolean = false): Promise<void> {
+        parts.sort((a, b) => a.message.id - b.message.id);
+        const first = parts[0].message;
+        const ids = parts.map(part => part.message.id);
+        try {
+            let message = first;
+            if (parts.length > 1) {
+                const captionPart = parts.find(part => part.message.text) || parts[0];
+                message = {
+                    ...first,
+                    text: captionPart.message.text,
+                    hasMedia: true,
+                    album: parts.map(part => part.message)
+                };
+            }
+
+            // Drop messages no route wants before downloading anything
+            if (this.messageFilter && !this.messageFilter(message)) {
+                this.settleMessages(first.channelId, chatId, ids, true);
+                return;
+            }
+
+            for (const part of parts) {
+                await this.attachMedia(part.raw, part.message);
+            }
+
+            if (parts.length > 1) {
+                console.log(`Album ${first.groupedId} from ${first.channelTitle} collected with ${parts.length} part(s)`);
+            }
+            const dispatched = this.dispatchMessage(message, chatId);
+            if (waitForHandlers) await dispatched;
+        } catch (error) {
+            console.error('Error handling message:', error);
+            this.settleMessages(first.channelId, chatId, ids, false);
+        }
+    }
+
+    /**
+     * Listen to the channels of the active listening config and of all routes
+     */
+    private async refreshListeningChannels(): Promise<void> {
+        const activeConfigs = this.isDefaultSession() ? await getActiveListeningConfigs() : [];
+        this.listeningChannels = new Set([
+            ...(activeConfigs[0]?.telegramChannelIds || []),
+            ...routeEngine.getSourceIds('telegram', this.sessionId)
+        ]);
+    }
+
+    /**
+     * Build a new message from a listened channel and hold the channel's checkpoint below it until it is handled
+     */
+    private async takeIn(message: any): Promise<{ chatId: string; raw: any; message: TelegramMessage } | null> {
+        const ids = this.getFixedChatId(message);
+        if (!ids || !this.listeningChannels.has(ids.fixedId)) return null;
+        // console.log('message form:', message.chatId?.value?.toString() || message.chatId?.toString());
+        if(!this.messageHandlers.length) return null;
+
+        const telegramMessage = await this.buildTelegramMessage(message, ids.chatId, ids.fixedId);
+        const groupedId = message.groupedId?.toString();
+        if (groupedId) {
+            telegramMessage.groupedId = groupedId;
+        }
+
+        this.channelProgress(ids.fixedId).pending.add(message.id);
+        return { chatId: ids.chatId, raw: message, message: telegramMessage };
+    }
+
+    /**
+     * Run a new live message through the handler pipeline; album parts are collected first
+     */
+    private async handleIncomingMessage(message: any): Promise<void> {
+        const taken = await this.takeIn(message);
+        if (!taken) return;
+
+        const { chatId, raw, message: telegramMessage } = taken;
+        if (telegramMessage.groupedId) {
+            this.bufferAlbumPart(`${telegramMessage.channelId}:${telegramMessage.groupedId}`, chatId, raw, telegramMessage);
+            return;
+        }
+        await this.deliverAlbum(chatId, [{ raw, message: telegramMessage }]);
+    }
+
+    private channelProgress(channelId: string): { pending: Set<number>; failed: Set<number>; highest: number } {
+        let progress = this.progress.get(channelId);
+        if (!progress) {
+            progress = { pending: new Set(), failed: new Set(), highest: 0 };
+            this.progress.set(channelId, progress);
+        }
+        return progress;
+    }
+
+    /**
+     * Mark messages handled (delivered or filtered out) or failed, and move the channel's checkpoint up to
+     * just below the lowest message still pending or failed, so those are caught up again after a restart
+     */
+    private settleMessages(channelId: string, chatId: string, messageIds: number[], handled: boolean): void {
+        const progress = this.channelProgress(channelId);
+        for (const id of messageIds) {
+            progress.pending.delete(id);
+            if (handled) progress.failed.delete(id);
+            else progress.failed.add(id);
+            progress.highest = Math.max(progress.highest, id);
+        }
+
+        const held = [...Array.from(progress.pending), ...Array.from(progress.failed)];
+        const checkpoint = held.length > 0 ? Math.min(...held) - 1 : progress.highest;
+        if ((this.checkpoints.get(channelId) ?? 0) >= checkpoint) return;
+        this.checkpoints.set(channelId, checkpoint);
+        saveTelegramCheckpoint(channelId, chatId, checkpoint).catch(error => {
+            console.error(`[Telegram] Error saving checkpoint for channel ${channelId}:`, error);
+        });
+    }
+
+    /**
+     * Fetch the posts published in listened channels since their checkpoint (e.g. while the process
+     * was down or reconnecting) and run them through the normal pipeline one by one, oldest first.
+     * Bounded by the catch-up settings; channels without a checkpoint are not caught up.
+     */
+    public async catchUp(): Promise<void> {
+        const settings = configManager.getTelegramCatchUpSettings();
+        if (!settings.enabled || this.isCatchingUp || !this.isInitialized || !this.messageHandlers.length) {
+            return;
+        }
+
+        this.isCatchingUp = true;
+        try {
+            await this.refreshListeningChannels();
+            const oldestDate = Date.now() - settings.maxAgeMinutes * 60 * 1000;
+
+            for (const checkpoint of await getTelegramCheckpoints()) {
+                if (!this.listeningChannels.has(checkpoint.channelId)) continue;
+
+                try {
+                    const entity = await this.client.getEntity(checkpoint.chatId);
+                    // Newest first, so the most recent posts are kept when over the limit
+                    const messages = await this.client.getMessages(entity, {
+                        minId: checkpoint.lastMessageId,
+                        limit: settings.maxMessages
+                    });
+                    const missed = messages
+                        .filter((message: any) =>
+                            message?.className === 'Message' &&
+                            message.id > checkpoint.lastMessageId &&
+                            message.date * 1000 >= oldestDate
+                        )
+                        .sort((a: any, b: any) => a.id - b.id);
+                    if (missed.length === 0) continue;
+
+                    console.log(`[Telegram] Catching up ${missed.length} missed message(s) in channel ${checkpoint.channelId}`);
+                    // Album parts are consecutive, so each album is delivered once its last part was read
+                    let album: { raw: any; message: TelegramMessage }[] = [];
+                    for (const message of missed) {
+                        const taken = await this.takeIn(message);
+                        if (!taken) continue;
+
+                        if (album.length > 0 && album[0].message.groupedId !== taken.message.groupedId) {
+                            await this.deliverAlbum(taken.chatId, album, true);
+                            album = [];
+                        }
+                        if (taken.message.groupedId) {
+                            album.push({ raw: taken.raw, message: taken.message });
+                        } else {
+                            await this.deliverAlbum(taken.chatId, [{ raw: taken.raw, message: taken.message }], true);
+                        }
+                    }
+                    if (album.length > 0) {
+                        await this.deliverAlbum(checkpoint.chatId, album, true);
+                    }
+                } catch (error) {
+                    console.error(`[Telegram] Error catching up channel ${checkpoint.channelId}:`, error);
+                }
+            }
+        } finally {
+            this.isCatchingUp = false;
+        }
+    }
+
     /**
      * Setup event handlers for the Telegram client
      */
@@ -517,6 +952,12 @@ export class TelegramInstance {
         if (this.currentEventHandler) {
             this.client.removeEventHandler(this.currentEventHandler, new NewMessage({}));
         }
+        if (this.currentEditHandler) {
+            this.client.removeEventHandler(this.currentEditHandler, new EditedMessage({}));
+        }
+        if (this.currentDeleteHandler) {
+            this.client.removeEventHandler(this.currentDeleteHandler, new DeletedMessage({}));
+        }
         
         // Create and store the handler
         this.currentEventHandler = async (event: any) => {
@@ -524,85 +965,59 @@ export class TelegramInstance {
                 const message = event.message;
 
                 if (!message) return;
-                const activeConfigs = await getActiveListeningConfigs();
-                this.listeningChannels = new Set(activeConfigs[0]?.telegramChannelIds);
-
-
-                // Fix: Handle BigInt-like Integer object properly
-                const chatId = message.chatId?.value?.toString() || message.chatId?.toString();
-                const fixedId = chatId.startsWith('-100')?chatId.replace('-100', ''):chatId.replace('-', '');
-                if (!chatId || !this.listeningChannels.has(fixedId)) return;
-                // console.log('message form:', message.chatId?.value?.toString() || message.chatId?.toString());
-                if(!this.messageHandlers.length) return;
-
-                let titel = ''
-                const entity = await this.client.getEntity(chatId);
-                // console.log('entity:', entity);
-                if (entity.className === "Channel" || entity.className === "Chat") {
-                    titel = entity.title;
-                  } else if (entity.className === "User") {
-                    titel = entity.firstName + ' ' + entity.lastName;
-                  }
-                // Create message object
-                const telegramMessage: TelegramMessage = {
-                    id: message.id,
-                    text: message.text || '',
-                    date: new Date(message.date * 1000),
-                    senderId: message.senderId?.value?.toString() || message.senderId?.toString(),
-                    senderName: await this.getSenderName(message),
-                    channelId: fixedId,
-                    channelTitle: titel || message.chatTitle || 'Unknown', // Use the fetched title first
-                    isForwarded: !!message.fwdFrom,
-                    forwardedFrom: this.getForwardedFromName(message.fwdFrom),
-                    mediaType: this.getMediaType(message),
-                    hasMedia: !!message.media
-                };
+                await this.refreshListeningChannels();
+                await this.handleIncomingMessage(message);
+            } catch (error) {
+                console.error('Error handling message event:', error);
+            }
+        };
+        
+        this.client.addEventHandler(this.currentEventHandler, new NewMessage({}));
 
-                // Download media if present, but check size first
-                if (message.media) {
-                    const mediaSize = this.getMediaSize(message);
-                    const maxSizeBytes = 85 * 1024 * 1024; // 85 MB in bytes
-                    
-                    if (mediaSize && mediaSize > maxSizeBytes) {
-                        console.log(`Skipping media download - file size (${Math.round(mediaSize / (1024 * 1024))} MB) exceeds 85 MB limit. Text will still be forwarded.`);
-                        // Still set media properties but without buffer
-                        telegramMessage.mediaType = this.getMediaType(message);
-                        telegramMessage.hasMedia = true;
-                        telegramMessage.mediaFileName = this.getMediaFileName(message);
-                        telegramMessage.mediaMimeType = this.getMediaMimeType(message);
-                        telegramMessage.mediaSkippedReason = 'size_limit';
-                    } else {
-                        const mediaData = await this.downloadMedia(message);
-                        if (mediaData) {
-                            telegramMessage.mediaBuffer = mediaData.buffer;
-                            telegramMessage.mediaFileName = mediaData.fileName;
-                            telegramMessage.mediaMimeType = mediaData.mimeType;
-                        } else {
-                            telegramMessage.mediaSkippedReason = 'download_failed';
-                        }
-                    }
-                }
+        this.currentEditHandler = async (event: any) => {
+            try {
+                const message = event.message;
+                if (!message || !this.editHandlers.length) return;
 
-                // console.log(`New message from ${telegramMessage.channelTitle}: ${telegramMessage.text.substring(0, 100)}${telegramMessage.text.length > 100 ? '...' : ''}`);
-                // console.log(`Channel ID: ${telegramMessage.channelId}`);
-                // console.log(`Number of message handlers: ${this.messageHandlers.length}`);
+                const ids = this.getFixedChatId(message);
+                if (!ids || !this.listeningChannels.has(ids.fixedId)) return;
 
-                // Call all message handlers
-                this.messageHandlers.forEach((handler, index) => {
+                const telegramMessage = await this.buildTelegramMessage(message, ids.chatId, ids.fixedId);
+                this.editHandlers.forEach(handler => {
                     try {
-                        // console.log(`Calling message handler ${index + 1}/${this.messageHandlers.length}`);
                         handler(telegramMessage);
-                        console.log(`Message handler ${index + 1} completed successfully`);
                     } catch (error) {
-                        console.error(`Error in message handler ${index + 1}:`, error);
+                        console.error('Error in message edit handler:', error);
                     }
                 });
             } catch (error) {
-                console.error('Error handling message event:', error);
+                console.error('Error handling message edit event:', error);
             }
         };
-        
-        this.client.addEventHandler(this.currentEventHandler, new NewMessage({}));
+        this.client.addEventHandler(this.currentEditHandler, new EditedMessage({}));
+
+        this.currentDeleteHandler = async (event: any) => {
+            try {
+                if (!this.deleteHandlers.length || !event.deletedIds?.length) return;
+
+                const deletion: TelegramDeletion = {
+                    channelId: event.peer?.channelId?.toString(),
+                    messageIds: event.deletedIds
+                };
+                if (deletion.channelId && !this.listeningChannels.has(deletion.channelId)) return;
+
+                this.deleteHandlers.forEach(handler => {
+                    try {
+                        handler(deletion);
+                    } catch (error) {
+                        console.error('Error in message delete handler:', error);
+                    }
+                });
+            } catch (error) {
+                console.error('Error handling message delete event:', error);
+            }
+        };
+        this.client.addEventHandler(this.currentDeleteHandler, new DeletedMessage({}));
     }
 
     /**
@@ -693,6 +1108,7 @@ export class TelegramInstance {
      */
     private saveSession(): void {
         try {
+            fs.mkdirSync(path.dirname(this.sessionFilePath), { recursive: true });
             fs.writeFileSync(this.sessionFilePath, this.sessionString);
             console.log('Telegram session saved');
         } catch (error) {
@@ -828,27 +1244,37 @@ export class TelegramInstance {
 
     /**
      * Send a text message to a Telegram chat/group/channel
+     * @returns ID of the sent message
      */
-    public async sendMessageToChat(chatId: string, text: string): Promise<void> {
+    public async sendMessageToChat(chatId: string, text: string, replyTo?: number, options: TelegramSendOptions = {}): Promise<number | undefined> {
         if (!this.isInitialized) {
             throw new Error('Telegram client is not initialized');
         }
 
         const peer = await this.client.getEntity(chatId);
-        await this.client.sendMessage(peer, { message: text });
+        const sent = await this.client.sendMessage(peer, {
+            message: text,
+            replyTo,
+            ...(options.parseMode ? { parseMode: options.parseMode } : {}),
+            ...(options.linkPreview === false ? { linkPreview: false } : {})
+        });
         console.log(`[Telegram] Sent text message to ${chatId}`);
+        return sent?.id;
     }
 
     /**
      * Send a media file to a Telegram chat/group/channel
+     * @returns ID of the sent message
      */
     public async sendMediaToChat(
         chatId: string,
         buffer: Buffer,
         fileName: string,
         mimeType: string,
-        caption?: string
-    ): Promise<void> {
+        caption?: string,
+        replyTo?: number,
+        options: TelegramSendOptions = {}
+    ): Promise<number | undefined> {
         if (!this.isInitialized) {
             throw new Error('Telegram client is not initialized');
         }
@@ -863,12 +1289,15 @@ export class TelegramInstance {
 
         try {
             const peer = await this.client.getEntity(chatId);
-            await this.client.sendFile(peer, {
+            const sent = await this.client.sendFile(peer, {
                 file: tempFilePath,
                 caption: caption || '',
                 forceDocument: !mimeType.startsWith('image/') && !mimeType.startsWith('video/'),
+                replyTo,
+                ...(options.parseMode ? { parseMode: options.parseMode } : {}),
             });
             console.log(`[Telegram] Sent media to ${chatId}: ${fileName}`);
+            return sent?.id;
         } finally {
             try {
                 if (fs.existsSync(tempFilePath)) {
@@ -878,6 +1307,62 @@ export class TelegramInstance {
         }
     }
 
+    /**
+     * Send several media files to a Telegram chat as albums (up to 10 files each), with the caption on the first file
+     * @returns ID of the message that carries the caption
+     */
+    public async sendAlbumToChat(
+        chatId: string,
+        files: { buffer: Buffer; fileName: string; mimeType: string }[],
+        caption?: string,
+        replyTo?: number,
+        options: TelegramSendOptions = {}
+    ): Promise<number | undefined> {
+        if (!this.isInitialized) {
+            throw new Error('Telegram client is not initialized');
+        }
+
+        const tempDir = path.join(process.cwd(), 'temp', 'wa_to_tg');
+        if (!fs.existsSync(tempDir)) {
+            fs.mkdirSync(tempDir, { recursive: true });
+        }
+
+        const tempFilePaths = files.map((file, index) => {
+            const tempFilePath = path.join(tempDir, `${Date.now()}_${index}_${file.fileName}`);
+            fs.writeFileSync(tempFilePath, file.buffer);
+            return tempFilePath;
+        });
+
+        try {
+            const peer = await this.client.getEntity(chatId);
+            let captionMessageId: number | undefined;
+            for (let start = 0; start < files.length; start += 10) {
+                const chunk = files.slice(start, start + 10);
+                const sent: any = await this.client.sendFile(peer, {
+                    file: tempFilePaths.slice(start, start + 10),
+                    caption: start === 0 ? caption || '' : '',
+                    // Photos and videos can be mixed in an album, anything else goes as documents
+                    forceDocument: chunk.some(file => !file.mimeType.startsWith('image/') && !file.mimeType.startsWith('video/')),
+                    replyTo: start === 0 ? replyTo : undefined,
+                    ...(options.parseMode ? { parseMode: options.parseMode } : {}),
+                });
+                if (start === 0) {
+                    captionMessageId = Array.isArray(sent) ? sent[0]?.id : sent?.id;
+                }
+            }
+            console.log(`[Telegram] Sent album of ${files.length} file(s) to ${chatId}`);
+            return captionMessageId;
+        } finally {
+            for (const tempFilePath of tempFilePaths) {
+                try {
+                    if (fs.existsSync(tempFilePath)) {
+                        fs.unlinkSync(tempFilePath);
+                    }
+                } catch { /* ignore cleanup errors */ }
+            }
+        }
+    }
+
     /**
      * Start keep-alive mechanism to maintain connection
      */
@@ -0,0 +1,281 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    TelegramOutboundItem,
+    saveTelegramOutboundItem,
+    deleteTelegramOutboundItem,
+    getTelegramOutboundItems
+} from './db';
+import { configManager } from './configManager';
+import { getBackoffDelay, RetryExhaustedError } from './retryPolicy';
+import { storeDeadLetterMedia, recordDeadLetter, createTelegramDeadLetter } from './deadLetters';
+import { loopGuard } from './loopGuard';
+import { toTelegramHtml } from './messageTemplate';
+import { TelegramSender, TelegramSendOptions } from './telegramInstance';
+
+/**
+ * One Telegram send: a text message, or media (one file) or an album (several) with the text as caption
+ */
+export interface TelegramOutboundSend {
+    sessionId: string;
+    chatId: string;
+    sourceMessageId: string; // Source message it delivers
+    text: string; // As chat members read it; converted to Telegram HTML when options.parseMode is 'html'
+    files?: { buffer: Buffer; fileName: string; mimeType: string }[];
+    replyTo?: number;
+    options?: TelegramSendOptions;
+}
+
+interface QueueEntry {
+    item: TelegramOutboundItem;
+    // Resolves once the item has been written to the database
+    persisted: Promise<boolean>;
+    // Only set for items enqueued by this process (replayed items have no caller waiting)
+    resolve?: (sentMessageId: number | undefined) => void;
+    reject?: (reason?: any) => void;
+}
+
+/**
+ * Outbound Telegram delivery queue persisted in MongoDB, shared by all Telegram sessions.
+ * Items (and a copy of their media on disk) are kept until delivery succeeds and pending
+ * items are replayed on startup. Failed sends are retried with backoff according to the
+ * chat's retry policy and dead-lettered once it is exhausted. Sends to different chats
+ * run side by side, sends to one chat one at a time.
+ */
+export class TelegramOutboundQueue {
+    private entries: QueueEntry[] = [];
+    private sending: Map<string, QueueEntry> = new Map(); // By chat ID
+    private maxConcurrent: number = 4;
+    private isLoaded: boolean = false;
+    private readonly mediaDir: string;
+
+    constructor(
+        // The session an item is sent through, undefined once it was removed
+        private readonly resolveSender: (sessionId: string) => TelegramSender | undefined
+    ) {
+        this.mediaDir = path.join(process.env.OUTBOUND_QUEUE_MEDIA_PATH || path.join(process.cwd(), 'queue_media'), 'telegram');
+        void this.load();
+        setInterval(() => {
+            this.process();
+        }, 100); // Check queue every 100ms
+    }
+
+    /**
+     * Replay items that were still pending when the process last stopped
+     */
+    private async load(): Promise<void> {
+        try {
+            const items = await getTelegramOutboundItems();
+            const known = new Set(this.entries.map(entry => entry.item.id));
+            const replayed = items
+                .filter(item => !known.has(item.id))
+                .map(item => ({ item, persisted: Promise.resolve(true) }));
+
+            this.entries = [...replayed, ...this.entries];
+            if (replayed.length > 0) {
+                console.log(`[Telegram/Queue] Replaying ${replayed.length} pending message(s) from database`);
+            }
+        } catch (error) {
+            console.error('[Telegram/Queue] Error loading pending messages:', error);
+        } finally {
+            this.isLoaded = true;
+        }
+    }
+
+    /**
+     * Add a send to the queue. Resolves with the sent message ID once it has been delivered,
+     * rejects with a RetryExhaustedError once it was dead-lettered.
+     */
+    public enqueue(send: TelegramOutboundSend): Promise<number | undefined> {
+        const id = `tg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+        const item: TelegramOutboundItem = {
+            id,
+            sessionId: send.sessionId,
+            chatId: send.chatId,
+            sourceMessageId: send.sourceMessageId,
+            text: send.text,
+            files: send.files?.length ? this.keepMedia(id, send.files) : undefined,
+            replyTo: send.replyTo,
+            options: send.options,
+            createdAt: new Date()
+        };
+
+        return new Promise((resolve, reject) => {
+            const persisted = saveTelegramOutboundItem(item).then((saved) => {
+                if (!saved) {
+                    console.warn(`[Telegram/Queue] Message ${id} could not be persisted, delivering from memory only`);
+                }
+                return saved;
+            });
+
+            this.entries.push({ item, persisted, resolve, reject });
+        });
+    }
+
+    /**
+     * Dead-letter the pending items of a removed session, which no sender would deliver
+     * @returns How many items were moved
+     */
+    public async deadLetterSession(sessionId: string): Promise<number> {
+        const inFlight = new Set(this.sending.values());
+        const entries = this.entries.filter(entry => entry.item.sessionId === sessionId && !inFlight.has(entry));
+        for (const entry of entries) {
+            await this.deadLetter(entry, new Error(`Telegram session ${sessionId} was removed`));
+        }
+        return entries.length;
+    }
+
+    /**
+     * Write media into the queue directory so it survives until delivery
+     */
+    private keepMedia(id: string, files: NonNullable<TelegramOutboundSend['files']>): TelegramOutboundItem['files'] {
+        if (!fs.existsSync(this.mediaDir)) {
+            fs.mkdirSync(this.mediaDir, { recursive: true });
+        }
+
+        return files.map((file, index) => {
+            const queuedPath = path.join(this.mediaDir, `${id}_${index}_${path.basename(file.fileName)}`);
+            fs.writeFileSync(queuedPath, file.buffer);
+            return { path: queuedPath, fileName: file.fileName, mimeType: file.mimeType };
+        });
+    }
+
+    private removeMedia(item: TelegramOutboundItem): void {
+        for (const file of item.files || []) {
+            if (fs.existsSync(file.path)) {
+                try { fs.unlinkSync(file.path); } catch (_) {}
+            }
+        }
+    }
+
+    /**
+     * Start the due items of chats that have no send in flight, up to maxConcurrent
+     */
+    private process(): void {
+        if (!this.isLoaded) {
+            return;
+        }
+
+        const now = Date.now();
+        for (const entry of this.entries) {
+            if (this.sending.size >= this.maxConcurrent) {
+                return;
+            }
+            const item = entry.item;
+            if (this.sending.has(item.chatId) || (item.nextAttemptAt && new Date(item.nextAttemptAt).getTime() > now)) {
+                continue;
+            }
+
+            const sender = this.resolveSender(item.sessionId);
+            if (sender && !sender.isReady()) {
+                continue;
+            }
+
+            this.sending.set(item.chatId, entry);
+            void this.send(entry, sender).finally(() => {
+                this.sending.delete(item.chatId);
+            });
+        }
+    }
+
+    private async send(entry: QueueEntry, sender: TelegramSender | undefined): Promise<void> {
+        const item = entry.item;
+        try {
+            await entry.persisted;
+            if (!sender) {
+                await this.deadLetter(entry, new Error(`Telegram session not found: ${item.sessionId}`));
+                return;
+            }
+
+            try {
+                const sentMessageId = await loopGuard.track('telegram', item.chatId, () => this.sendItem(sender, item), item.text);
+                this.complete(entry);
+                entry.resolve?.(sentMessageId);
+            } catch (error) {
+                console.error(`[Telegram/Queue] Failed to send message ${item.id} to chat ${item.chatId}:`, error);
+                await this.handleFailure(entry, error);
+            }
+        } catch (error) {
+            console.error('[Telegram/Queue] Error processing queue:', error);
+        }
+    }
+
+    private sendItem(sender: TelegramSender, item: TelegramOutboundItem): Promise<number | undefined> {
+        const text = item.options?.parseMode === 'html' ? toTelegramHtml(item.text) : item.text;
+        const files = (item.files || []).map(file => ({
+            buffer: fs.readFileSync(file.path),
+            fileName: file.fileName,
+            mimeType: file.mimeType
+        }));
+
+        if (files.length > 1) {
+            return sender.sendAlbumToChat(item.chatId, files, text, item.replyTo, item.options);
+        }
+        if (files.length === 1) {
+            return sender.sendMediaToChat(item.chatId, files[0].buffer, files[0].fileName, files[0].mimeType, text, item.replyTo, item.options);
+        }
+        return sender.sendMessageToChat(item.chatId, text, item.replyTo, item.options);
+    }
+
+    /**
+     * Schedule a retry with backoff, or dead-letter the item once its retry policy is exhausted
+     */
+    private async handleFailure(entry: QueueEntry, error: unknown): Promise<void> {
+        const item = entry.item;
+        const policy = configManager.getRetryPolicy('telegram', item.chatId);
+        item.attempts = (item.attempts || 0) + 1;
+        item.lastError = error instanceof Error ? error.message : String(error);
+
+        if (item.attempts < policy.maxAttempts) {
+            const delay = getBackoffDelay(item.attempts, policy);
+            item.nextAttemptAt = new Date(Date.now() + delay);
+            console.warn(`[Telegram/Queue] Retrying message ${item.id} in ${Math.round(delay / 1000)}s (attempt ${item.attempts}/${policy.maxAttempts})`);
+            entry.persisted = saveTelegramOutboundItem(item);
+            return;
+        }
+
+        await this.deadLetter(entry, error);
+    }
+
+    /**
+     * Move an item and its media (one file, or every file of an album) to the dead letters and fail its caller
+     */
+    private async deadLetter(entry: QueueEntry, error: unknown): Promise<void> {
+        const item = entry.item;
+        const exhausted = new RetryExhaustedError(`[Telegram/Queue] Message ${item.id}`, item.attempts || 0, error);
+        const files = (item.files || [])
+            .map(file => ({ ...file, path: storeDeadLetterMedia(item.id, file.path, file.fileName) }))
+            .filter((file): file is { path: string; fileName: string; mimeType: string } => !!file.path);
+        await recordDeadLetter(createTelegramDeadLetter(item.id, item.sessionId, item.chatId, item.text, exhausted, files.length === 1 ? {
+            mediaPath: files[0].path,
+            mediaFileName: files[0].fileName,
+            mediaMimeType: files[0].mimeType
+        } : files.length > 1 ? { mediaFiles: files } : {}));
+
+        this.entries = this.entries.filter(e => e !== entry);
+        void deleteTelegramOutboundItem(item.id);
+        entry.reject?.(exhausted);
+    }
+
+    /**
+     * Drop a delivered item from memory, the database and the media directory
+     */
+    private complete(entry: QueueEntry): void {
+        this.entries = this.entries.filter(e => e !== entry);
+        this.removeMedia(entry.item);
+        void deleteTelegramOutboundItem(entry.item.id);
+    }
+
+    /**
+     * Get queue status information
+     */
+    public getStatus(): { queueSize: number; sending: number; maxConcurrent: number } {
+        return {
+            queueSize: this.entries.length,
+            sending: this.sending.size,
+            maxConcurrent: this.maxConcurrent
+        };
+    }
+}
+
+export default TelegramOutboundQueue;
@@ -0,0 +1,291 @@
+import * as path from 'path';
+import { configManager, TelegramSessionConfig } from './configManager';
+import { routeEngine } from './routeEngine';
+import { TelegramBotInstance } from './telegramBotInstance';
+import { TelegramOutboundQueue, TelegramOutboundSend } from './telegramOutboundQueue';
+import {
+    DEFAULT_TELEGRAM_SESSION_ID,
+    TelegramDeletion,
+    TelegramInstance,
+    TelegramMessage,
+    TelegramSender,
+    TelegramSessionType
+} from './telegramInstance';
+
+export interface TelegramSessionInfo {
+    id: string;
+    name: string;
+    type: TelegramSessionType;
+    isDefault: boolean;
+    isReady: boolean;
+    isAuthenticating: boolean;
+    listeningChannels: string[];
+}
+
+const SESSION_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+// Path segments of the /telegram API that can't double as session IDs
+const RESERVED_SESSION_IDS = [
+    'sessions', 'initialize', 'status', 'channels', 'info', 'restart', 'catch-up', 'reset',
+    'submit-code', 'submit-password', 'auth-status', 'listen', 'listening', 'listening-channels',
+    'stop-listening', 'start-forwarding', 'stop-forwarding', 'forwarding-status', 'update-config'
+];
+
+const sessionsDir = process.env.TELEGRAM_SESSIONS_PATH || path.join(process.cwd(), 'telegram_sessions');
+
+/**
+ * Check a new session ID; returns an error message, or null when it can be used
+ */
+export function validateTelegramSessionId(id: unknown): string | null {
+    if (typeof id !== 'string' || !SESSION_ID_PATTERN.test(id)) {
+        return 'id must be 1-32 lowercase letters, digits, - or _';
+    }
+    if (id === DEFAULT_TELEGRAM_SESSION_ID || RESERVED_SESSION_IDS.includes(id)) {
+        return `${id} is reserved`;
+    }
+    return null;
+}
+
+/**
+ * Named Telegram sessions: user accounts that read channels and send, and bots that only send.
+ * The default session is the original user login (telegram_session.txt); extra sessions are stored in the config.
+ * Handlers and the message filter registered here apply to every user session, including ones added later.
+ */
+export class TelegramSessionRegistry {
+    private users: Map<string, TelegramInstance> = new Map();
+    private bots: Map<string, TelegramBotInstance> = new Map();
+    private names: Map<string, string> = new Map();
+
+    private messageHandlers: ((message: TelegramMessage) => void | Promise<void>)[] = [];
+    private editHandlers: ((message: TelegramMessage) => void)[] = [];
+    private deleteHandlers: ((deletion: TelegramDeletion) => void)[] = [];
+    private messageFilter: ((message: TelegramMessage) => boolean) | null = null;
+    private readonly outboundQueue = new TelegramOutboundQueue(sessionId => this.get(sessionId));
+
+    constructor(defaultInstance: TelegramInstance) {
+        this.users.set(DEFAULT_TELEGRAM_SESSION_ID, defaultInstance);
+        this.names.set(DEFAULT_TELEGRAM_SESSION_ID, 'Default');
+    }
+
+    /**
+     * Start every configured session. User sessions reconnect with their saved login; new ones log in through the API.
+     */
+    public async initialize(): Promise<void> {
+        await configManager.getConfig();
+        for (const config of configManager.getTelegramSessions()) {
+            if (!this.has(config.id)) {
+                this.addConfigured(config);
+            }
+        }
+    }
+
+    public getDefault(): TelegramInstance {
+        return this.users.get(DEFAULT_TELEGRAM_SESSION_ID) as TelegramInstance;
+    }
+
+    /**
+     * Get a user session by ID; no ID means the default session
+     */
+    public getUser(sessionId?: string): TelegramInstance | undefined {
+        return this.users.get(sessionId || DEFAULT_TELEGRAM_SESSION_ID);
+    }
+
+    /**
+     * Get any session by ID; no ID means the default session
+     */
+    public get(sessionId?: string): TelegramSender | undefined {
+        const id = sessionId || DEFAULT_TELEGRAM_SESSION_ID;
+        return this.users.get(id) || this.bots.get(id);
+    }
+
+    /**
+     * Get the session a destination, mapping or dead letter sends through
+     * @throws When the session doesn't exist (e.g. it was removed after the route was created)
+     */
+    public resolveSender(sessionId?: string): TelegramSender {
+        const session = this.get(sessionId);
+        if (!session) {
+            throw new Error(`Telegram session not found: ${sessionId}`);
+        }
+        return session;
+    }
+
+    /**
+     * Queue a send through a session, retried with backoff and dead-lettered when retries run out
+     * @returns The sent message ID, once delivered
+     * @throws RetryExhaustedError once the send was dead-lettered
+     */
+    public send(send: TelegramOutboundSend): Promise<number | undefined> {
+        return this.outboundQueue.enqueue(send);
+    }
+
+    public has(sessionId: string): boolean {
+        return this.users.has(sessionId) || this.bots.has(sessionId);
+    }
+
+    public isUserSession(sessionId: string): boolean {
+        return this.users.has(sessionId);
+    }
+
+    /**
+     * Whether at least one session can send
+     */
+    public isAnyReady(): boolean {
+        return [...this.users.values(), ...this.bots.values()].some(session => session.isReady());
+    }
+
+    /**
+     * Whether at least one user session can read channels
+     */
+    public isAnyUserReady(): boolean {
+        return Array.from(this.users.values()).some(session => session.isReady());
+    }
+
+    public list(): TelegramSessionInfo[] {
+        const users = Array.from(this.users.entries()).map(([id, session]) => ({
+            id,
+            name: this.names.get(id) || id,
+            type: 'user' as TelegramSessionType,
+            isDefault: id === DEFAULT_TELEGRAM_SESSION_ID,
+            isReady: session.isReady(),
+            isAuthenticating: session.checkIsAuthenticating(),
+            listeningChannels: session.getListeningChannels()
+        }));
+        const bots = Array.from(this.bots.entries()).map(([id, session]) => ({
+            id,
+            name: this.names.get(id) || id,
+            type: 'bot' as TelegramSessionType,
+            isDefault: false,
+            isReady: session.isReady(),
+            isAuthenticating: false,
+            listeningChannels: []
+        }));
+        return [...users, ...bots];
+    }
+
+    /**
+     * Add a session and store it in the config. Bots connect right away; users log in with a phone code.
+     */
+    public async createSession(config: Omit<TelegramSessionConfig, 'createdAt'>): Promise<TelegramSender> {
+        const invalid = validateTelegramSessionId(config.id);
+        if (invalid) {
+            throw new Error(invalid);
+        }
+        if (this.has(config.id)) {
+            throw new Error(`Telegram session already exists: ${config.id}`);
+        }
+        if (config.type === 'bot' && !config.botToken) {
+            throw new Error('botToken is required for bot sessions');
+        }
+
+        const stored: TelegramSessionConfig = { ...config, createdAt: new Date() };
+        await configManager.setTelegramSessions([...configManager.getTelegramSessions(), stored]);
+
+        const session = this.addConfigured(stored);
+        console.log(`[Telegram] Added ${config.type} session ${config.id}`);
+        return session;
+    }
+
+    /**
+     * Disconnect a session and remove it from the config. A user session's login file is kept,
+     * so adding a session with the same ID restores it. Messages still queued for it are moved
+     * to the dead letters.
+     * @returns How many queued messages were dead-lettered
+     */
+    public async removeSession(sessionId: string): Promise<number> {
+        if (sessionId === DEFAULT_TELEGRAM_SESSION_ID) {
+            throw new Error('The default Telegram session cannot be removed');
+        }
+        const session = this.get(sessionId);
+        if (!session) {
+            throw new Error(`Telegram session not found: ${sessionId}`);
+        }
+
+        this.users.delete(sessionId);
+        this.bots.delete(sessionId);
+        this.names.delete(sessionId);
+        await configManager.setTelegramSessions(configManager.getTelegramSessions().filter(s => s.id !== sessionId));
+
+        try {
+            await session.disconnect();
+        } catch (error) {
+            console.error(`[Telegram] Error disconnecting session ${sessionId}:`, error);
+        }
+
+        const deadLettered = await this.outboundQueue.deadLetterSession(sessionId);
+        console.log(`[Telegram] Removed session ${sessionId}${deadLettered ? `, ${deadLettered} queued message(s) dead-lettered` : ''}`);
+        return deadLettered;
+    }
+
+    /**
+     * Listen to the route sources of every connected user session
+     */
+    public async listenToRouteSources(): Promise<void> {
+        for (const [id, session] of this.users) {
+            const channelIds = routeEngine.getSourceIds('telegram', id);
+            if (session.isReady() && channelIds.length > 0) {
+                await session.startListening(channelIds, false);
+            }
+        }
+    }
+
+    public setMessageFilter(filter: ((message: TelegramMessage) => boolean) | null): void {
+        this.messageFilter = filter;
+        this.users.forEach(session => session.setMessageFilter(filter));
+    }
+
+    public onMessage(handler: (message: TelegramMessage) => void | Promise<void>): void {
+        this.messageHandlers.push(handler);
+        this.users.forEach(session => session.onMessage(handler));
+    }
+
+    public removeMessageHandler(handler: (message: TelegramMessage) => void | Promise<void>): void {
+        this.messageHandlers = this.messageHandlers.filter(h => h !== handler);
+        this.users.forEach(session => session.removeMessageHandler(handler));
+    }
+
+    public onMessageEdit(handler: (message: TelegramMessage) => void): void {
+        this.editHandlers.push(handler);
+        this.users.forEach(session => session.onMessageEdit(handler));
+    }
+
+    public removeMessageEditHandler(handler: (message: TelegramMessage) => void): void {
+        this.editHandlers = this.editHandlers.filter(h => h !== handler);
+        this.users.forEach(session => session.removeMessageEditHandler(handler));
+    }
+
+    public onMessageDelete(handler: (deletion: TelegramDeletion) => void): void {
+        this.deleteHandlers.push(handler);
+        this.users.forEach(session => session.onMessageDelete(handler));
+    }
+
+    public removeMessageDeleteHandler(handler: (deletion: TelegramDeletion) => void): void {
+        this.deleteHandlers = this.deleteHandlers.filter(h => h !== handler);
+        this.users.forEach(session => session.removeMessageDeleteHandler(handler));
+    }
+
+    private addConfigured(config: TelegramSessionConfig): TelegramSender {
+        this.names.set(config.id, config.name);
+
+        if (config.type === 'bot') {
+            const bot = new TelegramBotInstance(config.id, config.botToken || '');
+            this.bots.set(config.id, bot);
+            bot.initialize().catch((error) => {
+                console.error(`[Telegram] Bot session ${config.id} initialization failed:`, error instanceof Error ? error.message : error);
+            });
+            return bot;
+        }
+
+        const user = new TelegramInstance({
+            sessionId: config.id,
+            sessionFilePath: path.join(sessionsDir, `${config.id}.txt`)
+        });
+        user.setMessageFilter(this.messageFilter);
+        this.messageHandlers.forEach(handler => user.onMessage(handler));
+        this.editHandlers.forEach(handler => user.onMessageEdit(handler));
+        this.deleteHandlers.forEach(handler => user.onMessageDelete(handler));
+        this.users.set(config.id, user);
+        return user;
+    }
+}
+
+export default TelegramSessionRegistry;
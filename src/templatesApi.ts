@@ -0,0 +1,144 @@
+import express from 'express';
+import { RoutePlatform, getRoute } from './db';
+import { configManager } from './configManager';
+import {
+    DEFAULT_TEMPLATES,
+    TEMPLATE_PLACEHOLDERS,
+    TemplateContext,
+    renderTemplate,
+    resolveTemplate,
+    buildTelegramContext,
+    buildTwitterContext,
+    buildWhatsAppContext
+} from './messageTemplate';
+
+const router = express.Router();
+
+const SOURCE_PLATFORMS: RoutePlatform[] = ['telegram', 'twitter', 'whatsapp'];
+
+/**
+ * Build the context of a sample message; fields in `sample` override the built-in sample
+ */
+function buildSampleContext(platform: RoutePlatform, sample: any = {}): TemplateContext {
+    const text = typeof sample.text === 'string' ? sample.text : 'Sample message text #news #update';
+    const translated = typeof sample.translated === 'string' ? sample.translated : text;
+    const date = sample.date ? new Date(sample.date) : new Date();
+
+    switch (platform) {
+        case 'telegram':
+            return buildTelegramContext({
+                id: Number(sample.id) || 1234,
+                text,
+                date,
+                senderId: sample.senderId,
+                senderName: sample.sender ?? 'John Doe',
+                channelId: sample.sourceId || '1001234567',
+                channelTitle: sample.sourceTitle || 'Sample Channel',
+                isForwarded: !!sample.forwardedFrom,
+                forwardedFrom: sample.forwardedFrom,
+                mediaType: sample.mediaType,
+                hasMedia: !!sample.mediaType
+            }, translated);
+        case 'twitter':
+            return buildTwitterContext({
+                id: sample.id ? String(sample.id) : '1800000000000000000',
+                text,
+                date,
+                authorId: sample.sourceId || '123456',
+                authorName: sample.sourceTitle || 'Sample Account',
+                authorUsername: sample.username || 'sample_account',
+                isRetweet: !!sample.forwardedFrom,
+                retweetedFrom: sample.forwardedFrom,
+                mediaType: sample.mediaType,
+                hasMedia: !!sample.mediaType,
+                hashtags: Array.isArray(sample.hashtags) ? sample.hashtags : undefined
+            }, translated);
+        case 'whatsapp':
+            return buildWhatsAppContext({
+                id: sample.id ? String(sample.id) : 'sample_message',
+                text,
+                date,
+                senderId: sample.senderId,
+                senderName: sample.sender ?? 'John Doe',
+                groupId: sample.sourceId || '120363000000000000@g.us',
+                groupName: sample.sourceTitle || 'Sample Group',
+                isForwarded: !!sample.forwardedFrom,
+                mediaType: sample.mediaType,
+                hasMedia: !!sample.mediaType
+            }, translated);
+    }
+}
+
+/**
+ * Get the built-in templates, the configured global defaults and the available placeholders
+ */
+router.get('/', (req, res) => {
+    try {
+        res.json({
+            success: true,
+            defaults: DEFAULT_TEMPLATES,
+            templates: configManager.getMessageTemplates(),
+            placeholders: TEMPLATE_PLACEHOLDERS
+        });
+    } catch (error: any) {
+        res.status(500).json({ success: false, error: error.message });
+    }
+});
+
+/**
+ * Set the global default template for a source platform (empty or null restores the built-in format)
+ */
+router.put('/:platform', async (req, res) => {
+    try {
+        const platform = req.params.platform as RoutePlatform;
+        const { template } = req.body;
+
+        if (!SOURCE_PLATFORMS.includes(platform)) {
+            return res.status(400).json({ success: false, error: `platform must be one of: ${SOURCE_PLATFORMS.join(', ')}` });
+        }
+        if (template !== null && template !== undefined && typeof template !== 'string') {
+            return res.status(400).json({ success: false, error: 'template must be a string' });
+        }
+
+        await configManager.setMessageTemplate(platform, template || null);
+        res.json({ success: true, template: resolveTemplate(platform) });
+    } catch (error: any) {
+        res.status(500).json({ success: false, error: error.message });
+    }
+});
+
+/**
+ * Render a template against a sample message.
+ * Uses `template` when given, otherwise the template of `routeId`, otherwise the global default.
+ */
+router.post('/preview', async (req, res) => {
+    try {
+        const { template, routeId, sample } = req.body;
+        let platform: RoutePlatform = req.body.platform;
+        let source = template;
+
+        if (routeId) {
+            const route = await getRoute(routeId);
+            if (!route) {
+                return res.status(404).json({ success: false, error: 'Route not found' });
+            }
+            platform = route.source.platform;
+            source = source ?? resolveTemplate(platform, route);
+        }
+
+        if (!SOURCE_PLATFORMS.includes(platform)) {
+            return res.status(400).json({ success: false, error: `platform must be one of: ${SOURCE_PLATFORMS.join(', ')}` });
+        }
+        if (source !== undefined && typeof source !== 'string') {
+            return res.status(400).json({ success: false, error: 'template must be a string' });
+        }
+
+        source = source ?? resolveTemplate(platform);
+        const context = buildSampleContext(platform, sample);
+        res.json({ success: true, template: source, context, rendered: renderTemplate(source, context) });
+    } catch (error: any) {
+        res.status(500).json({ success: false, error: error.message });
+    }
+});
+
+export default router;
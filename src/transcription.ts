@@ -0,0 +1,65 @@
+import { configManager } from './configManager';
+import { metrics } from './metrics';
+
+const TRANSCRIPTIONS_METRIC = 'transcriptions_total';
+metrics.describe(TRANSCRIPTIONS_METRIC, 'Audio transcriptions by outcome (success, error, timeout, too_large, empty)');
+
+/**
+ * Audio attached to a message, as downloaded by the source client
+ */
+export interface TranscriptionAudio {
+    buffer: Buffer;
+    fileName?: string;
+    mimeType?: string;
+}
+
+/**
+ * The audio of a downloaded Telegram or WhatsApp audio message (voice notes included), if any
+ */
+export function getMessageAudio(message: { mediaType?: string; mediaBuffer?: Buffer; mediaFileName?: string; mediaMimeType?: string }): TranscriptionAudio | undefined {
+    if (message.mediaType !== 'audio' || !message.mediaBuffer) return undefined;
+    return { buffer: message.mediaBuffer, fileName: message.mediaFileName, mimeType: message.mediaMimeType };
+}
+
+/**
+ * Transcribe audio with the configured Whisper-compatible server (POST {url}/audio/transcriptions)
+ * @returns The transcript, or null when transcription is off, the audio is too large or the server fails
+ */
+export async function transcribeAudio(audio: TranscriptionAudio): Promise<string | null> {
+    const settings = configManager.getTranscriptionSettings();
+    if (!settings.enabled) return null;
+    if (audio.buffer.length > settings.maxBytes) {
+        console.log(`[Transcription] Skipping ${audio.buffer.length} byte audio (limit ${settings.maxBytes})`);
+        metrics.increment(TRANSCRIPTIONS_METRIC, { outcome: 'too_large' });
+        return null;
+    }
+
+    const form = new FormData();
+    form.append('file', new Blob([new Uint8Array(audio.buffer)], { type: audio.mimeType || 'audio/ogg' }), audio.fileName || 'audio.ogg');
+    form.append('model', settings.model);
+    form.append('response_format', 'json');
+    if (settings.language) form.append('language', settings.language);
+
+    const startedAt = Date.now();
+    try {
+        const response = await fetch(`${settings.url.replace(/\/+$/, '')}/audio/transcriptions`, {
+            method: 'POST',
+            body: form,
+            signal: AbortSignal.timeout(settings.timeoutMs)
+        });
+        const data: any = await response.json().catch(() => null);
+        if (!response.ok) {
+            throw new Error(`server returned ${response.status}: ${data?.error?.message || data?.error || response.statusText}`);
+        }
+
+        const transcript = typeof data?.text === 'string' ? data.text.trim() : '';
+        metrics.increment(TRANSCRIPTIONS_METRIC, { outcome: transcript ? 'success' : 'empty' });
+        console.log(`[Transcription] Transcribed ${audio.buffer.length} byte audio in ${Date.now() - startedAt}ms`);
+        return transcript || null;
+    } catch (error) {
+        const timedOut = error instanceof Error && error.name === 'TimeoutError';
+        metrics.increment(TRANSCRIPTIONS_METRIC, { outcome: timedOut ? 'timeout' : 'error' });
+        console.error('[Transcription] Failed to transcribe audio:', error instanceof Error ? error.message : error);
+        return null;
+    }
+}
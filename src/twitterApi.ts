@@ -1,7 +1,7 @@
 import express from 'express';
 import { TwitterMessage } from './twitterInstance';
 import { configManager } from './configManager';
-import { twitterInstance, whatsappInstance, forwardingManager } from './sharedInstances';
+import { twitterInstance, whatsappSessions, forwardingManager } from './sharedInstances';
 import { ListeningConfig } from './db';
 
 const router = express.Router();
@@ -16,7 +16,7 @@ let autoStartInProgress = false;
 async function attemptAutoStart() {
     if (autoStartAttempted || autoStartInProgress) return;
     
-    if (twitterInstance.isReady() && whatsappInstance.isReady() && configManager.isActive()) {
+    if (twitterInstance.isReady() && whatsappSessions.isAnyReady() && configManager.isActive()) {
         autoStartInProgress = true;
         autoStartAttempted = true;
         console.log('Both Twitter and WhatsApp clients are ready, starting forwarding...');
@@ -114,7 +114,7 @@ router.post('/start-forwarding', async (req, res) => {
             });
         }
 
-        if (!whatsappInstance.isReady()) {
+        if (!whatsappSessions.isAnyReady()) {
             return res.status(400).json({ 
                 success: false, 
                 error: 'WhatsApp client is not ready' 
@@ -171,7 +171,7 @@ router.post('/stop-forwarding', async (req, res) => {
  */
 router.get('/forwarding-status', async (req, res) => {
     try {
-        const config = await configManager.getConfig();
+        const config = await configManager.getPublicConfig();
         
         // Check if ANY Twitter forwarding session is active
         const sessionsInfo = await forwardingManager.getActiveTwitterSessionsInfo();
@@ -183,7 +183,7 @@ router.get('/forwarding-status', async (req, res) => {
             activeSessions: sessionsInfo.length,
             config: config,
             twitterReady: twitterInstance.isReady(),
-            whatsappReady: whatsappInstance.isReady()
+            whatsappReady: whatsappSessions.isAnyReady()
         });
     } catch (error) {
         console.error('Error getting Twitter forwarding status:', error);
@@ -439,6 +439,57 @@ router.get('/accounts/:accountId/whatsapp-groups', (req, res) => {
     }
 });
 
+/**
+ * Set Telegram chats for a specific Twitter account
+ */
+router.post('/accounts/:accountId/telegram-chats', async (req, res) => {
+    try {
+        const accountId = req.params.accountId as string;
+        const { chatIds } = req.body;
+
+        if (!Array.isArray(chatIds) || chatIds.some(id => !id || typeof id !== 'string')) {
+            return res.status(400).json({
+                success: false,
+                error: 'chatIds must be an array of chat IDs'
+            });
+        }
+
+        await configManager.setTwitterAccountTelegramChats(accountId, chatIds);
+
+        res.json({
+            success: true,
+            message: `Telegram chats updated for Twitter account ${accountId}`
+        });
+    } catch (error) {
+        console.error('Error setting Telegram chats for Twitter account:', error);
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
+/**
+ * Get Telegram chats for a specific Twitter account
+ */
+router.get('/accounts/:accountId/telegram-chats', (req, res) => {
+    try {
+        const accountId = req.params.accountId as string;
+        const chatIds = configManager.getTwitterAccountTelegramChats(accountId);
+
+        res.json({
+            success: true,
+            chatIds: chatIds
+        });
+    } catch (error) {
+        console.error('Error getting Telegram chats for Twitter account:', error);
+        res.status(500).json({
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        });
+    }
+});
+
 /**
  * Add a WhatsApp group to a specific Twitter account
  */
@@ -4,6 +4,8 @@ import * as path from 'path';
 import * as dotenv from 'dotenv';
 import { configManager, TwitterAccount } from './configManager';
 import { getActiveListeningConfigs } from './db';
+import { dedupLedger } from './dedupLedger';
+import { SourceExclusions } from './routeEngine';
 
 dotenv.config();
 
@@ -24,6 +26,17 @@ function formatTwitterError(error: unknown): string {
     return String(error);
 }
 
+export interface TwitterMediaItem {
+    type?: 'photo' | 'video' | 'gif';
+    url?: string;
+    // Set when the download succeeded
+    buffer?: Buffer;
+    fileName?: string;
+    mimeType?: string;
+    // Set when it did not
+    skippedReason?: 'size_limit' | 'download_failed';
+}
+
 export interface TwitterMessage {
     id: string;
     text: string;
@@ -33,19 +46,9 @@ export interface TwitterMessage {
     authorUsername: string;
     isRetweet: boolean;
     retweetedFrom?: string;
-    mediaType?: 'photo' | 'video' | 'gif';
+    mediaType?: 'photo' | 'video' | 'gif'; // Type of the first media item
     hasMedia: boolean;
-    mediaUrls?: string[];
-    // Modified properties for multiple media handling
-    mediaBuffers?: Buffer[];
-    mediaFileNames?: string[];
-    mediaMimeTypes?: string[];
-    mediaSkippedReasons?: ('size_limit' | 'download_failed')[];
-    // Keep single media properties for backward compatibility
-    mediaBuffer?: Buffer;
-    mediaFileName?: string;
-    mediaMimeType?: string;
-    mediaSkippedReason?: 'size_limit' | 'download_failed';
+    media?: TwitterMediaItem[]; // Every media item of the tweet, in order
     replyToTweetId?: string;
     replyToUserId?: string;
     hashtags?: string[];
@@ -60,9 +63,10 @@ export class TwitterInstance {
     private currentStream: any = null;
     private pollingInterval: NodeJS.Timeout | null = null;
     private readonly POLLING_INTERVAL_MS = 1 * 60 * 1000; // 1 minute
-    private readonly MAX_PROCESSED_TWEET_IDS = 2000;
     private listeningAccounts: Set<string> = new Set();
     private messageHandlers: ((message: TwitterMessage) => void)[] = [];
+    private messageFilter: ((message: TwitterMessage) => boolean) | null = null;
+    private searchExclusions: ((accountId: string) => SourceExclusions) | null = null;
     private reconnectAttempts: number = 0;
     private maxReconnectAttempts: number = 5;
     private reconnectInterval: NodeJS.Timeout | null = null;
@@ -70,7 +74,6 @@ export class TwitterInstance {
     private isKeepAliveActive: boolean = false;
     private isFirstPoll: boolean = true; // Track if this is the first poll
     private isPollInProgress: boolean = false;
-    private processedTweetIds: Set<string> = new Set();
     /** When false, Twitter search polls are skipped to avoid wasting API quota. */
     private deliveryReadyCheck: (() => boolean) | null = null;
     private pollingPausedDueToDelivery: boolean = false;
@@ -87,6 +90,35 @@ export class TwitterInstance {
         this.deliveryReadyCheck = check;
     }
 
+    /**
+     * Gate incoming tweets before their media is downloaded (e.g. route content filters).
+     */
+    public setMessageFilter(filter: ((message: TwitterMessage) => boolean) | null): void {
+        this.messageFilter = filter;
+    }
+
+    /**
+     * What to leave out of the search query per account (e.g. what all of the account's routes filter out).
+     */
+    public setSearchExclusions(exclusions: ((accountId: string) => SourceExclusions) | null): void {
+        this.searchExclusions = exclusions;
+    }
+
+    /**
+     * Search query part for one account: from:username, with the account's exclusions
+     */
+    private buildAccountQuery(account: TwitterAccount): string {
+        const exclusions = this.searchExclusions?.(account.id);
+        const operators = [
+            ...(exclusions?.forwarded ? ['-is:retweet'] : []),
+            ...(exclusions?.keywords || [])
+                .map(keyword => keyword.replace(/"/g, '').trim())
+                .filter(keyword => keyword)
+                .map(keyword => `-"${keyword}"`)
+        ];
+        return operators.length > 0 ? `(from:${account.username} ${operators.join(' ')})` : `from:${account.username}`;
+    }
+
     /**
      * Pause Twitter API polling until delivery is ready again.
      */
@@ -317,27 +349,6 @@ export class TwitterInstance {
         await configManager.setLastSinceId(sinceId);
     }
 
-    private markTweetProcessed(tweetId: string): boolean {
-        if (this.processedTweetIds.has(tweetId)) {
-            return false;
-        }
-
-        this.processedTweetIds.add(tweetId);
-
-        // Bound memory: drop oldest entries when the set grows too large
-        if (this.processedTweetIds.size > this.MAX_PROCESSED_TWEET_IDS) {
-            const toDelete = this.processedTweetIds.size - this.MAX_PROCESSED_TWEET_IDS;
-            let deleted = 0;
-            for (const id of this.processedTweetIds) {
-                this.processedTweetIds.delete(id);
-                deleted++;
-                if (deleted >= toDelete) break;
-            }
-        }
-
-        return true;
-    }
-
     private maxSnowflakeId(a: string | null, b: string | null): string | null {
         if (!a) return b;
         if (!b) return a;
@@ -500,7 +511,7 @@ export class TwitterInstance {
             const now = Date.now();
             // Avoid spamming logs every minute
             if (now - this.lastDeliverySkipLogAt > 5 * 60 * 1000) {
-                console.log('Skipping Twitter poll - WhatsApp client is not connected (saving API quota)');
+                console.log('Skipping Twitter poll - no WhatsApp or Telegram session is connected (saving API quota)');
                 this.lastDeliverySkipLogAt = now;
             }
             return;
@@ -542,25 +553,24 @@ export class TwitterInstance {
         }
     }
     
-    private splitAccountsIntoBatches(accounts: any[]): any[][] {
+    private splitAccountsIntoBatches(accounts: TwitterAccount[]): TwitterAccount[][] {
         const MAX_QUERY_LENGTH = 500; // Leave some buffer below 512 limit
-        const FILTERS = ' -"RT @" -"#ad"';
-        const batches: any[][] = [];
-        let currentBatch: any[] = [];
+        const batches: TwitterAccount[][] = [];
+        let currentBatch: TwitterAccount[] = [];
         let currentQueryLength = 0;
     
         for (const account of accounts) {
-            const userPart = `from:${account.username}`;
-            // Calculate length including " OR " separator and filters
+            const accountQuery = this.buildAccountQuery(account);
+            // Calculate length including the " OR " separator
             const additionalLength = currentBatch.length === 0 
-                ? userPart.length + 2 + FILTERS.length // First user: "(userPart)" + FILTERS
-                : 4 + userPart.length; // Subsequent users: " OR userPart"
+                ? accountQuery.length
+                : 4 + accountQuery.length;
     
             if (currentQueryLength + additionalLength > MAX_QUERY_LENGTH && currentBatch.length > 0) {
                 // Start a new batch
                 batches.push(currentBatch);
                 currentBatch = [account];
-                currentQueryLength = userPart.length + 2 + FILTERS.length;
+                currentQueryLength = accountQuery.length;
             } else {
                 currentBatch.push(account);
                 currentQueryLength += additionalLength;
@@ -574,12 +584,11 @@ export class TwitterInstance {
         return batches;
     }
     
-    private async fetchTweetsForBatch(accounts: any[], sinceMinutes: number, force: boolean): Promise<string | null> {
+    private async fetchTweetsForBatch(accounts: TwitterAccount[], sinceMinutes: number, force: boolean): Promise<string | null> {
         if (!this.client || accounts.length === 0) return null;
     
-        // Build OR query for this batch
-        const userQuery = accounts.map(u => `from:${u.username}`).join(' OR ');
-        const query = `(${userQuery}) -"RT @" -"#ad"`;
+        // Build OR query for this batch; each account carries the exclusions of its routes
+        const query = accounts.map(account => this.buildAccountQuery(account)).join(' OR ');
     
         // Cutoff timestamp (sinceMinutes ago)
         const startTime = new Date(Date.now() - sinceMinutes * 60 * 1000).toISOString();
@@ -717,7 +726,11 @@ export class TwitterInstance {
     /**
      * Download media from URL
      */
-    private async downloadMedia(url: string, mediaType: string): Promise<{ buffer: Buffer; fileName: string; mimeType: string } | null> {
+    private async downloadMedia(
+        url: string,
+        mediaType: string,
+        index: number = 0
+    ): Promise<{ buffer: Buffer; fileName: string; mimeType: string } | { skippedReason: 'size_limit' | 'download_failed' }> {
         try {
             console.log(`Downloading ${mediaType} from: ${url}`);
             const response = await fetch(url);
@@ -725,31 +738,50 @@ export class TwitterInstance {
                 throw new Error(`HTTP error! status: ${response.status}`);
             }
 
-            const buffer = Buffer.from(await response.arrayBuffer());
-            
-            // Check file size (85 MB limit)
+            // Check file size (85 MB limit); the header may be missing, so the body is counted as it streams
             const maxSizeBytes = 85 * 1024 * 1024; // 85 MB
-            if (buffer.length > maxSizeBytes) {
-                console.log(`Skipping media download - file size (${Math.round(buffer.length / (1024 * 1024))} MB) exceeds 85 MB limit`);
-                return null;
+            const contentLength = Number(response.headers.get('content-length'));
+            if (contentLength > maxSizeBytes) {
+                console.log(`Skipping media download - file size (${Math.round(contentLength / (1024 * 1024))} MB) exceeds 85 MB limit`);
+                await response.body?.cancel();
+                return { skippedReason: 'size_limit' };
+            }
+            if (!response.body) {
+                throw new Error('Response has no body');
+            }
+
+            const chunks: Buffer[] = [];
+            let received = 0;
+            const reader = response.body.getReader();
+            while (true) {
+                const { done, value } = await reader.read();
+                if (done) break;
+                received += value.length;
+                if (received > maxSizeBytes) {
+                    console.log('Skipping media download - file size exceeds 85 MB limit');
+                    await reader.cancel();
+                    return { skippedReason: 'size_limit' };
+                }
+                chunks.push(Buffer.from(value));
             }
+            const buffer = Buffer.concat(chunks);
 
-            // Generate filename based on media type and timestamp
-            const timestamp = Date.now();
+            // Generate filename based on media type, timestamp and position in the tweet
+            const suffix = `${Date.now()}_${index + 1}`;
             let fileName: string;
             let mimeType: string;
 
             if (mediaType === 'photo') {
-                fileName = `twitter_photo_${timestamp}.jpg`;
+                fileName = `twitter_photo_${suffix}.jpg`;
                 mimeType = 'image/jpeg';
             } else if (mediaType === 'video') {
-                fileName = `twitter_video_${timestamp}.mp4`;
+                fileName = `twitter_video_${suffix}.mp4`;
                 mimeType = 'video/mp4';
             } else if (mediaType === 'gif') {
-                fileName = `twitter_gif_${timestamp}.mp4`; // Animated GIFs are actually MP4 videos
+                fileName = `twitter_gif_${suffix}.mp4`; // Animated GIFs are actually MP4 videos
                 mimeType = 'video/mp4';
             } else {
-                fileName = `twitter_media_${timestamp}.bin`;
+                fileName = `twitter_media_${suffix}.bin`;
                 mimeType = 'application/octet-stream';
             }
 
@@ -757,7 +789,7 @@ export class TwitterInstance {
             return { buffer, fileName, mimeType };
         } catch (error) {
             console.error('Error downloading media:', error);
-            return null;
+            return { skippedReason: 'download_failed' };
         }
     }
 
@@ -773,8 +805,8 @@ export class TwitterInstance {
                 return;
             }
 
-            // Dedup before media download / forwarding so overlapping polls can't re-send
-            if (!this.markTweetProcessed(tweet.id)) {
+            // Dedup before media download / forwarding so overlapping polls and restarts can't re-send
+            if (!(await dedupLedger.claimMessage('twitter', tweet.author_id || author.id, tweet.id))) {
                 console.log(`Skipping already-processed tweet ${tweet.id}`);
                 return;
             }
@@ -794,49 +826,49 @@ export class TwitterInstance {
             // Extract media information
             const media = includes?.media || [];
             const hasMedia = media.length > 0;
+
+            // Drop tweets no route wants before downloading anything
+            if (this.messageFilter && !this.messageFilter({
+                id: tweet.id,
+                text: tweet.note_tweet?.text || tweet.text,
+                date: new Date(tweet.created_at || ''),
+                authorId: author.id,
+                authorName: author.name,
+                authorUsername: author.username,
+                isRetweet: isRetweet || false,
+                retweetedFrom,
+                mediaType: hasMedia ? this.getMediaType(media[0]) : undefined,
+                hasMedia
+            })) {
+                return;
+            }
             
-            // Get proper media URLs using the new helper method
-            const mediaUrls: string[] = [];
-            for (const m of media) {
-                const url = this.getMediaUrl(m);
-                if (url) {
-                    mediaUrls.push(url);
-                }
+            // Download every media item, keeping the reason for the ones that could not be downloaded
+            const mediaItems: TwitterMediaItem[] = [];
+            if (hasMedia) {
+                console.log(`Downloading ${media.length} media file(s) for tweet ${tweet.id}`);
             }
-
-            // Download all media if present
-            const mediaBuffers: Buffer[] = [];
-            const mediaFileNames: string[] = [];
-            const mediaMimeTypes: string[] = [];
-            const mediaSkippedReasons: ('size_limit' | 'download_failed')[] = [];
-
-            if (hasMedia && mediaUrls.length > 0) {
-                console.log(`Downloading ${mediaUrls.length} media files for tweet ${tweet.id}`);
-                
-                // Download all media files
-                for (let i = 0; i < media.length; i++) {
-                    const mediaItem = media[i];
-                    const mediaUrl = this.getMediaUrl(mediaItem);
-                    const mediaType = this.getMediaType(mediaItem);
-                    
-                    if (mediaUrl && mediaType) {
-                        console.log(`Downloading media ${i + 1}/${media.length} for tweet ${tweet.id}: ${mediaType}`);
-                        
-                        const mediaData = await this.downloadMedia(mediaUrl, mediaType);
-                        if (mediaData) {
-                            mediaBuffers.push(mediaData.buffer);
-                            mediaFileNames.push(mediaData.fileName);
-                            mediaMimeTypes.push(mediaData.mimeType);
-                            console.log(`Successfully downloaded media ${i + 1}: ${mediaData.fileName}`);
-                        } else {
-                            mediaSkippedReasons.push('download_failed');
-                            console.log(`Failed to download media ${i + 1} for tweet ${tweet.id}`);
-                        }
+            for (let i = 0; i < media.length; i++) {
+                const mediaUrl = this.getMediaUrl(media[i]);
+                const mediaType = this.getMediaType(media[i]);
+                const item: TwitterMediaItem = { type: mediaType, url: mediaUrl || undefined };
+
+                if (mediaUrl && mediaType) {
+                    console.log(`Downloading media ${i + 1}/${media.length} for tweet ${tweet.id}: ${mediaType}`);
+                    const result = await this.downloadMedia(mediaUrl, mediaType, i);
+                    if ('buffer' in result) {
+                        item.buffer = result.buffer;
+                        item.fileName = result.fileName;
+                        item.mimeType = result.mimeType;
                     } else {
-                        mediaSkippedReasons.push('download_failed');
-                        console.log(`No valid URL or media type for media ${i + 1} in tweet ${tweet.id}`);
+                        item.skippedReason = result.skippedReason;
+                        console.log(`Media ${i + 1} for tweet ${tweet.id} skipped: ${result.skippedReason}`);
                     }
+                } else {
+                    item.skippedReason = 'download_failed';
+                    console.log(`No valid URL or media type for media ${i + 1} in tweet ${tweet.id}`);
                 }
+                mediaItems.push(item);
             }
 
             // Extract hashtags and mentions
@@ -868,15 +900,18 @@ export class TwitterInstance {
                 return filteredText;
             };
 
-            // Create base message data
-            const baseMessageData = {
+            const twitterMessage: TwitterMessage = {
                 id: tweet.id,
+                text: cleanText(tweet.note_tweet?.text || tweet.text), // Apply URL filtering here
                 date: new Date(tweet.created_at || ''),
                 authorId: author.id,
                 authorName: author.name,
                 authorUsername: author.username,
                 isRetweet: isRetweet || false,
                 retweetedFrom: retweetedFrom,
+                mediaType: hasMedia ? this.getMediaType(media[0]) : undefined,
+                hasMedia: hasMedia,
+                media: hasMedia ? mediaItems : undefined,
                 replyToTweetId: tweet.in_reply_to_user_id ? tweet.referenced_tweets?.find((ref: any) => ref.type === 'replied_to')?.id : undefined,
                 replyToUserId: tweet.in_reply_to_user_id,
                 hashtags: hashtags,
@@ -884,101 +919,19 @@ export class TwitterInstance {
                 urls: urls
             };
 
-            if (hasMedia && mediaBuffers.length > 0) {
-                // Send first message with original tweet text and first media
-                const firstMessage: TwitterMessage = {
-                    ...baseMessageData,
-                    text: cleanText(tweet.note_tweet?.text || tweet.text), // Apply URL filtering here
-                    mediaType: this.getMediaType(media[0]),
-                    hasMedia: true,
-                    mediaUrls: [mediaUrls[0]],
-                    mediaBuffer: mediaBuffers[0],
-                    mediaFileName: mediaFileNames[0],
-                    mediaMimeType: mediaMimeTypes[0],
-                    mediaSkippedReason: mediaSkippedReasons[0],
-                    // Keep array properties for backward compatibility
-                    mediaBuffers: [mediaBuffers[0]],
-                    mediaFileNames: [mediaFileNames[0]],
-                    mediaMimeTypes: [mediaMimeTypes[0]],
-                    mediaSkippedReasons: mediaSkippedReasons.length > 0 ? [mediaSkippedReasons[0]] : undefined
-                };
-
-                // console.log(`New tweet from @${firstMessage.authorUsername}: ${firstMessage.text.substring(0, 100)}${firstMessage.text.length > 100 ? '...' : ''}`);
-                console.log(`Tweet contains ${mediaBuffers.length} media file(s) - sending as separate messages`);
-
-                // Call handlers for first message
-                this.messageHandlers.forEach((handler, index) => {
-                    try {
-                        handler(firstMessage);
-                    } catch (error) {
-                        console.error(`Error in message handler ${index + 1} for first message:`, error);
-                    }
-                });
+            if (hasMedia) {
+                const downloaded = mediaItems.filter(item => item.buffer).length;
+                console.log(`Tweet ${tweet.id} has ${mediaItems.length} media item(s), ${downloaded} downloaded`);
+            }
 
-                // Send additional media as separate messages with "📎 @authorUsername - Twitter"
-                for (let i = 1; i < mediaBuffers.length; i++) {
-                    const additionalMessage: TwitterMessage = {
-                        ...baseMessageData,
-                        id: `${tweet.id}_media_${i + 1}`, // Unique ID for additional media
-                        text: `📎 @${author.username} - Twitter`,
-                        mediaType: this.getMediaType(media[i]),
-                        hasMedia: true,
-                        mediaUrls: [mediaUrls[i]],
-                        mediaBuffer: mediaBuffers[i],
-                        mediaFileName: mediaFileNames[i],
-                        mediaMimeType: mediaMimeTypes[i],
-                        mediaSkippedReason: mediaSkippedReasons[i],
-                        // Keep array properties for backward compatibility
-                        mediaBuffers: [mediaBuffers[i]],
-                        mediaFileNames: [mediaFileNames[i]],
-                        mediaMimeTypes: [mediaMimeTypes[i]],
-                        mediaSkippedReasons: mediaSkippedReasons.length > i ? [mediaSkippedReasons[i]] : undefined
-                    };
-
-                    console.log(`Sending additional media ${i + 1}/${mediaBuffers.length} from @${author.username}`);
-
-                    // Call handlers for additional media message
-                    this.messageHandlers.forEach((handler, index) => {
-                        try {
-                            handler(additionalMessage);
-                        } catch (error) {
-                            console.error(`Error in message handler ${index + 1} for additional media ${i + 1}:`, error);
-                        }
-                    });
-                }
-            } else {
-                // No media or media download failed - send single message
-                const twitterMessage: TwitterMessage = {
-                    ...baseMessageData,
-                    text: cleanText(tweet.note_tweet?.text || tweet.text), // Apply URL filtering here
-                    mediaType: hasMedia ? this.getMediaType(media[0]) : undefined,
-                    hasMedia: hasMedia,
-                    mediaUrls: mediaUrls,
-                    mediaBuffer: undefined,
-                    mediaFileName: undefined,
-                    mediaMimeType: undefined,
-                    mediaSkippedReason: mediaSkippedReasons.length > 0 ? mediaSkippedReasons[0] : undefined,
-                    // Keep array properties for backward compatibility
-                    mediaBuffers: undefined,
-                    mediaFileNames: undefined,
-                    mediaMimeTypes: undefined,
-                    mediaSkippedReasons: mediaSkippedReasons.length > 0 ? mediaSkippedReasons : undefined
-                };
-
-                // console.log(`New tweet from @${twitterMessage.authorUsername}: ${twitterMessage.text.substring(0, 100)}${twitterMessage.text.length > 100 ? '...' : ''}`);
-                if (hasMedia) {
-                    console.log(`Tweet had media but download failed or no media URLs available`);
+            // Call all message handlers
+            this.messageHandlers.forEach((handler, index) => {
+                try {
+                    handler(twitterMessage);
+                } catch (error) {
+                    console.error(`Error in message handler ${index + 1}:`, error);
                 }
-
-                // Call all message handlers
-                this.messageHandlers.forEach((handler, index) => {
-                    try {
-                        handler(twitterMessage);
-                    } catch (error) {
-                        console.error(`Error in message handler ${index + 1}:`, error);
-                    }
-                });
-            }
+            });
 
         } catch (error) {
             console.error('Error processing tweet:', error);
@@ -1,5 +1,5 @@
 import express from 'express';
-import { telegramInstance, whatsappInstance, waToTgForwardingManager } from './sharedInstances';
+import { telegramSessions, whatsappSessions, waToTgForwardingManager } from './sharedInstances';
 import {
     WaToTgConfig,
     saveWaToTgConfig,
@@ -9,6 +9,7 @@ import {
     getActiveWaToTgConfigs,
     deleteWaToTgConfig
 } from './db';
+import { migrateLegacyRoutes } from './migrateConfig';
 
 const router = express.Router();
 
@@ -63,7 +64,10 @@ router.post('/configs', async (req, res) => {
             return res.status(500).json({ success: false, error: 'Failed to save config' });
         }
 
-        if (config.isActive && whatsappInstance.isReady() && telegramInstance.isReady()) {
+        // Forwarding is driven by the routes derived from this config
+        await migrateLegacyRoutes();
+
+        if (config.isActive && whatsappSessions.isAnyReady() && telegramSessions.isAnyReady()) {
             await waToTgForwardingManager.startForwardingConfig(config);
         }
 
@@ -90,10 +94,12 @@ router.put('/configs/:id', async (req, res) => {
             return res.status(404).json({ success: false, error: 'Config not found or no changes' });
         }
 
+        await migrateLegacyRoutes();
+
         // Restart the forwarding session for this config
         waToTgForwardingManager.stopForwardingConfig(req.params.id);
         const updatedConfig = await getWaToTgConfig(req.params.id);
-        if (updatedConfig && updatedConfig.isActive && whatsappInstance.isReady() && telegramInstance.isReady()) {
+        if (updatedConfig && updatedConfig.isActive && whatsappSessions.isAnyReady() && telegramSessions.isAnyReady()) {
             await waToTgForwardingManager.startForwardingConfig(updatedConfig);
         }
 
@@ -115,6 +121,8 @@ router.delete('/configs/:id', async (req, res) => {
             return res.status(404).json({ success: false, error: 'Config not found' });
         }
 
+        await migrateLegacyRoutes();
+
         res.json({ success: true, message: 'Config deleted' });
     } catch (error: any) {
         res.status(500).json({ success: false, error: error.message });
@@ -126,10 +134,10 @@ router.delete('/configs/:id', async (req, res) => {
  */
 router.post('/start-all', async (req, res) => {
     try {
-        if (!whatsappInstance.isReady()) {
+        if (!whatsappSessions.isAnyReady()) {
             return res.status(400).json({ success: false, error: 'WhatsApp client is not ready' });
         }
-        if (!telegramInstance.isReady()) {
+        if (!telegramSessions.isAnyReady()) {
             return res.status(400).json({ success: false, error: 'Telegram client is not ready' });
         }
 
@@ -174,8 +182,8 @@ router.get('/status', async (req, res) => {
             success: true,
             activeSessions: sessions.length,
             sessions,
-            whatsappReady: whatsappInstance.isReady(),
-            telegramReady: telegramInstance.isReady()
+            whatsappReady: whatsappSessions.isAnyReady(),
+            telegramReady: telegramSessions.isAnyReady()
         });
     } catch (error: any) {
         res.status(500).json({ success: false, error: error.message });
@@ -1,11 +1,18 @@
-import { TelegramInstance } from './telegramInstance';
-import { WhatsAppMessage } from './whatsappInstance';
-import { WaToTgConfig, getActiveWaToTgConfigs, getWaToTgConfig } from './db';
-import { database } from './db';
-import { askModel } from './openRouter';
+import { TelegramSender } from './telegramInstance';
+import { TelegramSessionRegistry } from './telegramSessions';
+import { WhatsAppMediaType, WhatsAppMessage, sendMediaBatchToGroup } from './whatsappEngine';
+import { WaToTgConfig, DeadLetter, HistoryDelivery, getActiveWaToTgConfigs, getWaToTgConfig, saveMessageMapping, findMessageMapping } from './db';
+import { dedupLedger } from './dedupLedger';
+import { createWhatsAppHistory, markMediaFailed, markDeadLettered } from './forwardHistory';
+import { runPipeline, failedTargets } from './messagePipeline';
+import { getMessageAudio } from './transcription';
 import fs from 'fs';
 import path from 'path';
-import { WhatsAppEngine } from './whatsappEngine';
+import { WhatsAppSessionRegistry } from './whatsappSessions';
+import { RetryExhaustedError } from './retryPolicy';
+import { deliveredMessageKey, loopGuard } from './loopGuard';
+import { routeEngine, RouteTarget, fromWhatsAppMessage } from './routeEngine';
+import { buildWhatsAppContext } from './messageTemplate';
 
 export interface WaToTgForwardingSession {
     configId: string;
@@ -15,49 +22,22 @@ export interface WaToTgForwardingSession {
 }
 
 class WaToTgForwardingManager {
-    private telegramInstance: TelegramInstance;
-    private whatsappInstance: WhatsAppEngine;
+    private telegramSessions: TelegramSessionRegistry;
+    private whatsappSessions: WhatsAppSessionRegistry;
     private activeSessions: Map<string, WaToTgForwardingSession> = new Map();
-
-    constructor(telegramInstance: TelegramInstance, whatsappInstance: WhatsAppEngine) {
-        this.telegramInstance = telegramInstance;
-        this.whatsappInstance = whatsappInstance;
-    }
-
-    private async getAISettings(): Promise<{ prompt: string; model: string; temperature: number } | null> {
-        try {
-            const dbResult = await database('system_prompts');
-            if (!dbResult) return null;
-
-            const { conn, coll } = dbResult;
-            try {
-                const settings = await coll.findOne({});
-                if (settings && settings.prompt && settings.prompt.trim()) {
-                    return {
-                        prompt: settings.prompt,
-                        model: settings.model || 'anthropic/claude-3.5-sonnet',
-                        temperature: settings.temperature || 0.0
-                    };
-                }
-                return null;
-            } finally {
-                await conn.close();
-            }
-        } catch (error) {
-            console.error('Error getting AI settings:', error);
-            return null;
-        }
-    }
-
-    private async translateMessage(text: string, aiSettings: { prompt: string; model: string; temperature: number }): Promise<string> {
-        try {
-            const fullPrompt = `${aiSettings.prompt}\n\nMessage to translate: ${text}`;
-            const translation = await askModel(fullPrompt, aiSettings.model, aiSettings.temperature);
-            return translation || text;
-        } catch (error) {
-            console.error('Error translating message:', error);
-            return text;
-        }
+    private isHandlerAttached: boolean = false;
+    // WhatsApp albums arrive as separate media messages; bursts from one sender are collected for a short window
+    private albumBuffers: Map<string, { parts: WhatsAppMessage[]; timer: NodeJS.Timeout | null }> = new Map();
+    private readonly albumWindowMs: number = 2000;
+
+    constructor(telegramSessions: TelegramSessionRegistry, whatsappSessions: WhatsAppSessionRegistry) {
+        this.telegramSessions = telegramSessions;
+        this.whatsappSessions = whatsappSessions;
+        // Apply route filters before media downloads and AI calls. Captionless photos and videos may belong
+        // to an album whose caption decides, so they are filtered once the album is collected.
+        this.whatsappSessions.setMessageFilter(message =>
+            this.isAlbumPart(message) || routeEngine.shouldIngest(fromWhatsAppMessage(message))
+        );
     }
 
     public async startForwardingConfig(config: WaToTgConfig): Promise<boolean> {
@@ -69,35 +49,24 @@ class WaToTgForwardingManager {
 
             this.stopForwardingConfig(config.id);
 
-            if (!this.whatsappInstance.isReady()) {
+            if (!this.whatsappSessions.isAnyReady()) {
                 console.error('WhatsApp client is not ready');
                 return false;
             }
 
-            if (!this.telegramInstance.isReady()) {
+            if (!this.telegramSessions.isAnyReady()) {
                 console.error('Telegram client is not ready');
                 return false;
             }
 
-            this.whatsappInstance.startListeningToGroups(config.whatsappGroupIds);
-
-            const messageHandler = async (message: WhatsAppMessage) => {
-                if (config.whatsappGroupIds.includes(message.groupId)) {
-                    try {
-                        await this.forwardMessageToTelegram(message, config);
-                        console.log(`[WA→TG] Message forwarded successfully`);
-                    } catch (error) {
-                        console.error(`[WA→TG] Error forwarding message from config ${config.id}:`, error);
-                    }
-                }
-            };
-
-            this.whatsappInstance.onMessage(messageHandler);
+            // WA→TG configs predate sessions and listen through the default one
+            this.whatsappSessions.getDefault().startListeningToGroups(config.whatsappGroupIds);
+            this.attachRouteHandler();
 
             const session: WaToTgForwardingSession = {
                 configId: config.id,
                 handlerId: `wa_tg_handler_${config.id}_${Date.now()}`,
-                messageHandler,
+                messageHandler: this.messageHandler,
                 isActive: true
             };
 
@@ -118,7 +87,7 @@ class WaToTgForwardingManager {
                 return false;
             }
 
-            this.whatsappInstance.removeMessageHandler(session.messageHandler);
+            // The shared handler stays attached; the config's routes are deactivated with it
             this.activeSessions.delete(configId);
 
             console.log(`[WA→TG] Stopped forwarding config: ${configId}`);
@@ -137,6 +106,11 @@ class WaToTgForwardingManager {
             for (const config of activeConfigs) {
                 await this.startForwardingConfig(config);
             }
+
+            // Routes created through /routes don't have a WA→TG config of their own (WA → WA routes need no Telegram session)
+            if (routeEngine.getSourceIds('whatsapp').length > 0 && this.whatsappSessions.isAnyReady()) {
+                this.attachRouteHandler();
+            }
         } catch (error) {
             console.error('[WA→TG] Error starting all active configs:', error);
         }
@@ -148,6 +122,11 @@ class WaToTgForwardingManager {
             this.stopForwardingConfig(configId);
         }
         this.activeSessions.clear();
+
+        if (this.isHandlerAttached) {
+            this.whatsappSessions.removeMessageHandler(this.messageHandler);
+            this.isHandlerAttached = false;
+        }
     }
 
     public async restartAllConfigs(): Promise<void> {
@@ -185,49 +164,421 @@ class WaToTgForwardingManager {
         return this.activeSessions.has(configId);
     }
 
-    private async forwardMessageToTelegram(message: WhatsAppMessage, config: WaToTgConfig): Promise<void> {
+    /**
+     * Make every WhatsApp session listen to the route sources assigned to it
+     */
+    public listenToRouteSources(): void {
+        this.whatsappSessions.forEach((session, sessionId) => {
+            session.startListeningToGroups(routeEngine.getSourceIds('whatsapp', sessionId));
+        });
+    }
+
+    /**
+     * Listen to all route sources and attach the shared message handler once
+     */
+    private attachRouteHandler(): void {
+        this.listenToRouteSources();
+        if (!this.isHandlerAttached) {
+            this.whatsappSessions.onMessage(this.messageHandler);
+            this.isHandlerAttached = true;
+        }
+    }
+
+    /**
+     * Collect album parts, then route incoming WhatsApp messages in arrival order
+     */
+    private readonly messageHandler = (message: WhatsAppMessage) => {
+        const key = `${message.groupId}:${message.senderId || ''}`;
+        const pending = this.albumBuffers.get(key);
+        const isMedia = message.hasMedia && (message.mediaType === 'image' || message.mediaType === 'video');
+
+        // A second caption starts a new post
+        if (pending && isMedia && !(message.text && pending.parts.some(part => part.text))) {
+            this.bufferAlbumPart(key, message);
+            return;
+        }
+
+        const flushed = pending ? this.flushAlbum(key) : Promise.resolve();
+        if (isMedia) {
+            void flushed.then(() => this.bufferAlbumPart(key, message));
+        } else {
+            void flushed.then(() => this.routeMessage(message));
+        }
+    };
+
+    private isAlbumPart(message: WhatsAppMessage): boolean {
+        return message.hasMedia && !message.text && (message.mediaType === 'image' || message.mediaType === 'video');
+    }
+
+    private bufferAlbumPart(key: string, message: WhatsAppMessage): void {
+        const buffer = this.albumBuffers.get(key) || { parts: [], timer: null };
+        if (buffer.timer) clearTimeout(buffer.timer);
+
+        buffer.parts.push(message);
+        buffer.timer = setTimeout(() => void this.flushAlbum(key), this.albumWindowMs);
+        this.albumBuffers.set(key, buffer);
+    }
+
+    /**
+     * Route the collected parts as one album (or as a plain message when only one part arrived)
+     */
+    private async flushAlbum(key: string): Promise<void> {
+        const buffer = this.albumBuffers.get(key);
+        if (!buffer) return;
+        this.albumBuffers.delete(key);
+        if (buffer.timer) clearTimeout(buffer.timer);
+
+        const parts = buffer.parts;
+        if (parts.length === 1) {
+            await this.routeMessage(parts[0]);
+            return;
+        }
+
+        const captionPart = parts.find(part => part.text) || parts[0];
+        console.log(`[WA→TG] Album of ${parts.length} part(s) collected from group ${parts[0].groupName}`);
+        await this.routeMessage({ ...parts[0], text: captionPart.text, album: parts });
+    }
+
+    /**
+     * Route an incoming WhatsApp message to its Telegram chats and WhatsApp groups
+     */
+    private async routeMessage(message: WhatsAppMessage): Promise<void> {
+        let targets = routeEngine.resolveTargets(fromWhatsAppMessage(message));
+        if (targets.length === 0) return;
+
+        // A copy the bridge posted into a group that is also a route source (albums are checked by their first part)
+        if (await loopGuard.isOwnMessage('whatsapp', message.groupId, message.id, message.text)) {
+            return;
+        }
+
+        if (!(await dedupLedger.claimMessage('whatsapp', message.groupId, message.id))) {
+            console.log(`[WA→TG] Skipping already-forwarded message ${message.id} from group ${message.groupId}`);
+            return;
+        }
+        targets = await dedupLedger.filterDelivered('whatsapp', message.groupId, message.id, targets);
+        targets = await dedupLedger.filterContentDuplicates(message.text, targets);
+        if (targets.length === 0) return;
+
+        try {
+            await this.forwardMessage(message, targets);
+            console.log(`[WA→TG] Message forwarded successfully`);
+        } catch (error) {
+            console.error(`[WA→TG] Error forwarding message from group ${message.groupId}:`, error);
+            await dedupLedger.releaseMessage('whatsapp', message.groupId, message.id, message.text, failedTargets(error, targets));
+        }
+    }
+
+    private async forwardMessage(message: WhatsAppMessage, targets: RouteTarget[]): Promise<void> {
         try {
-            const aiSettings = await this.getAISettings();
+            await runPipeline(
+                {
+                    platform: 'whatsapp',
+                    id: message.id,
+                    text: message.text,
+                    audio: getMessageAudio(message),
+                    buildContext: translated => buildWhatsAppContext(message, translated)
+                },
+                targets,
+                createWhatsAppHistory(message),
+                (target, formattedMessage, delivery) => target.destination.platform === 'whatsapp'
+                    ? this.forwardToWhatsAppGroup(message, formattedMessage, target, delivery)
+                    : this.forwardToTelegramChat(message, formattedMessage, target, delivery)
+            );
+        } catch (error) {
+            console.error('[WA→TG] Error forwarding message:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Forward a formatted WhatsApp message to one Telegram chat and remember the copy
+     */
+    private async forwardToTelegramChat(
+        message: WhatsAppMessage,
+        formattedMessage: string,
+        target: RouteTarget,
+        delivery: HistoryDelivery
+    ): Promise<void> {
+        const chatId = target.destination.id;
+        const telegram = this.telegramSessions.resolveSender(target.destination.sessionId);
+        const replyTo = await this.findReplyTarget(message, chatId);
+        const sentMessageId = await this.sendToChat(telegram, message, chatId, formattedMessage, delivery, replyTo);
+        delivery.messageId = sentMessageId !== undefined ? String(sentMessageId) : undefined;
+        if (sentMessageId) {
+            await this.recordMapping(message.id, message.groupId, target, String(sentMessageId));
+        }
+    }
 
-            let formattedMessage = `💬 *${message.groupName}*\n`;
-            if (message.senderName) {
-                formattedMessage += `👤 ${message.senderName}\n`;
+    /**
+     * Relay a formatted WhatsApp message to another WhatsApp group, albums as one ordered batch
+     * with the caption on the part that carried it
+     */
+    private async forwardToWhatsAppGroup(
+        message: WhatsAppMessage,
+        formattedMessage: string,
+        target: RouteTarget,
+        delivery: HistoryDelivery
+    ): Promise<void> {
+        const groupId = target.destination.id;
+        try {
+            const whatsapp = this.whatsappSessions.resolve(target.destination.sessionId);
+            const quotedMessageId = message.quotedMessageId
+                ? (await findMessageMapping('whatsapp', message.groupId, message.quotedMessageId, 'whatsapp', groupId))?.destinationMessageId
+                : undefined;
+
+            const parts = message.album?.length ? message.album : [message];
+            const mediaParts = parts.filter(part => part.hasMedia && part.mediaBuffer);
+            const suffix = parts
+                .filter(part => part.hasMedia && !part.mediaBuffer)
+                .map(part => `\n📎 Media: ${part.mediaType || 'Unknown'} (download failed)`)
+                .join('');
+            const text = formattedMessage + (suffix ? `\n${suffix}` : '');
+            delivery.text = text;
+
+            if (mediaParts.length === 0) {
+                const sentMessageId = await whatsapp.sendMessageToGroup(groupId, '', text, { quotedMessageId });
+                delivery.messageId = sentMessageId;
+                await this.recordMapping((parts.find(part => part.text) || message).id, message.groupId, target, sentMessageId);
+                return;
             }
 
-            if (message.text) {
-                let messageText = message.text;
-                if (aiSettings) {
-                    console.log('[WA→TG] Translating message with AI...');
-                    messageText = await this.translateMessage(messageText, aiSettings);
+            const captionPart = mediaParts.find(part => part.text) || mediaParts[0];
+            console.log(`[WA→WA] Relaying ${mediaParts.length} media file(s) to group ${groupId}`);
+            const results = await sendMediaBatchToGroup(
+                whatsapp,
+                groupId,
+                mediaParts.map(part => ({
+                    buffer: part.mediaBuffer as Buffer,
+                    fileName: part.mediaFileName || `media_${part.id}`,
+                    mediaType: this.getWhatsAppMediaType(part.mediaType),
+                    caption: part === captionPart ? text : '',
+                    quotedMessageId: part === captionPart ? quotedMessageId : undefined
+                })),
+                path.join(process.cwd(), 'temp', 'wa_to_wa')
+            );
+
+            for (let index = 0; index < results.length; index++) {
+                const result = results[index];
+                const part = mediaParts[index];
+                if (result.status === 'fulfilled') {
+                    const isCaption = part === captionPart;
+                    delivery.mediaSent++;
+                    if (isCaption) delivery.messageId = result.value;
+                    await this.recordMapping(part.id, message.groupId, target, result.value, !isCaption);
+                } else {
+                    console.error(`[WA→WA] Error sending media ${part.id} to group ${groupId}:`, result.reason);
+                    markMediaFailed(delivery, result.reason);
                 }
-                formattedMessage += `\n${messageText}`;
             }
 
-            if (message.hasMedia && message.mediaBuffer) {
-                try {
-                    await this.telegramInstance.sendMediaToChat(
-                        config.telegramChatId,
-                        message.mediaBuffer,
-                        message.mediaFileName || `media_${message.id}`,
-                        message.mediaMimeType || 'application/octet-stream',
-                        formattedMessage
-                    );
-                } catch (mediaError) {
-                    console.error('[WA→TG] Error sending media to Telegram:', mediaError);
-                    formattedMessage += `\n\n📎 Media: ${message.mediaType || 'Unknown'} (failed to forward)`;
-                    await this.telegramInstance.sendMessageToChat(config.telegramChatId, formattedMessage);
+            if (delivery.mediaSent === 0) {
+                // Already stored as dead letters by the outbound queue when retries ran out
+                const deadLettered = results.every(result => result.status === 'rejected' && result.reason instanceof RetryExhaustedError);
+                delivery.status = deadLettered ? 'dead_letter' : 'failed';
+            }
+        } catch (error) {
+            if (error instanceof RetryExhaustedError) {
+                console.error(`[WA→WA] Message to group ${groupId} moved to dead letters: ${error.message}`);
+                markDeadLettered(delivery, error);
+                return;
+            }
+            console.error(`[WA→WA] Error relaying message to group ${groupId}:`, error);
+            throw error;
+        }
+    }
+
+    private getWhatsAppMediaType(mediaType: WhatsAppMessage['mediaType']): WhatsAppMediaType {
+        return !mediaType || mediaType === 'sticker' ? 'document' : mediaType;
+    }
+
+    /**
+     * Remember which message a WhatsApp message was delivered as
+     */
+    private async recordMapping(
+        sourceMessageId: string,
+        sourceChatId: string,
+        target: RouteTarget,
+        sentMessageId: string | undefined,
+        captionless?: boolean
+    ): Promise<void> {
+        if (!sentMessageId) return;
+        await saveMessageMapping({
+            sourcePlatform: 'whatsapp',
+            sourceChatId,
+            sourceMessageId,
+            destinationPlatform: target.destination.platform,
+            destinationId: target.destination.id,
+            destinationMessageId: sentMessageId,
+            destinationMessageKey: deliveredMessageKey(target.destination.platform, sentMessageId),
+            sessionId: target.destination.sessionId,
+            routeId: target.route.id,
+            captionless,
+            createdAt: new Date()
+        });
+    }
+
+    /**
+     * Find our Telegram copy of the message a WhatsApp message replies to, if it was forwarded to this chat
+     */
+    private async findReplyTarget(message: WhatsAppMessage, chatId: string): Promise<number | undefined> {
+        if (!message.quotedMessageId) return undefined;
+        const mapping = await findMessageMapping('whatsapp', message.groupId, message.quotedMessageId, 'telegram', chatId);
+        return mapping ? Number(mapping.destinationMessageId) : undefined;
+    }
+
+    /**
+     * Send a formatted WhatsApp message to one Telegram chat
+     * @returns ID of the Telegram message that carries the text
+     */
+    private async sendToChat(
+        telegram: TelegramSender,
+        message: WhatsAppMessage,
+        chatId: string,
+        formattedMessage: string,
+        delivery: HistoryDelivery,
+        replyTo?: number
+    ): Promise<number | undefined> {
+        if (message.album?.length) {
+            return this.sendAlbumToChat(telegram, message.album, chatId, formattedMessage, delivery, replyTo);
+        }
+
+        if (message.hasMedia && message.mediaBuffer) {
+            const mediaBuffer = message.mediaBuffer;
+            const fileName = message.mediaFileName || `media_${message.id}`;
+            const mimeType = message.mediaMimeType || 'application/octet-stream';
+            try {
+                const sentMessageId = await this.telegramSessions.send({
+                    sessionId: telegram.getSessionId(),
+                    chatId,
+                    sourceMessageId: message.id,
+                    text: formattedMessage,
+                    files: [{ buffer: mediaBuffer, fileName, mimeType }],
+                    replyTo
+                });
+                delivery.mediaSent++;
+                return sentMessageId;
+            } catch (mediaError) {
+                if (mediaError instanceof RetryExhaustedError) {
+                    // Already stored as a dead letter by the queue
+                    markDeadLettered(delivery, mediaError);
+                    return undefined;
                 }
-            } else {
-                if (message.hasMedia) {
-                    formattedMessage += `\n\n📎 Media: ${message.mediaType || 'Unknown'} (download failed)`;
+                console.error('[WA→TG] Error sending media to Telegram:', mediaError);
+                markMediaFailed(delivery, mediaError);
+                const fallbackMessage = formattedMessage + `\n\n📎 Media: ${message.mediaType || 'Unknown'} (failed to forward)`;
+                if (formattedMessage) delivery.text = fallbackMessage;
+                return this.sendTextWithDeadLetter(telegram, message.id, chatId, fallbackMessage, delivery, replyTo);
+            }
+        } else {
+            let finalMessage = formattedMessage;
+            if (message.hasMedia) {
+                finalMessage += `\n\n📎 Media: ${message.mediaType || 'Unknown'} (download failed)`;
+            }
+            if (formattedMessage) delivery.text = finalMessage;
+            return this.sendTextWithDeadLetter(telegram, message.id, chatId, finalMessage, delivery, replyTo);
+        }
+    }
+
+    /**
+     * Send album parts to one Telegram chat as a single album with the caption once, through the outbound
+     * queue (retries and dead letters). Parts whose media could not be downloaded are sent one by one instead.
+     */
+    private async sendAlbumToChat(
+        telegram: TelegramSender,
+        parts: WhatsAppMessage[],
+        chatId: string,
+        formattedMessage: string,
+        delivery: HistoryDelivery,
+        replyTo?: number
+    ): Promise<number | undefined> {
+        const captionPart = parts.find(part => part.text) || parts[0];
+        const files = parts
+            .filter(part => part.mediaBuffer)
+            .map(part => ({
+                buffer: part.mediaBuffer as Buffer,
+                fileName: part.mediaFileName || `media_${part.id}`,
+                mimeType: part.mediaMimeType || 'application/octet-stream'
+            }));
+
+        if (files.length === parts.length) {
+            try {
+                const sentMessageId = await this.telegramSessions.send({
+                    sessionId: telegram.getSessionId(),
+                    chatId,
+                    sourceMessageId: captionPart.id,
+                    text: formattedMessage,
+                    files,
+                    replyTo
+                });
+                delivery.mediaSent += files.length;
+                return sentMessageId;
+            } catch (error) {
+                if (error instanceof RetryExhaustedError) {
+                    // Already stored as a dead letter by the queue
+                    markDeadLettered(delivery, error);
+                    return undefined;
                 }
-                await this.telegramInstance.sendMessageToChat(config.telegramChatId, formattedMessage);
+                throw error;
             }
+        }
+
+        let captionMessageId: number | undefined;
+        for (const part of parts) {
+            const isCaption = part === captionPart;
+            const sentMessageId = await this.sendToChat(telegram, part, chatId, isCaption ? formattedMessage : '', delivery, isCaption ? replyTo : undefined);
+            if (isCaption) captionMessageId = sentMessageId;
+        }
+        return captionMessageId;
+    }
+
+    private async sendTextWithDeadLetter(
+        telegram: TelegramSender,
+        messageId: string,
+        chatId: string,
+        text: string,
+        delivery: HistoryDelivery,
+        replyTo?: number
+    ): Promise<number | undefined> {
+        try {
+            return await this.telegramSessions.send({ sessionId: telegram.getSessionId(), chatId, sourceMessageId: messageId, text, replyTo });
         } catch (error) {
-            console.error('[WA→TG] Error forwarding message to Telegram:', error);
+            if (error instanceof RetryExhaustedError) {
+                // Already stored as a dead letter by the queue
+                markDeadLettered(delivery, error);
+                return undefined;
+            }
             throw error;
         }
     }
+
+    /**
+     * Queue a Telegram dead letter again with its media; the outbound queue keeps its own copy of the media,
+     * retries the send and dead-letters it again if retries run out
+     * @returns Resolves with the sent message ID once delivered
+     */
+    public redeliverDeadLetter(deadLetter: DeadLetter): Promise<number | undefined> {
+        if (deadLetter.platform !== 'telegram') {
+            return Promise.reject(new Error(`Dead letter ${deadLetter.id} is not a Telegram delivery`));
+        }
+
+        const telegram = this.telegramSessions.resolveSender(deadLetter.sessionId);
+        const media = deadLetter.mediaFiles?.length
+            ? deadLetter.mediaFiles
+            : deadLetter.mediaPath
+                ? [{ path: deadLetter.mediaPath, fileName: deadLetter.mediaFileName || path.basename(deadLetter.mediaPath), mimeType: deadLetter.mediaMimeType || 'application/octet-stream' }]
+                : [];
+        const files = media
+            .filter(file => fs.existsSync(file.path))
+            .map(file => ({ buffer: fs.readFileSync(file.path), fileName: file.fileName, mimeType: file.mimeType }));
+
+        return this.telegramSessions.send({
+            sessionId: telegram.getSessionId(),
+            chatId: deadLetter.destinationId,
+            sourceMessageId: deadLetter.id,
+            text: deadLetter.content,
+            files
+        });
+    }
 }
 
 export default WaToTgForwardingManager;
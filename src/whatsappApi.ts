@@ -1,34 +1,161 @@
 import express from 'express';
-import { whatsappInstance } from './sharedInstances';
+import { whatsappSessions, waToTgForwardingManager } from './sharedInstances';
+import { SwitchableWhatsAppEngine } from './switchableWhatsAppEngine';
+import { validateSessionId } from './whatsappSessions';
+import { WHATSAPP_ENGINE_TYPES, WhatsAppUnavailableError, getEngineStatus, isWhatsAppEngineType } from './whatsappEngine';
+import { routeEngine } from './routeEngine';
 
 const router = express.Router();
 
 // Note: WhatsApp is initialized in sharedInstances.ts, not here
 
 /**
- * Get client status and info
+ * Session routes are served both unprefixed (default session) and as /:sessionId/...
+ */
+function sessionPaths(path: string): string[] {
+    return [path, `/:sessionId${path}`];
+}
+
+/**
+ * Look up the session a request targets, answering 404 when it doesn't exist
  */
-router.get('/status', async (req, res) => {
+function getSession(req: express.Request, res: express.Response): SwitchableWhatsAppEngine | null {
+    const sessionId = req.params.sessionId as string | undefined;
+    const session = whatsappSessions.get(sessionId);
+    if (!session) {
+        res.status(404).json({
+            success: false,
+            message: `WhatsApp session not found: ${sessionId}`
+        });
+        return null;
+    }
+    return session;
+}
+
+/**
+ * List WhatsApp sessions with their status
+ */
+router.get('/sessions', (req, res) => {
     try {
-        const isReady = whatsappInstance.isReady();
-        let clientInfo = null;
-        const engine = whatsappInstance.getEngineType();
-        const pairingInfo = whatsappInstance.getPairingInfo();
-        
-        if (isReady) {
-            clientInfo = await whatsappInstance.getClientInfo();
+        res.json({
+            success: true,
+            sessions: whatsappSessions.list(),
+            availableEngines: WHATSAPP_ENGINE_TYPES
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: 'Error listing WhatsApp sessions',
+            error: error.message
+        });
+    }
+});
+
+/**
+ * Add a WhatsApp session (another account) and start connecting it
+ */
+router.post('/sessions', async (req, res) => {
+    try {
+        const { id, name, engine, phoneNumber } = req.body || {};
+        const invalid = validateSessionId(id);
+        if (invalid) {
+            return res.status(400).json({
+                success: false,
+                message: invalid
+            });
+        }
+        if (whatsappSessions.has(id)) {
+            return res.status(400).json({
+                success: false,
+                message: `WhatsApp session already exists: ${id}`
+            });
+        }
+        if (engine !== undefined && !isWhatsAppEngineType(engine)) {
+            return res.status(400).json({
+                success: false,
+                message: `engine must be one of: ${WHATSAPP_ENGINE_TYPES.join(', ')}`
+            });
         }
 
+        const session = await whatsappSessions.createSession({
+            id,
+            name: typeof name === 'string' && name.trim() ? name.trim() : id,
+            engine: engine || whatsappSessions.getDefault().getEngineType(),
+            phoneNumber: phoneNumber ? String(phoneNumber).replace(/[^0-9]/g, '') : undefined
+        });
+        // Pick up routes that already reference this session
+        waToTgForwardingManager.listenToRouteSources();
+
         res.json({
             success: true,
-            isReady: isReady,
-            engine,
-            hasQrCode: !!whatsappInstance.getCurrentQrCode(),
-            pairingInfo,
-            phoneNumber: 'getPhoneNumber' in whatsappInstance
-                ? (whatsappInstance as any).getPhoneNumber()
-                : null,
-            clientInfo: clientInfo
+            message: `WhatsApp session ${id} added. Pair it to start sending.`,
+            session: getEngineStatus(session)
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: 'Error adding WhatsApp session',
+            error: error.message
+        });
+    }
+});
+
+/**
+ * Remove a WhatsApp session that no route uses. Its login is kept on disk,
+ * and messages still queued for it are moved to the dead letters.
+ */
+router.delete('/sessions/:sessionId', async (req, res) => {
+    try {
+        const { sessionId } = req.params;
+        if (!whatsappSessions.has(sessionId)) {
+            return res.status(404).json({
+                success: false,
+                message: `WhatsApp session not found: ${sessionId}`
+            });
+        }
+
+        const routes = routeEngine.getRoutesUsingSession('whatsapp', sessionId);
+        if (routes.length > 0) {
+            return res.status(409).json({
+                success: false,
+                message: `WhatsApp session is used by route(s): ${routes.map(route => route.name).join(', ')}`
+            });
+        }
+
+        const deadLettered = await whatsappSessions.removeSession(sessionId);
+        res.json({
+            success: true,
+            message: deadLettered
+                ? `WhatsApp session ${sessionId} removed, ${deadLettered} queued message(s) moved to the dead letters`
+                : `WhatsApp session ${sessionId} removed`,
+            deadLettered
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: 'Error removing WhatsApp session',
+            error: error.message
+        });
+    }
+});
+
+/**
+ * Get client status and info
+ */
+router.get(sessionPaths('/status'), async (req, res) => {
+    try {
+        const whatsappInstance = getSession(req, res);
+        if (!whatsappInstance) return;
+
+        const status = getEngineStatus(whatsappInstance);
+        const clientInfo = status.isReady ? await whatsappInstance.getClientInfo() : null;
+
+        res.json({
+            success: true,
+            ...status,
+            isSwitching: whatsappInstance.isCurrentlySwitching(),
+            availableEngines: WHATSAPP_ENGINE_TYPES,
+            clientInfo
         });
     } catch (error: any) {
         res.status(500).json({
@@ -43,8 +170,11 @@ router.get('/status', async (req, res) => {
  * Pair with a phone number (returns pairing code).
  * Supported for both Baileys and whatsapp-web.js (optional alternative to QR).
  */
-router.post('/pair', async (req, res) => {
+router.post(sessionPaths('/pair'), async (req, res) => {
     try {
+        const whatsappInstance = getSession(req, res);
+        if (!whatsappInstance) return;
+
         const phone = String(req.body?.phoneNumber || req.body?.phone || '').replace(/[^0-9]/g, '');
         if (!phone) {
             return res.status(400).json({
@@ -73,8 +203,11 @@ router.post('/pair', async (req, res) => {
 /**
  * Restart WhatsApp client
  */
-router.post('/restart', async (req, res) => {
+router.post(sessionPaths('/restart'), async (req, res) => {
     try {
+        const whatsappInstance = getSession(req, res);
+        if (!whatsappInstance) return;
+
         await whatsappInstance.restart();
         
         res.json({
@@ -93,8 +226,11 @@ router.post('/restart', async (req, res) => {
 /**
  * Get all groups
  */
-router.get('/groups', async (req, res) => {
+router.get(sessionPaths('/groups'), async (req, res) => {
     try {
+        const whatsappInstance = getSession(req, res);
+        if (!whatsappInstance) return;
+
         if (!whatsappInstance.isReady()) {
             return res.status(400).json({
                 success: false,
@@ -103,24 +239,18 @@ router.get('/groups', async (req, res) => {
         }
 
         const groups = await whatsappInstance.getGroups();
-        if (typeof groups === 'string') {
-            return res.status(400).json({
-                success: false,
-                message: groups
-            });
-        }
-        
         res.json({
             success: true,
             message: `Found ${groups.length} groups`,
-            groups: groups.map(group => ({
-                id: group.id._serialized,
-                name: group.name,
-                participantsCount: group.participants?.length || 0,
-                description: (group as any).description || null
-            }))
+            groups
         });
     } catch (error: any) {
+        if (error instanceof WhatsAppUnavailableError) {
+            return res.status(400).json({
+                success: false,
+                message: error.message
+            });
+        }
         res.status(500).json({
             success: false,
             message: 'Error getting groups',
@@ -132,8 +262,11 @@ router.get('/groups', async (req, res) => {
 /**
  * Take screenshot of WhatsApp Web
  */
-router.get('/screenshot', async (req, res) => {
+router.get(sessionPaths('/screenshot'), async (req, res) => {
     try {
+        const whatsappInstance = getSession(req, res);
+        if (!whatsappInstance) return;
+
         const screenshot = await whatsappInstance.takeScreenshot();
         
         if (!screenshot) {
@@ -162,14 +295,17 @@ router.get('/screenshot', async (req, res) => {
 /**
  * Reset WhatsApp instance (delete auth/cache and restart)
  */
-router.post('/reset', async (req, res) => {
+router.post(sessionPaths('/reset'), async (req, res) => {
     try {
+        const whatsappInstance = getSession(req, res);
+        if (!whatsappInstance) return;
+
         await whatsappInstance.resetInstance();
 
         // For Baileys without a phone number, don't auto-reinit (pair endpoint will)
         if (whatsappInstance.getEngineType() === 'wwebjs') {
             // resetInstance already reinitializes for wwebjs
-        } else if ('getPhoneNumber' in whatsappInstance && (whatsappInstance as any).getPhoneNumber()) {
+        } else if (whatsappInstance.getPhoneNumber()) {
             await whatsappInstance.initialize();
         }
         
@@ -188,4 +324,41 @@ router.post('/reset', async (req, res) => {
     }
 });
 
+/**
+ * Switch the WhatsApp engine at runtime (wwebjs or baileys).
+ * Pending outbound messages are kept and sent by the new engine; the choice survives restarts.
+ */
+router.post(sessionPaths('/engine'), async (req, res) => {
+    try {
+        const whatsappInstance = getSession(req, res);
+        if (!whatsappInstance) return;
+
+        const { engine } = req.body || {};
+        if (!isWhatsAppEngineType(engine)) {
+            return res.status(400).json({
+                success: false,
+                message: `engine must be one of: ${WHATSAPP_ENGINE_TYPES.join(', ')}`
+            });
+        }
+
+        const previous = whatsappInstance.getEngineType();
+        await whatsappSessions.switchEngine(whatsappInstance.getSessionId(), engine);
+
+        res.json({
+            success: true,
+            message: previous === engine
+                ? `WhatsApp is already using the ${engine} engine`
+                : `Switched WhatsApp engine from ${previous} to ${engine}. Pair again if this engine has no saved session.`,
+            engine,
+            previousEngine: previous
+        });
+    } catch (error: any) {
+        res.status(500).json({
+            success: false,
+            message: 'Error switching WhatsApp engine',
+            error: error.message
+        });
+    }
+});
+
 export default router;
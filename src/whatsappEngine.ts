@@ -1,4 +1,201 @@
-import { WhatsAppInstance } from './whatsappInstance';
-import { BaileysWhatsAppInstance } from './baileysWhatsAppInstance';
+import * as fs from 'fs';
+import * as path from 'path';
+import { OutboundSendOptions } from './outboundQueue';
 
-export type WhatsAppEngine = WhatsAppInstance | BaileysWhatsAppInstance;
+export type WhatsAppEngineType = 'wwebjs' | 'baileys';
+
+export const WHATSAPP_ENGINE_TYPES: WhatsAppEngineType[] = ['wwebjs', 'baileys'];
+
+// The session that existed before multiple accounts: keeps the original auth paths and env settings
+export const DEFAULT_WHATSAPP_SESSION_ID = 'default';
+
+/**
+ * Where an engine keeps its login, per WhatsApp session
+ */
+export interface WhatsAppSessionOptions {
+    sessionId: string;
+    authPath?: string; // Engine default (env / working directory) when unset
+    phoneNumber?: string; // Pairing number; the default session falls back to the env
+}
+
+export type WhatsAppMediaType = 'image' | 'video' | 'audio' | 'document';
+
+export interface WhatsAppMessage {
+    id: string;
+    text: string;
+    date: Date;
+    senderId?: string;
+    senderName?: string;
+    groupId: string;
+    groupName: string;
+    isForwarded: boolean;
+    mediaType?: WhatsAppMediaType | 'sticker';
+    hasMedia: boolean;
+    mediaBuffer?: Buffer;
+    mediaFileName?: string;
+    mediaMimeType?: string;
+    quotedMessageId?: string; // ID of the message this one replies to
+    album?: WhatsAppMessage[]; // Media sent in a burst, collected by the WA → TG forwarding (set on the combined message)
+}
+
+export interface WhatsAppGroup {
+    id: string; // Serialized group JID (…@g.us)
+    name: string;
+    participantsCount: number;
+    description: string | null;
+}
+
+export type WhatsAppPairingInfo = { type: 'qr'; data: string } | { type: 'code'; data: string } | null;
+
+export interface WhatsAppClientInfo {
+    engine: WhatsAppEngineType;
+    state: string | null; // Connection state as reported by the engine
+    userId: string | null;
+    name: string | null;
+    phoneNumber: string | null;
+}
+
+export interface WhatsAppQueueStatus {
+    queueSize: number;
+    isProcessing: boolean;
+    processingDelay: number;
+    maxQueueSize: number;
+}
+
+export interface WhatsAppStatus {
+    sessionId: string;
+    engine: WhatsAppEngineType;
+    isReady: boolean;
+    isRestarting: boolean;
+    restartAttempts: number;
+    hasQrCode: boolean;
+    pairingInfo: WhatsAppPairingInfo;
+    phoneNumber: string | null;
+    listeningGroups: string[];
+    queue: WhatsAppQueueStatus;
+}
+
+export type WhatsAppMessageHandler = (message: WhatsAppMessage) => void;
+export type WhatsAppMessageFilter = (message: WhatsAppMessage) => boolean;
+
+/**
+ * Thrown when the client can't serve a request yet (not connected, restarting, groups still loading)
+ */
+export class WhatsAppUnavailableError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'WhatsAppUnavailableError';
+    }
+}
+
+/**
+ * What the rest of the app may rely on from a WhatsApp client, whichever library backs it
+ */
+export interface WhatsAppEngine {
+    getEngineType(): WhatsAppEngineType;
+    getSessionId(): string;
+
+    // Connection lifecycle
+    initialize(qrCallback?: (qr: string) => void): Promise<void>;
+    restart(): Promise<void>;
+    resetInstance(): Promise<void>;
+    destroy(): Promise<void>;
+    /** Stop for good: hand the outbound queue over and destroy the client. The instance can't be reused. */
+    shutdown(): Promise<void>;
+    isReady(): boolean;
+    isCurrentlyRestarting(): boolean;
+    getRestartAttempts(): number;
+    resetRestartAttempts(): void;
+    startKeepAlive(): void;
+
+    // Pairing
+    getCurrentQrCode(): string;
+    getPairingInfo(): WhatsAppPairingInfo;
+    getPhoneNumber(): string;
+    pairWithPhone(phone: string): Promise<string>;
+    getClientInfo(): Promise<WhatsAppClientInfo | null>;
+    /** Base64 screenshot of the client, or an empty string when the engine has no browser */
+    takeScreenshot(): Promise<string>;
+
+    /** @throws WhatsAppUnavailableError while the client or its group list isn't ready */
+    getGroups(): Promise<WhatsAppGroup[]>;
+
+    // Outgoing messages (queued); resolve with the sent message ID when the engine reports one
+    sendTextToGroup(groupId: string, message: string): Promise<string | undefined>;
+    sendMediaToGroup(groupId: string, mediaPath: string, caption?: string, mediaType?: WhatsAppMediaType, quotedMessageId?: string): Promise<string | undefined>;
+    sendMessageToGroup(groupId: string, mediaPath: string, content: string, options?: OutboundSendOptions): Promise<string | undefined>;
+    editMessage(groupId: string, messageId: string, text: string): Promise<void>;
+    deleteMessage(groupId: string, messageId: string): Promise<void>;
+    getQueueStatus(): WhatsAppQueueStatus;
+    setQueueDelay(delayMs: number): void;
+
+    // Incoming messages
+    setMessageFilter(filter: WhatsAppMessageFilter | null): void;
+    onMessage(handler: WhatsAppMessageHandler): void;
+    removeMessageHandler(handler: WhatsAppMessageHandler): void;
+    startListeningToGroups(groupIds: string[]): void;
+    stopListeningToGroups(groupIds: string[]): void;
+    getListeningGroups(): string[];
+}
+
+export function isWhatsAppEngineType(value: unknown): value is WhatsAppEngineType {
+    return typeof value === 'string' && (WHATSAPP_ENGINE_TYPES as string[]).includes(value);
+}
+
+/**
+ * Snapshot of an engine's connection state, shaped the same for every engine
+ */
+export function getEngineStatus(engine: WhatsAppEngine): WhatsAppStatus {
+    return {
+        sessionId: engine.getSessionId(),
+        engine: engine.getEngineType(),
+        isReady: engine.isReady(),
+        isRestarting: engine.isCurrentlyRestarting(),
+        restartAttempts: engine.getRestartAttempts(),
+        hasQrCode: !!engine.getCurrentQrCode(),
+        pairingInfo: engine.getPairingInfo(),
+        phoneNumber: engine.getPhoneNumber() || null,
+        listeningGroups: engine.getListeningGroups(),
+        queue: engine.getQueueStatus()
+    };
+}
+
+/**
+ * Enqueue several media files for one group before waiting on any of them, so they stay together
+ * and in order in the outbound queue. Temporary files are removed once every item has settled.
+ */
+export async function sendMediaBatchToGroup(
+    whatsapp: WhatsAppEngine,
+    groupId: string,
+    items: {
+        buffer: Buffer;
+        fileName: string;
+        mediaType: WhatsAppMediaType;
+        caption: string;
+        quotedMessageId?: string;
+    }[],
+    tempDir: string
+): Promise<PromiseSettledResult<string | undefined>[]> {
+    if (!fs.existsSync(tempDir)) {
+        fs.mkdirSync(tempDir, { recursive: true });
+    }
+
+    const tempFilePaths: string[] = [];
+    try {
+        const sends = items.map((item, index) => {
+            const tempFilePath = path.join(tempDir, `${Date.now()}_${index}_${item.fileName}`);
+            fs.writeFileSync(tempFilePath, item.buffer);
+            tempFilePaths.push(tempFilePath);
+            return whatsapp.sendMediaToGroup(groupId, tempFilePath, item.caption, item.mediaType, item.quotedMessageId);
+        });
+        return await Promise.allSettled(sends);
+    } finally {
+        for (const tempFilePath of tempFilePaths) {
+            try {
+                if (fs.existsSync(tempFilePath)) {
+                    fs.unlinkSync(tempFilePath);
+                }
+            } catch { /* ignore cleanup errors */ }
+        }
+    }
+}
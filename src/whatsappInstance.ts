@@ -2,40 +2,23 @@ import { Client, LocalAuth, MessageMedia, GroupChat, Message } from 'whatsapp-we
 import * as qrcode from 'qrcode';
 import * as fs from 'fs';
 import * as path from 'path';
-
-export interface WhatsAppMessage {
-    id: string;
-    text: string;
-    date: Date;
-    senderId?: string;
-    senderName?: string;
-    groupId: string;
-    groupName: string;
-    isForwarded: boolean;
-    mediaType?: 'image' | 'video' | 'audio' | 'document' | 'sticker';
-    hasMedia: boolean;
-    mediaBuffer?: Buffer;
-    mediaFileName?: string;
-    mediaMimeType?: string;
-}
-
-// Interface for queue items
-interface QueueItem {
-    id: string;
-    groupId: string;
-    mediaPath: string;
-    content: string;
-    options?: {
-        type?: 'text' | 'media';
-        caption?: string;
-        mediaType?: 'image' | 'video' | 'audio' | 'document';
-    };
-    timestamp: number;
-    resolve: (value: void | PromiseLike<void>) => void;
-    reject: (reason?: any) => void;
-}
-
-export class WhatsAppInstance {
+import { OutboundQueue, OutboundSendOptions } from './outboundQueue';
+import {
+    DEFAULT_WHATSAPP_SESSION_ID,
+    WhatsAppClientInfo,
+    WhatsAppEngine,
+    WhatsAppGroup,
+    WhatsAppMediaType,
+    WhatsAppMessage,
+    WhatsAppMessageFilter,
+    WhatsAppMessageHandler,
+    WhatsAppPairingInfo,
+    WhatsAppQueueStatus,
+    WhatsAppSessionOptions,
+    WhatsAppUnavailableError
+} from './whatsappEngine';
+
+export class WhatsAppInstance implements WhatsAppEngine {
     private client: Client;
     private groupsReady: boolean = false;
     private cachedGroups: GroupChat[] = [];
@@ -49,31 +32,41 @@ export class WhatsAppInstance {
     private restartAttempts: number = 0;
     private keepAliveInterval: ReturnType<typeof setInterval> | null = null;
     private authPageReady: boolean = false;
+    private isShutDown: boolean = false;
+    private readonly sessionId: string;
+    private readonly authDir: string;
     
-    // Message queue properties
-    private messageQueue: QueueItem[] = [];
-    private isProcessingQueue: boolean = false;
-    private queueProcessingDelay: number = 1000; // 1 second delay between messages
-    private maxQueueSize: number = 100; // Maximum queue size before exit
+    // Persisted outbound message queue
+    private outboundQueue: OutboundQueue;
 
     // Incoming message handling (WA → TG forwarding)
     private listeningGroups: Set<string> = new Set();
-    private messageHandlers: ((message: WhatsAppMessage) => void)[] = [];
+    private messageHandlers: WhatsAppMessageHandler[] = [];
+    private messageFilter: WhatsAppMessageFilter | null = null;
 
-    constructor() {
+    constructor(options: WhatsAppSessionOptions = { sessionId: DEFAULT_WHATSAPP_SESSION_ID }) {
+        this.sessionId = options.sessionId;
+        this.authDir = options.authPath || path.join(process.cwd(), '.wwebjs_auth');
         this.phoneNumber = (
-            process.env.WHATSAPP_PHONE_NUMBER ||
+            options.phoneNumber ??
+            (process.env.WHATSAPP_PHONE_NUMBER ||
             process.env.BAILEYS_PHONE_NUMBER ||
-            ''
+            '')
         ).replace(/[^0-9]/g, '');
         this.client = this.createClient(this.phoneNumber || undefined);
-        this.startQueueProcessor();
+        this.outboundQueue = new OutboundQueue(
+            this.sessionId === DEFAULT_WHATSAPP_SESSION_ID ? 'WhatsApp' : `WhatsApp:${this.sessionId}`,
+            this.sessionId,
+            (item) => this.sendMessageDirectly(item.groupId, item.mediaPath, item.content, item.options),
+            () => this.isInitialized && !this.isRestarting
+        );
     }
 
     private createClient(pairPhone?: string): Client {
         const options: ConstructorParameters<typeof Client>[0] = {
             authStrategy: new LocalAuth({
-                clientId: 'telegram-forwarder'
+                clientId: 'telegram-forwarder',
+                dataPath: this.authDir
             }),
             puppeteer: {
                 executablePath: process.platform === 'win32'
@@ -107,7 +100,7 @@ export class WhatsAppInstance {
      */
     private cleanupSingletonLock(): void {
         try {
-            const lockPath = path.join(process.cwd(), '.wwebjs_auth', 'session-telegram-forwarder', 'SingletonLock');
+            const lockPath = path.join(this.authDir, 'session-telegram-forwarder', 'SingletonLock');
             if (fs.existsSync(lockPath)) {
                 fs.unlinkSync(lockPath);
                 console.log('Cleaned up existing WhatsApp singleton lock');
@@ -153,6 +146,10 @@ export class WhatsAppInstance {
         const errorMessage = error?.message || error?.toString() || 'Unknown error';
         console.error(`WhatsApp ${context} error:`, errorMessage);
 
+        if (this.isShutDown) {
+            return;
+        }
+
         if (shouldRestart && this.shouldRestartClient(error) && !this.isRestarting) {
             console.log(`Detected session error in ${context}, attempting to restart client...`);
             await this.attemptRestart();
@@ -278,15 +275,19 @@ export class WhatsAppInstance {
         return this.currentQrCode;
     }
 
-    public getEngineType(): 'wwebjs' | 'baileys' {
+    public getEngineType(): 'wwebjs' {
         return 'wwebjs';
     }
 
+    public getSessionId(): string {
+        return this.sessionId;
+    }
+
     public getPhoneNumber(): string {
         return this.phoneNumber;
     }
 
-    public getPairingInfo(): { type: 'qr'; data: string } | { type: 'code'; data: string } | null {
+    public getPairingInfo(): WhatsAppPairingInfo {
         if (this.currentPairingCode) {
             return { type: 'code', data: this.currentPairingCode };
         }
@@ -357,7 +358,7 @@ export class WhatsAppInstance {
      * Restart the WhatsApp client
      */
     public async restart(): Promise<void> {
-        if (this.isRestarting) return;
+        if (this.isRestarting || this.isShutDown) return;
         this.isInitialized = false;
         this.groupsReady = false;
         this.cachedGroups = [];
@@ -524,13 +525,13 @@ export class WhatsAppInstance {
                 this.cachedGroups = [];
             }
 
-            // Delete .wwebjs_auth and .wwebjs_cache directories
-            const authDir = path.join(process.cwd(), '.wwebjs_auth');
+            // Delete this session's auth directory and the .wwebjs_cache directory
+            const authDir = this.authDir;
             const cacheDir = path.join(process.cwd(), '.wwebjs_cache');
 
             // Remove auth directory
             if (fs.existsSync(authDir)) {
-                console.log('Removing .wwebjs_auth directory...');
+                console.log(`Removing auth directory ${authDir}...`);
                 fs.rmSync(authDir, { recursive: true, force: true });
                 console.log('Auth directory removed successfully');
             }
@@ -562,27 +563,25 @@ export class WhatsAppInstance {
 
     /**
      * Get all groups that the bot is part of
-     * @returns Array of group chats
+     * @returns Groups in the engine-independent shape
      */
-    public async getGroups(): Promise<GroupChat[] | string> {
-        try {
-            if (!this.isInitialized) {
-                throw new Error('WhatsApp client is not initialized');
-            }
-            if (!this.groupsReady) {
-                return 'WhatsApp groups are not ready yet try again in few seconds or minutes';
-            }
-
-            if (this.isRestarting) {
-                return 'WhatsApp client is restarting';
-            }
-
-            return this.cachedGroups;
-        } catch (error) {
-            console.error('Error getting groups:', error);
-            await this.handleError(error, 'getGroups');
-            throw error;
+    public async getGroups(): Promise<WhatsAppGroup[]> {
+        if (!this.isInitialized) {
+            throw new WhatsAppUnavailableError('WhatsApp client is not initialized');
+        }
+        if (this.isRestarting) {
+            throw new WhatsAppUnavailableError('WhatsApp client is restarting');
+        }
+        if (!this.groupsReady) {
+            throw new WhatsAppUnavailableError('WhatsApp groups are not ready yet try again in few seconds or minutes');
         }
+
+        return this.cachedGroups.map(group => ({
+            id: group.id._serialized,
+            name: group.name,
+            participantsCount: group.participants?.length || 0,
+            description: (group as any).description || null
+        }));
     }
 
     /**
@@ -590,7 +589,7 @@ export class WhatsAppInstance {
      * @param groupId Group ID (can be group name or ID)
      * @param message Text message to send
      */
-    public async sendTextToGroup(groupId: string, message: string): Promise<void> {
+    public async sendTextToGroup(groupId: string, message: string): Promise<string | undefined> {
         return this.addToQueue(groupId, '', message, { type: 'text' });
     }
 
@@ -599,7 +598,7 @@ export class WhatsAppInstance {
      * @param groupId Group ID (can be group name or ID)
      * @param message Text message to send
      */
-    private async sendTextToGroupDirectly(groupId: string, message: string): Promise<void> {
+    private async sendTextToGroupDirectly(groupId: string, message: string, quotedMessageId?: string): Promise<string | undefined> {
         try {
             if (!this.isInitialized) {
                 throw new Error('WhatsApp client is not initialized');
@@ -615,8 +614,9 @@ export class WhatsAppInstance {
                 throw new Error(`Group not found: ${groupId}`);
             }
 
-            await this.client.sendMessage(group.id._serialized, message);
+            const sent = await this.client.sendMessage(group.id._serialized, message, quotedMessageId ? { quotedMessageId } : undefined);
             console.log(`[WhatsApp] Text message sent to group: ${group.name}`);
+            return sent?.id?._serialized;
         } catch (error) {
             console.error('Error sending text message to group:', error);
             await this.handleError(error, 'sendTextToGroup');
@@ -630,17 +630,20 @@ export class WhatsAppInstance {
      * @param mediaPath Path to the media file or base64 data
      * @param caption Optional caption for the media
      * @param mediaType Type of media (image, video, audio, document)
+     * @param quotedMessageId Optional message to quote-reply to
      */
     public async sendMediaToGroup(
         groupId: string, 
         mediaPath: string, 
         caption?: string,
-        mediaType: 'image' | 'video' | 'audio' | 'document' = 'image'
-    ): Promise<void> {
+        mediaType: WhatsAppMediaType = 'image',
+        quotedMessageId?: string
+    ): Promise<string | undefined> {
         return this.addToQueue(groupId, mediaPath, caption || '', { 
             type: 'media', 
             caption, 
-            mediaType 
+            mediaType,
+            quotedMessageId
         });
     }
 
@@ -650,13 +653,15 @@ export class WhatsAppInstance {
      * @param mediaPath Path to the media file or base64 data
      * @param caption Optional caption for the media
      * @param mediaType Type of media (image, video, audio, document)
+     * @param quotedMessageId Optional message to quote-reply to
      */
     private async sendMediaToGroupDirectly(
         groupId: string, 
         mediaPath: string, 
         caption?: string,
-        mediaType: 'image' | 'video' | 'audio' | 'document' = 'image'
-    ): Promise<void> {
+        mediaType: WhatsAppMediaType = 'image',
+        quotedMessageId?: string
+    ): Promise<string | undefined> {
         try {
             if (!this.isInitialized) {
                 throw new Error('WhatsApp client is not initialized');
@@ -683,8 +688,13 @@ export class WhatsAppInstance {
                 media = MessageMedia.fromFilePath(mediaPath);
             }
 
-            await this.client.sendMessage(group.id._serialized, media, { caption });
+            const sent = await this.client.sendMessage(group.id._serialized, media, { caption, quotedMessageId });
+            // WhatsApp shows no caption on audio, so it follows as a reply (e.g. a voice note transcript)
+            if (mediaType === 'audio' && caption && sent?.id?._serialized) {
+                await this.client.sendMessage(group.id._serialized, caption, { quotedMessageId: sent.id._serialized });
+            }
             console.log(`[WhatsApp] Media message sent to group: ${group.name}`);
+            return sent?.id?._serialized;
         } catch (error) {
             console.error('Error sending media message to group:', error);
             await this.handleError(error, 'sendMediaToGroup');
@@ -702,15 +712,50 @@ export class WhatsAppInstance {
         groupId: string, 
         mediaPath: string,
         content: string, 
-        options?: {
-            type?: 'text' | 'media';
-            caption?: string;
-            mediaType?: 'image' | 'video' | 'audio' | 'document';
-        }
-    ): Promise<void> {
+        options?: OutboundSendOptions
+    ): Promise<string | undefined> {
         return this.addToQueue(groupId, mediaPath, content, options);
     }
 
+    /**
+     * Edit the text (or caption) of a message this client sent
+     * @param groupId Group the message was sent to
+     * @param messageId Serialized message ID returned when it was sent
+     * @param text New text
+     */
+    public async editMessage(groupId: string, messageId: string, text: string): Promise<void> {
+        if (!this.isInitialized) {
+            throw new Error('WhatsApp client is not initialized');
+        }
+
+        const message = await this.client.getMessageById(messageId);
+        if (!message) {
+            throw new Error(`Message not found: ${messageId}`);
+        }
+
+        await message.edit(text);
+        console.log(`[WhatsApp] Message ${messageId} edited in group: ${groupId}`);
+    }
+
+    /**
+     * Delete a message this client sent, for everyone
+     * @param groupId Group the message was sent to
+     * @param messageId Serialized message ID returned when it was sent
+     */
+    public async deleteMessage(groupId: string, messageId: string): Promise<void> {
+        if (!this.isInitialized) {
+            throw new Error('WhatsApp client is not initialized');
+        }
+
+        const message = await this.client.getMessageById(messageId);
+        if (!message) {
+            throw new Error(`Message not found: ${messageId}`);
+        }
+
+        await message.delete(true);
+        console.log(`[WhatsApp] Message ${messageId} deleted for everyone in group: ${groupId}`);
+    }
+
     /**
      * Find a group by ID or name
      * @param identifier Group ID or name
@@ -723,11 +768,14 @@ export class WhatsAppInstance {
                 return null;
             }
 
-            const groups = await this.getGroups();
-
-            if (typeof groups === 'string') {
+            if (!this.isInitialized) {
+                throw new Error('WhatsApp client is not initialized');
+            }
+            if (!this.groupsReady) {
                 return null;
             }
+
+            const groups = this.cachedGroups;
             // First try to find by exact ID
             let group = groups.find(g => g.id._serialized === identifier);
             
@@ -752,7 +800,7 @@ export class WhatsAppInstance {
     /**
      * Get client info
      */
-    public async getClientInfo(): Promise<any> {
+    public async getClientInfo(): Promise<WhatsAppClientInfo | null> {
         try {
             if (!this.isInitialized) {
                 throw new Error('WhatsApp client is not initialized');
@@ -762,8 +810,16 @@ export class WhatsAppInstance {
                 console.error('WhatsApp client is restarting');
                 return null;
             }
-            
-            return await this.client.getState();
+
+            const state = await this.client.getState();
+            const info = this.client.info;
+            return {
+                engine: 'wwebjs',
+                state: state || null,
+                userId: info?.wid?._serialized || null,
+                name: info?.pushname || null,
+                phoneNumber: info?.wid?.user || this.phoneNumber || null
+            };
         } catch (error) {
             console.error('Error getting client info:', error);
             await this.handleError(error, 'getClientInfo');
@@ -790,6 +846,19 @@ export class WhatsAppInstance {
         }
     }
 
+    /**
+     * Stop for good (e.g. when switching engines): no more restarts, pending sends stay persisted
+     */
+    public async shutdown(): Promise<void> {
+        this.isShutDown = true;
+        if (this.keepAliveInterval) {
+            clearInterval(this.keepAliveInterval);
+            this.keepAliveInterval = null;
+        }
+        await this.outboundQueue.stop();
+        await this.destroy();
+    }
+
     /**
      * Check if client is ready
      */
@@ -900,6 +969,8 @@ export class WhatsAppInstance {
         this.client.on('message', async (msg: Message) => {
             try {
                 if (this.messageHandlers.length === 0 || this.listeningGroups.size === 0) return;
+                // Sent by this account (e.g. from the linked phone), like Baileys' fromMe check
+                if (msg.fromMe) return;
 
                 const chat = await msg.getChat();
                 if (!chat.isGroup) return;
@@ -920,8 +991,13 @@ export class WhatsAppInstance {
                     groupName: chat.name,
                     isForwarded: msg.isForwarded,
                     hasMedia: msg.hasMedia,
+                    mediaType: this.getMediaTypeFromMessage(msg),
+                    quotedMessageId: msg.hasQuotedMsg ? (await msg.getQuotedMessage())?.id?._serialized : undefined,
                 };
 
+                // Drop messages no route wants before downloading anything
+                if (this.messageFilter && !this.messageFilter(waMessage)) return;
+
                 if (msg.hasMedia) {
                     try {
                         const media = await msg.downloadMedia();
@@ -963,11 +1039,30 @@ export class WhatsAppInstance {
         });
     }
 
-    public onMessage(handler: (message: WhatsAppMessage) => void): void {
+    private getMediaTypeFromMessage(msg: Message): WhatsAppMessage['mediaType'] {
+        if (!msg.hasMedia) return undefined;
+        switch (msg.type) {
+            case 'image': return 'image';
+            case 'video': return 'video';
+            case 'audio':
+            case 'ptt': return 'audio';
+            case 'sticker': return 'sticker';
+            default: return 'document';
+        }
+    }
+
+    /**
+     * Gate incoming messages before their media is downloaded (e.g. route content filters)
+     */
+    public setMessageFilter(filter: WhatsAppMessageFilter | null): void {
+        this.messageFilter = filter;
+    }
+
+    public onMessage(handler: WhatsAppMessageHandler): void {
         this.messageHandlers.push(handler);
     }
 
-    public removeMessageHandler(handler: (message: WhatsAppMessage) => void): void {
+    public removeMessageHandler(handler: WhatsAppMessageHandler): void {
         const index = this.messageHandlers.indexOf(handler);
         if (index > -1) {
             this.messageHandlers.splice(index, 1);
@@ -988,61 +1083,6 @@ export class WhatsAppInstance {
         return Array.from(this.listeningGroups);
     }
 
-    /**
-     * Start the queue processor
-     */
-    private startQueueProcessor(): void {
-        setInterval(() => {
-            this.processQueue();
-        }, 100); // Check queue every 100ms
-    }
-
-    /**
-     * Process the message queue
-     */
-    private async processQueue(): Promise<void> {
-        if (this.isProcessingQueue || this.messageQueue.length === 0) {
-            return;
-        }
-
-        if (!this.isInitialized || this.isRestarting) {
-            return;
-        }
-
-        this.isProcessingQueue = true;
-
-        try {
-            const queueItem = this.messageQueue.shift();
-            if (!queueItem) {
-                this.isProcessingQueue = false;
-                return;
-            }
-
-            console.log(`[Queue] Processing message ${queueItem.id} for group ${queueItem.groupId}`);
-
-            try {
-                await this.sendMessageDirectly(queueItem.groupId, queueItem.mediaPath, queueItem.content, queueItem.options);
-                queueItem.resolve();
-                console.log(`[Queue] Message ${queueItem.id} sent successfully`);
-            } catch (error) {
-                console.error(`[Queue] Failed to send message ${queueItem.id}:`, error);
-                queueItem.reject(error);
-            } finally {
-                if (queueItem.mediaPath && !queueItem.mediaPath.startsWith('data:') && fs.existsSync(queueItem.mediaPath)) {
-                    try { fs.unlinkSync(queueItem.mediaPath); } catch (_) {}
-                }
-            }
-
-            // Wait before processing next message
-            await new Promise(resolve => setTimeout(resolve, this.queueProcessingDelay));
-
-        } catch (error) {
-            console.error('[Queue] Error processing queue:', error);
-        } finally {
-            this.isProcessingQueue = false;
-        }
-    }
-
     /**
      * Add message to queue
      */
@@ -1050,34 +1090,12 @@ export class WhatsAppInstance {
         groupId: string, 
         mediaPath: string,
         content: string, 
-        options?: {
-            type?: 'text' | 'media';
-            caption?: string;
-            mediaType?: 'image' | 'video' | 'audio' | 'document';
-        }
-    ): Promise<void> {
+        options?: OutboundSendOptions
+    ): Promise<string | undefined> {
         if(!this.isInitialized){
             throw new Error('WhatsApp client is not initialized');
         }
-        if (this.messageQueue.length >= this.maxQueueSize) {
-            console.error(`Queue size limit (${this.maxQueueSize}) reached. Exiting process.`);
-            process.exit(-1);
-        }
-        return new Promise((resolve, reject) => {
-            const queueItem: QueueItem = {
-                id: `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-                groupId,
-                mediaPath,
-                content,
-                options,
-                timestamp: Date.now(),
-                resolve,
-                reject
-            };
-
-            this.messageQueue.push(queueItem);
-            console.log(`[Queue] Added message ${queueItem.id} to queue. Queue size: ${this.messageQueue.length}`);
-        });
+        return this.outboundQueue.enqueue(groupId, mediaPath, content, options);
     }
 
     /**
@@ -1090,31 +1108,23 @@ export class WhatsAppInstance {
         options?: {
             type?: 'text' | 'media';
             caption?: string;
-            mediaType?: 'image' | 'video' | 'audio' | 'document';
+            mediaType?: WhatsAppMediaType;
+            quotedMessageId?: string;
         }
-    ): Promise<void> {
-        const { type = 'text', caption, mediaType = 'image' } = options || {};
+    ): Promise<string | undefined> {
+        const { type = 'text', caption, mediaType = 'image', quotedMessageId } = options || {};
         
         if (type === 'media') {
-            await this.sendMediaToGroupDirectly(groupId, mediaPath, caption, mediaType);
-        } else {
-            await this.sendTextToGroupDirectly(groupId, content);
+            return this.sendMediaToGroupDirectly(groupId, mediaPath, caption, mediaType, quotedMessageId);
         }
+        return this.sendTextToGroupDirectly(groupId, content, quotedMessageId);
     }
 
     /**
      * Get queue status information
      */
-    public getQueueStatus(): {
-        queueSize: number;
-        isProcessing: boolean;
-        processingDelay: number;
-    } {
-        return {
-            queueSize: this.messageQueue.length,
-            isProcessing: this.isProcessingQueue,
-            processingDelay: this.queueProcessingDelay
-        };
+    public getQueueStatus(): WhatsAppQueueStatus {
+        return this.outboundQueue.getStatus();
     }
 
     /**
@@ -1122,8 +1132,7 @@ export class WhatsAppInstance {
      * @param delayMs Delay in milliseconds between messages
      */
     public setQueueDelay(delayMs: number): void {
-        this.queueProcessingDelay = Math.max(100, delayMs); // Minimum 100ms delay
-        console.log(`[Queue] Processing delay set to ${this.queueProcessingDelay}ms`);
+        this.outboundQueue.setDelay(delayMs);
     }
 
     private async keepAlive(): Promise<void> {
@@ -0,0 +1,245 @@
+import * as path from 'path';
+import { configManager, WhatsAppSessionConfig } from './configManager';
+import { SwitchableWhatsAppEngine } from './switchableWhatsAppEngine';
+import { deadLetterSessionItems } from './outboundQueue';
+import {
+    DEFAULT_WHATSAPP_SESSION_ID,
+    WhatsAppEngine,
+    WhatsAppEngineType,
+    WhatsAppMessageFilter,
+    WhatsAppMessageHandler,
+    WhatsAppSessionOptions,
+    WhatsAppStatus,
+    getEngineStatus
+} from './whatsappEngine';
+
+export type WhatsAppSessionEngineFactory = (type: WhatsAppEngineType, options: WhatsAppSessionOptions) => WhatsAppEngine;
+
+export interface WhatsAppSessionInfo {
+    id: string;
+    name: string;
+    isDefault: boolean;
+    status: WhatsAppStatus;
+}
+
+const SESSION_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+// Path segments of the /whatsapp API that can't double as session IDs
+const RESERVED_SESSION_IDS = ['sessions', 'status', 'pair', 'restart', 'groups', 'screenshot', 'reset', 'engine'];
+
+const sessionsDir = process.env.WHATSAPP_SESSIONS_PATH || path.join(process.cwd(), 'whatsapp_sessions');
+
+/**
+ * Check a new session ID; returns an error message, or null when it can be used
+ */
+export function validateSessionId(id: unknown): string | null {
+    if (typeof id !== 'string' || !SESSION_ID_PATTERN.test(id)) {
+        return 'id must be 1-32 lowercase letters, digits, - or _';
+    }
+    if (id === DEFAULT_WHATSAPP_SESSION_ID || RESERVED_SESSION_IDS.includes(id)) {
+        return `${id} is reserved`;
+    }
+    return null;
+}
+
+/**
+ * Named WhatsApp sessions, each logged in as its own account with its own auth directory and engine.
+ * The default session keeps the original auth paths and env settings; extra sessions are stored in the config.
+ * Handlers and the message filter registered here apply to every session, including ones added later.
+ */
+export class WhatsAppSessionRegistry {
+    private sessions: Map<string, SwitchableWhatsAppEngine> = new Map();
+    private names: Map<string, string> = new Map();
+    private messageHandlers: WhatsAppMessageHandler[] = [];
+    private messageFilter: WhatsAppMessageFilter | null = null;
+
+    constructor(defaultEngine: WhatsAppEngineType, private readonly createEngine: WhatsAppSessionEngineFactory) {
+        this.add(DEFAULT_WHATSAPP_SESSION_ID, 'Default', defaultEngine);
+    }
+
+    /**
+     * Start the default session with its saved engine and every configured session
+     */
+    public async initialize(): Promise<void> {
+        await configManager.getConfig();
+
+        const defaultSession = this.getDefault();
+        const savedEngine = configManager.getWhatsAppEngine();
+        if (savedEngine && savedEngine !== defaultSession.getEngineType()) {
+            await defaultSession.switchEngine(savedEngine);
+        } else {
+            this.start(defaultSession);
+        }
+
+        for (const config of configManager.getWhatsAppSessions()) {
+            if (!this.sessions.has(config.id)) {
+                this.start(this.addConfigured(config));
+            }
+        }
+    }
+
+    public getDefault(): SwitchableWhatsAppEngine {
+        return this.sessions.get(DEFAULT_WHATSAPP_SESSION_ID) as SwitchableWhatsAppEngine;
+    }
+
+    /**
+     * Get a session by ID; no ID means the default session
+     */
+    public get(sessionId?: string): SwitchableWhatsAppEngine | undefined {
+        return this.sessions.get(sessionId || DEFAULT_WHATSAPP_SESSION_ID);
+    }
+
+    /**
+     * Get the session a destination or mapping refers to
+     * @throws When the session doesn't exist (e.g. it was removed after the route was created)
+     */
+    public resolve(sessionId?: string): SwitchableWhatsAppEngine {
+        const session = this.get(sessionId);
+        if (!session) {
+            throw new Error(`WhatsApp session not found: ${sessionId}`);
+        }
+        return session;
+    }
+
+    public has(sessionId: string): boolean {
+        return this.sessions.has(sessionId);
+    }
+
+    public getSessionIds(): string[] {
+        return Array.from(this.sessions.keys());
+    }
+
+    public forEach(callback: (session: SwitchableWhatsAppEngine, sessionId: string) => void): void {
+        this.sessions.forEach(callback);
+    }
+
+    /**
+     * Whether at least one session can send
+     */
+    public isAnyReady(): boolean {
+        return Array.from(this.sessions.values()).some(session => session.isReady());
+    }
+
+    public list(): WhatsAppSessionInfo[] {
+        return Array.from(this.sessions.entries()).map(([id, session]) => ({
+            id,
+            name: this.names.get(id) || id,
+            isDefault: id === DEFAULT_WHATSAPP_SESSION_ID,
+            status: getEngineStatus(session)
+        }));
+    }
+
+    /**
+     * Add a session, store it in the config and start connecting it
+     */
+    public async createSession(config: Omit<WhatsAppSessionConfig, 'createdAt'>): Promise<SwitchableWhatsAppEngine> {
+        const invalid = validateSessionId(config.id);
+        if (invalid) {
+            throw new Error(invalid);
+        }
+        if (this.sessions.has(config.id)) {
+            throw new Error(`WhatsApp session already exists: ${config.id}`);
+        }
+
+        const stored: WhatsAppSessionConfig = { ...config, createdAt: new Date() };
+        await configManager.setWhatsAppSessions([...configManager.getWhatsAppSessions(), stored]);
+
+        const session = this.addConfigured(stored);
+        this.start(session);
+        console.log(`[WhatsApp] Added session ${config.id} (${config.engine})`);
+        return session;
+    }
+
+    /**
+     * Shut a session down and remove it from the config. Its auth directory is kept,
+     * so adding a session with the same ID restores the login. Messages still queued
+     * for it are moved to the dead letters.
+     * @returns How many queued messages were dead-lettered
+     */
+    public async removeSession(sessionId: string): Promise<number> {
+        if (sessionId === DEFAULT_WHATSAPP_SESSION_ID) {
+            throw new Error('The default WhatsApp session cannot be removed');
+        }
+        const session = this.sessions.get(sessionId);
+        if (!session) {
+            throw new Error(`WhatsApp session not found: ${sessionId}`);
+        }
+
+        this.sessions.delete(sessionId);
+        this.names.delete(sessionId);
+        await configManager.setWhatsAppSessions(configManager.getWhatsAppSessions().filter(s => s.id !== sessionId));
+
+        try {
+            await session.shutdown();
+        } catch (error) {
+            console.error(`[WhatsApp] Error shutting down session ${sessionId}:`, error);
+        }
+
+        const deadLettered = await deadLetterSessionItems(sessionId);
+        console.log(`[WhatsApp] Removed session ${sessionId}${deadLettered ? `, ${deadLettered} queued message(s) dead-lettered` : ''}`);
+        return deadLettered;
+    }
+
+    /**
+     * Switch a session's engine and remember the choice
+     */
+    public async switchEngine(sessionId: string, engine: WhatsAppEngineType): Promise<void> {
+        const session = this.resolve(sessionId);
+        await session.switchEngine(engine);
+
+        if (sessionId === DEFAULT_WHATSAPP_SESSION_ID) {
+            await configManager.setWhatsAppEngine(engine);
+        } else {
+            await configManager.setWhatsAppSessions(
+                configManager.getWhatsAppSessions().map(s => s.id === sessionId ? { ...s, engine } : s)
+            );
+        }
+    }
+
+    public setMessageFilter(filter: WhatsAppMessageFilter | null): void {
+        this.messageFilter = filter;
+        this.sessions.forEach(session => session.setMessageFilter(filter));
+    }
+
+    public onMessage(handler: WhatsAppMessageHandler): void {
+        this.messageHandlers.push(handler);
+        this.sessions.forEach(session => session.onMessage(handler));
+    }
+
+    public removeMessageHandler(handler: WhatsAppMessageHandler): void {
+        const index = this.messageHandlers.indexOf(handler);
+        if (index > -1) {
+            this.messageHandlers.splice(index, 1);
+        }
+        this.sessions.forEach(session => session.removeMessageHandler(handler));
+    }
+
+    private addConfigured(config: WhatsAppSessionConfig): SwitchableWhatsAppEngine {
+        return this.add(config.id, config.name, config.engine, config.phoneNumber || '', path.join(sessionsDir, config.id));
+    }
+
+    /**
+     * @param authRoot Directory holding one login per engine, so switching back keeps the old one
+     *                 (unset for the default session, whose engines use their original paths)
+     */
+    private add(id: string, name: string, engine: WhatsAppEngineType, phoneNumber?: string, authRoot?: string): SwitchableWhatsAppEngine {
+        const session = new SwitchableWhatsAppEngine(engine, type => this.createEngine(type, {
+            sessionId: id,
+            phoneNumber,
+            authPath: authRoot ? path.join(authRoot, type) : undefined
+        }));
+        session.setMessageFilter(this.messageFilter);
+        this.messageHandlers.forEach(handler => session.onMessage(handler));
+
+        this.sessions.set(id, session);
+        this.names.set(id, name);
+        return session;
+    }
+
+    private start(session: SwitchableWhatsAppEngine): void {
+        session.initialize().catch((error) => {
+            console.error(`[WhatsApp] Session ${session.getSessionId()} initialization failed:`, error instanceof Error ? error.message : error);
+        });
+    }
+}
+
+export default WhatsAppSessionRegistry;
@@ -0,0 +1,248 @@
+import { OutboundSendOptions } from '../src/outboundQueue';
+import {
+    DEFAULT_WHATSAPP_SESSION_ID,
+    WhatsAppClientInfo,
+    WhatsAppEngine,
+    WhatsAppEngineType,
+    WhatsAppGroup,
+    WhatsAppMediaType,
+    WhatsAppMessage,
+    WhatsAppMessageFilter,
+    WhatsAppMessageHandler,
+    WhatsAppPairingInfo,
+    WhatsAppQueueStatus,
+    WhatsAppUnavailableError
+} from '../src/whatsappEngine';
+
+export interface FakeSentMessage {
+    id: string;
+    groupId: string;
+    mediaPath: string;
+    content: string;
+    options?: OutboundSendOptions;
+    deleted: boolean;
+}
+
+/**
+ * In-memory WhatsApp engine with no network or browser behind it.
+ * Records what is sent and lets callers inject incoming messages with receive().
+ */
+export class FakeWhatsAppEngine implements WhatsAppEngine {
+    public readonly sent: FakeSentMessage[] = [];
+
+    private groups: WhatsAppGroup[];
+    private isInitialized: boolean = false;
+    private isShutDown: boolean = false;
+    private phoneNumber: string = '';
+    private pairingCode: string = '';
+    private processingDelay: number = 1000;
+    private nextMessageId: number = 1;
+
+    private listeningGroups: Set<string> = new Set();
+    private messageHandlers: WhatsAppMessageHandler[] = [];
+    private messageFilter: WhatsAppMessageFilter | null = null;
+
+    constructor(
+        // The engine this fake stands in for
+        private readonly engineType: WhatsAppEngineType = 'wwebjs',
+        groups: WhatsAppGroup[] = [
+            { id: '120363000000000001@g.us', name: 'Fake group', participantsCount: 2, description: null }
+        ],
+        private readonly sessionId: string = DEFAULT_WHATSAPP_SESSION_ID
+    ) {
+        this.groups = groups;
+    }
+
+    public getEngineType(): WhatsAppEngineType {
+        return this.engineType;
+    }
+
+    public getSessionId(): string {
+        return this.sessionId;
+    }
+
+    public async initialize(_qrCallback?: (qr: string) => void): Promise<void> {
+        if (this.isShutDown) {
+            throw new Error('Fake engine was shut down');
+        }
+        this.isInitialized = true;
+        this.pairingCode = '';
+    }
+
+    public async restart(): Promise<void> {
+        this.isInitialized = false;
+        await this.initialize();
+    }
+
+    public async resetInstance(): Promise<void> {
+        this.isInitialized = false;
+        this.phoneNumber = '';
+    }
+
+    public async destroy(): Promise<void> {
+        this.isInitialized = false;
+    }
+
+    public async shutdown(): Promise<void> {
+        this.isShutDown = true;
+        await this.destroy();
+    }
+
+    public isReady(): boolean {
+        return this.isInitialized;
+    }
+
+    public isCurrentlyRestarting(): boolean {
+        return false;
+    }
+
+    public getRestartAttempts(): number {
+        return 0;
+    }
+
+    public resetRestartAttempts(): void {}
+
+    public startKeepAlive(): void {}
+
+    public getCurrentQrCode(): string {
+        return '';
+    }
+
+    public getPairingInfo(): WhatsAppPairingInfo {
+        return this.pairingCode ? { type: 'code', data: this.pairingCode } : null;
+    }
+
+    public getPhoneNumber(): string {
+        return this.phoneNumber;
+    }
+
+    public async pairWithPhone(phone: string): Promise<string> {
+        this.phoneNumber = phone.replace(/[^0-9]/g, '');
+        if (!this.phoneNumber) {
+            throw new Error('Invalid phone number (digits only, with country code)');
+        }
+        if (this.isInitialized) {
+            throw new Error('WhatsApp is already connected. Reset the instance first to re-pair.');
+        }
+        this.pairingCode = 'FAKE1234';
+        return this.pairingCode;
+    }
+
+    public async getClientInfo(): Promise<WhatsAppClientInfo | null> {
+        if (!this.isInitialized) {
+            throw new Error('Fake client is not initialized');
+        }
+        return {
+            engine: this.engineType,
+            state: 'CONNECTED',
+            userId: this.phoneNumber ? `${this.phoneNumber}@c.us` : null,
+            name: 'Fake',
+            phoneNumber: this.phoneNumber || null
+        };
+    }
+
+    public async takeScreenshot(): Promise<string> {
+        return '';
+    }
+
+    public async getGroups(): Promise<WhatsAppGroup[]> {
+        if (!this.isInitialized) {
+            throw new WhatsAppUnavailableError('Fake client is not initialized');
+        }
+        return this.groups.map(group => ({ ...group }));
+    }
+
+    public async sendTextToGroup(groupId: string, message: string): Promise<string | undefined> {
+        return this.record(groupId, '', message, { type: 'text' });
+    }
+
+    public async sendMediaToGroup(
+        groupId: string,
+        mediaPath: string,
+        caption?: string,
+        mediaType: WhatsAppMediaType = 'image',
+        quotedMessageId?: string
+    ): Promise<string | undefined> {
+        return this.record(groupId, mediaPath, caption || '', { type: 'media', caption, mediaType, quotedMessageId });
+    }
+
+    public async sendMessageToGroup(groupId: string, mediaPath: string, content: string, options?: OutboundSendOptions): Promise<string | undefined> {
+        return this.record(groupId, mediaPath, content, options);
+    }
+
+    public async editMessage(groupId: string, messageId: string, text: string): Promise<void> {
+        this.findSent(groupId, messageId).content = text;
+    }
+
+    public async deleteMessage(groupId: string, messageId: string): Promise<void> {
+        this.findSent(groupId, messageId).deleted = true;
+    }
+
+    public getQueueStatus(): WhatsAppQueueStatus {
+        return { queueSize: 0, isProcessing: false, processingDelay: this.processingDelay, maxQueueSize: 100 };
+    }
+
+    public setQueueDelay(delayMs: number): void {
+        this.processingDelay = Math.max(100, delayMs);
+    }
+
+    public setMessageFilter(filter: WhatsAppMessageFilter | null): void {
+        this.messageFilter = filter;
+    }
+
+    public onMessage(handler: WhatsAppMessageHandler): void {
+        this.messageHandlers.push(handler);
+    }
+
+    public removeMessageHandler(handler: WhatsAppMessageHandler): void {
+        const index = this.messageHandlers.indexOf(handler);
+        if (index > -1) {
+            this.messageHandlers.splice(index, 1);
+        }
+    }
+
+    public startListeningToGroups(groupIds: string[]): void {
+        groupIds.forEach(id => this.listeningGroups.add(id));
+    }
+
+    public stopListeningToGroups(groupIds: string[]): void {
+        groupIds.forEach(id => this.listeningGroups.delete(id));
+    }
+
+    public getListeningGroups(): string[] {
+        return Array.from(this.listeningGroups);
+    }
+
+    /**
+     * Simulate an incoming group message, gated like the real engines
+     * @returns Whether it reached the handlers
+     */
+    public receive(message: WhatsAppMessage): boolean {
+        if (!this.isInitialized || !this.listeningGroups.has(message.groupId)) return false;
+        if (this.messageFilter && !this.messageFilter(message)) return false;
+        this.messageHandlers.forEach(handler => handler(message));
+        return true;
+    }
+
+    private record(groupId: string, mediaPath: string, content: string, options?: OutboundSendOptions): string {
+        if (!this.isInitialized) {
+            throw new Error('Fake client is not initialized');
+        }
+        if (!this.groups.some(group => group.id === groupId || group.name === groupId)) {
+            throw new Error(`Group not found: ${groupId}`);
+        }
+        const id = `fake_${this.nextMessageId++}`;
+        this.sent.push({ id, groupId, mediaPath, content, options, deleted: false });
+        return id;
+    }
+
+    private findSent(groupId: string, messageId: string): FakeSentMessage {
+        const message = this.sent.find(m => m.id === messageId && m.groupId === groupId);
+        if (!message) {
+            throw new Error(`Message not found: ${messageId}`);
+        }
+        return message;
+    }
+}
+
+export default FakeWhatsAppEngine;
@@ -0,0 +1,177 @@
+import './offlineDatabase';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ForwardHistory, Route, RouteDestination } from '../src/db';
+import { RouteTarget } from '../src/routeEngine';
+import { TelegramMessage } from '../src/telegramInstance';
+import { TemplateContext, buildTelegramContext } from '../src/messageTemplate';
+import {
+    DeliveryFailedError,
+    PipelineMessage,
+    PipelineServices,
+    failedTargets,
+    isStageEnabled,
+    renderStage,
+    runPipeline,
+    transformStage,
+    withTranscript
+} from '../src/messagePipeline';
+
+function route(stages?: Route['stages']): Route {
+    return {
+        id: 'route-1',
+        name: 'Test route',
+        source: { platform: 'telegram', id: '1001' },
+        destinations: [],
+        conditions: [],
+        stages,
+        order: 0,
+        isActive: true,
+        createdAt: new Date(),
+        lastModified: new Date()
+    };
+}
+
+function target(id: string, stages?: Route['stages']): RouteTarget {
+    const destination: RouteDestination = { platform: 'whatsapp', id };
+    return { destination, route: { ...route(stages), destinations: [destination] } };
+}
+
+const telegramMessage: TelegramMessage = {
+    id: 1,
+    text: 'Hello',
+    date: new Date('2024-01-01T12:00:00Z'),
+    channelId: '1001',
+    channelTitle: 'Test channel',
+    isForwarded: false,
+    hasMedia: false
+};
+
+function context(translated: string): TemplateContext {
+    return buildTelegramContext(telegramMessage, translated);
+}
+
+/**
+ * Transcriber and history store stubs; transcribe returns the given transcript and counts its calls
+ */
+function services(transcript: string | null = null): PipelineServices & { transcribed: number; recorded: ForwardHistory[] } {
+    const stub = {
+        transcribed: 0,
+        recorded: [] as ForwardHistory[],
+        transcribe: async () => {
+            stub.transcribed++;
+            return transcript;
+        },
+        recordHistory: async (history: ForwardHistory) => {
+            stub.recorded.push(history);
+        }
+    };
+    return stub;
+}
+
+function history(): ForwardHistory {
+    const now = new Date();
+    return {
+        id: `telegram_1001_1_${now.getTime()}`,
+        sourcePlatform: 'telegram',
+        sourceId: '1001',
+        sourceTitle: 'Test channel',
+        sourceMessageId: '1',
+        sourceDate: now,
+        originalText: 'Hello',
+        routeIds: [],
+        deliveries: [],
+        status: 'failed',
+        startedAt: now,
+        completedAt: now,
+        latencyMs: 0
+    };
+}
+
+function message(text: string): PipelineMessage {
+    return { platform: 'telegram', id: '1', text, buildContext: context };
+}
+
+test('withTranscript appends the transcript after the text', () => {
+    assert.equal(withTranscript('Hello', 'spoken words'), 'Hello\n\nspoken words');
+    assert.equal(withTranscript('', 'spoken words'), 'spoken words');
+    assert.equal(withTranscript('Hello', null), 'Hello');
+    assert.equal(withTranscript('Hello', ''), 'Hello');
+});
+
+test('stages are on unless the route turns them off', () => {
+    assert.equal(isStageEnabled(undefined, 'ai'), true);
+    assert.equal(isStageEnabled(route(), 'template'), true);
+    assert.equal(isStageEnabled(route({ ai: true }), 'ai'), true);
+    assert.equal(isStageEnabled(route({ ai: false }), 'ai'), false);
+    assert.equal(isStageEnabled(route({ ai: false }), 'transcription'), true);
+});
+
+test('the transform stage passes the text through when the route turns AI off', async () => {
+    const result = await transformStage('Hello', { platform: 'telegram', id: '1001' }, route({ ai: false }), new Map());
+    assert.deepEqual(result, { text: 'Hello' });
+});
+
+test('the render stage sends the transformed text alone when the route turns templates off', () => {
+    assert.equal(renderStage('telegram', route({ template: false }), context('Translated')), 'Translated');
+});
+
+test('a failed delivery is recorded and the remaining targets are still delivered', async () => {
+    const stages = { ai: false, template: false };
+    const targets = [target('group-1', stages), target('group-2', stages), target('group-3', stages)];
+    const entry = history();
+    const stub = services();
+    const delivered: string[] = [];
+
+    await assert.rejects(
+        runPipeline(message('Hello'), targets, entry, async (t, text) => {
+            if (t.destination.id === 'group-2') throw new Error('send failed');
+            delivered.push(`${t.destination.id}:${text}`);
+        }, stub),
+        (error: unknown) => {
+            assert.ok(error instanceof DeliveryFailedError);
+            assert.match(error.message, /send failed/);
+            assert.deepEqual(failedTargets(error, targets).map(t => t.destination.id), ['group-2']);
+            return true;
+        }
+    );
+
+    assert.deepEqual(delivered, ['group-1:Hello', 'group-3:Hello']);
+    assert.deepEqual(entry.deliveries.map(d => d.status), ['delivered', 'failed', 'delivered']);
+    assert.equal(entry.deliveries[1].error, 'send failed');
+    assert.deepEqual(stub.recorded, [entry]);
+});
+
+test('audio is transcribed for routes that keep transcription on', async () => {
+    const entry = history();
+    const stub = services('spoken words');
+    const sent: string[] = [];
+    await runPipeline(
+        { ...message('Caption'), audio: { buffer: Buffer.from('audio') } },
+        [target('group-1', { ai: false, template: false })],
+        entry,
+        async (_t, text) => { sent.push(text); },
+        stub
+    );
+
+    assert.equal(stub.transcribed, 1);
+    assert.deepEqual(sent, ['Caption\n\nspoken words']);
+    assert.equal(entry.transcript, 'spoken words');
+});
+
+test('audio is not transcribed for routes that turn transcription off', async () => {
+    const entry = history();
+    const stub = services('spoken words');
+    const sent: string[] = [];
+    await runPipeline(
+        { ...message('Caption'), audio: { buffer: Buffer.from('audio') } },
+        [target('group-1', { ai: false, template: false, transcription: false })],
+        entry,
+        async (_t, text) => { sent.push(text); },
+        stub
+    );
+
+    assert.equal(stub.transcribed, 0);
+    assert.deepEqual(sent, ['Caption']);
+    assert.equal(entry.transcript, undefined);
+});
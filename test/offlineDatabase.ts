@@ -0,0 +1,6 @@
+import { mock } from 'node:test';
+import * as db from '../src/db';
+
+// Imported before the modules under test: the config manager loads from MongoDB on import, and every
+// db.ts helper then sees the database as unavailable (as in an outage) instead of waiting for a server
+mock.method(db, 'database', async () => false);
@@ -0,0 +1,27 @@
+import './offlineDatabase';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { WHATSAPP_ENGINE_TYPES } from '../src/whatsappEngine';
+import { FakeWhatsAppEngine } from './fakeWhatsAppEngine';
+import { ContractResult, runEngineSwitchContract, runWhatsAppEngineContract } from './whatsappEngineContract';
+
+function assertPassed(results: ContractResult[]): void {
+    const failed = results.filter(result => !result.passed).map(result => `${result.name}: ${result.error}`);
+    assert.deepEqual(failed, []);
+}
+
+for (const type of WHATSAPP_ENGINE_TYPES) {
+    test(`fake ${type} engine follows the WhatsApp engine contract`, async () => {
+        const fake = new FakeWhatsAppEngine(type);
+        assertPassed(await runWhatsAppEngineContract({
+            name: `fake:${type}`,
+            engine: fake,
+            groupId: '120363000000000001@g.us',
+            deliver: message => { fake.receive(message); }
+        }));
+    });
+}
+
+test('switching engines keeps handlers, filter and listening groups', async () => {
+    assertPassed(await runEngineSwitchContract());
+});
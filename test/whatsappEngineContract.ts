@@ -0,0 +1,192 @@
+import { FakeWhatsAppEngine } from './fakeWhatsAppEngine';
+import { SwitchableWhatsAppEngine } from '../src/switchableWhatsAppEngine';
+import {
+    WHATSAPP_ENGINE_TYPES,
+    WhatsAppEngine,
+    WhatsAppMessage,
+    WhatsAppUnavailableError,
+    getEngineStatus
+} from '../src/whatsappEngine';
+
+export interface WhatsAppEngineHarness {
+    name: string;
+    // A fresh, not yet initialized engine
+    engine: WhatsAppEngine;
+    // A group the engine can send to once initialized
+    groupId: string;
+    // Inject an incoming message; engines that can't simulate traffic skip the incoming checks
+    deliver?: (message: WhatsAppMessage) => void;
+}
+
+export interface ContractResult {
+    name: string;
+    passed: boolean;
+    skipped?: boolean;
+    error?: string;
+}
+
+function assert(condition: unknown, message: string): asserts condition {
+    if (!condition) {
+        throw new Error(message);
+    }
+}
+
+function incomingMessage(groupId: string, text: string): WhatsAppMessage {
+    return {
+        id: `in_${Date.now()}_${Math.random().toString(36).substr(2, 6)}`,
+        text,
+        date: new Date(),
+        groupId,
+        groupName: groupId,
+        isForwarded: false,
+        hasMedia: false
+    };
+}
+
+/**
+ * Behaviour every WhatsApp engine must share, so callers never need to know which one is running.
+ * Checks run in order against one engine and each reports separately.
+ */
+export async function runWhatsAppEngineContract(harness: WhatsAppEngineHarness): Promise<ContractResult[]> {
+    const { engine, groupId, deliver } = harness;
+    const results: ContractResult[] = [];
+    let sentId: string | undefined;
+
+    const check = async (name: string, fn: () => Promise<void> | void, skip: boolean = false): Promise<void> => {
+        if (skip) {
+            results.push({ name, passed: true, skipped: true });
+            return;
+        }
+        try {
+            await fn();
+            results.push({ name, passed: true });
+        } catch (error) {
+            results.push({ name, passed: false, error: error instanceof Error ? error.message : String(error) });
+        }
+    };
+
+    await check('reports a known engine type', () => {
+        assert(WHATSAPP_ENGINE_TYPES.includes(engine.getEngineType()), `unknown engine type ${engine.getEngineType()}`);
+    });
+
+    await check('getGroups rejects with WhatsAppUnavailableError before initialize', async () => {
+        const error = await engine.getGroups().then(() => null, (e: unknown) => e);
+        assert(error instanceof WhatsAppUnavailableError, 'expected WhatsAppUnavailableError');
+    });
+
+    await check('is ready after initialize', async () => {
+        await engine.initialize();
+        assert(engine.isReady(), 'isReady() is false');
+    });
+
+    await check('getGroups returns normalized groups', async () => {
+        const groups = await engine.getGroups();
+        assert(Array.isArray(groups), 'groups is not an array');
+        for (const group of groups) {
+            assert(typeof group.id === 'string' && group.id.length > 0, 'group id is not a string');
+            assert(typeof group.name === 'string', 'group name is not a string');
+            assert(typeof group.participantsCount === 'number', 'participantsCount is not a number');
+            assert(group.description === null || typeof group.description === 'string', 'description is not string | null');
+        }
+        assert(groups.some(group => group.id === groupId), `group ${groupId} is missing`);
+    });
+
+    await check('getClientInfo reports the engine type', async () => {
+        const info = await engine.getClientInfo();
+        assert(info !== null, 'no client info while ready');
+        assert(info.engine === engine.getEngineType(), `client info engine ${info.engine} != ${engine.getEngineType()}`);
+    });
+
+    await check('getEngineStatus has the shared shape', () => {
+        const status = getEngineStatus(engine);
+        assert(status.engine === engine.getEngineType(), 'status engine mismatch');
+        assert(status.isReady === true, 'status isReady mismatch');
+        assert(typeof status.queue.queueSize === 'number', 'queue status missing');
+    });
+
+    await check('sendTextToGroup resolves with a message ID', async () => {
+        sentId = await engine.sendTextToGroup(groupId, 'contract: text');
+        assert(typeof sentId === 'string' && sentId.length > 0, 'no message ID returned');
+    });
+
+    await check('sendMessageToGroup accepts a quoted reply', async () => {
+        const id = await engine.sendMessageToGroup(groupId, '', 'contract: reply', { type: 'text', quotedMessageId: sentId });
+        assert(typeof id === 'string' && id !== sentId, 'reply did not get its own message ID');
+    });
+
+    await check('edits and deletes a sent message', async () => {
+        assert(sentId, 'nothing was sent');
+        await engine.editMessage(groupId, sentId, 'contract: edited');
+        await engine.deleteMessage(groupId, sentId);
+    });
+
+    await check('delivers incoming messages only from listening groups, through the filter', () => {
+        const received: string[] = [];
+        const handler = (message: WhatsAppMessage) => received.push(message.text);
+        engine.onMessage(handler);
+        engine.setMessageFilter(message => !message.text.includes('blocked'));
+
+        deliver!(incomingMessage(groupId, 'not listening yet'));
+        engine.startListeningToGroups([groupId]);
+        assert(engine.getListeningGroups().includes(groupId), 'listening group not reported');
+        deliver!(incomingMessage(groupId, 'hello'));
+        deliver!(incomingMessage(groupId, 'blocked'));
+        engine.removeMessageHandler(handler);
+        deliver!(incomingMessage(groupId, 'after removal'));
+
+        engine.setMessageFilter(null);
+        engine.stopListeningToGroups([groupId]);
+        assert(received.length === 1 && received[0] === 'hello', `received ${JSON.stringify(received)}`);
+    }, !deliver);
+
+    await check('shuts down', async () => {
+        await engine.shutdown();
+        assert(!engine.isReady(), 'still ready after shutdown');
+    });
+
+    return results;
+}
+
+/**
+ * Switching engines must keep handlers, the filter and listening groups
+ */
+export async function runEngineSwitchContract(): Promise<ContractResult[]> {
+    const groupId = '120363000000000001@g.us';
+    const created: FakeWhatsAppEngine[] = [];
+    const host = new SwitchableWhatsAppEngine('wwebjs', type => {
+        const engine = new FakeWhatsAppEngine(type);
+        created.push(engine);
+        return engine;
+    });
+    const received: string[] = [];
+
+    try {
+        await host.initialize();
+        host.onMessage(message => received.push(message.text));
+        host.setMessageFilter(message => !message.text.includes('blocked'));
+        host.startListeningToGroups([groupId]);
+
+        await host.switchEngine('baileys');
+        await new Promise(resolve => setImmediate(resolve));
+        const current = created[created.length - 1];
+
+        assert(created.length === 2, 'no new engine was created');
+        assert(host.getEngineType() === 'baileys', 'engine type did not change');
+        assert(!created[0].isReady(), 'previous engine is still running');
+        assert(host.isReady(), 'new engine was not initialized');
+        assert(host.getListeningGroups().includes(groupId), 'listening groups were lost');
+
+        current.receive(incomingMessage(groupId, 'after switch'));
+        current.receive(incomingMessage(groupId, 'blocked'));
+        assert(received.length === 1 && received[0] === 'after switch', `received ${JSON.stringify(received)}`);
+
+        await host.shutdown();
+        return [{ name: 'switching engines keeps handlers, filter and listening groups', passed: true }];
+    } catch (error) {
+        return [{
+            name: 'switching engines keeps handlers, filter and listening groups',
+            passed: false,
+            error: error instanceof Error ? error.message : String(error)
+        }];
+    }
+}